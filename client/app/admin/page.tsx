@@ -0,0 +1,125 @@
+"use client"
+
+import { useState } from "react"
+import { useActiveAccount } from "thirdweb/react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AdminActionCard } from "@/components/admin/admin-action-card"
+import { BatchPanel } from "@/components/admin/batch-panel"
+import { ADMIN_ACTIONS, ADMIN_CONTRACT_LABELS, type AdminContract } from "@/lib/admin/actions"
+import type { AdminCall } from "@/lib/admin/batch"
+import { useAdminAccess } from "@/lib/hooks/useAdmin"
+import { usePoolRegistry } from "@/lib/hooks/usePools"
+import { Loader2, Settings } from "lucide-react"
+
+const CONTRACTS = Object.keys(ADMIN_CONTRACT_LABELS) as AdminContract[]
+
+export default function AdminPage() {
+  const account = useActiveAccount()
+  const { hasAccess, isOwner, isSafeSigner, safeAddress, isLoading } = useAdminAccess()
+  const { pools } = usePoolRegistry()
+  const [batch, setBatch] = useState<AdminCall[]>([])
+
+  const poolOptions = pools.map((pool) => ({ value: pool.address, label: `${pool.name} (${pool.category})` }))
+
+  if (!account) {
+    return (
+      <main className="pt-16 pb-20">
+        <div className="max-w-7xl mx-auto px-6 py-12">
+          <Card className="text-center py-12">
+            <CardContent>
+              <h3 className="text-xl font-bold mb-2">Connect Wallet</h3>
+              <p className="text-neutral-400">Connect an owner wallet to manage the protocol</p>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    )
+  }
+
+  if (isLoading) {
+    return (
+      <main className="pt-16 pb-20">
+        <div className="max-w-7xl mx-auto px-6 py-12 flex items-center justify-center">
+          <Loader2 className="w-8 h-8 animate-spin text-orange-500" />
+        </div>
+      </main>
+    )
+  }
+
+  if (!hasAccess) {
+    return (
+      <main className="pt-16 pb-20">
+        <div className="max-w-7xl mx-auto px-6 py-12">
+          <Card className="text-center py-12">
+            <CardContent>
+              <h3 className="text-xl font-bold mb-2">Owners Only</h3>
+              <p className="text-neutral-400">
+                The admin console is available to the owner of the protocol contracts or a signer of the Safe that owns them
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="pt-16 pb-20">
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <Settings className="h-8 w-8 text-orange-500" />
+            <h1 className="text-4xl font-bold">Admin Console</h1>
+            {isOwner && <Badge className="bg-orange-500/10 text-orange-400 border-orange-500/30">Owner</Badge>}
+            {isSafeSigner && <Badge className="bg-blue-500/10 text-blue-400 border-blue-500/30">Safe Signer</Badge>}
+          </div>
+          <p className="text-neutral-400">
+            Review current parameters, preview the diff of every change, then send it directly or queue it into an
+            unsigned batch for the multisig.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-start">
+          <div className="lg:col-span-2">
+            <Tabs defaultValue={CONTRACTS[0]}>
+              <TabsList className="w-full justify-start bg-transparent border-b border-neutral-700 h-auto p-0 rounded-none flex-wrap">
+                {CONTRACTS.map((contract) => (
+                  <TabsTrigger
+                    key={contract}
+                    value={contract}
+                    className="data-[state=active]:border-b-2 data-[state=active]:border-orange-500 rounded-none"
+                  >
+                    {ADMIN_CONTRACT_LABELS[contract]}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+
+              {CONTRACTS.map((contract) => (
+                <TabsContent key={contract} value={contract} className="mt-6 space-y-6">
+                  {ADMIN_ACTIONS.filter((action) => action.contract === contract).map((action) => (
+                    <AdminActionCard
+                      key={action.id}
+                      action={action}
+                      keyOptions={contract === "cdoPool" ? poolOptions : undefined}
+                      onQueue={(call) => setBatch((previous) => [...previous, call])}
+                    />
+                  ))}
+                </TabsContent>
+              ))}
+            </Tabs>
+          </div>
+
+          <BatchPanel
+            calls={batch}
+            safeAddress={safeAddress}
+            onRemove={(id) => setBatch((previous) => previous.filter((call) => call.id !== id))}
+            onClear={() => setBatch([])}
+          />
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server"
+import { isAddress, type Hex } from "viem"
+import { eth_getTransactionByHash, getRpcClient } from "thirdweb/rpc"
+import { client } from "@/lib/thirdweb"
+import { DEFAULT_CHAIN, getChain, isSupportedChainId } from "@/lib/chains"
+import { readBetDetailsBatch } from "@/lib/contracts/bet-reader"
+import { extractAttestationCallData, verifyBetAttestation } from "@/lib/ai-attestation"
+import type { AttestationCheck } from "@/lib/ai-validation"
+import { fetchIndexer, getIndexerUrl, type IndexedEvent } from "@/lib/indexer/client"
+
+/**
+ * Check the AI attestation a house bet was created with: the creation transaction's trailing
+ * calldata is decoded and its signature verified against the bet's on-chain details
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ address: string }> }) {
+  const { address } = await params
+  const chainId = Number(new URL(request.url).searchParams.get("chain") || DEFAULT_CHAIN.id)
+
+  if (!isAddress(address)) {
+    return NextResponse.json({ error: "Invalid bet address" }, { status: 400 })
+  }
+  if (!isSupportedChainId(chainId)) {
+    return NextResponse.json({ error: "Unsupported chain" }, { status: 400 })
+  }
+
+  // The creation transaction is found through the indexer
+  const indexerUrl = getIndexerUrl(chainId)
+  if (!indexerUrl) {
+    return NextResponse.json({ error: "No indexer serves this chain" }, { status: 404 })
+  }
+
+  try {
+    const chain = getChain(chainId)
+    const { events } = await fetchIndexer<{ events: IndexedEvent[] }>(indexerUrl, `/bets/${address}`)
+    const creation = events.find((event) => event.name === "HouseBetCreated")
+    if (!creation) {
+      return NextResponse.json({ error: "Not an indexed house bet" }, { status: 404 })
+    }
+
+    const [bet, transaction] = await Promise.all([
+      readBetDetailsBatch(chain, [address]).then(([details]) => details),
+      eth_getTransactionByHash(getRpcClient({ client, chain }), { hash: creation.transactionHash as Hex }),
+    ])
+    if (!bet) {
+      return NextResponse.json({ error: "Bet not found" }, { status: 404 })
+    }
+
+    const callData = extractAttestationCallData(transaction.input)
+    const attestation = callData && await verifyBetAttestation(
+      {
+        wallet: bet.creator,
+        description: bet.description,
+        outcomeDescription: bet.outcomeDescription,
+        duration: Number(bet.expiresAt - bet.createdAt),
+        stakeAmount: Number(bet.stakeAmount) / 1e6,
+        tags: bet.tags,
+      },
+      callData
+    )
+    const check: AttestationCheck = attestation
+      ? {
+          status: attestation.verified ? "verified" : "invalid",
+          transactionHash: creation.transactionHash,
+          result: attestation.result,
+          issuedAt: attestation.issuedAt,
+          expiresAt: attestation.expiresAt,
+        }
+      : { status: "missing", transactionHash: creation.transactionHash }
+
+    return NextResponse.json(check)
+  } catch (error) {
+    console.error("Attestation check error:", error)
+    return NextResponse.json({ error: "Failed to check attestation" }, { status: 500 })
+  }
+}
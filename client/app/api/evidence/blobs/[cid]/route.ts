@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getEvidenceStore } from "@/lib/evidence"
+import { CID_PATTERN, detectImageType } from "@/lib/evidence/content"
+
+/**
+ * Serve an evidence image by CID. Blobs are immutable, so responses cache forever.
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ cid: string }> }) {
+  const { cid } = await params
+
+  if (!CID_PATTERN.test(cid)) {
+    return NextResponse.json({ error: "Invalid CID" }, { status: 400 })
+  }
+
+  try {
+    const bytes = await getEvidenceStore().get(cid)
+    // Only images are served from here; evidence documents are returned by /api/evidence
+    const mimeType = bytes ? detectImageType(bytes) : null
+    if (!bytes || !mimeType) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 })
+    }
+
+    return new NextResponse(Buffer.from(bytes), {
+      headers: {
+        "Content-Type": mimeType,
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-Type-Options": "nosniff",
+      },
+    })
+  } catch (error) {
+    console.error("Evidence read error:", error)
+    return NextResponse.json({ error: "Evidence storage unavailable" }, { status: 503 })
+  }
+}
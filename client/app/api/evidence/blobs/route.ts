@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server"
+import { getEvidenceStore } from "@/lib/evidence"
+import { MAX_EVIDENCE_IMAGE_BYTES, detectImageType } from "@/lib/evidence/content"
+import { createRateLimiter, getClientIp } from "@/lib/rate-limit"
+
+// 30 image uploads per client IP every 10 minutes
+const checkRateLimit = createRateLimiter({ limit: 30, windowMs: 10 * 60 * 1000 })
+
+/**
+ * Read the request body, or return null as soon as it grows past maxBytes
+ */
+async function readBody(request: Request, maxBytes: number): Promise<Uint8Array | null> {
+  if (!request.body) return new Uint8Array()
+
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    size += value.length
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const bytes = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset)
+    offset += chunk.length
+  }
+  return bytes
+}
+
+/**
+ * Upload one evidence image (raw bytes in the request body) and return its CID.
+ * Uploads are anonymous; an image only becomes evidence once a party signs a document referencing it.
+ */
+export async function POST(request: Request) {
+  const rateLimit = checkRateLimit(getClientIp(request))
+  if (!rateLimit.allowed) {
+    return NextResponse.json(
+      { error: "Too many uploads. Please wait before trying again.", code: "RATE_LIMITED" },
+      { status: 429, headers: { "Retry-After": rateLimit.retryAfterSeconds.toString() } }
+    )
+  }
+
+  const declaredLength = Number(request.headers.get("content-length") || 0)
+  if (declaredLength > MAX_EVIDENCE_IMAGE_BYTES) {
+    return NextResponse.json({ error: "Image is larger than 2 MB", code: "TOO_LARGE" }, { status: 413 })
+  }
+
+  // Content-Length is only a claim, so the body is read in chunks and dropped once it passes the limit
+  const bytes = await readBody(request, MAX_EVIDENCE_IMAGE_BYTES)
+  if (!bytes) {
+    return NextResponse.json({ error: "Image is larger than 2 MB", code: "TOO_LARGE" }, { status: 413 })
+  }
+  if (bytes.length === 0) {
+    return NextResponse.json({ error: "Empty upload", code: "BAD_REQUEST" }, { status: 400 })
+  }
+
+  const mimeType = detectImageType(bytes)
+  if (!mimeType) {
+    return NextResponse.json(
+      { error: "Only PNG, JPEG, GIF and WebP images are accepted", code: "UNSUPPORTED_TYPE" },
+      { status: 415 }
+    )
+  }
+
+  try {
+    const cid = await getEvidenceStore().put(bytes)
+    return NextResponse.json({ cid, mimeType, size: bytes.length })
+  } catch (error) {
+    console.error("Evidence upload error:", error)
+    return NextResponse.json({ error: "Evidence storage unavailable", code: "STORE_UNAVAILABLE" }, { status: 503 })
+  }
+}
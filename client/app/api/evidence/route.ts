@@ -0,0 +1,216 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { isAddress, isHex, type Hex } from "viem"
+import { verifySignature } from "thirdweb/auth"
+import { client } from "@/lib/thirdweb"
+import { getChain, isSupportedChainId } from "@/lib/chains"
+import { readBetDetailsBatch } from "@/lib/contracts/bet-reader"
+import { createRateLimiter, getClientIp } from "@/lib/rate-limit"
+import { getEvidenceRecords, getEvidenceStore, recordEvidence } from "@/lib/evidence"
+import {
+  CID_PATTERN,
+  EVIDENCE_IMAGE_TYPES,
+  MAX_EVIDENCE_IMAGES,
+  MAX_EVIDENCE_LINKS,
+  MAX_EVIDENCE_TEXT_LENGTH,
+  decodeEvidence,
+  encodeEvidence,
+  getEvidenceSigningMessage,
+  hashEvidence,
+} from "@/lib/evidence/content"
+import { EVIDENCE_VERSION, type EvidenceContent, type EvidenceEntry, type EvidenceRecord } from "@/lib/evidence/types"
+
+// Bet.BetState values in which the parties can still argue their case (AwaitingResolution, Disputed, Resolved - appeals)
+const EVIDENCE_BET_STATES = [2, 3, 4]
+
+// Signature checks cost an RPC call for smart wallets, so requests are limited per client IP before verifying;
+// a wallet is only charged once its signature verifies: 60 per IP and 20 per wallet every hour
+const checkClientRateLimit = createRateLimiter({ limit: 60, windowMs: 60 * 60 * 1000 })
+const checkWalletRateLimit = createRateLimiter({ limit: 20, windowMs: 60 * 60 * 1000 })
+
+function rateLimited(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: "Too many evidence submissions. Please wait before trying again.", code: "RATE_LIMITED" },
+    { status: 429, headers: { "Retry-After": retryAfterSeconds.toString() } }
+  )
+}
+
+const contentSchema = z.object({
+  version: z.literal(EVIDENCE_VERSION),
+  chainId: z
+    .number()
+    .int()
+    .refine((value) => isSupportedChainId(value), "Unsupported chain"),
+  betAddress: z.string().refine((value) => isAddress(value), "Invalid bet address"),
+  text: z.string().max(MAX_EVIDENCE_TEXT_LENGTH),
+  links: z
+    .array(
+      z
+        .string()
+        .url()
+        .max(500)
+        .refine((value) => /^https?:\/\//i.test(value), "Links must be http(s)")
+    )
+    .max(MAX_EVIDENCE_LINKS),
+  images: z
+    .array(
+      z.object({
+        cid: z.string().regex(CID_PATTERN, "Invalid CID"),
+        mimeType: z.enum(EVIDENCE_IMAGE_TYPES),
+        name: z.string().max(100),
+      })
+    )
+    .max(MAX_EVIDENCE_IMAGES),
+})
+
+const submissionSchema = z.object({
+  content: contentSchema,
+  submitter: z.string().refine((value) => isAddress(value), "Invalid submitter address"),
+  signature: z.string().refine((value) => isHex(value), "Invalid signature"),
+})
+
+async function isValidEvidenceSignature(content: EvidenceContent, contentHash: Hex, submitter: string, signature: Hex) {
+  try {
+    // Covers both EOAs and smart wallets (ERC-1271 / ERC-6492)
+    return await verifySignature({
+      message: getEvidenceSigningMessage(content, contentHash),
+      signature,
+      address: submitter,
+      client,
+      chain: getChain(content.chainId),
+    })
+  } catch (error) {
+    console.error("Evidence signature check error:", error)
+    return false
+  }
+}
+
+/**
+ * Evidence submitted for a bet, with each document re-hashed and each signature re-verified
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const bet = searchParams.get("bet") || ""
+  const chainId = Number(searchParams.get("chainId"))
+
+  if (!isAddress(bet) || !isSupportedChainId(chainId)) {
+    return NextResponse.json({ error: "Invalid bet or chain" }, { status: 400 })
+  }
+
+  try {
+    const store = getEvidenceStore()
+    const records = await getEvidenceRecords(chainId, bet)
+
+    const evidence: EvidenceEntry[] = await Promise.all(
+      records.map(async (record) => {
+        const bytes = await store.get(record.cid).catch((error) => {
+          console.error(`Evidence ${record.cid} read error:`, error)
+          return null
+        })
+        if (!bytes) {
+          return { ...record, content: null, contentValid: false, signatureValid: false }
+        }
+
+        const content = decodeEvidence(bytes)
+        const contentValid = hashEvidence(content) === record.contentHash
+        const signatureValid =
+          contentValid && (await isValidEvidenceSignature(content, record.contentHash, record.submitter, record.signature))
+
+        return { ...record, content, contentValid, signatureValid }
+      })
+    )
+
+    return NextResponse.json({ evidence })
+  } catch (error) {
+    console.error("Evidence list error:", error)
+    return NextResponse.json({ error: "Evidence storage unavailable" }, { status: 503 })
+  }
+}
+
+/**
+ * Store a signed evidence document from one of the bet's parties
+ */
+export async function POST(request: Request) {
+  const clientLimit = checkClientRateLimit(getClientIp(request))
+  if (!clientLimit.allowed) {
+    return rateLimited(clientLimit.retryAfterSeconds)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body", code: "BAD_REQUEST" }, { status: 400 })
+  }
+
+  const parsed = submissionSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid evidence", code: "BAD_REQUEST", issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const content = parsed.data.content as EvidenceContent
+  const submitter = parsed.data.submitter.toLowerCase()
+  const signature = parsed.data.signature as Hex
+
+  if (!content.text.trim() && content.links.length === 0 && content.images.length === 0) {
+    return NextResponse.json({ error: "Evidence is empty", code: "BAD_REQUEST" }, { status: 400 })
+  }
+
+  const contentHash = hashEvidence(content)
+  if (!(await isValidEvidenceSignature(content, contentHash, submitter, signature))) {
+    return NextResponse.json(
+      { error: "Signature does not match the evidence and submitter", code: "INVALID_SIGNATURE" },
+      { status: 401 }
+    )
+  }
+
+  const walletLimit = checkWalletRateLimit(submitter)
+  if (!walletLimit.allowed) {
+    return rateLimited(walletLimit.retryAfterSeconds)
+  }
+
+  try {
+    const [bet] = await readBetDetailsBatch(getChain(content.chainId), [content.betAddress])
+    if (!bet) {
+      return NextResponse.json({ error: "Bet not found", code: "BET_NOT_FOUND" }, { status: 404 })
+    }
+    if (submitter !== bet.creator.toLowerCase() && submitter !== bet.opponent.toLowerCase()) {
+      return NextResponse.json(
+        { error: "Only the creator or opponent can submit evidence", code: "NOT_PARTICIPANT" },
+        { status: 403 }
+      )
+    }
+    if (!EVIDENCE_BET_STATES.includes(bet.state)) {
+      return NextResponse.json(
+        { error: "Evidence can only be submitted once the bet is awaiting resolution", code: "INVALID_STATE" },
+        { status: 409 }
+      )
+    }
+
+    const store = getEvidenceStore()
+    for (const image of content.images) {
+      if (!(await store.get(image.cid))) {
+        return NextResponse.json({ error: `Image ${image.cid} was not uploaded`, code: "MISSING_BLOB" }, { status: 400 })
+      }
+    }
+
+    const record: EvidenceRecord = {
+      cid: await store.put(encodeEvidence(content)),
+      contentHash,
+      chainId: content.chainId,
+      betAddress: content.betAddress.toLowerCase(),
+      submitter,
+      signature,
+      submittedAt: Math.floor(Date.now() / 1000),
+    }
+    await recordEvidence(record)
+
+    return NextResponse.json({ record })
+  } catch (error) {
+    console.error("Evidence submit error:", error)
+    return NextResponse.json({ error: "Evidence storage unavailable", code: "STORE_UNAVAILABLE" }, { status: 503 })
+  }
+}
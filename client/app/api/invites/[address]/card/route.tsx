@@ -0,0 +1,106 @@
+import { ImageResponse } from "next/og"
+import { NextResponse } from "next/server"
+import { DEFAULT_CHAIN } from "@/lib/chains"
+import { getInvitePreview, parseInvite } from "@/lib/invites"
+import { formatUSDC } from "@/lib/utils"
+import { mapBetState } from "@/lib/utils/bet-helpers"
+
+const CARD_SIZE = { width: 1200, height: 630 }
+
+function truncate(text: string, length: number) {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+/**
+ * Open Graph preview card for an invite link, drawn from the bet's on-chain details
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ address: string }> }) {
+  const { address } = await params
+  const { searchParams } = new URL(request.url)
+
+  const invite = parseInvite(
+    address,
+    { chain: searchParams.get("chain"), msg: searchParams.get("msg"), sig: searchParams.get("sig") },
+    DEFAULT_CHAIN.id
+  )
+  if (!invite) {
+    return NextResponse.json({ error: "Invalid invite" }, { status: 400 })
+  }
+
+  const preview = await getInvitePreview(invite)
+  if (!preview) {
+    return NextResponse.json({ error: "Bet not found" }, { status: 404 })
+  }
+
+  const { bet, creatorName, message } = preview
+  const status = mapBetState(bet.state)
+  const expires = new Date(Number(bet.expiresAt) * 1000).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  })
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 64,
+          background: "#000000",
+          color: "#ffffff",
+          borderTop: "12px solid #f97316",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", fontSize: 28, color: "#a3a3a3" }}>
+          <div style={{ display: "flex", color: "#f97316", fontWeight: 700 }}>JUST-A-BET</div>
+          <div style={{ display: "flex" }}>
+            {status === "pending" ? "Open invitation" : status.replace(/_/g, " ").toUpperCase()}
+          </div>
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column" }}>
+          <div style={{ display: "flex", fontSize: 32, color: "#a3a3a3", marginBottom: 16 }}>
+            {creatorName} challenged you
+          </div>
+          <div style={{ display: "flex", fontSize: 56, fontWeight: 700, lineHeight: 1.15 }}>
+            {truncate(bet.description, 110)}
+          </div>
+          {message && (
+            <div
+              style={{
+                display: "flex",
+                marginTop: 28,
+                padding: "16px 24px",
+                borderLeft: "6px solid #f97316",
+                background: "#171717",
+                fontSize: 28,
+                color: "#d4d4d4",
+              }}
+            >
+              “{truncate(message, 140)}”
+            </div>
+          )}
+        </div>
+
+        <div style={{ display: "flex", gap: 64, fontSize: 28 }}>
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", color: "#737373", fontSize: 22 }}>STAKE EACH</div>
+            <div style={{ display: "flex", color: "#f97316", fontWeight: 700 }}>{formatUSDC(bet.stakeAmount)} USDC</div>
+          </div>
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", color: "#737373", fontSize: 22 }}>ENDS</div>
+            <div style={{ display: "flex", fontWeight: 700 }}>{expires}</div>
+          </div>
+        </div>
+      </div>
+    ),
+    {
+      ...CARD_SIZE,
+      headers: { "Cache-Control": "public, max-age=60, s-maxage=60" },
+    }
+  )
+}
@@ -0,0 +1,176 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { isAddress } from "viem"
+import { getRiskAssessmentProvider, validateBetWithAI } from "@/lib/risk-providers"
+import { signValidationResult } from "@/lib/ai-attestation"
+import { createRateLimiter, getClientIp } from "@/lib/rate-limit"
+import { getCachedValidation, recordValidation } from "@/lib/validation-audit"
+import { getPriceContext, parsePriceTarget, type PriceContext } from "@/lib/price-oracle"
+import { fetchPoolRegistry, getPoolCategoryKey, getPoolOptions } from "@/lib/contracts/pool-registry"
+import { DEFAULT_CHAIN, getChain, isSupportedChainId } from "@/lib/chains"
+import {
+  AIValidationError,
+  hashBetContent,
+  hashValidationCacheKey,
+  type AIValidationResult,
+  type AttestedValidationResult,
+  type PoolOption,
+} from "@/lib/ai-validation"
+
+// Verdicts for price bets are reused only while the reference price is fresh
+const PRICE_BET_CACHE_SECONDS = 10 * 60
+
+// The wallet is only a claim in the request body, so fresh LLM calls are limited per client IP first:
+// 30 per IP and 10 per wallet every 10 minutes
+const checkClientRateLimit = createRateLimiter({ limit: 30, windowMs: 10 * 60 * 1000 })
+const checkWalletRateLimit = createRateLimiter({ limit: 10, windowMs: 10 * 60 * 1000 })
+
+// The pool catalogue is read from CDOPoolFactory and refreshed every minute
+const POOL_CACHE_MS = 60 * 1000
+const poolCache = new Map<number, { pools: PoolOption[]; fetchedAt: number }>()
+
+async function getAvailablePools(chainId: number): Promise<PoolOption[]> {
+  const cached = poolCache.get(chainId)
+  if (cached && Date.now() - cached.fetchedAt < POOL_CACHE_MS) {
+    return cached.pools
+  }
+
+  const pools = getPoolOptions(await fetchPoolRegistry(getChain(chainId)))
+  poolCache.set(chainId, { pools, fetchedAt: Date.now() })
+  return pools
+}
+
+const requestSchema = z.object({
+  wallet: z.string().refine((value) => isAddress(value), "Invalid wallet address"),
+  description: z.string().min(1).max(280),
+  outcomeDescription: z.string().min(1).max(1000),
+  duration: z.number().int().positive(),
+  stakeAmount: z.number().positive(),
+  tags: z.array(z.string().max(32)).max(5),
+  chainId: z
+    .number()
+    .int()
+    .refine((value) => isSupportedChainId(value), "Unsupported chain")
+    .default(DEFAULT_CHAIN.id),
+})
+
+/**
+ * Run AI risk validation for a house bet on the server and return a signed attestation
+ */
+export async function POST(request: Request) {
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body", code: "BAD_REQUEST" }, { status: 400 })
+  }
+
+  const parsed = requestSchema.safeParse(body)
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid bet parameters", code: "BAD_REQUEST", issues: parsed.error.issues },
+      { status: 400 }
+    )
+  }
+
+  const betRequest = { ...parsed.data, wallet: parsed.data.wallet.toLowerCase() }
+
+  try {
+    const availablePools = await getAvailablePools(betRequest.chainId)
+    const contentHash = hashValidationCacheKey(betRequest, availablePools.map((pool) => pool.name))
+    const provider = getRiskAssessmentProvider()
+    const betText = `${betRequest.description} ${betRequest.outcomeDescription}`
+
+    // Identical bets get the same verdict - stepping back and forth in the wizard must not re-roll the score
+    const cached = await getCachedValidation(
+      contentHash,
+      provider.promptVersion,
+      provider.model,
+      parsePriceTarget(betText) ? PRICE_BET_CACHE_SECONDS : undefined
+    )
+    let result: AIValidationResult
+    let remaining: number | undefined
+    let priceContext: PriceContext | null = null
+
+    if (cached) {
+      result = {
+        isValid: cached.isValid,
+        riskScore: cached.riskScore,
+        recommendedPool: cached.recommendedPool,
+        confidence: cached.confidence,
+        reasoning: cached.reasoning,
+        warnings: cached.warnings,
+      }
+      priceContext = cached.priceContext ?? null
+    } else {
+      // Only fresh LLM calls count against the rate limits
+      const clientLimit = checkClientRateLimit(getClientIp(request))
+      const rateLimit = clientLimit.allowed ? checkWalletRateLimit(betRequest.wallet) : clientLimit
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          { error: "Too many validation requests. Please wait before trying again.", code: "RATE_LIMITED" },
+          { status: 429, headers: { "Retry-After": rateLimit.retryAfterSeconds.toString() } }
+        )
+      }
+      remaining = Math.min(clientLimit.remaining, rateLimit.remaining)
+
+      // The price API is only called for bets that reach the model
+      priceContext = await getPriceContext(betText)
+
+      result = await validateBetWithAI(
+        betRequest.description,
+        betRequest.outcomeDescription,
+        betRequest.duration,
+        betRequest.stakeAmount,
+        betRequest.tags,
+        availablePools,
+        { provider, priceContext }
+      )
+
+      await recordValidation({
+        betKey: hashBetContent(betRequest),
+        contentHash,
+        promptVersion: provider.promptVersion,
+        provider: provider.name,
+        model: provider.model,
+        isValid: result.isValid,
+        riskScore: result.riskScore,
+        recommendedPool: result.recommendedPool,
+        confidence: result.confidence,
+        reasoning: result.reasoning,
+        warnings: result.warnings || [],
+        priceContext,
+        createdAt: Math.floor(Date.now() / 1000),
+      })
+    }
+
+    // Sign the tags exactly as createBet will receive them - BetFactory routes on the category key in front
+    const categoryKey = result.recommendedPool ? getPoolCategoryKey(availablePools, result.recommendedPool) : null
+    const attestation = await signValidationResult(
+      { ...betRequest, tags: categoryKey ? [categoryKey, ...betRequest.tags] : betRequest.tags },
+      result
+    )
+    const response: AttestedValidationResult = {
+      result,
+      attestation,
+      contentHash,
+      cached: !!cached,
+      priceContext,
+    }
+
+    return NextResponse.json(
+      response,
+      remaining !== undefined ? { headers: { "X-RateLimit-Remaining": remaining.toString() } } : undefined
+    )
+  } catch (error) {
+    console.error("Validate bet route error:", error)
+
+    if (error instanceof AIValidationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === "AI_INVALID_RESPONSE" ? 502 : 503 }
+      )
+    }
+    return NextResponse.json({ error: "AI validation failed", code: "AI_UNAVAILABLE" }, { status: 503 })
+  }
+}
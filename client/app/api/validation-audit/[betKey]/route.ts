@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server"
+import { isHex } from "viem"
+import { getValidationAudit } from "@/lib/validation-audit"
+
+/**
+ * AI verdicts recorded for a bet, keyed by hashBetContent of its on-chain details
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ betKey: string }> }) {
+  const { betKey } = await params
+
+  if (!isHex(betKey) || betKey.length !== 66) {
+    return NextResponse.json({ error: "Invalid bet key" }, { status: 400 })
+  }
+
+  const records = await getValidationAudit(betKey.toLowerCase())
+  return NextResponse.json({ records })
+}
@@ -8,7 +8,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { useActiveAccount } from "thirdweb/react"
 import { useBetDetails } from "@/lib/hooks/useBets"
-import { transformBetData, getTimeRemaining, type BetStatus } from "@/lib/utils/bet-helpers"
+import { transformBetData, getTimeRemaining, isHouseAddress, type BetStatus } from "@/lib/utils/bet-helpers"
 import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
 import { useAcceptBet, useFundBet } from "@/lib/hooks/useBetActions"
 import { useUSDCApproval, useUSDCAllowance, useUSDCBalance } from "@/lib/hooks/useBetCreation"
@@ -17,7 +17,10 @@ import { OutcomeWaitingCard } from "@/components/bets/outcome-waiting-card"
 import { DisputeResponseCard } from "@/components/bets/dispute-response-card"
 import { ClaimWinningsCard } from "@/components/bets/claim-winnings-card"
 import { DisputeStatusCard } from "@/components/bets/dispute-status-card"
+import { AIValidationAuditCard } from "@/components/bets/ai-validation-audit-card"
+import { InviteLinkCard } from "@/components/bets/invite-link-card"
 import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
 
 export default function BetDetailsPage({ params }: { params: Promise<{ id: string }> }) {
   const { id: betAddress } = use(params)
@@ -37,13 +40,13 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
   // Get display names
   const { displayName: creatorDisplay } = useDisplayName(bet?.creator)
   const { displayName: opponentDisplay } = useDisplayName(
-    bet?.opponent === "0x0000000000000000000000000000000000000000" ? undefined : bet?.opponent
+    isHouseAddress(bet?.opponent) ? undefined : bet?.opponent
   )
 
   // Check user role
   const isCreator = account?.address?.toLowerCase() === bet?.creator?.toLowerCase()
   const isOpponent = account?.address?.toLowerCase() === bet?.opponent?.toLowerCase()
-  const isHouseBet = bet?.opponent === "0x0000000000000000000000000000000000000000"
+  const isHouseBet = !!bet?.isHouseBet
   const canAccept = bet?.status === "pending" && isOpponent && !bet?.opponentFunded
 
   // Bet actions
@@ -73,13 +76,13 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
       if (toastId) {
         toast.success("Bet accepted successfully!", { id: toastId })
       }
-      setTimeout(() => refetch(), 2000)
+      refetch()
     }
 
     const onError = (error: any) => {
       console.error("Accept bet error:", error)
       if (toastId) {
-        toast.error("Failed to accept bet", { id: toastId })
+        toastTransactionError("Failed to accept bet", error, { id: toastId })
       }
     }
 
@@ -94,7 +97,7 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
           acceptBet({ onSuccess, onError })
         },
         onError: (error) => {
-          toast.error("Failed to approve USDC", { id: toastId })
+          toastTransactionError("Failed to approve USDC", error, { id: toastId })
         }
       })
     } else {
@@ -116,13 +119,13 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
       if (toastId) {
         toast.success("Bet funded successfully!", { id: toastId })
       }
-      setTimeout(() => refetch(), 2000)
+      refetch()
     }
 
     const onError = (error: any) => {
       console.error("Fund creator error:", error)
       if (toastId) {
-        toast.error("Failed to fund bet", { id: toastId })
+        toastTransactionError("Failed to fund bet", error, { id: toastId })
       }
     }
 
@@ -137,7 +140,7 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
           fundCreator({ onSuccess, onError })
         },
         onError: (error) => {
-          toast.error("Failed to approve USDC", { id: toastId })
+          toastTransactionError("Failed to approve USDC", error, { id: toastId })
         }
       })
     } else {
@@ -341,6 +344,11 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
               </Card>
             )}
 
+            {/* Invite Link - creator shares the pending bet with their opponent */}
+            {isCreator && !isHouseBet && bet.status === "pending" && !bet.opponentFunded && (
+              <InviteLinkCard betAddress={betAddress} opponentName={opponentDisplay} />
+            )}
+
             {/* Action Card - Fund Stake */}
             {((isCreator && !bet.creatorFunded) || (isOpponent && !bet.opponentFunded && bet.status !== "pending")) && (
               <Card className="border-orange-500/50">
@@ -396,9 +404,7 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
             {bet.status === "awaiting_resolution" && rawBetData && (
               (() => {
                 // Get resolution data from raw bet data
-                const resolution = (rawBetData as any).resolution
-                const declaredWinner = resolution?.declaredWinner || ""
-                const disputeDeadline = Number(resolution?.disputeDeadline || 0)
+                const { declaredWinner, disputeDeadline } = rawBetData.resolution
 
                 // Determine who declared by checking who the declared winner is
                 // If outcome is CreatorWins (1), creator declared
@@ -454,20 +460,16 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
               })()
             )}
 
-            {/* 3. Dispute Status - Bet is in dispute */}
-            {bet.status === "in_dispute" && rawBetData && (
-              (() => {
-                const resolution = (rawBetData as any).resolution
-                const disputeReason = resolution?.disputeReason || "No reason provided"
-                const assignedJudge = resolution?.assignedJudge
-
-                return (
-                  <DisputeStatusCard
-                    disputeReason={disputeReason}
-                    assignedJudge={assignedJudge}
-                  />
-                )
-              })()
+            {/* 3. Dispute Status - Bet is in dispute (or was resolved by judges, which can be appealed) */}
+            {(bet.status === "in_dispute" || bet.status === "completed") && (
+              <DisputeStatusCard
+                betAddress={betAddress}
+                creator={bet.creator}
+                opponent={bet.opponent}
+                isDisputed={bet.status === "in_dispute"}
+                userAddress={account?.address}
+                onSuccess={refetch}
+              />
             )}
 
             {/* 4. Claim Winnings - Bet resolved, user is winner */}
@@ -484,9 +486,9 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
                 return (
                   <ClaimWinningsCard
                     betAddress={betAddress}
+                    createdAt={bet.createdAt}
                     stakeAmount={bet.stake}
                     outcome={bet.outcome}
-                    onSuccess={refetch}
                   />
                 )
               })()
@@ -550,6 +552,9 @@ export default function BetDetailsPage({ params }: { params: Promise<{ id: strin
               </CardContent>
             </Card>
 
+            {/* AI Risk Assessment - house bets only, so LPs can see why the pool accepted it */}
+            {isHouseBet && <AIValidationAuditCard bet={bet} />}
+
             {/* Activity Log */}
             <Card>
               <CardHeader>
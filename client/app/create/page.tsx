@@ -9,12 +9,28 @@ import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { validateBetWithAI, AIValidationResult, AVAILABLE_POOLS, getPoolCategoryKey } from "@/lib/groq-ai"
+import {
+  requestBetValidation,
+  encodeAttestationCallData,
+  isAttestationExpired,
+  hashValidationCacheKey,
+  AIValidationError,
+  type AIValidationResult,
+  type ValidationAttestation,
+} from "@/lib/ai-validation"
+import { checkPriceProximity, type PriceContext } from "@/lib/price-oracle"
+import { usePriceProximityRule } from "@/lib/hooks/useRiskValidator"
+import { useActiveChain } from "@/lib/hooks/useActiveChain"
 import { useCreateBet, useUSDCApproval, useUSDCAllowance, useUSDCBalance } from "@/lib/hooks/useBetCreation"
 import { useContractAddresses } from "@/lib/hooks/useContracts"
-import { useAllPoolsStats } from "@/lib/hooks/usePools"
+import { useDisplayName, useResolveOpponent } from "@/lib/hooks/useUsernameRegistry"
+import { useAllPoolsStats, usePoolRegistry } from "@/lib/hooks/usePools"
+import { getPoolCategoryKey, getPoolOptions, resolvePoolForTag } from "@/lib/contracts/pool-registry"
 import { durationToSeconds, formatUSDC } from "@/lib/utils"
 import { toast } from "sonner"
+import { isProtocolError } from "@/lib/transactions/errors"
+import { toastTransactionError } from "@/lib/transactions/toast"
+import { OpponentPicker } from "@/components/bets/opponent-picker"
 
 type Step = "details" | "opponent" | "settings" | "ai-validation" | "review"
 
@@ -22,6 +38,7 @@ export default function CreateBetPage() {
   const account = useActiveAccount()
   const address = account?.address
   const isConnected = !!account
+  const chain = useActiveChain()
   const contractAddresses = useContractAddresses()
   const [step, setStep] = useState<Step>("details")
   const [formData, setFormData] = useState({
@@ -36,6 +53,10 @@ export default function CreateBetPage() {
   })
   const [currentTag, setCurrentTag] = useState("")
   const [aiValidation, setAiValidation] = useState<AIValidationResult | null>(null)
+  const [aiAttestation, setAiAttestation] = useState<ValidationAttestation | null>(null)
+  const [aiError, setAiError] = useState<AIValidationError | null>(null)
+  const [validatedFor, setValidatedFor] = useState<string | null>(null) // wallet:contentHash of the current verdict
+  const [priceContext, setPriceContext] = useState<PriceContext | null>(null)
   const [isValidating, setIsValidating] = useState(false)
 
   // Contract hooks
@@ -45,7 +66,11 @@ export default function CreateBetPage() {
   )
   const { allowance, refetch: refetchAllowance } = useUSDCAllowance(address, contractAddresses.betFactory)
   const { balance: usdcBalance } = useUSDCBalance(address)
+  const { rule: priceProximityRule } = usePriceProximityRule()
   const { pools: allPools } = useAllPoolsStats()
+  const { pools: poolRegistry } = usePoolRegistry()
+  const opponent = useResolveOpponent(formData.opponentName, address)
+  const { displayName: opponentDisplay } = useDisplayName(opponent.resolvedAddress)
 
   const handleAddTag = () => {
     if (currentTag && formData.tags.length < 5) {
@@ -63,7 +88,7 @@ export default function CreateBetPage() {
       case "details":
         return formData.description && formData.outcomeCriteria
       case "opponent":
-        return formData.opponentType === "house" || formData.opponentName
+        return formData.opponentType === "house" || opponent.status === "resolved"
       case "settings":
         return formData.stakeAmount && formData.duration
       case "ai-validation":
@@ -97,106 +122,166 @@ export default function CreateBetPage() {
   }
 
   const handleAIValidation = async () => {
+    if (!address) {
+      toast.error("Please connect your wallet first")
+      return
+    }
+
+    const betContent = {
+      description: formData.description,
+      outcomeDescription: formData.outcomeCriteria,
+      duration: durationToSeconds(Number(formData.duration), formData.durationUnit),
+      stakeAmount: Number(formData.stakeAmount),
+      tags: formData.tags,
+    }
+    const validationKey = `${address.toLowerCase()}:${hashValidationCacheKey(
+      betContent,
+      getPoolOptions(poolRegistry).map((pool) => pool.name)
+    )}`
+
+    // Unchanged bet with a still-valid attestation - keep the verdict we already have
+    if (aiValidation && aiAttestation && validatedFor === validationKey && !isAttestationExpired(aiAttestation)) {
+      return
+    }
+
     setIsValidating(true)
+    setAiAttestation(null)
+    setAiError(null)
     try {
-      const durationInSeconds = durationToSeconds(Number(formData.duration), formData.durationUnit)
-      const result = await validateBetWithAI(
-        formData.description,
-        formData.outcomeCriteria,
-        durationInSeconds,
-        Number(formData.stakeAmount),
-        formData.tags,
-        AVAILABLE_POOLS
-      )
+      const { result, attestation, priceContext } = await requestBetValidation({
+        wallet: address,
+        chainId: chain.id,
+        ...betContent,
+      })
       setAiValidation(result)
-    } catch (error) {
+      setAiAttestation(attestation)
+      setPriceContext(priceContext)
+      setValidatedFor(validationKey)
+    } catch (error: unknown) {
       console.error("AI validation failed:", error)
-      setAiValidation({
-        isValid: false,
-        riskScore: 0,
-        recommendedPool: null,
-        confidence: 0,
-        reasoning: "Failed to validate with AI. Please try again.",
-        warnings: ["AI service error"],
-      })
+      // The bet was never assessed - keep this separate from a rejection by the model
+      setAiValidation(null)
+      setValidatedFor(null)
+      setPriceContext(null)
+      setAiError(
+        error instanceof AIValidationError
+          ? error
+          : new AIValidationError(
+              error instanceof Error && error.message ? error.message : "Failed to reach AI service",
+              "AI_UNAVAILABLE"
+            )
+      )
     } finally {
       setIsValidating(false)
     }
   }
 
-  const handleApprove = async () => {
+  const handleApprove = () => {
     if (!formData.stakeAmount) return
     const toastId = toast.loading("Approving USDC spending...")
 
-    try {
-      await approve(formData.stakeAmount)
-      await refetchAllowance()
-      toast.success("USDC approved successfully!", { id: toastId })
-    } catch (error) {
-      toast.error("Failed to approve USDC", { id: toastId })
-    }
+    approve(formData.stakeAmount, {
+      onSuccess: async () => {
+        await refetchAllowance()
+        toast.success("USDC approved successfully!", { id: toastId })
+      },
+      onError: (error) => {
+        toastTransactionError("Failed to approve USDC", error, { id: toastId })
+      },
+    })
   }
 
-  const handleCreateBet = async () => {
-    console.log("handleCreateBet")
+  const handleCreateBet = () => {
     if (!isConnected) {
       toast.error("Please connect your wallet first")
       return
     }
 
-    const durationInSeconds = durationToSeconds(Number(formData.duration), formData.durationUnit)
-    const opponentIdentifier = formData.opponentType === "house" ? "HOUSE" : formData.opponentName
+    // Pass the address the picker resolved rather than the typed text: BetFactory resolves it again
+    // on-chain, and the registry can't resolve ENS names itself
+    if (formData.opponentType === "friend" && (opponent.status !== "resolved" || !opponent.resolvedAddress)) {
+      toast.error("Choose an opponent that resolves to another player")
+      setStep("opponent")
+      return
+    }
 
-    console.log("opponentIdentifier", opponentIdentifier)
+    const durationInSeconds = durationToSeconds(Number(formData.duration), formData.durationUnit)
+    const opponentIdentifier = formData.opponentType === "house" ? "HOUSE" : opponent.resolvedAddress!
 
-    // For house bets, prepend the category key as the first tag
-    // The smart contract uses the first tag to select the pool via poolFactory.getPoolByCategory()
+    // House bets are created with the tags the attestation was signed over - the server puts the
+    // recommended pool's category key first, which the contract uses to select the pool via
+    // poolFactory.getPoolByCategory()
     let tagsToUse = formData.tags
+    let attestation: `0x${string}` | undefined
 
-    if (formData.opponentType === "house" && aiValidation?.recommendedPool) {
-      const categoryKey = getPoolCategoryKey(aiValidation.recommendedPool)
-      if (categoryKey) {
-        // Prepend category key as first tag
-        tagsToUse = [categoryKey, ...formData.tags]
-        console.log("House bet - using category key as first tag:", categoryKey)
-      } else {
-        toast.error("Failed to map AI pool recommendation to category key")
+    if (formData.opponentType === "house") {
+      if (!aiValidation || !aiAttestation) {
+        toast.error("AI validation is required for house bets")
+        return
+      }
+      if (isAttestationExpired(aiAttestation)) {
+        toast.error("AI validation has expired. Please re-validate your bet.")
+        setStep("ai-validation")
+        handleAIValidation()
+        return
+      }
+
+      tagsToUse = aiAttestation.tags
+      attestation = encodeAttestationCallData(
+        {
+          wallet: address!,
+          description: formData.description,
+          outcomeDescription: formData.outcomeCriteria,
+          duration: durationInSeconds,
+          stakeAmount: Number(formData.stakeAmount),
+          tags: tagsToUse,
+        },
+        aiValidation,
+        aiAttestation
+      )
+
+      // BetRiskValidator would revert on this - catch it before the user pays gas
+      const proximity = checkPriceProximity(
+        { tags: tagsToUse, duration: durationInSeconds, priceContext },
+        priceProximityRule
+      )
+      if (!proximity.passes) {
+        toast.error(proximity.reason || "Bet rejected by the price proximity rule")
         return
       }
     }
 
     const toastId = toast.loading("Creating bet...")
 
-    try {
-      await createBet({
+    createBet(
+      {
         opponentIdentifier,
         stakeAmount: formData.stakeAmount,
         description: formData.description,
         outcomeDescription: formData.outcomeCriteria,
         duration: durationInSeconds,
         tags: tagsToUse,
-      })
-      toast.success("Bet created successfully!", { id: toastId })
-    } catch (error: any) {
-      console.error("Bet creation error:", error)
-
-      // Parse error message for user-friendly display
-      const errorMessage = error?.message || error?.toString() || ""
-
-      if (errorMessage.includes("0xb79fbb6e") || errorMessage.includes("InsufficientPoolLiquidity")) {
-        const poolName = aiValidation?.recommendedPool || "selected pool"
-        toast.error(
-          `Insufficient liquidity in ${poolName}. Please deposit USDC to the pool first or try a different bet category.`,
-          { id: toastId, duration: 6000 }
-        )
-      } else if (errorMessage.includes("InsufficientAllowance")) {
-        toast.error("Please approve USDC spending first", { id: toastId })
-      } else if (errorMessage.includes("InsufficientBalance")) {
-        toast.error("Insufficient USDC balance", { id: toastId })
-      } else {
-        toast.error("Failed to create bet. Please try again.", { id: toastId })
+        attestation,
+      },
+      {
+        onSuccess: () => {
+          toast.success("Bet created successfully!", { id: toastId })
+        },
+        onError: (error) => {
+          console.error("Bet creation error:", error)
+
+          if (isProtocolError(error, "InsufficientPoolLiquidity")) {
+            const poolName = aiValidation?.recommendedPool || "selected pool"
+            toast.error(
+              `Insufficient liquidity in ${poolName}. Please deposit USDC to the pool first or try a different bet category.`,
+              { id: toastId, duration: 6000 }
+            )
+          } else {
+            toastTransactionError("Failed to create bet", error, { id: toastId })
+          }
+        },
       }
-    }
+    )
   }
 
   const getRiskColor = (score: number) => {
@@ -352,7 +437,7 @@ export default function CreateBetPage() {
                 type: "friend" as const,
                 icon: "👤",
                 title: "Challenge a Friend",
-                desc: "Invite a specific person by username or wallet address",
+                desc: "Invite a specific person by username, ENS name or wallet address",
               },
               {
                 type: "house" as const,
@@ -381,11 +466,12 @@ export default function CreateBetPage() {
                       <p className="text-neutral-400 text-sm">{option.desc}</p>
 
                       {option.type === "friend" && formData.opponentType === "friend" && (
-                        <Input
-                          placeholder="Enter username or wallet address"
+                        <OpponentPicker
                           value={formData.opponentName}
-                          onChange={(e) => setFormData({ ...formData, opponentName: e.target.value })}
-                          className="mt-4 bg-neutral-800 border-neutral-700"
+                          onChange={(opponentName) => setFormData({ ...formData, opponentName })}
+                          status={opponent.status}
+                          resolvedAddress={opponent.resolvedAddress}
+                          creator={address}
                         />
                       )}
 
@@ -499,6 +585,22 @@ export default function CreateBetPage() {
                 </div>
               )}
 
+              {!isValidating && aiError && (
+                <div className="border-2 rounded-lg p-6 border-neutral-700 bg-neutral-900">
+                  <h3 className="text-xl font-bold mb-2">
+                    {aiError.code === "RATE_LIMITED" ? "Too Many Validation Requests" : "AI Assessment Unavailable"}
+                  </h3>
+                  <p className="text-neutral-400">
+                    {aiError.code === "AI_UNAVAILABLE" &&
+                      "The AI risk service could not be reached. Your bet was not rejected - please try again."}
+                    {aiError.code === "AI_INVALID_RESPONSE" &&
+                      "The AI returned an unusable assessment. Your bet was not rejected - please try again."}
+                    {aiError.code === "RATE_LIMITED" && aiError.message}
+                    {aiError.code === "BAD_REQUEST" && `Your bet details could not be validated: ${aiError.message}`}
+                  </p>
+                </div>
+              )}
+
               {!isValidating && aiValidation && (
                 <div className={`border-2 rounded-lg p-6 ${getRiskColor(aiValidation.riskScore)}`}>
                   <div className="flex items-center justify-between mb-4">
@@ -512,6 +614,17 @@ export default function CreateBetPage() {
                       {getRiskLabel(aiValidation.riskScore)}
                     </div>
 
+                    {priceContext && (
+                      <div className="bg-white bg-opacity-50 p-3 rounded-lg text-sm">
+                        <span className="font-semibold">Market Price: </span>
+                        {priceContext.asset} ${priceContext.currentPrice.toLocaleString()} vs target $
+                        {priceContext.targetPrice.toLocaleString()} ({(priceContext.gapPercentage / 100).toFixed(2)}% away)
+                        <p className="text-xs mt-1 opacity-75">
+                          Source: {priceContext.source}, {new Date(priceContext.fetchedAt * 1000).toLocaleTimeString()}
+                        </p>
+                      </div>
+                    )}
+
                     {aiValidation.recommendedPool ? (
                       <>
                         <div className="bg-white bg-opacity-50 p-3 rounded-lg">
@@ -521,7 +634,10 @@ export default function CreateBetPage() {
 
                         {/* Check pool liquidity */}
                         {(() => {
-                          const pool = allPools?.find(p => p?.poolInfo?.name === aiValidation.recommendedPool)
+                          // Liquidity comes from the pool BetFactory will actually route the bet to
+                          const categoryKey = getPoolCategoryKey(poolRegistry, aiValidation.recommendedPool)
+                          const routedPool = categoryKey ? resolvePoolForTag(poolRegistry, categoryKey) : null
+                          const pool = allPools?.find(p => p?.poolInfo?.address === routedPool?.address)
                           const stakeAmount = Number(formData.stakeAmount) || 0
                           const availableLiquidity = pool ? pool.availableLiquidityFormatted : 0
 
@@ -530,7 +646,7 @@ export default function CreateBetPage() {
                               <div className="bg-red-100 border border-red-400 p-3 rounded-lg">
                                 <span className="font-semibold text-red-700">⚠️ Insufficient Pool Liquidity</span>
                                 <p className="text-sm mt-1 text-red-600">
-                                  The {aiValidation.recommendedPool} only has ${availableLiquidity.toFixed(2)} USDC available,
+                                  The {pool.poolInfo.name} only has ${availableLiquidity.toFixed(2)} USDC available,
                                   but your bet requires ${stakeAmount.toFixed(2)} USDC.
                                   <br />
                                   <strong>Action Required:</strong> Deposit USDC to the pool first or reduce your stake amount.
@@ -603,7 +719,7 @@ export default function CreateBetPage() {
                     }
                   }}
                   className="flex-1"
-                  disabled={isValidating || !aiValidation?.isValid}
+                  disabled={isValidating || (!aiValidation?.isValid && !aiError)}
                 >
                   {aiValidation?.isValid ? "Review Bet" : "Re-validate"}
                 </Button>
@@ -642,7 +758,12 @@ export default function CreateBetPage() {
                 <h3 className="font-bold uppercase text-sm mb-2 text-orange-500">Match Details</h3>
                 <div className="text-sm">
                   {formData.opponentType === "friend" ? (
-                    <p>Opponent: {formData.opponentName}</p>
+                    <>
+                      <p>Opponent: {opponentDisplay}</p>
+                      {opponent.resolvedAddress && (
+                        <p className="text-xs text-neutral-500 font-mono mt-1 break-all">{opponent.resolvedAddress}</p>
+                      )}
+                    </>
                   ) : (
                     <>
                       <p>Matched with liquidity pool</p>
@@ -0,0 +1,110 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import { headers } from "next/headers"
+import Link from "next/link"
+import { AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { InviteAcceptanceFlow } from "@/components/bets/invite-acceptance-flow"
+import { DEFAULT_CHAIN } from "@/lib/chains"
+import { getInviteSearchParams, getInvitePreview, parseInvite } from "@/lib/invites"
+import { formatUSDC } from "@/lib/utils"
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+interface InvitePageProps {
+  params: Promise<{ address: string }>
+  searchParams: Promise<SearchParams>
+}
+
+function first(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value
+}
+
+// Shared by generateMetadata and the page within one request, so the bet is read once
+const readInvite = cache(async (address: string, chain?: string, msg?: string, sig?: string) => {
+  const invite = parseInvite(address, { chain, msg, sig }, DEFAULT_CHAIN.id)
+  if (!invite) return null
+
+  const preview = await getInvitePreview(invite)
+  return preview ? { invite, preview } : null
+})
+
+async function loadInvite({ params, searchParams }: InvitePageProps) {
+  const { address } = await params
+  const query = await searchParams
+  return readInvite(address, first(query.chain), first(query.msg), first(query.sig))
+}
+
+export async function generateMetadata(props: InvitePageProps): Promise<Metadata> {
+  const loaded = await loadInvite(props)
+  if (!loaded) return { title: "Bet invitation - Just-a-Bet" }
+
+  const { invite, preview } = loaded
+  const requestHeaders = await headers()
+  const host = requestHeaders.get("x-forwarded-host") || requestHeaders.get("host") || "localhost:3000"
+  const protocol = requestHeaders.get("x-forwarded-proto") || (host.startsWith("localhost") ? "http" : "https")
+
+  const title = `${preview.creatorName} challenged you on Just-a-Bet`
+  const description = `${preview.bet.description} - ${formatUSDC(preview.bet.stakeAmount)} USDC each`
+  const image = `/api/invites/${invite.betAddress}/card?${getInviteSearchParams(invite)}`
+
+  return {
+    metadataBase: new URL(`${protocol}://${host}`),
+    title,
+    description,
+    openGraph: { title, description, images: [{ url: image, width: 1200, height: 630 }] },
+    twitter: { card: "summary_large_image", title, description, images: [image] },
+  }
+}
+
+export default async function InvitePage(props: InvitePageProps) {
+  const loaded = await loadInvite(props)
+
+  if (!loaded) {
+    return (
+      <main className="pt-16 pb-20">
+        <div className="max-w-2xl mx-auto px-6 py-12">
+          <Card>
+            <CardContent className="py-12 text-center">
+              <AlertCircle className="w-12 h-12 text-red-500 mx-auto mb-4" />
+              <h3 className="text-xl font-bold mb-2">Invite Not Found</h3>
+              <p className="text-neutral-400 mb-6">This invite link doesn&apos;t point to a bet we can read.</p>
+              <Link href="/explore">
+                <Button variant="outline" className="bg-transparent">
+                  Explore Bets
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    )
+  }
+
+  const { invite, preview } = loaded
+
+  return (
+    <main className="pt-16 pb-20">
+      <div className="max-w-2xl mx-auto px-6 py-12">
+        <InviteAcceptanceFlow
+          betAddress={invite.betAddress}
+          chainId={invite.chainId}
+          creatorName={preview.creatorName}
+          message={preview.message}
+          snapshot={{
+            creator: preview.bet.creator,
+            opponent: preview.bet.opponent,
+            description: preview.bet.description,
+            outcomeDescription: preview.bet.outcomeDescription,
+            stakeAmount: preview.bet.stakeAmount.toString(),
+            expiresAt: Number(preview.bet.expiresAt),
+            state: preview.bet.state,
+            creatorFunded: preview.bet.creatorFunded,
+            opponentFunded: preview.bet.opponentFunded,
+          }}
+        />
+      </div>
+    </main>
+  )
+}
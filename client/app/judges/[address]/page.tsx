@@ -4,7 +4,7 @@ import { use } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { useJudgeProfile } from "@/lib/hooks/useJudgeRegistry"
-import { formatAddress } from "@/lib/utils"
+import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
 import { Scale, Award, TrendingUp, Shield, Calendar, CheckCircle } from "lucide-react"
 
 export default function JudgeProfilePage({ params }: { params: Promise<{ address: string }> }) {
@@ -12,6 +12,7 @@ export default function JudgeProfilePage({ params }: { params: Promise<{ address
   const judgeAddress = address as `0x${string}`
   
   const { profile, isLoading } = useJudgeProfile(judgeAddress)
+  const { displayName } = useDisplayName(judgeAddress)
 
   if (isLoading) {
     return (
@@ -41,7 +42,9 @@ export default function JudgeProfilePage({ params }: { params: Promise<{ address
       <div className="mb-8">
         <div className="flex items-center justify-between mb-4">
           <div>
-            <h1 className="text-4xl font-bold mb-2">{formatAddress(profile.judgeAddress)}</h1>
+            <h1 className="text-4xl font-bold mb-2" title={profile.judgeAddress}>
+              {displayName}
+            </h1>
             <div className="flex items-center gap-2 text-neutral-400">
               <Calendar className="h-4 w-4" />
               <span>Judge since {new Date(Number(profile.registrationTime) * 1000).toLocaleDateString()}</span>
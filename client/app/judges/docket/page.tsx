@@ -0,0 +1,95 @@
+"use client"
+
+import { useActiveAccount } from "thirdweb/react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { DisputeCaseCard } from "@/components/judges/dispute-case-card"
+import { useJudgeDocket } from "@/lib/hooks/useDisputeManager"
+import { Gavel, RefreshCw } from "lucide-react"
+
+export default function JudgeDocketPage() {
+  const account = useActiveAccount()
+  const { data: cases, isLoading, refetch } = useJudgeDocket(account?.address)
+
+  const openCases = cases?.filter((c) => c.status === 0) || []
+  const closedCases = cases?.filter((c) => c.status !== 0) || []
+
+  if (!account) {
+    return (
+      <div className="container mx-auto px-4 py-20">
+        <Card className="text-center py-12">
+          <CardContent>
+            <h3 className="text-xl font-bold mb-2">Connect Wallet</h3>
+            <p className="text-neutral-400">Connect your judge wallet to see the disputes assigned to you</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-20">
+      {/* Header */}
+      <div className="mb-8 flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-3 mb-4">
+            <Gavel className="h-8 w-8 text-orange-500" />
+            <h1 className="text-4xl font-bold">Dispute Docket</h1>
+          </div>
+          <p className="text-neutral-400">
+            Disputes you have been assigned to judge. Review the bet terms and both positions, then vote before the deadline.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-6">
+          {Array.from({ length: 2 }).map((_, i) => (
+            <Card key={i} className="animate-pulse">
+              <CardContent className="pt-6">
+                <div className="h-40 bg-neutral-800 rounded"></div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : !cases || cases.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center text-neutral-400">
+            <p>No disputes assigned to you yet.</p>
+            <p className="text-sm mt-2">Judges are selected for each dispute from the eligible judge pool.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-10">
+          <section>
+            <h2 className="text-2xl font-bold mb-4">Open Cases ({openCases.length})</h2>
+            {openCases.length > 0 ? (
+              <div className="space-y-6">
+                {openCases.map((c) => (
+                  <DisputeCaseCard key={c.disputeId.toString()} dispute={c} onUpdated={() => refetch()} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-neutral-400">Nothing waiting on you.</p>
+            )}
+          </section>
+
+          {closedCases.length > 0 && (
+            <section>
+              <h2 className="text-2xl font-bold mb-4">Closed Cases ({closedCases.length})</h2>
+              <div className="space-y-6">
+                {closedCases.map((c) => (
+                  <DisputeCaseCard key={c.disputeId.toString()} dispute={c} />
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
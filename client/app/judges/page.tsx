@@ -1,14 +1,16 @@
 "use client"
 
 import { Suspense } from "react"
+import Link from "next/link"
 import { useActiveAccount } from "thirdweb/react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
 import { JudgeCard } from "@/components/judges/judge-card"
 import { JudgeStakingPanel } from "@/components/judges/judge-staking-panel"
 import { JudgeRegistrationForm } from "@/components/judges/judge-registration-form"
 import { useJudgeProfile, useActiveJudgesCount, useJudgeRegistryConfig } from "@/lib/hooks/useJudgeRegistry"
-import { Scale, Users, TrendingUp } from "lucide-react"
+import { Scale, Users, TrendingUp, Gavel } from "lucide-react"
 
 function JudgesPageContent() {
   const account = useActiveAccount()
@@ -28,9 +30,19 @@ function JudgesPageContent() {
           <Scale className="h-8 w-8 text-orange-500" />
           <h1 className="text-4xl font-bold">Judge Registry</h1>
         </div>
-        <p className="text-neutral-400">
-          Become a judge and earn rewards by resolving bet disputes fairly and transparently
-        </p>
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-neutral-400">
+            Become a judge and earn rewards by resolving bet disputes fairly and transparently
+          </p>
+          {isRegistered && (
+            <Link href="/judges/docket">
+              <Button className="bg-orange-500 hover:bg-orange-600">
+                <Gavel className="h-4 w-4 mr-2" />
+                My Docket
+              </Button>
+            </Link>
+          )}
+        </div>
       </div>
 
       {/* Stats */}
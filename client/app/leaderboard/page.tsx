@@ -0,0 +1,214 @@
+"use client"
+
+import { useState } from "react"
+import { Trophy, RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import LeaderboardRow from "@/components/leaderboard/leaderboard-row"
+import { useLeaderboardStats, type LeaderboardEntry } from "@/lib/hooks/useUserStats"
+import { useJudgeLeaderboard } from "@/lib/hooks/useJudgeRegistry"
+import type { LeaderboardWindow } from "@/lib/indexer/client"
+
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: "7d", label: "7 Days" },
+  { value: "30d", label: "30 Days" },
+  { value: "all", label: "All Time" },
+]
+
+const formatAmount = (amount: number) =>
+  `$${amount.toLocaleString("en-US", { maximumFractionDigits: 2 })}`
+
+function LoadingRows() {
+  return (
+    <div className="p-4 space-y-3">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <div key={i} className="h-8 bg-neutral-800 rounded animate-pulse"></div>
+      ))}
+    </div>
+  )
+}
+
+function EmptyState({ message }: { message: string }) {
+  return <div className="py-12 text-center text-neutral-400">{message}</div>
+}
+
+export default function LeaderboardPage() {
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("all")
+  const [category, setCategory] = useState("all")
+
+  const { data: leaderboard, isLoading, refetch } = useLeaderboardStats(timeWindow, category)
+  const { data: judges, isLoading: isLoadingJudges } = useJudgeLeaderboard()
+
+  // null means no indexer serves this network
+  const isIndexed = leaderboard !== null
+
+  const renderBettors = (
+    entries: LeaderboardEntry[] | undefined,
+    getValue: (entry: LeaderboardEntry) => string,
+    getDetail: (entry: LeaderboardEntry) => string,
+    emptyMessage: string
+  ) => {
+    if (isLoading) return <LoadingRows />
+    if (!entries || entries.length === 0) return <EmptyState message={emptyMessage} />
+    return entries.map((entry, i) => (
+      <LeaderboardRow
+        key={entry.address}
+        rank={i + 1}
+        address={entry.address}
+        value={getValue(entry)}
+        detail={getDetail(entry)}
+      />
+    ))
+  }
+
+  return (
+    <main className="pt-16 pb-20">
+      <div className="max-w-5xl mx-auto px-6 py-12">
+        {/* Page Header */}
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 uppercase flex items-center gap-3">
+              <Trophy className="w-8 h-8 text-orange-500" />
+              <span>
+                <span className="text-orange-500">TOP</span> PLAYERS
+              </span>
+            </h1>
+            <p className="text-neutral-400">The best bettors, liquidity providers and judges on the platform</p>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-neutral-900 border border-orange-500/20 rounded-lg p-4 mb-8 flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+          <div className="flex gap-2">
+            {WINDOWS.map((option) => (
+              <Button
+                key={option.value}
+                variant={timeWindow === option.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setTimeWindow(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="bg-neutral-800 border-neutral-700 w-full md:w-48">
+              <SelectValue placeholder="All Categories" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              <SelectItem value="Sports">Sports</SelectItem>
+              <SelectItem value="Crypto">Crypto</SelectItem>
+              <SelectItem value="Politics">Politics</SelectItem>
+              <SelectItem value="General">General</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {!isIndexed && (
+          <Card className="mb-8 border-orange-500/30">
+            <CardContent className="pt-6 text-sm text-neutral-400">
+              Bettor and liquidity provider rankings are served by the event indexer, which is not configured for
+              this network. Judge rankings are read directly from the JudgeRegistry.
+            </CardContent>
+          </Card>
+        )}
+
+        <Tabs defaultValue="winners" className="w-full">
+          <TabsList className="w-full justify-start bg-transparent border-b border-neutral-700 h-auto p-0 rounded-none overflow-x-auto">
+            {[
+              { value: "winners", label: "Top Winners" },
+              { value: "volume", label: "Top Volume" },
+              { value: "win-rate", label: "Win Rate" },
+              { value: "lps", label: "Liquidity Providers" },
+              { value: "judges", label: "Judges" },
+            ].map((tab) => (
+              <TabsTrigger
+                key={tab.value}
+                value={tab.value}
+                className="data-[state=active]:border-b-2 data-[state=active]:border-orange-500 rounded-none"
+              >
+                {tab.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <Card className="mt-6">
+            <CardContent className="p-0">
+              <TabsContent value="winners" className="m-0">
+                {renderBettors(
+                  leaderboard?.topWinners,
+                  (entry) => formatAmount(entry.totalWinnings),
+                  (entry) => `${entry.wonBets} won of ${entry.totalBets} bets`,
+                  "No winning bets in this period"
+                )}
+              </TabsContent>
+
+              <TabsContent value="volume" className="m-0">
+                {renderBettors(
+                  leaderboard?.topVolume,
+                  (entry) => formatAmount(entry.totalVolume),
+                  (entry) => `${entry.totalBets} bets`,
+                  "No bets in this period"
+                )}
+              </TabsContent>
+
+              <TabsContent value="win-rate" className="m-0">
+                {renderBettors(
+                  leaderboard?.topWinRate,
+                  (entry) => `${entry.winRate.toFixed(1)}%`,
+                  (entry) => `${entry.wonBets}/${entry.decidedBets} decided bets`,
+                  "Nobody has 3+ decided bets in this period"
+                )}
+              </TabsContent>
+
+              <TabsContent value="lps" className="m-0">
+                {isLoading ? (
+                  <LoadingRows />
+                ) : !leaderboard || leaderboard.topLiquidityProviders.length === 0 ? (
+                  <EmptyState message="No realized LP yield in this period" />
+                ) : (
+                  leaderboard.topLiquidityProviders.map((entry, i) => (
+                    <LeaderboardRow
+                      key={entry.address}
+                      rank={i + 1}
+                      address={entry.address}
+                      value={formatAmount(entry.realizedYield)}
+                      detail={`${entry.withdrawals} withdrawals, ${formatAmount(entry.totalWithdrawn)} withdrawn`}
+                    />
+                  ))
+                )}
+              </TabsContent>
+
+              <TabsContent value="judges" className="m-0">
+                <div className="px-4 pt-3 text-xs text-neutral-500">All-time success rate from the JudgeRegistry</div>
+                {isLoadingJudges ? (
+                  <LoadingRows />
+                ) : !judges || judges.length === 0 ? (
+                  <EmptyState message="No judge has decided a case yet" />
+                ) : (
+                  judges.map((judge, i) => (
+                    <LeaderboardRow
+                      key={judge.address}
+                      rank={i + 1}
+                      address={judge.address}
+                      href={`/judges/${judge.address}`}
+                      value={`${judge.successRate.toFixed(1)}%`}
+                      detail={`${judge.correctDecisions}/${judge.casesJudged} correct, ${judge.reputationPercentage}% reputation`}
+                    />
+                  ))
+                )}
+              </TabsContent>
+            </CardContent>
+          </Card>
+        </Tabs>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,248 @@
+"use client"
+
+import { use, useMemo } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { AlertTriangle, ArrowLeft, RefreshCw } from "lucide-react"
+import { usePoolExposure, usePoolInfo } from "@/lib/hooks/usePools"
+import { useValidationAudit } from "@/lib/hooks/useValidationAudit"
+import { summarizeExposure, type ExposureBucket, type HouseBetExposure } from "@/lib/contracts/pool-exposure"
+import { deriveCategoryFromTags, formatDuration, transformBetData } from "@/lib/utils/bet-helpers"
+import { formatUSDC } from "@/lib/utils"
+
+function formatUSD(amount: bigint) {
+  return `$${Number(formatUSDC(amount)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+/**
+ * AI verdict recorded when the house bet was created - higher scores are safer for the house
+ */
+function RiskScoreBadge({ exposure }: { exposure: HouseBetExposure }) {
+  const bet = useMemo(() => transformBetData(exposure.bet), [exposure.bet])
+  const { data: records, isLoading } = useValidationAudit(bet)
+  const score = records?.[0]?.riskScore
+
+  if (isLoading) return <span className="text-neutral-500">...</span>
+  if (score === undefined) {
+    return (
+      <span className="text-neutral-500" title="No AI verdict recorded for this bet">
+        -
+      </span>
+    )
+  }
+
+  const color =
+    score >= 80
+      ? "bg-green-500/20 text-green-400"
+      : score >= 60
+        ? "bg-yellow-500/20 text-yellow-400"
+        : "bg-red-500/20 text-red-400"
+
+  return <Badge className={`${color} border-0`}>{score}/100</Badge>
+}
+
+function ExposureRow({ exposure, now }: { exposure: HouseBetExposure; now: number }) {
+  const remaining = Number(exposure.bet.expiresAt) - now
+
+  return (
+    <div className="grid grid-cols-12 gap-4 py-3 border-b border-neutral-800 text-sm items-center">
+      <div className="col-span-5">
+        <Link href={`/bets/${exposure.address}`} className="font-medium hover:text-orange-400 line-clamp-1">
+          {exposure.bet.description}
+        </Link>
+        <div className="flex flex-wrap gap-1 mt-1">
+          {exposure.bet.tags.map((tag) => (
+            <Badge key={tag} className="bg-neutral-800 text-neutral-400 border-0 text-xs">
+              {tag}
+            </Badge>
+          ))}
+          {!exposure.routedByFactory && (
+            <Badge className="bg-orange-500/20 text-orange-400 border-0 text-xs">Direct match</Badge>
+          )}
+        </div>
+      </div>
+      <div className="col-span-2">{deriveCategoryFromTags(exposure.bet.tags)}</div>
+      <div className="col-span-2 text-right font-medium">{formatUSD(exposure.matchedAmount)}</div>
+      <div className="col-span-2 text-right">
+        <div>{new Date(Number(exposure.bet.expiresAt) * 1000).toLocaleDateString()}</div>
+        <div className={`text-xs ${remaining > 0 ? "text-neutral-500" : "text-orange-400"}`}>
+          {remaining > 0 ? `in ${formatDuration(remaining)}` : "awaiting resolution"}
+        </div>
+      </div>
+      <div className="col-span-1 text-right">
+        <RiskScoreBadge exposure={exposure} />
+      </div>
+    </div>
+  )
+}
+
+function ConcentrationList({ buckets, total }: { buckets: ExposureBucket[]; total: bigint }) {
+  if (buckets.length === 0) {
+    return <p className="text-sm text-neutral-400">No open house bets.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {buckets.map((bucket) => {
+        const percent = total > BigInt(0) ? Number((bucket.amount * BigInt(10000)) / total) / 100 : 0
+        return (
+          <div key={bucket.label}>
+            <div className="flex justify-between text-sm mb-1">
+              <span>
+                {bucket.label} <span className="text-neutral-500">({bucket.count})</span>
+              </span>
+              <span className="text-neutral-400">
+                {formatUSD(bucket.amount)} · {percent.toFixed(1)}%
+              </span>
+            </div>
+            <Progress value={percent} className="bg-neutral-800 [&>div]:bg-orange-500" />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default function PoolExposurePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: poolAddress } = use(params)
+  const { pool: poolInfo } = usePoolInfo(poolAddress)
+  const { data: exposure, isLoading, refetch } = usePoolExposure(poolAddress)
+
+  const now = Math.floor(Date.now() / 1000)
+  const summary = exposure ? summarizeExposure(exposure, now) : null
+
+  return (
+    <main className="pt-16 pb-20">
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex justify-between items-start mb-12">
+          <div>
+            <Link
+              href={`/pools/${poolAddress}`}
+              className="text-sm text-neutral-400 hover:text-white inline-flex items-center gap-1 mb-4"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              {poolInfo?.name || "Pool"}
+            </Link>
+            <h1 className="text-4xl font-bold mb-2 uppercase">
+              <span className="text-orange-500">House</span> Exposure
+            </h1>
+            <p className="text-neutral-400">
+              Open house bets this pool matched. LPs lose the matched stake of every bet that resolves against the house.
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => refetch()} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading || !exposure || !summary ? (
+          <div className="space-y-6">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="h-40 bg-neutral-900 border border-orange-500/20 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : (
+          <>
+            {/* Stats Overview */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-12">
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-3xl font-bold text-orange-500 mb-2">{exposure.bets.length}</div>
+                  <div className="text-xs text-neutral-400 uppercase">Open House Bets</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-3xl font-bold text-red-400 mb-2">{formatUSD(summary.worstCaseLoss)}</div>
+                  <div className="text-xs text-neutral-400 uppercase">
+                    Worst-Case Loss · {(summary.worstCaseLossBps / 100).toFixed(1)}% of Pool
+                  </div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-3xl font-bold text-orange-500 mb-2">{formatUSD(exposure.poolBalance)}</div>
+                  <div className="text-xs text-neutral-400 uppercase">Pool Balance</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="pt-6">
+                  <div className="text-3xl font-bold text-orange-500 mb-2">
+                    {formatUSD(exposure.poolBalance - summary.worstCaseLoss)}
+                  </div>
+                  <div className="text-xs text-neutral-400 uppercase">Balance After Worst Case</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {exposure.activeMatchedAmount !== summary.worstCaseLoss && (
+              <div className="bg-orange-500/10 border border-orange-500/30 rounded-lg p-3 text-sm text-orange-200 flex gap-2 mb-6">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                The pool still books {formatUSD(exposure.activeMatchedAmount)} as matched. Bets that have already
+                resolved stay in that figure until a matcher settles them with the pool.
+              </div>
+            )}
+
+            {/* Concentration */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-12">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">By Tag</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ConcentrationList buckets={summary.byTag} total={summary.worstCaseLoss} />
+                  {summary.byTag.length > 0 && (
+                    <p className="text-xs text-neutral-500 mt-4">
+                      A bet counts towards each of its tags, so shares can add up to more than 100%.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">By Expiry</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ConcentrationList
+                    buckets={summary.byExpiry.filter((bucket) => bucket.count > 0)}
+                    total={summary.worstCaseLoss}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Open bets */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Open House Bets</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {exposure.bets.length === 0 ? (
+                  <p className="text-sm text-neutral-400">This pool has no open house bets.</p>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-12 gap-4 text-xs text-neutral-400 uppercase pb-2 border-b border-neutral-800">
+                      <div className="col-span-5">Bet</div>
+                      <div className="col-span-2">Category</div>
+                      <div className="col-span-2 text-right">House Stake</div>
+                      <div className="col-span-2 text-right">Expires</div>
+                      <div className="col-span-1 text-right">AI Risk</div>
+                    </div>
+                    {exposure.bets.map((entry) => (
+                      <ExposureRow key={entry.address} exposure={entry} now={now} />
+                    ))}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </main>
+  )
+}
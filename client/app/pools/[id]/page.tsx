@@ -1,19 +1,28 @@
 "use client"
 
 import { useState, use, useCallback } from "react"
-import { ArrowLeft, RefreshCw, Loader2 } from "lucide-react"
+import { ArrowLeft, RefreshCw, Loader2, ShieldAlert } from "lucide-react"
 import Link from "next/link"
 import { useActiveAccount } from "thirdweb/react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { usePoolStats, useUserPositions, useDepositToPool, useWithdrawFromPool, useTierConfig } from "@/lib/hooks/usePools"
+import {
+  usePoolInfo,
+  usePoolStats,
+  useWithdrawalState,
+  useDepositToPool,
+  useWithdrawFromPool,
+  useWithdrawAllFromPool,
+  useTierConfig,
+} from "@/lib/hooks/usePools"
+import PositionWithdrawalCard from "@/components/pools/position-withdrawal-card"
+import WithdrawAllDialog from "@/components/pools/withdraw-all-dialog"
+import PoolAnalyticsCard from "@/components/pools/pool-analytics-card"
 import { useUSDCApproval, useUSDCAllowance, useUSDCBalance } from "@/lib/hooks/useBetCreation"
-import { getContractAddresses } from "@/lib/contracts/addresses"
 import { toast } from "sonner"
-import { waitForReceipt } from "thirdweb"
-import { client, mantleSepolia } from "@/lib/thirdweb"
+import { toastTransactionError } from "@/lib/transactions/toast"
 
 export default function PoolDetailsPage({ params }: { params: Promise<{ id: string }> }) {
   const resolvedParams = use(params)
@@ -25,24 +34,16 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
 
   // Real blockchain data
   const { data: poolStats, isLoading: isLoadingStats, refetch: refetchStats } = usePoolStats(poolAddress)
-  const { data: userPositions, isLoading: isLoadingPositions, refetch: refetchPositions } = useUserPositions(poolAddress, account?.address)
+  const { data: withdrawalState, isLoading: isLoadingPositions, refetch: refetchPositions } = useWithdrawalState(poolAddress, account?.address)
+  const userPositions = withdrawalState?.positions
   const { tiers } = useTierConfig()
   const { balance: usdcBalanceRaw } = useUSDCBalance(account?.address)
   const usdcBalance = usdcBalanceRaw ? Number(usdcBalanceRaw) / 1e6 : 0
 
-  // Get pool info from addresses config
-  const addresses = getContractAddresses(5003)
-  const poolInfo = Object.values(addresses.pools).find(p => p.address.toLowerCase() === poolAddress.toLowerCase())
+  // Get pool info from the CDOPoolFactory registry
+  const { pool: poolInfo, isLoading: isLoadingPool } = usePoolInfo(poolAddress)
 
-  // Pool descriptions
-  const descriptions: Record<string, string> = {
-    sports: "Back the house in sports betting markets. Earn yield from NBA, NFL, and more.",
-    crypto: "Provide liquidity for crypto prediction markets. BTC, ETH price movements.",
-    politics: "Support political prediction markets. Elections, policy outcomes, and more.",
-    general: "Diversified pool for general betting markets across all categories.",
-  }
-
-  const baseAPY = 10
+  const baseAPY = poolInfo?.apy ?? 0
   const selectedTierConfig = tiers[selectedTier]
   const totalAPY = baseAPY + (selectedTierConfig?.apyBoost || 0)
 
@@ -52,6 +53,7 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
   const allowance = allowanceRaw || BigInt(0)
   const { deposit, isPending: isDepositing } = useDepositToPool(poolAddress)
   const { withdraw, isPending: isWithdrawing } = useWithdrawFromPool(poolAddress)
+  const { withdrawAll, isPending: isWithdrawingAll } = useWithdrawAllFromPool(poolAddress)
 
   const handleDeposit = useCallback(async () => {
     if (!depositAmount || Number(depositAmount) <= 0) {
@@ -79,49 +81,32 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
       const toastId = toast.loading("Approving USDC spending...")
 
       approveUSDC(depositAmount, {
-        onSuccess: async (result) => {
-          console.log("Approval transaction submitted:", result)
-          toast.loading("Waiting for approval confirmation...", { id: toastId })
-
-          try {
-            // Wait for the approval transaction to be mined
-            const receipt = await waitForReceipt({
-              client,
-              chain: mantleSepolia,
-              transactionHash: result.transactionHash,
-            })
-
-            console.log("Approval confirmed:", receipt)
-            toast.success("USDC approved! Proceeding with deposit...", { id: toastId })
-
-            // Refetch allowance to get updated value
-            await refetchAllowance()
-
-            // Now trigger deposit
-            const depositToastId = toast.loading("Confirming deposit transaction...")
-
-            deposit(depositAmount, selectedTier, {
-              onSuccess: () => {
-                toast.success("Deposit successful!", { id: depositToastId })
-                setDepositAmount("")
-                setTimeout(() => {
-                  refetchStats()
-                  refetchPositions()
-                }, 2000)
-              },
-              onError: (error) => {
-                console.error("Deposit failed:", error)
-                toast.error("Deposit failed. Please try again.", { id: depositToastId })
-              }
-            })
-          } catch (err) {
-            console.error("Error waiting for approval:", err)
-            toast.error("Approval confirmation failed", { id: toastId })
-          }
+        onSuccess: async (receipt) => {
+          console.log("Approval confirmed:", receipt)
+          toast.success("USDC approved! Proceeding with deposit...", { id: toastId })
+
+          // Refetch allowance to get updated value
+          await refetchAllowance()
+
+          // Now trigger deposit
+          const depositToastId = toast.loading("Confirming deposit transaction...")
+
+          deposit(depositAmount, selectedTier, {
+            onSuccess: () => {
+              toast.success("Deposit successful!", { id: depositToastId })
+              setDepositAmount("")
+              refetchStats()
+              refetchPositions()
+            },
+            onError: (error) => {
+              console.error("Deposit failed:", error)
+              toastTransactionError("Deposit failed", error, { id: depositToastId })
+            }
+          })
         },
         onError: (error) => {
           console.error("Approval failed:", error)
-          toast.error("Approval failed. Please try again.", { id: toastId })
+          toastTransactionError("Approval failed", error, { id: toastId })
         }
       })
     } else {
@@ -132,48 +117,73 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
         onSuccess: () => {
           toast.success("Deposit successful!", { id: toastId })
           setDepositAmount("")
-          setTimeout(() => {
-            refetchStats()
-            refetchPositions()
-          }, 2000)
+          refetchStats()
+          refetchPositions()
         },
         onError: (error) => {
           console.error("Deposit failed:", error)
-          toast.error("Deposit failed. Please try again.", { id: toastId })
+          toastTransactionError("Deposit failed", error, { id: toastId })
         }
       })
     }
   }, [depositAmount, account, allowance, selectedTier, approveUSDC, deposit, refetchAllowance, refetchStats, refetchPositions])
 
-  const handleWithdraw = useCallback((positionId: number) => {
+  const handleWithdraw = useCallback((positionId: number, isEarly: boolean) => {
     if (!account?.address) {
       toast.error("Please connect your wallet")
       return
     }
 
-    const toastId = toast.loading("Confirming withdrawal transaction...")
+    const toastId = toast.loading(
+      isEarly ? "Confirming early withdrawal (fee applies)..." : "Confirming withdrawal transaction..."
+    )
 
     withdraw(positionId, {
       onSuccess: () => {
         toast.success("Withdrawal successful!", { id: toastId })
-        setTimeout(() => {
-          refetchStats()
-          refetchPositions()
-        }, 2000)
+        refetchStats()
+        refetchPositions()
       },
       onError: (error) => {
         console.error("Withdrawal failed:", error)
-        toast.error("Withdrawal failed. Please try again.", { id: toastId })
+        toastTransactionError("Withdrawal failed", error, { id: toastId })
       }
     })
   }, [account, withdraw, refetchStats, refetchPositions])
 
+  const handleWithdrawAll = useCallback((onDone: () => void) => {
+    const toastId = toast.loading("Confirming withdrawal of all unlocked positions...")
+
+    withdrawAll({
+      onSuccess: () => {
+        toast.success("Unlocked positions withdrawn!", { id: toastId })
+        onDone()
+        refetchStats()
+        refetchPositions()
+      },
+      onError: (error) => {
+        console.error("Withdraw all failed:", error)
+        toastTransactionError("Withdrawal failed", error, { id: toastId })
+      }
+    })
+  }, [withdrawAll, refetchStats, refetchPositions])
+
   const handleRefresh = () => {
     refetchStats()
     refetchPositions()
     toast.success("Data refreshed!")
   }
 
+  if (isLoadingPool) {
+    return (
+      <main className="pt-16 pb-20">
+        <div className="flex items-center justify-center py-24">
+          <Loader2 className="w-8 h-8 animate-spin text-orange-500" />
+        </div>
+      </main>
+    )
+  }
+
   if (!poolInfo) {
     return (
       <main className="pt-16 pb-20">
@@ -202,10 +212,18 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
               Back to Pools
             </Button>
           </Link>
-          <Button variant="outline" onClick={handleRefresh} disabled={isLoading}>
-            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
-            Refresh
-          </Button>
+          <div className="flex gap-2">
+            <Link href={`/pools/${poolAddress}/exposure`}>
+              <Button variant="outline">
+                <ShieldAlert className="w-4 h-4 mr-2" />
+                House Exposure
+              </Button>
+            </Link>
+            <Button variant="outline" onClick={handleRefresh} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -233,7 +251,7 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
                 ) : (
                   <>
                     <p className="text-neutral-400">
-                      {descriptions[poolInfo.category.toLowerCase()] || descriptions.general}
+                      {poolInfo.description}
                     </p>
 
                     {/* Stats Grid */}
@@ -291,6 +309,16 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
                       <span className="text-neutral-400">Category:</span>
                       <span>{poolInfo.category}</span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-neutral-400">Bet Stake Range:</span>
+                      <span>
+                        ${poolInfo.minStake.toLocaleString()} - ${poolInfo.maxStake.toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-neutral-400">Max Utilization:</span>
+                      <span>{(poolInfo.maxUtilization / 100).toFixed(0)}%</span>
+                    </div>
                     <div className="flex justify-between">
                       <span className="text-neutral-400">Lock Periods:</span>
                       <span>Flexible, 30d, 90d, 365d</span>
@@ -303,6 +331,9 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
                 </div>
               </CardContent>
             </Card>
+
+            {/* History */}
+            <PoolAnalyticsCard poolAddress={poolAddress} utilizationTarget={poolInfo.config.utilizationTarget} />
           </div>
 
           {/* Sidebar */}
@@ -423,7 +454,17 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
             {/* Your Positions */}
             <Card>
               <CardHeader>
-                <CardTitle className="text-lg">Your Positions</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">Your Positions</CardTitle>
+                  {withdrawalState && withdrawalState.positions.length > 1 && (
+                    <WithdrawAllDialog
+                      positions={withdrawalState.positions}
+                      state={withdrawalState.state}
+                      isWithdrawing={isWithdrawingAll}
+                      onConfirm={handleWithdrawAll}
+                    />
+                  )}
+                </div>
               </CardHeader>
               <CardContent>
                 {!account?.address ? (
@@ -434,74 +475,22 @@ export default function PoolDetailsPage({ params }: { params: Promise<{ id: stri
                   <div className="flex items-center justify-center py-6">
                     <Loader2 className="w-6 h-6 animate-spin text-orange-500" />
                   </div>
-                ) : !userPositions || userPositions.length === 0 ? (
+                ) : !withdrawalState || !userPositions || userPositions.length === 0 ? (
                   <div className="text-sm text-neutral-400 text-center py-6">
                     No positions yet. Deposit to get started!
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {userPositions.map((position) => {
-                      const tierInfo = tiers[position.tier]
-                      const lockEndDate = new Date(Number(position.lockEndTime) * 1000)
-                      const now = new Date()
-                      const isLocked = position.isLocked
-                      const daysRemaining = isLocked
-                        ? Math.ceil((lockEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24))
-                        : 0
-
-                      return (
-                        <div
-                          key={position.id}
-                          className="p-3 bg-neutral-900 border border-neutral-700 rounded space-y-2"
-                        >
-                          <div className="flex justify-between items-start">
-                            <div>
-                              <div className="font-bold text-sm">${position.depositAmountFormatted.toFixed(2)}</div>
-                              <div className="text-xs text-neutral-400">{tierInfo?.name}</div>
-                            </div>
-                            {isLocked ? (
-                              <Badge className="bg-orange-500/20 text-orange-400 border-0 text-xs">
-                                Locked {daysRemaining}d
-                              </Badge>
-                            ) : (
-                              <Badge className="bg-green-500/20 text-green-400 border-0 text-xs">
-                                Unlocked
-                              </Badge>
-                            )}
-                          </div>
-
-                          <div className="text-xs text-neutral-500 space-y-1">
-                            <div className="flex justify-between">
-                              <span>APY Boost:</span>
-                              <span>+{tierInfo?.apyBoost || 0}%</span>
-                            </div>
-                            <div className="flex justify-between">
-                              <span>Shares:</span>
-                              <span>{position.shares.toString()}</span>
-                            </div>
-                          </div>
-
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="w-full mt-2"
-                            onClick={() => handleWithdraw(position.id)}
-                            disabled={isLocked || isWithdrawing}
-                          >
-                            {isWithdrawing ? (
-                              <>
-                                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
-                                Withdrawing...
-                              </>
-                            ) : isLocked ? (
-                              `Locked for ${daysRemaining}d`
-                            ) : (
-                              "Withdraw"
-                            )}
-                          </Button>
-                        </div>
-                      )
-                    })}
+                    {userPositions.map((position) => (
+                      <PositionWithdrawalCard
+                        key={position.id}
+                        position={position}
+                        state={withdrawalState.state}
+                        baseApyBps={Math.round(baseAPY * 100)}
+                        isWithdrawing={isWithdrawing}
+                        onWithdraw={handleWithdraw}
+                      />
+                    ))}
                   </div>
                 )}
               </CardContent>
@@ -49,10 +49,17 @@ export default function PoolsPage() {
             </h1>
             <p className="text-neutral-400">Provide liquidity and earn yield from house bets</p>
           </div>
-          <Button variant="outline" onClick={handleRefresh} disabled={isLoading}>
-            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
-            Refresh
-          </Button>
+          <div className="flex gap-2">
+            {account && (
+              <Link href="/pools/portfolio">
+                <Button variant="outline">My CDO Tokens</Button>
+              </Link>
+            )}
+            <Button variant="outline" onClick={handleRefresh} disabled={isLoading}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* Stats Overview */}
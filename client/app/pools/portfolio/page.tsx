@@ -0,0 +1,232 @@
+"use client"
+
+import Link from "next/link"
+import { useActiveAccount } from "thirdweb/react"
+import { formatUnits } from "viem"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AlertTriangle, ArrowLeft, RefreshCw } from "lucide-react"
+import CDOTokenDialog from "@/components/pools/cdo-token-dialog"
+import { CDO_SHARE_DECIMALS, useCDOPortfolio } from "@/lib/hooks/useCDOTokens"
+import { formatUSDC } from "@/lib/utils"
+
+const TIER_NAMES = ["Flexible", "30 Days", "90 Days", "365 Days"]
+
+function formatUSD(amount: bigint) {
+  const value = Number(formatUSDC(amount < BigInt(0) ? -amount : amount))
+  const formatted = value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  return `${amount < BigInt(0) ? "-" : ""}$${formatted}`
+}
+
+function formatShares(shares: bigint) {
+  return Number(formatUnits(shares, CDO_SHARE_DECIMALS)).toLocaleString("en-US", { maximumFractionDigits: 4 })
+}
+
+function PnL({ pnl, pnlBps }: { pnl: bigint; pnlBps: number }) {
+  const color = pnl > BigInt(0) ? "text-green-400" : pnl < BigInt(0) ? "text-red-400" : "text-neutral-400"
+  return (
+    <span className={color}>
+      {pnl > BigInt(0) ? "+" : ""}
+      {formatUSD(pnl)} ({pnlBps >= 0 ? "+" : ""}
+      {(pnlBps / 100).toFixed(2)}%)
+    </span>
+  )
+}
+
+export default function CDOPortfolioPage() {
+  const account = useActiveAccount()
+  const { data: holdings, isLoading, refetch } = useCDOPortfolio(account?.address)
+
+  const totals = (holdings || []).reduce(
+    (sum, holding) => {
+      const deposited = holding.positions.reduce((total, position) => total + position.depositAmount, BigInt(0))
+      const positionValue = holding.positions.reduce((total, position) => total + position.value, BigInt(0))
+      return {
+        tokenValue: sum.tokenValue + holding.tokenValue,
+        deposited: sum.deposited + deposited,
+        positionValue: sum.positionValue + positionValue,
+      }
+    },
+    { tokenValue: BigInt(0), deposited: BigInt(0), positionValue: BigInt(0) }
+  )
+  const totalPnl = totals.positionValue - totals.deposited
+  const totalPnlBps = totals.deposited > BigInt(0) ? Number((totalPnl * BigInt(10000)) / totals.deposited) : 0
+
+  if (!account) {
+    return (
+      <main className="pt-16 pb-20">
+        <div className="max-w-7xl mx-auto px-6 py-12">
+          <Card className="text-center py-12">
+            <CardContent>
+              <h3 className="text-xl font-bold mb-2">Connect Wallet</h3>
+              <p className="text-neutral-400">Connect your wallet to see your CDO token portfolio</p>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    )
+  }
+
+  return (
+    <main className="pt-16 pb-20">
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex justify-between items-start mb-12">
+          <div>
+            <Link href="/pools" className="text-sm text-neutral-400 hover:text-white inline-flex items-center gap-1 mb-4">
+              <ArrowLeft className="w-4 h-4" />
+              Pools
+            </Link>
+            <h1 className="text-4xl font-bold mb-2 uppercase">
+              <span className="text-orange-500">CDO</span> PORTFOLIO
+            </h1>
+            <p className="text-neutral-400">Your pool share tokens, valued at each pool&apos;s current share price</p>
+          </div>
+          <Button variant="outline" onClick={() => refetch()} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Stats Overview */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-12">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold text-orange-500 mb-2">{formatUSD(totals.tokenValue)}</div>
+              <div className="text-xs text-neutral-400 uppercase">Token Holdings Value</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold text-orange-500 mb-2">{formatUSD(totals.deposited)}</div>
+              <div className="text-xs text-neutral-400 uppercase">Deposited (Open Positions)</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold mb-2">
+                <PnL pnl={totalPnl} pnlBps={totalPnlBps} />
+              </div>
+              <div className="text-xs text-neutral-400 uppercase">Unrealized P&amp;L</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {isLoading ? (
+          <div className="space-y-6">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <div key={i} className="h-40 bg-neutral-900 border border-orange-500/20 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : !holdings || holdings.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <h3 className="text-lg font-bold mb-2">No CDO tokens yet</h3>
+              <p className="text-neutral-400 text-sm mb-4">Deposit into a pool to receive its share tokens</p>
+              <Link href="/pools">
+                <Button className="bg-orange-500 hover:bg-orange-600">Browse Pools</Button>
+              </Link>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {holdings.map((holding) => (
+              <Card key={holding.pool.address}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="text-lg">
+                        <Link href={`/pools/${holding.pool.address}`} className="hover:text-orange-400">
+                          {holding.pool.name}
+                        </Link>
+                      </CardTitle>
+                      <div className="flex gap-2 mt-2">
+                        <Badge className="bg-neutral-800 text-neutral-300 border-0">{holding.pool.symbol}</Badge>
+                        <Badge className="bg-neutral-800 text-neutral-400 border-0">{holding.pool.category}</Badge>
+                      </div>
+                    </div>
+                    <CDOTokenDialog holding={holding} onSuccess={() => refetch()} />
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                    <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3">
+                      <div className="text-neutral-400 mb-1">Balance</div>
+                      <div className="font-medium">
+                        {formatShares(holding.tokenBalance)} {holding.pool.symbol}
+                      </div>
+                    </div>
+                    <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3">
+                      <div className="text-neutral-400 mb-1">Share Price</div>
+                      <div className="font-medium">{Number(formatUSDC(holding.sharePrice)).toFixed(4)} USDC</div>
+                    </div>
+                    <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3">
+                      <div className="text-neutral-400 mb-1">Market Value</div>
+                      <div className="font-medium">{formatUSD(holding.tokenValue)}</div>
+                    </div>
+                    <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3">
+                      <div className="text-neutral-400 mb-1">Pool Assets / Shares</div>
+                      <div className="font-medium">
+                        {formatUSD(holding.totalAssets)} / {formatShares(holding.totalShares)}
+                      </div>
+                    </div>
+                  </div>
+
+                  {holding.sharesShortfall > BigInt(0) && (
+                    <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3 text-sm text-red-200 flex gap-2">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      This wallet holds {formatShares(holding.sharesShortfall)} fewer {holding.pool.symbol} than its
+                      positions. Withdrawals will fail until the tokens are transferred back.
+                    </div>
+                  )}
+                  {holding.unbackedTokens > BigInt(0) && (
+                    <div className="bg-orange-500/10 border border-orange-500/30 rounded-lg p-3 text-sm text-orange-200 flex gap-2">
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                      {formatShares(holding.unbackedTokens)} {holding.pool.symbol} were received by transfer. They are
+                      not attached to a position in this wallet and can only be redeemed by returning them to the
+                      depositor.
+                    </div>
+                  )}
+
+                  {holding.positions.length > 0 && (
+                    <div>
+                      <div className="grid grid-cols-12 gap-4 text-xs text-neutral-400 uppercase pb-2 border-b border-neutral-800">
+                        <div className="col-span-2">Position</div>
+                        <div className="col-span-2 text-right">Deposited</div>
+                        <div className="col-span-2 text-right">Shares</div>
+                        <div className="col-span-2 text-right">Value</div>
+                        <div className="col-span-2 text-right">P&amp;L</div>
+                        <div className="col-span-2 text-right">Unlocks</div>
+                      </div>
+                      <div className="divide-y divide-neutral-800">
+                        {holding.positions.map((position) => (
+                          <div key={position.id} className="grid grid-cols-12 gap-4 py-2 text-sm items-center">
+                            <div className="col-span-2">
+                              #{position.id} · {TIER_NAMES[position.tier] ?? `Tier ${position.tier}`}
+                            </div>
+                            <div className="col-span-2 text-right">{formatUSD(position.depositAmount)}</div>
+                            <div className="col-span-2 text-right">{formatShares(position.shares)}</div>
+                            <div className="col-span-2 text-right">{formatUSD(position.value)}</div>
+                            <div className="col-span-2 text-right">
+                              <PnL pnl={position.pnl} pnlBps={position.pnlBps} />
+                            </div>
+                            <div className="col-span-2 text-right text-neutral-400">
+                              {position.lockUntil * 1000 > Date.now()
+                                ? new Date(position.lockUntil * 1000).toLocaleDateString()
+                                : "Unlocked"}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  )
+}
@@ -7,16 +7,20 @@ import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { Copy, Check, Loader2 } from "lucide-react"
 import { useActiveAccount } from "thirdweb/react"
-import { useUserProfile } from "@/lib/hooks/useUsernameRegistry"
+import { useUserProfile, useVerifiedEnsName } from "@/lib/hooks/useUsernameRegistry"
 import { useUserStats } from "@/lib/hooks/useUserStats"
 import { useAllUserPositions } from "@/lib/hooks/usePools"
 import UsernameRegistration from "@/components/profile/username-registration"
+import UsernameSettings from "@/components/profile/username-settings"
+import EnsLink from "@/components/profile/ens-link"
+import AccountDeactivation from "@/components/profile/account-deactivation"
 import { useState } from "react"
 
 export default function ProfilePage() {
   const [copied, setCopied] = useState(false)
   const account = useActiveAccount()
   const { profile, isLoading: isLoadingProfile } = useUserProfile(account?.address)
+  const { ensName } = useVerifiedEnsName(account?.address, profile?.isActive ? profile.ensName : null)
   const { data: stats, isLoading: isLoadingStats } = useUserStats(account?.address)
   const { data: positions, isLoading: isLoadingPositions } = useAllUserPositions(account?.address)
 
@@ -109,6 +113,12 @@ export default function ProfilePage() {
                           {profile?.hasUsername ? `@${profile.username}` : "No username registered"}
                         </div>
                       </div>
+                      {profile?.hasUsername && ensName && (
+                        <div className="mb-4">
+                          <label className="block text-sm font-medium mb-2">ENS Name</label>
+                          <div className="text-neutral-300">{ensName}</div>
+                        </div>
+                      )}
                       <div className="mb-4">
                         <label className="block text-sm font-medium mb-2">Wallet Address</label>
                         <div className="flex items-center gap-2">
@@ -245,22 +255,14 @@ export default function ProfilePage() {
 
           {/* Settings Tab */}
           <TabsContent value="settings" className="mt-8 space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Username</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm font-medium mb-2">Current Username</label>
-                    <div className="text-lg font-bold">@username</div>
-                  </div>
-                  <Button variant="outline" className="bg-transparent">
-                    Change Username
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
+            {profile?.hasUsername ? (
+              <>
+                <UsernameSettings currentUsername={profile.username} />
+                <EnsLink address={account.address} linkedName={profile.ensName || undefined} />
+              </>
+            ) : (
+              !isLoadingProfile && <UsernameRegistration />
+            )}
 
             <Card>
               <CardHeader>
@@ -291,7 +293,10 @@ export default function ProfilePage() {
               <CardHeader>
                 <CardTitle>Danger Zone</CardTitle>
               </CardHeader>
-              <CardContent>
+              <CardContent className="flex flex-wrap gap-3">
+                {profile?.hasUsername && (
+                  <AccountDeactivation username={profile.username} ensName={profile.ensName || undefined} />
+                )}
                 <Button variant="destructive">Disconnect Wallet</Button>
               </CardContent>
             </Card>
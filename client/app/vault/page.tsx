@@ -0,0 +1,186 @@
+"use client"
+
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ExternalLink, RefreshCw } from "lucide-react"
+import {
+  useVaultActiveBets,
+  useVaultActiveBetsCount,
+  useVaultTotalAssets,
+  useYieldConfig,
+  useYieldStrategy,
+} from "@/lib/hooks/useYieldVault"
+import { useContractAddresses } from "@/lib/hooks/useContracts"
+import { formatAddress, formatUSDC } from "@/lib/utils"
+
+function formatUSD(amount: bigint | undefined) {
+  return `$${Number(formatUSDC(amount)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export default function VaultPage() {
+  const addresses = useContractAddresses()
+  const { totalAssets, isLoading: isLoadingAssets, refetch: refetchAssets } = useVaultTotalAssets()
+  const { count, refetch: refetchCount } = useVaultActiveBetsCount()
+  const { config, refetch: refetchConfig } = useYieldConfig()
+  const { data: strategy } = useYieldStrategy()
+  const { data: activeBets, isLoading: isLoadingBets, refetch: refetchBets } = useVaultActiveBets()
+
+  const accruedYield = (activeBets || []).reduce((sum, entry) => sum + entry.yield.totalYield, BigInt(0))
+
+  const handleRefresh = () => {
+    refetchAssets()
+    refetchCount()
+    refetchConfig()
+    refetchBets()
+  }
+
+  return (
+    <main className="pt-16 pb-20">
+      <div className="max-w-7xl mx-auto px-6 py-12">
+        {/* Header */}
+        <div className="flex justify-between items-start mb-12">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 uppercase">
+              <span className="text-orange-500">YIELD</span> VAULT
+            </h1>
+            <p className="text-neutral-400">
+              Both stakes of every active bet are escrowed in the vault and earn yield until the bet resolves. The
+              winner receives the stakes plus the yield, minus the platform fee.
+            </p>
+          </div>
+          <Button variant="outline" onClick={handleRefresh} disabled={isLoadingAssets}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoadingAssets ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {/* Stats Overview */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-12">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold text-orange-500 mb-2">
+                {isLoadingAssets ? "..." : formatUSD(totalAssets)}
+              </div>
+              <div className="text-xs text-neutral-400 uppercase">Total Value Locked</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold text-orange-500 mb-2">{count}</div>
+              <div className="text-xs text-neutral-400 uppercase">Active Bets</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold text-orange-500 mb-2">{formatUSD(accruedYield)}</div>
+              <div className="text-xs text-neutral-400 uppercase">Accrued Yield (Active)</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold text-orange-500 mb-2">
+                {config ? formatUSD(config.totalYieldGenerated) : "..."}
+              </div>
+              <div className="text-xs text-neutral-400 uppercase">Yield Paid Out (All Time)</div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Configuration */}
+        <Card className="mb-12">
+          <CardHeader>
+            <CardTitle className="text-lg">Vault Configuration</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+            <div>
+              <div className="text-neutral-400 mb-1">Active Strategy</div>
+              {strategy?.address ? (
+                <div className="space-y-1">
+                  <div className="font-mono">{formatAddress(strategy.address)}</div>
+                  {strategy.apyBps !== null && (
+                    <Badge className="bg-green-500/20 text-green-400 border-0">
+                      {(strategy.apyBps / 100).toFixed(2)}% APY
+                    </Badge>
+                  )}
+                </div>
+              ) : (
+                <div className="text-neutral-500">{strategy ? "None - stakes are held idle" : "..."}</div>
+              )}
+            </div>
+            <div>
+              <div className="text-neutral-400 mb-1">Platform Fee</div>
+              <div className="font-medium">{config ? `${(config.platformFeeBps / 100).toFixed(2)}% of yield` : "..."}</div>
+              {config && (
+                <div className="text-xs text-neutral-500 mt-1">
+                  {formatUSD(config.totalPlatformFees)} collected · receiver {formatAddress(config.platformFeeReceiver)}
+                </div>
+              )}
+            </div>
+            <div>
+              <div className="text-neutral-400 mb-1">Vault Contract</div>
+              <div className="font-mono">{addresses.betYieldVault ? formatAddress(addresses.betYieldVault) : "-"}</div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Per-bet deposits */}
+        <h2 className="text-2xl font-bold mb-4">Active Deposits</h2>
+        {isLoadingBets ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-16 bg-neutral-900 border border-orange-500/20 rounded-lg animate-pulse"></div>
+            ))}
+          </div>
+        ) : activeBets && activeBets.length > 0 ? (
+          <Card>
+            <CardContent className="pt-6">
+              <div className="grid grid-cols-12 gap-4 text-xs text-neutral-400 uppercase pb-3 border-b border-neutral-800">
+                <div className="col-span-5">Bet</div>
+                <div className="col-span-2 text-right">Principal</div>
+                <div className="col-span-2 text-right">Deposited</div>
+                <div className="col-span-3 text-right">Accrued Yield (Net)</div>
+              </div>
+              <div className="divide-y divide-neutral-800">
+                {activeBets.map((entry) => (
+                  <div key={entry.address} className="grid grid-cols-12 gap-4 py-3 text-sm items-center">
+                    <div className="col-span-5 min-w-0">
+                      <Link
+                        href={`/bets/${entry.address}`}
+                        className="font-medium hover:text-orange-400 inline-flex items-center gap-1 max-w-full"
+                      >
+                        <span className="truncate">{entry.bet?.description || formatAddress(entry.address)}</span>
+                        <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                      </Link>
+                    </div>
+                    <div className="col-span-2 text-right">{formatUSD(entry.deposit.principalAmount)}</div>
+                    <div className="col-span-2 text-right text-neutral-400">
+                      {new Date(entry.deposit.depositedAt * 1000).toLocaleDateString()}
+                    </div>
+                    <div className="col-span-3 text-right">
+                      <span className="text-green-400">{formatUSD(entry.yield.totalYield)}</span>
+                      <span className="text-neutral-500"> ({formatUSD(entry.yield.netYield)})</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {count > activeBets.length && (
+                <p className="text-xs text-neutral-500 pt-3">
+                  Showing {activeBets.length} of {count} active deposits.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="text-center py-12">
+            <CardContent>
+              <h3 className="text-lg font-bold mb-2">No active deposits</h3>
+              <p className="text-neutral-400 text-sm">Stakes are deposited here once both sides of a bet are funded</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </main>
+  )
+}
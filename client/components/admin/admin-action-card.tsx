@@ -0,0 +1,263 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { useActiveAccount } from "thirdweb/react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { AlertTriangle, ArrowRight, ListPlus, Loader2, Send } from "lucide-react"
+import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
+import { ADMIN_CONTRACT_LABELS, type AdminAction, type AdminDiffRow } from "@/lib/admin/actions"
+import { encodeAdminCall, type AdminCall } from "@/lib/admin/batch"
+import {
+  formatFieldValue,
+  isSameValue,
+  parseInputValue,
+  toInputValue,
+  type AdminField,
+  type AdminValues,
+} from "@/lib/admin/fields"
+import { useAdminState, useSendAdminCall } from "@/lib/hooks/useAdmin"
+
+interface AdminActionCardProps {
+  action: AdminAction
+  keyOptions?: { value: string; label: string }[] // choices for the action's key, e.g. pools
+  onQueue: (call: AdminCall) => void
+}
+
+function FieldInput({
+  field,
+  value,
+  onChange,
+  options,
+}: {
+  field: AdminField
+  value: string
+  onChange: (value: string) => void
+  options?: { value: string; label: string }[]
+}) {
+  if (field.kind === "bool" || options) {
+    const choices = options || [
+      { value: "true", label: "Yes" },
+      { value: "false", label: "No" },
+    ]
+    return (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="bg-neutral-900 border-neutral-700 w-full">
+          <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+        </SelectTrigger>
+        <SelectContent>
+          {choices.map((choice) => (
+            <SelectItem key={choice.value} value={choice.value}>
+              {choice.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  return (
+    <Input
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={field.hint}
+      className="bg-neutral-900 border-neutral-700 font-mono"
+    />
+  )
+}
+
+export function AdminActionCard({ action, keyOptions, onQueue }: AdminActionCardProps) {
+  const account = useActiveAccount()
+  const [keyInput, setKeyInput] = useState("")
+  const [inputs, setInputs] = useState<Record<string, string>>({})
+
+  const keyValue = useMemo(() => {
+    if (!action.key) return undefined
+    try {
+      const parsed = parseInputValue(action.key, keyInput)
+      return parsed === "" ? undefined : parsed
+    } catch {
+      return undefined
+    }
+  }, [action.key, keyInput])
+
+  const { data: state, isLoading, error: readError, refetch } = useAdminState(action, keyValue)
+  const { sendAdminCall, isPending } = useSendAdminCall()
+
+  // Start every form from the values currently on chain
+  useEffect(() => {
+    if (!state) return
+    setInputs(
+      Object.fromEntries(action.fields.map((field) => [field.name, toInputValue(field.kind, state.current[field.name])]))
+    )
+  }, [state, action.fields])
+
+  const { values, fieldError } = useMemo(() => {
+    const parsed: AdminValues = {}
+    for (const field of action.fields) {
+      try {
+        parsed[field.name] = parseInputValue(field, inputs[field.name] ?? "")
+      } catch (error: any) {
+        return { values: null, fieldError: error.message as string }
+      }
+    }
+    return { values: parsed, fieldError: null }
+  }, [action.fields, inputs])
+
+  const validationError = fieldError || (values && state ? action.validate?.(values, state) ?? null : null)
+
+  const diff: AdminDiffRow[] = useMemo(() => {
+    if (!values || !state) return []
+    const changed = action.fields
+      .filter((field) => field.name in state.current && !isSameValue(field.kind, state.current[field.name], values[field.name]))
+      .map((field) => ({
+        label: field.label,
+        from: formatFieldValue(field.kind, state.current[field.name]),
+        to: formatFieldValue(field.kind, values[field.name]),
+      }))
+    return [...changed, ...(action.effects?.(values, state) ?? [])]
+  }, [action, values, state])
+
+  const isOwner = !!account && !!state && account.address.toLowerCase() === state.owner.toLowerCase()
+  const canSubmit = !!values && !!state && !validationError && diff.length > 0
+
+  const buildCall = (): AdminCall => {
+    const args = action.toArgs(values!, keyValue)
+    return {
+      id: `${action.id}-${Date.now()}`,
+      actionId: action.id,
+      title: `${ADMIN_CONTRACT_LABELS[action.contract]}: ${action.title}${keyValue !== undefined ? ` (${keyValue.toString()})` : ""}`,
+      to: state!.target,
+      signature: action.signature,
+      args,
+      data: encodeAdminCall(action.signature, args),
+      diff,
+    }
+  }
+
+  const handleSend = () => {
+    const toastId = toast.loading(`Sending ${action.title}...`)
+    sendAdminCall(buildCall(), {
+      onSuccess: () => {
+        toast.success(`${action.title} updated`, { id: toastId })
+        refetch()
+      },
+      onError: (error) => {
+        toastTransactionError(`${action.title} failed`, error, { id: toastId })
+      },
+    })
+  }
+
+  const handleQueue = () => {
+    onQueue(buildCall())
+    toast.success(`${action.title} added to the batch`)
+  }
+
+  const setInput = (name: string, value: string) => setInputs((previous) => ({ ...previous, [name]: value }))
+  const functionName = action.signature.slice("function ".length, action.signature.indexOf("("))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg">{action.title}</CardTitle>
+            <p className="text-sm text-neutral-400 mt-1">{action.description}</p>
+          </div>
+          <Badge className="bg-neutral-800 text-neutral-400 border-0 font-mono shrink-0">{functionName}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {action.key && (
+          <div>
+            <label className="text-sm text-neutral-400 mb-1 block">{action.key.label}</label>
+            <FieldInput field={action.key} value={keyInput} onChange={setKeyInput} options={keyOptions} />
+          </div>
+        )}
+
+        {action.key && keyValue === undefined ? null : isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-orange-500" />
+          </div>
+        ) : readError || !state ? (
+          <div className="text-sm text-red-400">Unable to read the current values.</div>
+        ) : (
+          <>
+            {state.readouts.length > 0 && (
+              <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3 space-y-1 text-sm">
+                {state.readouts.map((readout) => (
+                  <div key={readout.label} className="flex justify-between gap-4">
+                    <span className="text-neutral-400">{readout.label}</span>
+                    <span className="font-mono text-right break-all">{readout.value}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {action.fields.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {action.fields.map((field) => (
+                  <div key={field.name}>
+                    <label className="text-sm text-neutral-400 mb-1 block">
+                      {field.label}
+                      {field.name in state.current && (
+                        <span className="text-neutral-600"> · now {formatFieldValue(field.kind, state.current[field.name])}</span>
+                      )}
+                    </label>
+                    <FieldInput field={field} value={inputs[field.name] ?? ""} onChange={(v) => setInput(field.name, v)} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Diff preview */}
+            {diff.length > 0 ? (
+              <div className="bg-neutral-900 border border-orange-500/30 rounded-lg p-3 space-y-1 text-sm">
+                <div className="text-xs text-neutral-400 uppercase mb-2">Changes</div>
+                {diff.map((row) => (
+                  <div key={row.label} className="grid grid-cols-12 gap-2 items-center">
+                    <span className="col-span-3 text-neutral-400">{row.label}</span>
+                    <span className="col-span-4 font-mono text-red-300 line-through break-all">{row.from}</span>
+                    <ArrowRight className="col-span-1 w-4 h-4 text-neutral-500" />
+                    <span className="col-span-4 font-mono text-green-300 break-all">{row.to}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              action.fields.some((field) => field.name in state.current) && (
+                <div className="text-sm text-neutral-500">No changes from the current values.</div>
+              )
+            )}
+
+            {validationError && (
+              <div className="flex items-center gap-2 text-sm text-red-400">
+                <AlertTriangle className="w-4 h-4" />
+                {validationError}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2 justify-end">
+              <Button variant="outline" onClick={handleQueue} disabled={!canSubmit}>
+                <ListPlus className="w-4 h-4 mr-2" />
+                Add to Batch
+              </Button>
+              <Button
+                className="bg-orange-500 hover:bg-orange-600"
+                onClick={handleSend}
+                disabled={!canSubmit || !isOwner || isPending}
+                title={isOwner ? undefined : `Owned by ${state.owner} - export a batch instead`}
+              >
+                <Send className="w-4 h-4 mr-2" />
+                {isPending ? "Sending..." : "Send"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
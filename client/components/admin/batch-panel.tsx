@@ -0,0 +1,103 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { isAddress } from "viem"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Download, Trash2 } from "lucide-react"
+import { toSafeBatch, type AdminCall } from "@/lib/admin/batch"
+import { useActiveChain } from "@/lib/hooks/useActiveChain"
+
+interface BatchPanelProps {
+  calls: AdminCall[]
+  safeAddress: string | null
+  onRemove: (id: string) => void
+  onClear: () => void
+}
+
+export function BatchPanel({ calls, safeAddress, onRemove, onClear }: BatchPanelProps) {
+  const chain = useActiveChain()
+  const [safe, setSafe] = useState(safeAddress || "")
+
+  useEffect(() => {
+    if (safeAddress) setSafe(safeAddress)
+  }, [safeAddress])
+
+  const handleExport = () => {
+    const batch = toSafeBatch(chain.id, calls, isAddress(safe) ? safe : undefined)
+    const blob = new Blob([JSON.stringify(batch, null, 2)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `just-a-bet-admin-batch-${chain.id}-${batch.createdAt}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card className="lg:sticky lg:top-20">
+      <CardHeader>
+        <CardTitle className="text-lg">Multisig Batch</CardTitle>
+        <p className="text-sm text-neutral-400">
+          Unsigned transactions in the Safe Transaction Builder format, for the owners to import, review and sign.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {calls.length === 0 ? (
+          <div className="text-sm text-neutral-500 text-center py-6">No transactions queued yet</div>
+        ) : (
+          <div className="space-y-3">
+            {calls.map((call, i) => (
+              <div key={call.id} className="bg-neutral-900 border border-neutral-700 rounded-lg p-3 text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="font-semibold">
+                    {i + 1}. {call.title}
+                  </div>
+                  <button
+                    onClick={() => onRemove(call.id)}
+                    className="text-neutral-500 hover:text-red-400"
+                    aria-label="Remove from batch"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="text-xs text-neutral-500 font-mono break-all mt-1">to {call.to}</div>
+                <div className="mt-2 space-y-0.5">
+                  {call.diff.map((row) => (
+                    <div key={row.label} className="text-xs">
+                      <span className="text-neutral-400">{row.label}: </span>
+                      <span className="text-red-300 line-through">{row.from}</span>
+                      <span className="text-neutral-500"> → </span>
+                      <span className="text-green-300">{row.to}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div>
+          <label className="text-sm text-neutral-400 mb-1 block">Safe Address</label>
+          <Input
+            value={safe}
+            onChange={(e) => setSafe(e.target.value)}
+            placeholder="0x..."
+            className="bg-neutral-900 border-neutral-700 font-mono"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onClear} disabled={calls.length === 0}>
+            Clear
+          </Button>
+          <Button className="flex-1 bg-orange-500 hover:bg-orange-600" onClick={handleExport} disabled={calls.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Export Batch
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Bot, Loader2 } from "lucide-react"
+import { useAttestationCheck, useValidationAudit } from "@/lib/hooks/useValidationAudit"
+import type { UIBet } from "@/lib/utils/bet-helpers"
+
+interface AIValidationAuditCardProps {
+  bet: UIBet
+}
+
+export function AIValidationAuditCard({ bet }: AIValidationAuditCardProps) {
+  const { data: records, isLoading } = useValidationAudit(bet)
+  const { data: attestation } = useAttestationCheck(bet)
+
+  // The verdict the creator most likely submitted with - latest accepted one
+  const record = records?.find((r) => r.isValid) || records?.[0]
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bot className="h-5 w-5 text-orange-400" />
+          <CardTitle className="text-lg">AI Risk Assessment</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {isLoading && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-6 h-6 animate-spin text-orange-500" />
+          </div>
+        )}
+
+        {!isLoading && !record && (
+          <p className="text-neutral-400">No AI validation record was found for this bet.</p>
+        )}
+
+        {record && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-neutral-400">House risk score</span>
+              <span className="text-2xl font-bold text-orange-500">{record.riskScore}/100</span>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Badge className={`border-0 ${record.isValid ? "bg-green-500/20 text-green-400" : "bg-red-500/20 text-red-400"}`}>
+                {record.isValid ? "Accepted" : "Rejected"}
+              </Badge>
+              {record.recommendedPool && (
+                <Badge className="bg-blue-500/20 text-blue-400 border-0">{record.recommendedPool}</Badge>
+              )}
+              <Badge variant="outline" className="text-xs">
+                {record.confidence}% confidence
+              </Badge>
+              {attestation?.status === "verified" && (
+                <Badge className="bg-green-500/20 text-green-400 border-0">Signed verdict verified</Badge>
+              )}
+              {attestation?.status === "invalid" && (
+                <Badge className="bg-red-500/20 text-red-400 border-0">Attestation does not match this bet</Badge>
+              )}
+            </div>
+
+            <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4 text-neutral-300">
+              {record.reasoning}
+            </div>
+
+            {record.warnings.length > 0 && (
+              <ul className="list-disc list-inside text-neutral-400 space-y-1">
+                {record.warnings.map((warning, idx) => (
+                  <li key={idx}>{warning}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="border-t border-neutral-700 pt-3 text-xs text-neutral-500 space-y-1">
+              <div>
+                Model: {record.provider} / {record.model}
+              </div>
+              <div>Prompt version: {record.promptVersion}</div>
+              <div>Assessed {new Date(record.createdAt * 1000).toLocaleString()}</div>
+              {records && records.length > 1 && <div>{records.length} assessments recorded for this bet</div>}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
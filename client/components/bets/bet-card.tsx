@@ -2,7 +2,7 @@ import Link from "next/link"
 import { Clock, DollarSign } from "lucide-react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { type BetStatus } from "@/lib/utils/bet-helpers"
+import { isHouseAddress, type BetStatus } from "@/lib/utils/bet-helpers"
 import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
 
 interface BetCardProps {
@@ -30,7 +30,7 @@ export default function BetCard({
 }: BetCardProps) {
   // Fetch display names for creator and opponent
   const { displayName: creatorDisplay } = useDisplayName(creator)
-  const { displayName: opponentDisplay } = useDisplayName(opponent === "0x0000000000000000000000000000000000000000" ? undefined : opponent)
+  const { displayName: opponentDisplay } = useDisplayName(isHouseAddress(opponent) ? undefined : opponent)
 
   const statusColors: Record<BetStatus, string> = {
     pending: "bg-neutral-500/20 text-neutral-300",
@@ -75,7 +75,7 @@ export default function BetCard({
           <div className="flex items-center justify-between mb-4 text-sm">
             <span className="text-neutral-400">{creatorDisplay}</span>
             <span className="text-orange-500 font-bold">VS</span>
-            <span className="text-neutral-400">{opponent === "0x0000000000000000000000000000000000000000" ? "🏠 House" : opponentDisplay}</span>
+            <span className="text-neutral-400">{isHouseAddress(opponent) ? "🏠 House" : opponentDisplay}</span>
           </div>
 
           {/* Details Grid */}
@@ -1,42 +1,34 @@
 "use client"
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { Button } from "@/components/ui/button"
-import { Trophy, Clock, DollarSign } from "lucide-react"
-import { useClaimWinnings } from "@/lib/hooks/useBetActions"
-import { toast } from "sonner"
+import { Trophy, DollarSign, CheckCircle2 } from "lucide-react"
+import { useBetPayout } from "@/lib/hooks/useYieldVault"
+import { formatUSDC, parseUSDC } from "@/lib/utils"
 
 interface ClaimWinningsCardProps {
   betAddress: string
+  createdAt: number
   stakeAmount: number
   outcome: string
-  onSuccess?: () => void
 }
 
 export function ClaimWinningsCard({
   betAddress,
+  createdAt,
   stakeAmount,
   outcome,
-  onSuccess,
 }: ClaimWinningsCardProps) {
-  const { claimWinnings, isPending } = useClaimWinnings(betAddress)
+  const { data: payout } = useBetPayout(betAddress, createdAt)
 
-  const totalWinnings = stakeAmount * 2
-
-  const handleClaim = () => {
-    const toastId = toast.loading("Claiming winnings...")
-
-    claimWinnings({
-      onSuccess: () => {
-        toast.success(`${totalWinnings} USDC claimed successfully!`, { id: toastId })
-        onSuccess?.()
-      },
-      onError: (error) => {
-        console.error("Claim winnings error:", error)
-        toast.error("Failed to claim winnings. Please try again.", { id: toastId })
-      }
-    })
-  }
+  // BetResolved reports what the vault paid out: both stakes plus yield net of the platform fee.
+  // A draw splits it between the two parties.
+  const isDraw = outcome === "draw"
+  const principal = parseUSDC(String(stakeAmount)) * BigInt(2)
+  const netYield = payout && payout.totalPayout > principal ? payout.totalPayout - principal : BigInt(0)
+  const platformFee = payout && payout.yieldEarned > netYield ? payout.yieldEarned - netYield : BigInt(0)
+  const totalAmount = payout ? payout.totalPayout : principal
+  const userShare = isDraw ? totalAmount / BigInt(2) : totalAmount
+  const totalWinnings = formatUSDC(userShare)
 
   return (
     <Card className="border-green-500/50">
@@ -68,33 +60,32 @@ export function ClaimWinningsCard({
             <span className="text-neutral-400">Opponent's Stake</span>
             <span className="font-medium">{stakeAmount} USDC</span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-neutral-400">Yield Earned</span>
+            <span className="font-medium">{payout ? `${formatUSDC(payout.yieldEarned)} USDC` : "-"}</span>
+          </div>
+          {platformFee > BigInt(0) && (
+            <div className="flex justify-between">
+              <span className="text-neutral-400">Platform Fee</span>
+              <span className="font-medium">-{formatUSDC(platformFee)} USDC</span>
+            </div>
+          )}
+          {isDraw && (
+            <div className="flex justify-between">
+              <span className="text-neutral-400">Draw - Split Between Both Parties</span>
+              <span className="font-medium">{formatUSDC(totalAmount)} USDC total</span>
+            </div>
+          )}
           <div className="border-t border-neutral-700 pt-2 flex justify-between font-bold">
-            <span>Total Payout</span>
+            <span>{isDraw ? "Your Share" : "Total Payout"}</span>
             <span className="text-green-400">{totalWinnings} USDC</span>
           </div>
         </div>
 
-        <Button
-          className="w-full bg-green-600 hover:bg-green-700"
-          onClick={handleClaim}
-          disabled={isPending}
-        >
-          {isPending ? (
-            <>
-              <Clock className="mr-2 h-4 w-4 animate-spin" />
-              Claiming Winnings...
-            </>
-          ) : (
-            <>
-              <Trophy className="mr-2 h-4 w-4" />
-              Claim {totalWinnings} USDC
-            </>
-          )}
-        </Button>
-
-        <p className="text-xs text-neutral-500 text-center">
-          Winnings will be sent to your wallet
-        </p>
+        <div className="flex items-center justify-center gap-2 text-sm text-green-300/80">
+          <CheckCircle2 className="h-4 w-4" />
+          {isDraw ? "Your share was" : "Winnings were"} sent to your wallet when the bet resolved
+        </div>
       </CardContent>
     </Card>
   )
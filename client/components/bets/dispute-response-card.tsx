@@ -15,7 +15,9 @@ import {
 } from "@/components/ui/dialog"
 import { AlertTriangle, CheckCircle, Clock, XCircle } from "lucide-react"
 import { useFinalizeResolution, useRaiseDispute } from "@/lib/hooks/useBetActions"
+import { useSubmitEvidence } from "@/lib/hooks/useEvidence"
 import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
 
 interface DisputeResponseCardProps {
   betAddress: string
@@ -39,6 +41,7 @@ export function DisputeResponseCard({
 
   const { finalizeResolution, isPending: isFinalizing } = useFinalizeResolution(betAddress)
   const { raiseDispute, isPending: isDisputing } = useRaiseDispute(betAddress)
+  const { submitEvidence } = useSubmitEvidence(betAddress)
 
   const currentTime = Math.floor(Date.now() / 1000)
   const timeRemaining = disputeDeadline - currentTime
@@ -65,7 +68,7 @@ export function DisputeResponseCard({
       },
       onError: (error) => {
         console.error("Finalize resolution error:", error)
-        toast.error("Failed to finalize resolution. Please try again.", { id: toastId })
+        toastTransactionError("Failed to finalize resolution", error, { id: toastId })
       }
     })
   }
@@ -82,11 +85,31 @@ export function DisputeResponseCard({
       onSuccess: () => {
         toast.success("Dispute raised! A judge will review this case.", { id: toastId })
         setIsDisputeDialogOpen(false)
-        onSuccess?.()
+
+        // The reason becomes the disputing party's first signed evidence for the judges.
+        // onSuccess refreshes the page (swapping this card out), so it runs once signing is done.
+        const evidenceToastId = toast.loading("Sign your dispute reason so judges can verify it...")
+        submitEvidence(
+          { text: disputeReason, links: [], images: [] },
+          {
+            onSuccess: () => {
+              toast.success("Dispute reason submitted as evidence", { id: evidenceToastId })
+              setDisputeReason("")
+              onSuccess?.()
+            },
+            onError: (error) => {
+              console.error("Submit dispute reason error:", error)
+              toast.error("Dispute raised, but the reason was not saved. Add it as evidence on the dispute.", {
+                id: evidenceToastId,
+              })
+              onSuccess?.()
+            },
+          }
+        )
       },
       onError: (error) => {
         console.error("Raise dispute error:", error)
-        toast.error("Failed to raise dispute. Please try again.", { id: toastId })
+        toastTransactionError("Failed to raise dispute", error, { id: toastId })
       }
     })
   }
@@ -179,7 +202,7 @@ export function DisputeResponseCard({
                     <DialogHeader>
                       <DialogTitle>Raise a Dispute</DialogTitle>
                       <DialogDescription className="text-neutral-400">
-                        Provide a clear reason for disputing this outcome. A judge will review the case and make a final decision.
+                        Provide a clear reason for disputing this outcome. You will sign it with your wallet and the judges will see it with the case.
                       </DialogDescription>
                     </DialogHeader>
 
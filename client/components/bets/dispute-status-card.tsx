@@ -1,86 +1,288 @@
 "use client"
 
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { AlertTriangle, Scale, User } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, CheckCircle, Clock, Scale, User } from "lucide-react"
+import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
+import {
+  DISPUTE_STATUS_LABELS,
+  DISPUTE_TIER_JUDGES,
+  useAppealDispute,
+  useBetDispute,
+  useCreateDispute,
+  useDisputeJudges,
+  useJudgeVote,
+  useVoteCounts,
+} from "@/lib/hooks/useDisputeManager"
+import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
+import { EvidencePanel } from "./evidence-panel"
+
+// Bet.Outcome
+const OUTCOME_LABELS: Record<number, string> = {
+  1: "Creator Wins",
+  2: "Opponent Wins",
+  3: "Draw",
+}
 
 interface DisputeStatusCardProps {
-  disputeReason: string
-  assignedJudge?: string
-  judgeUsername?: string
+  betAddress: string
+  creator: string
+  opponent: string
+  isDisputed: boolean // bet is currently in the Disputed state
+  userAddress?: string
+  onSuccess?: () => void
+}
+
+function JudgeRow({ disputeId, judge }: { disputeId: bigint; judge: string }) {
+  const { displayName } = useDisplayName(judge)
+  const { vote } = useJudgeVote(disputeId, judge)
+
+  return (
+    <div className="flex items-center justify-between py-2">
+      <div className="flex items-center gap-3">
+        <div className="w-8 h-8 rounded-full bg-orange-500/20 flex items-center justify-center">
+          <User className="w-4 h-4 text-orange-400" />
+        </div>
+        <div>
+          <div className="font-medium text-sm">{displayName}</div>
+          <div className="text-xs text-neutral-500 font-mono">{judge}</div>
+        </div>
+      </div>
+      {vote?.hasVoted ? (
+        <Badge className="bg-green-500/20 text-green-400 border-0">
+          <CheckCircle className="w-3 h-3 mr-1" />
+          Voted
+        </Badge>
+      ) : (
+        <Badge className="bg-neutral-800 text-neutral-400 border-0">Pending</Badge>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Seconds until `deadline`, re-evaluated every 30s
+ */
+function useSecondsUntil(deadline: number) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 30000)
+    return () => clearInterval(interval)
+  }, [])
+
+  return deadline - now
 }
 
 export function DisputeStatusCard({
-  disputeReason,
-  assignedJudge,
-  judgeUsername,
+  betAddress,
+  creator,
+  opponent,
+  isDisputed,
+  userAddress,
+  onSuccess,
 }: DisputeStatusCardProps) {
+  const { data, isLoading, refetch } = useBetDispute(betAddress)
+  const dispute = data?.dispute ?? null
+  const history = data?.history ?? []
+
+  const { judges } = useDisputeJudges(dispute?.disputeId)
+  const { counts } = useVoteCounts(dispute?.disputeId)
+  const { appealDispute, isPending: isAppealing } = useAppealDispute(dispute?.disputeId ?? BigInt(0))
+  const { createDispute, isPending: isCreating } = useCreateDispute(betAddress)
+
+  const timeRemaining = useSecondsUntil(dispute?.votingDeadline ?? 0)
+  const hoursRemaining = Math.max(0, Math.floor(timeRemaining / 3600))
+  const minutesRemaining = Math.max(0, Math.floor((timeRemaining % 3600) / 60))
+
+  const isParticipant =
+    !!userAddress &&
+    (userAddress.toLowerCase() === creator.toLowerCase() || userAddress.toLowerCase() === opponent.toLowerCase())
+
+  // Mirrors the checks in DisputeManager.appealDispute
+  const canAppeal = !!dispute && isParticipant && dispute.status === 1 && !dispute.appealed && dispute.tier < 2
+
+  const handleCreateDispute = () => {
+    const toastId = toast.loading("Assigning judges...")
+    createDispute({
+      onSuccess: () => {
+        toast.success("Judges assigned to your dispute", { id: toastId })
+        refetch()
+        onSuccess?.()
+      },
+      onError: (error) => {
+        console.error("Create dispute error:", error)
+        toastTransactionError("Failed to open the dispute case", error, { id: toastId })
+      },
+    })
+  }
+
+  const handleAppeal = () => {
+    const toastId = toast.loading("Appealing to a larger panel...")
+    appealDispute({
+      onSuccess: () => {
+        toast.success(`Appeal filed - Tier ${(dispute?.tier ?? 0) + 1} judges will review the case`, { id: toastId })
+        refetch()
+        onSuccess?.()
+      },
+      onError: (error) => {
+        console.error("Appeal dispute error:", error)
+        toastTransactionError("Failed to appeal", error, { id: toastId })
+      },
+    })
+  }
+
+  if (isLoading) {
+    return (
+      <Card className="border-red-500/50 animate-pulse">
+        <CardContent className="pt-6">
+          <div className="h-24 bg-neutral-800 rounded"></div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  // A resolved bet without a dispute case has nothing to show
+  if (!dispute && !isDisputed) return null
+
   return (
     <Card className="border-red-500/50">
       <CardHeader>
-        <div className="flex items-center gap-2">
-          <Scale className="h-5 w-5 text-red-400" />
-          <CardTitle className="text-lg text-red-400">Dispute in Progress</CardTitle>
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-2">
+            <Scale className="h-5 w-5 text-red-400" />
+            <CardTitle className="text-lg text-red-400">
+              {dispute?.status === 0 || !dispute ? "Dispute in Progress" : "Dispute"}
+            </CardTitle>
+          </div>
+          {dispute?.status === 0 && timeRemaining > 0 && (
+            <Badge className="bg-orange-500/20 text-orange-400 border-0">
+              <Clock className="w-3 h-3 mr-1" />
+              {hoursRemaining}h {minutesRemaining}m left
+            </Badge>
+          )}
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
-          <div className="flex items-start gap-3">
-            <AlertTriangle className="h-5 w-5 text-red-400 mt-0.5 flex-shrink-0" />
-            <div className="text-sm text-red-200">
-              <p className="font-semibold mb-2">This bet is under dispute</p>
-              <p className="text-red-300/80 mb-3">
-                The parties disagreed on the outcome. A judge has been assigned to review the case and make a final decision.
-              </p>
+        {!dispute ? (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="h-5 w-5 text-red-400 mt-0.5 flex-shrink-0" />
+              <div className="text-sm text-red-200">
+                <p className="font-semibold mb-2">This bet is under dispute</p>
+                <p className="text-red-300/80 mb-3">
+                  No judge panel has been assigned yet. Either party can open the case with the DisputeManager, which
+                  selects judges based on the total stake.
+                </p>
+                {isParticipant && (
+                  <Button
+                    size="sm"
+                    className="bg-red-500 hover:bg-red-600"
+                    onClick={handleCreateDispute}
+                    disabled={isCreating}
+                  >
+                    {isCreating ? "Assigning..." : "Assign Judges"}
+                  </Button>
+                )}
+              </div>
             </div>
           </div>
-        </div>
-
-        {/* Dispute Reason */}
-        <div>
-          <div className="text-sm font-medium text-neutral-400 mb-2">Dispute Reason</div>
-          <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4 text-sm text-neutral-300">
-            {disputeReason}
-          </div>
-        </div>
-
-        {/* Assigned Judge */}
-        <div>
-          <div className="text-sm font-medium text-neutral-400 mb-2">Assigned Judge</div>
-          <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4">
-            {assignedJudge ? (
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-full bg-orange-500/20 flex items-center justify-center">
-                  <User className="w-5 h-5 text-orange-400" />
+        ) : (
+          <>
+            {/* Case summary */}
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3">
+                <div className="text-neutral-400 mb-1">Case</div>
+                <div className="font-medium">
+                  #{dispute.disputeId.toString()} · {DISPUTE_STATUS_LABELS[dispute.status] ?? "Unknown"}
                 </div>
-                <div>
-                  <div className="font-medium">{judgeUsername || "Judge"}</div>
-                  <div className="text-xs text-neutral-500 font-mono">{assignedJudge}</div>
+              </div>
+              <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3">
+                <div className="text-neutral-400 mb-1">Tier</div>
+                <div className="font-medium">
+                  Tier {dispute.tier} · {DISPUTE_TIER_JUDGES[dispute.tier] ?? dispute.judgeCount} judge
+                  {(DISPUTE_TIER_JUDGES[dispute.tier] ?? dispute.judgeCount) === 1 ? "" : "s"}
                 </div>
               </div>
-            ) : (
-              <div className="text-sm text-neutral-400 flex items-center gap-2">
-                <div className="w-2 h-2 bg-orange-500 rounded-full animate-pulse" />
-                Waiting for judge assignment...
+              <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3">
+                <div className="text-neutral-400 mb-1">Votes In</div>
+                <div className="font-medium">
+                  {dispute.votesSubmitted} / {dispute.judgeCount}
+                </div>
+              </div>
+              <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-3">
+                <div className="text-neutral-400 mb-1">Voting Deadline</div>
+                <div className="font-medium">{new Date(dispute.votingDeadline * 1000).toLocaleString()}</div>
+              </div>
+            </div>
+
+            {/* Tallies */}
+            {counts && dispute.votesSubmitted > 0 && (
+              <div className="text-sm text-neutral-400">
+                Creator wins: {counts.creatorWins} · Opponent wins: {counts.opponentWins} · Draw: {counts.draw}
               </div>
             )}
-          </div>
-        </div>
 
-        {/* Status */}
-        <div className="bg-orange-500/10 border border-orange-500/30 rounded-lg p-4 text-center">
-          <Badge className="bg-orange-500/20 text-orange-400 border-0 mb-2">
-            <Scale className="w-3 h-3 mr-1" />
-            Under Review
-          </Badge>
-          <p className="text-sm text-orange-200/80">
-            The judge will review all evidence and declare the final outcome. Both parties will be bound by the judge's decision.
-          </p>
-        </div>
+            {/* Judges */}
+            <div>
+              <div className="text-sm font-medium text-neutral-400 mb-2">Assigned Judges</div>
+              <div className="bg-neutral-900 border border-neutral-700 rounded-lg px-4 py-2 divide-y divide-neutral-800">
+                {judges.length > 0 ? (
+                  judges.map((judge) => <JudgeRow key={judge} disputeId={dispute.disputeId} judge={judge} />)
+                ) : (
+                  <div className="text-sm text-neutral-400 py-2">Loading judges...</div>
+                )}
+              </div>
+            </div>
+
+            {/* Outcome */}
+            {dispute.status === 1 && (
+              <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4 text-center">
+                <div className="text-sm text-neutral-400 mb-1">Judges&apos; Decision</div>
+                <div className="text-lg font-bold text-green-400">{OUTCOME_LABELS[dispute.finalOutcome] ?? "Unknown"}</div>
+              </div>
+            )}
+
+            {/* Appeal history */}
+            {history.length > 1 && (
+              <div className="text-sm text-neutral-400">
+                {history.slice(0, -1).map((previous) => (
+                  <div key={previous.disputeId.toString()}>
+                    Case #{previous.disputeId.toString()} (Tier {previous.tier}) decided{" "}
+                    {OUTCOME_LABELS[previous.finalOutcome] ?? "-"} and was appealed
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canAppeal && (
+              <div className="bg-orange-500/10 border border-orange-500/30 rounded-lg p-4 space-y-3">
+                <p className="text-sm text-orange-200/80">
+                  Disagree with the decision? Appeal once to a Tier {dispute.tier + 1} panel of{" "}
+                  {DISPUTE_TIER_JUDGES[dispute.tier + 1]} judges.
+                </p>
+                <Button
+                  className="w-full bg-orange-500 hover:bg-orange-600"
+                  onClick={handleAppeal}
+                  disabled={isAppealing}
+                >
+                  {isAppealing ? "Appealing..." : "Appeal"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
 
-        <p className="text-xs text-neutral-500 text-center">
-          You will be notified when the judge makes a decision
-        </p>
+        <EvidencePanel
+          betAddress={betAddress}
+          creator={creator}
+          opponent={opponent}
+          userAddress={userAddress}
+          canSubmit={isDisputed || dispute?.status === 0 || canAppeal}
+        />
       </CardContent>
     </Card>
   )
@@ -0,0 +1,261 @@
+"use client"
+
+import { useState } from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { FileText, ImageIcon, Link2, ShieldAlert, ShieldCheck, X } from "lucide-react"
+import { toast } from "sonner"
+import { useDisputeEvidence, useSubmitEvidence } from "@/lib/hooks/useEvidence"
+import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
+import { toastTransactionError } from "@/lib/transactions/toast"
+import {
+  EVIDENCE_IMAGE_TYPES,
+  MAX_EVIDENCE_IMAGES,
+  MAX_EVIDENCE_IMAGE_BYTES,
+  MAX_EVIDENCE_LINKS,
+  MAX_EVIDENCE_TEXT_LENGTH,
+} from "@/lib/evidence/content"
+import type { EvidenceEntry } from "@/lib/evidence/types"
+
+interface EvidencePanelProps {
+  betAddress: string
+  creator: string
+  opponent: string
+  userAddress?: string
+  canSubmit?: boolean // the dispute is still open to new evidence
+}
+
+function EvidenceItem({ entry, role }: { entry: EvidenceEntry; role: string }) {
+  const { displayName } = useDisplayName(entry.submitter)
+  const verified = entry.contentValid && entry.signatureValid
+
+  return (
+    <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-xs text-neutral-500 uppercase">{role}</div>
+          <div className="font-medium text-sm" title={entry.submitter}>{displayName}</div>
+          <div className="text-xs text-neutral-500">{new Date(entry.submittedAt * 1000).toLocaleString()}</div>
+        </div>
+        {verified ? (
+          <Badge className="bg-green-500/20 text-green-400 border-0" title={`Signed hash ${entry.contentHash}`}>
+            <ShieldCheck className="w-3 h-3 mr-1" />
+            Signed by {role.toLowerCase()}
+          </Badge>
+        ) : (
+          <Badge className="bg-red-500/20 text-red-400 border-0">
+            <ShieldAlert className="w-3 h-3 mr-1" />
+            {entry.content ? "Signature invalid" : "Unavailable"}
+          </Badge>
+        )}
+      </div>
+
+      {entry.content && (
+        <>
+          {entry.content.text && (
+            <p className="text-sm text-neutral-300 whitespace-pre-wrap break-words">{entry.content.text}</p>
+          )}
+
+          {entry.content.links.length > 0 && (
+            <ul className="space-y-1">
+              {entry.content.links.map((link) => (
+                <li key={link} className="text-sm flex items-center gap-2 min-w-0">
+                  <Link2 className="w-3 h-3 text-neutral-500 flex-shrink-0" />
+                  <a
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer nofollow"
+                    className="text-cyan-400 hover:text-cyan-300 truncate"
+                  >
+                    {link}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {entry.content.images.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {entry.content.images.map((image) => (
+                <a
+                  key={image.cid}
+                  href={`/api/evidence/blobs/${image.cid}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={image.name}
+                >
+                  {/* Served as uploaded - the blob route already checks type and size */}
+                  <Image
+                    src={`/api/evidence/blobs/${image.cid}`}
+                    alt={image.name}
+                    width={320}
+                    height={112}
+                    unoptimized
+                    className="w-full h-28 object-cover rounded border border-neutral-700"
+                  />
+                </a>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="text-xs text-neutral-600 font-mono break-all">{entry.cid}</div>
+    </div>
+  )
+}
+
+/**
+ * Signed off-chain evidence for a disputed bet, plus a submission form for its parties
+ */
+export function EvidencePanel({ betAddress, creator, opponent, userAddress, canSubmit = false }: EvidencePanelProps) {
+  const [text, setText] = useState("")
+  const [links, setLinks] = useState("")
+  const [images, setImages] = useState<File[]>([])
+
+  const { data: evidence, isLoading } = useDisputeEvidence(betAddress)
+  const { submitEvidence, isPending } = useSubmitEvidence(betAddress)
+
+  const getRole = (address: string) =>
+    address.toLowerCase() === creator.toLowerCase()
+      ? "Creator"
+      : address.toLowerCase() === opponent.toLowerCase()
+        ? "Opponent"
+        : "Unknown"
+
+  const isParticipant = !!userAddress && getRole(userAddress) !== "Unknown"
+  const linkList = links
+    .split("\n")
+    .map((link) => link.trim())
+    .filter(Boolean)
+
+  const handleAddImages = (files: FileList | null) => {
+    if (!files) return
+
+    const accepted: File[] = []
+    for (const file of Array.from(files)) {
+      if (!(EVIDENCE_IMAGE_TYPES as readonly string[]).includes(file.type)) {
+        toast.error(`${file.name} is not a PNG, JPEG, GIF or WebP image`)
+      } else if (file.size > MAX_EVIDENCE_IMAGE_BYTES) {
+        toast.error(`${file.name} is larger than 2 MB`)
+      } else {
+        accepted.push(file)
+      }
+    }
+
+    setImages((current) => [...current, ...accepted].slice(0, MAX_EVIDENCE_IMAGES))
+  }
+
+  const handleSubmit = () => {
+    if (!text.trim() && linkList.length === 0 && images.length === 0) {
+      toast.error("Add a statement, a link or an image")
+      return
+    }
+    if (linkList.length > MAX_EVIDENCE_LINKS) {
+      toast.error(`At most ${MAX_EVIDENCE_LINKS} links per submission`)
+      return
+    }
+
+    const toastId = toast.loading("Sign the evidence in your wallet...")
+    submitEvidence(
+      { text, links: linkList, images },
+      {
+        onSuccess: () => {
+          toast.success("Evidence submitted for the judges", { id: toastId })
+          setText("")
+          setLinks("")
+          setImages([])
+        },
+        onError: (error) => {
+          console.error("Submit evidence error:", error)
+          toastTransactionError("Failed to submit evidence", error, { id: toastId })
+        },
+      }
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium text-neutral-400 flex items-center gap-2">
+        <FileText className="w-4 h-4" />
+        Evidence
+      </div>
+
+      {isLoading ? (
+        <div className="h-16 bg-neutral-800 rounded animate-pulse"></div>
+      ) : evidence && evidence.length > 0 ? (
+        <div className="space-y-3">
+          {evidence.map((entry) => (
+            <EvidenceItem key={entry.cid + entry.submittedAt} entry={entry} role={getRole(entry.submitter)} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-neutral-500">No evidence has been submitted yet.</p>
+      )}
+
+      {canSubmit && isParticipant && (
+        <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4 space-y-3">
+          <div className="text-sm font-medium">Add Evidence</div>
+          <Textarea
+            placeholder="Explain what happened and why the outcome should go your way..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={MAX_EVIDENCE_TEXT_LENGTH}
+            rows={4}
+            className="bg-neutral-950 border-neutral-700"
+          />
+          <Textarea
+            placeholder="Links (one per line), e.g. a score page or news article"
+            value={links}
+            onChange={(e) => setLinks(e.target.value)}
+            rows={2}
+            className="bg-neutral-950 border-neutral-700"
+          />
+
+          <div className="space-y-2">
+            <label className="inline-flex items-center gap-2 text-sm text-neutral-400 cursor-pointer hover:text-white">
+              <ImageIcon className="w-4 h-4" />
+              Attach images ({images.length}/{MAX_EVIDENCE_IMAGES})
+              <input
+                type="file"
+                accept={EVIDENCE_IMAGE_TYPES.join(",")}
+                multiple
+                className="hidden"
+                disabled={isPending || images.length >= MAX_EVIDENCE_IMAGES}
+                onChange={(e) => {
+                  handleAddImages(e.target.files)
+                  e.target.value = ""
+                }}
+              />
+            </label>
+            {images.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {images.map((file, i) => (
+                  <Badge key={`${file.name}-${i}`} className="bg-neutral-800 text-neutral-300 border-0">
+                    {file.name}
+                    <button
+                      type="button"
+                      className="ml-1 hover:text-white"
+                      onClick={() => setImages((current) => current.filter((_, j) => j !== i))}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-neutral-500">
+            You will sign the evidence hash with your wallet so judges can verify it came from you.
+          </p>
+          <Button className="w-full bg-orange-500 hover:bg-orange-600" onClick={handleSubmit} disabled={isPending}>
+            {isPending ? "Submitting..." : "Sign & Submit Evidence"}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
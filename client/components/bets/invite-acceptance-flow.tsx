@@ -0,0 +1,318 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { AlertCircle, CheckCircle2, Loader2, PenLine } from "lucide-react"
+import { ConnectButton, useActiveAccount } from "thirdweb/react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { client, wallets } from "@/lib/thirdweb"
+import { SUPPORTED_CHAINS, getChain } from "@/lib/chains"
+import { useActiveChain, useSwitchChain } from "@/lib/hooks/useActiveChain"
+import { useBetDetails } from "@/lib/hooks/useBets"
+import { useAcceptBet } from "@/lib/hooks/useBetActions"
+import { useUSDCAllowance, useUSDCApproval, useUSDCBalance } from "@/lib/hooks/useBetCreation"
+import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
+import { formatUSDC } from "@/lib/utils"
+import { getTimeRemaining } from "@/lib/utils/bet-helpers"
+import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
+
+/**
+ * Bet fields read server-side for the invite page, shown until the wallet is on the bet's chain
+ */
+export interface InviteBetSnapshot {
+  creator: string
+  opponent: string
+  description: string
+  outcomeDescription: string
+  stakeAmount: string // raw 6-decimal USDC
+  expiresAt: number
+  state: number
+  creatorFunded: boolean
+  opponentFunded: boolean
+}
+
+interface InviteAcceptanceFlowProps {
+  betAddress: string
+  chainId: number
+  creatorName: string
+  message: string | null
+  snapshot: InviteBetSnapshot
+}
+
+type FlowStep = "connect" | "network" | "approve" | "accept"
+
+const FLOW_STEPS: { step: FlowStep; label: string }[] = [
+  { step: "connect", label: "Connect wallet" },
+  { step: "network", label: "Switch network" },
+  { step: "approve", label: "Approve USDC" },
+  { step: "accept", label: "Accept bet" },
+]
+
+/**
+ * Guided acceptance for an invite link: connect, switch to the bet's chain, approve the stake, accept
+ */
+export function InviteAcceptanceFlow({ betAddress, chainId, creatorName, message, snapshot }: InviteAcceptanceFlowProps) {
+  const account = useActiveAccount()
+  const activeChain = useActiveChain()
+  const switchChain = useSwitchChain()
+  const [isSwitching, setIsSwitching] = useState(false)
+  const [accepted, setAccepted] = useState(false)
+
+  const inviteChain = getChain(chainId)
+  const isOnInviteChain = activeChain.id === chainId
+
+  // Live state once the app reads the invite's chain, the server snapshot until then
+  const { data: liveBet, refetch } = useBetDetails(isOnInviteChain ? betAddress : "")
+  const bet = liveBet
+    ? {
+        ...snapshot,
+        stakeAmount: liveBet.stakeAmount.toString(),
+        state: liveBet.state,
+        creatorFunded: liveBet.creatorFunded,
+        opponentFunded: liveBet.opponentFunded,
+      }
+    : snapshot
+  const stakeAmount = BigInt(bet.stakeAmount)
+  const stake = formatUSDC(stakeAmount)
+
+  const { displayName: opponentDisplay } = useDisplayName(bet.opponent)
+  const { acceptBet, isPending: isAccepting } = useAcceptBet(betAddress)
+  const { approve, isPending: isApproving } = useUSDCApproval(betAddress)
+  const { allowance, refetch: refetchAllowance } = useUSDCAllowance(
+    isOnInviteChain ? account?.address : undefined,
+    betAddress
+  )
+  const { balance } = useUSDCBalance(isOnInviteChain ? account?.address : undefined)
+
+  const isCreator = account?.address.toLowerCase() === bet.creator.toLowerCase()
+  const isOpponent = account?.address.toLowerCase() === bet.opponent.toLowerCase()
+  const isAccepted = accepted || (isOpponent && bet.opponentFunded)
+  const isOpen = bet.state === 0 && !bet.opponentFunded
+  const isExpired = getTimeRemaining(bet.expiresAt).expired
+  const hasBalance = balance !== undefined && balance >= stakeAmount
+  const hasAllowance = allowance !== undefined && allowance >= stakeAmount
+
+  const currentStep: FlowStep = !account
+    ? "connect"
+    : !isOnInviteChain
+      ? "network"
+      : !hasAllowance && !isAccepted
+        ? "approve"
+        : "accept"
+  const currentIndex = FLOW_STEPS.findIndex((item) => item.step === currentStep)
+
+  const handleSwitch = async () => {
+    setIsSwitching(true)
+    try {
+      await switchChain(chainId)
+    } catch (error) {
+      console.error("Failed to switch network:", error)
+      toast.error(`Switch your wallet to ${inviteChain.name} to continue`)
+    } finally {
+      setIsSwitching(false)
+    }
+  }
+
+  const handleApprove = () => {
+    const toastId = toast.loading("Approving USDC...")
+    approve(stake, {
+      onSuccess: async () => {
+        await refetchAllowance()
+        toast.success("USDC approved", { id: toastId })
+      },
+      onError: (error) => {
+        toastTransactionError("Failed to approve USDC", error, { id: toastId })
+      },
+    })
+  }
+
+  const handleAccept = () => {
+    const toastId = toast.loading("Accepting bet...")
+    acceptBet({
+      onSuccess: () => {
+        setAccepted(true)
+        toast.success("Bet accepted!", { id: toastId })
+        refetch()
+      },
+      onError: (error) => {
+        console.error("Accept bet error:", error)
+        toastTransactionError("Failed to accept bet", error, { id: toastId })
+      },
+    })
+  }
+
+  // Anything that stops this wallet from accepting, checked in order
+  const blocker = isAccepted
+    ? null
+    : !isOpen
+      ? "This bet is no longer open for acceptance."
+      : isExpired
+        ? "This bet has expired."
+        : account && isCreator
+          ? "This is your own bet. Send the link to your opponent."
+          : account && !isOpponent
+            ? `This invitation is for ${opponentDisplay}. Connect that wallet to accept.`
+            : account && isOnInviteChain && balance !== undefined && !hasBalance
+              ? `You need ${stake} USDC to accept this bet.`
+              : null
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-orange-500/50">
+        <CardHeader>
+          <p className="text-sm text-neutral-400">{creatorName} challenged you</p>
+          <CardTitle className="text-2xl">{bet.description}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {message && (
+            <div className="bg-neutral-900 border-l-4 border-orange-500 p-4">
+              <p className="text-neutral-200">&ldquo;{message}&rdquo;</p>
+              <p className="text-xs text-neutral-500 mt-2 flex items-center gap-1">
+                <PenLine className="w-3 h-3" />
+                Signed by {creatorName}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <h3 className="font-bold uppercase text-sm mb-2">How to Determine Winner</h3>
+            <div className="bg-neutral-900 border border-neutral-700 rounded p-4 text-neutral-300 text-sm">
+              {bet.outcomeDescription}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <div className="text-neutral-500">Stake each</div>
+              <div className="text-lg font-bold text-orange-500">{stake} USDC</div>
+            </div>
+            <div>
+              <div className="text-neutral-500">Ends</div>
+              <div className="text-lg font-bold">{new Date(bet.expiresAt * 1000).toLocaleDateString()}</div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Accept the Challenge</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Progress */}
+          <ol className="grid grid-cols-4 gap-2">
+            {FLOW_STEPS.map((item, index) => {
+              const isDone = isAccepted || index < currentIndex
+              const isCurrent = !isAccepted && index === currentIndex
+              return (
+                <li key={item.step} className="flex flex-col items-center text-center gap-2">
+                  <div
+                    className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold ${
+                      isDone
+                        ? "bg-green-500/20 text-green-400"
+                        : isCurrent
+                          ? "bg-orange-500 text-black"
+                          : "bg-neutral-800 text-neutral-500"
+                    }`}
+                  >
+                    {isDone ? <CheckCircle2 className="w-4 h-4" /> : index + 1}
+                  </div>
+                  <span className={`text-xs ${isCurrent ? "text-white" : "text-neutral-500"}`}>{item.label}</span>
+                </li>
+              )
+            })}
+          </ol>
+
+          {isAccepted ? (
+            <div className="space-y-4 text-center">
+              <div className="flex items-center justify-center gap-2 text-green-500">
+                <CheckCircle2 className="w-5 h-5" />
+                <span className="font-bold">You&apos;re in!</span>
+              </div>
+              <p className="text-sm text-neutral-400">
+                {bet.creatorFunded
+                  ? "Both stakes are in and the bet is now active."
+                  : `The bet starts once ${creatorName} funds their stake.`}
+              </p>
+              <Link href={`/bets/${betAddress}`}>
+                <Button className="w-full">View Bet</Button>
+              </Link>
+            </div>
+          ) : blocker ? (
+            <div className="space-y-4">
+              <div className="bg-red-500/10 border border-red-500/30 rounded p-3 text-sm text-red-400 flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                {blocker}
+              </div>
+              {account && !isOpponent && !isCreator && isOpen && (
+                <ConnectButton client={client} wallets={wallets} chain={inviteChain} chains={SUPPORTED_CHAINS} theme="dark" />
+              )}
+              <Link href={`/bets/${betAddress}`}>
+                <Button variant="outline" className="w-full bg-transparent">
+                  View Bet
+                </Button>
+              </Link>
+            </div>
+          ) : currentStep === "connect" ? (
+            <div className="flex justify-center">
+              <ConnectButton
+                client={client}
+                wallets={wallets}
+                chain={inviteChain}
+                chains={SUPPORTED_CHAINS}
+                theme="dark"
+                connectButton={{ label: "Connect Wallet" }}
+              />
+            </div>
+          ) : currentStep === "network" ? (
+            <Button className="w-full" onClick={handleSwitch} disabled={isSwitching}>
+              {isSwitching ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Switching...
+                </>
+              ) : (
+                `Switch to ${inviteChain.name}`
+              )}
+            </Button>
+          ) : currentStep === "approve" ? (
+            <div className="space-y-2">
+              <Button className="w-full" onClick={handleApprove} disabled={isApproving || allowance === undefined}>
+                {isApproving ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Approving USDC...
+                  </>
+                ) : (
+                  `Approve ${stake} USDC`
+                )}
+              </Button>
+              <p className="text-xs text-neutral-500 text-center">
+                Lets the bet contract take your stake when you accept
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Button className="w-full" onClick={handleAccept} disabled={isAccepting}>
+                {isAccepting ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Accepting Bet...
+                  </>
+                ) : (
+                  `Accept & Stake ${stake} USDC`
+                )}
+              </Button>
+              <div className="flex justify-center">
+                <Badge className="bg-green-500/20 text-green-400 border-0 text-xs">USDC approved</Badge>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Copy, Link2, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { useCreateInvite } from "@/lib/hooks/useInvites"
+import { MAX_INVITE_MESSAGE_LENGTH } from "@/lib/invites"
+import { toastTransactionError } from "@/lib/transactions/toast"
+import { toast } from "sonner"
+
+interface InviteLinkCardProps {
+  betAddress: string
+  opponentName: string
+}
+
+export function InviteLinkCard({ betAddress, opponentName }: InviteLinkCardProps) {
+  const [message, setMessage] = useState("")
+  const [copied, setCopied] = useState(false)
+  const { createInvite, inviteUrl, isPending, reset } = useCreateInvite(betAddress)
+
+  const copy = async (url: string) => {
+    await navigator.clipboard.writeText(url)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  const handleCreate = () => {
+    createInvite(message, {
+      onSuccess: (url) => {
+        copy(url).catch(() => {})
+        toast.success("Invite link copied")
+      },
+      onError: (error) => {
+        console.error("Failed to create invite:", error)
+        toastTransactionError("Failed to create invite link", error)
+      },
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Link2 className="w-4 h-4" />
+          Invite Link
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-neutral-400">
+          Share a link that walks {opponentName} through accepting this bet. Links with a message ask your wallet to
+          sign it, so the invite shows it came from you.
+        </p>
+
+        {inviteUrl ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input readOnly value={inviteUrl} className="bg-neutral-900 border-neutral-700 text-xs" />
+              <Button size="sm" variant="outline" className="bg-transparent" onClick={() => copy(inviteUrl)}>
+                {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              </Button>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => {
+                reset()
+                setMessage("")
+              }}
+            >
+              Create another link
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div>
+              <Textarea
+                placeholder="Add a personal message (optional)"
+                value={message}
+                onChange={(e) => setMessage(e.target.value.slice(0, MAX_INVITE_MESSAGE_LENGTH))}
+                className="bg-neutral-900 border-neutral-700"
+                rows={3}
+              />
+              <p className="text-xs text-neutral-500 text-right mt-1">
+                {message.length}/{MAX_INVITE_MESSAGE_LENGTH}
+              </p>
+            </div>
+            <Button className="w-full" onClick={handleCreate} disabled={isPending}>
+              {isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Waiting for signature...
+                </>
+              ) : message.trim() ? (
+                "Sign & Create Link"
+              ) : (
+                "Create Link"
+              )}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,191 @@
+"use client"
+
+import { useState } from "react"
+import { AlertCircle, CheckCircle2, Clock, Loader2, User } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import {
+  useDisplayName,
+  useUserProfile,
+  useUserSearch,
+  useVerifiedEnsName,
+  type OpponentStatus,
+} from "@/lib/hooks/useUsernameRegistry"
+import { useRecentCounterparties } from "@/lib/hooks/useBets"
+import { useUserStats } from "@/lib/hooks/useUserStats"
+import type { IndexedUser } from "@/lib/indexer/client"
+
+interface OpponentPickerProps {
+  value: string
+  onChange: (value: string) => void
+  status: OpponentStatus
+  resolvedAddress?: string
+  creator?: string
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`
+}
+
+function UserSuggestion({ user, onSelect }: { user: IndexedUser; onSelect: (identifier: string) => void }) {
+  const { ensName } = useVerifiedEnsName(user.address, user.ensName)
+
+  return (
+    <button
+      type="button"
+      className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left hover:bg-neutral-800"
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={() => onSelect(user.username)}
+    >
+      <span className="font-bold truncate">@{user.username}</span>
+      <span className="text-xs text-neutral-500 truncate">{ensName || shortAddress(user.address)}</span>
+    </button>
+  )
+}
+
+function CounterpartySuggestion({ address, onSelect }: { address: string; onSelect: (identifier: string) => void }) {
+  const { displayName } = useDisplayName(address)
+  const { profile } = useUserProfile(address)
+
+  return (
+    <button
+      type="button"
+      className="w-full flex items-center justify-between gap-3 px-3 py-2 text-left hover:bg-neutral-800"
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={() => onSelect(profile?.hasUsername ? profile.username : address)}
+    >
+      <span className="flex items-center gap-2 truncate">
+        <Clock className="w-3 h-3 text-neutral-500 shrink-0" />
+        <span className="truncate">{displayName}</span>
+      </span>
+      <span className="text-xs font-mono text-neutral-500">{shortAddress(address)}</span>
+    </button>
+  )
+}
+
+function OpponentSummary({ address }: { address: string }) {
+  const { displayName } = useDisplayName(address)
+  const { data: stats, isLoading } = useUserStats(address)
+
+  return (
+    <div className="mt-3 p-3 bg-neutral-900 border border-green-500/30 rounded text-sm space-y-2">
+      <div className="flex items-center gap-2 text-green-500">
+        <CheckCircle2 className="w-4 h-4" />
+        <span className="font-bold">{displayName}</span>
+      </div>
+      <code className="block text-xs text-neutral-400 break-all">{address}</code>
+      {isLoading ? (
+        <div className="h-4 bg-neutral-700 rounded animate-pulse w-2/3" />
+      ) : stats && stats.totalBetsCreated > 0 ? (
+        <div className="grid grid-cols-4 gap-2 text-center">
+          <div>
+            <div className="font-bold text-orange-500">{stats.totalBetsCreated}</div>
+            <div className="text-xs text-neutral-500">Bets</div>
+          </div>
+          <div>
+            <div className="font-bold text-orange-500">
+              {stats.wonBets}-{stats.lostBets}
+              {stats.drawBets > 0 ? `-${stats.drawBets}` : ""}
+            </div>
+            <div className="text-xs text-neutral-500">Record</div>
+          </div>
+          <div>
+            <div className="font-bold text-orange-500">{stats.winRate.toFixed(0)}%</div>
+            <div className="text-xs text-neutral-500">Win Rate</div>
+          </div>
+          <div>
+            <div className="font-bold text-orange-500">${stats.totalVolume.toFixed(0)}</div>
+            <div className="text-xs text-neutral-500">Volume</div>
+          </div>
+        </div>
+      ) : (
+        <p className="text-xs text-neutral-500">No betting history yet</p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Opponent field for P2P bets: resolves the identifier live through the UsernameRegistry and
+ * suggests registered users and past opponents
+ */
+export function OpponentPicker({ value, onChange, status, resolvedAddress, creator }: OpponentPickerProps) {
+  const [isFocused, setIsFocused] = useState(false)
+  const { users, isAvailable: canSearch } = useUserSearch(value)
+  const { counterparties } = useRecentCounterparties(creator)
+
+  const query = value.trim()
+  const suggestedUsers = users.filter((user) => user.address.toLowerCase() !== creator?.toLowerCase())
+  const showRecent = query.length === 0 && counterparties.length > 0
+  const showUsers = query.length > 0 && suggestedUsers.length > 0 && status !== "resolved"
+  const isOpen = isFocused && (showRecent || showUsers)
+
+  const handleSelect = (identifier: string) => {
+    onChange(identifier)
+    setIsFocused(false)
+  }
+
+  return (
+    <div className="mt-4">
+      <div className="relative">
+        <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-500" />
+        <Input
+          placeholder={canSearch ? "Search username, ENS name or paste an address" : "Enter username, ENS name or wallet address"}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => setIsFocused(false)}
+          className="pl-9 pr-10 bg-neutral-800 border-neutral-700"
+          autoComplete="off"
+        />
+        {query.length > 0 && (
+          <div className="absolute right-3 top-1/2 -translate-y-1/2">
+            {status === "resolving" ? (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            ) : status === "resolved" ? (
+              <CheckCircle2 className="h-4 w-4 text-green-500" />
+            ) : (
+              <AlertCircle className="h-4 w-4 text-red-500" />
+            )}
+          </div>
+        )}
+
+        {isOpen && (
+          <div className="absolute z-20 mt-1 w-full bg-neutral-900 border border-neutral-700 rounded shadow-lg overflow-hidden">
+            {showRecent && (
+              <>
+                <div className="px-3 pt-2 pb-1 text-xs uppercase text-neutral-500">Recent opponents</div>
+                {counterparties.map((counterparty) => (
+                  <CounterpartySuggestion key={counterparty.address} address={counterparty.address} onSelect={handleSelect} />
+                ))}
+              </>
+            )}
+            {showUsers && (
+              <>
+                <div className="px-3 pt-2 pb-1 text-xs uppercase text-neutral-500">Players</div>
+                {suggestedUsers.map((user) => (
+                  <UserSuggestion key={user.address} user={user} onSelect={handleSelect} />
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      {status === "resolved" && resolvedAddress && <OpponentSummary address={resolvedAddress} />}
+
+      {status === "not-found" && (
+        <p className="mt-2 text-sm text-red-500 flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" />
+          No player found for &quot;{query}&quot;. Check the username, ENS name or address.
+        </p>
+      )}
+
+      {status === "self" && (
+        <p className="mt-2 text-sm text-red-500 flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" />
+          That&apos;s your own wallet. Choose someone else to bet against.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge"
 import { AlertTriangle, Clock, Trophy } from "lucide-react"
 import { useDeclareOutcome } from "@/lib/hooks/useBetActions"
 import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
 
 interface OutcomeDeclarationCardProps {
   betAddress: string
@@ -41,7 +42,7 @@ export function OutcomeDeclarationCard({
       },
       onError: (error) => {
         console.error("Declare outcome error:", error)
-        toast.error("Failed to declare outcome. Please try again.", { id: toastId })
+        toastTransactionError("Failed to declare outcome", error, { id: toastId })
       }
     })
   }
@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge"
 import { Clock, CheckCircle } from "lucide-react"
 import { useFinalizeResolution } from "@/lib/hooks/useBetActions"
 import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
 
 interface OutcomeWaitingCardProps {
   betAddress: string
@@ -32,7 +33,7 @@ export function OutcomeWaitingCard({
       },
       onError: (error) => {
         console.error("Finalize resolution error:", error)
-        toast.error("Failed to finalize resolution. Please try again.", { id: toastId })
+        toastTransactionError("Failed to finalize resolution", error, { id: toastId })
       }
     })
   }
@@ -1,13 +1,14 @@
 "use client"
 
-import { useState, useMemo } from "react"
+import { useState, useMemo, useEffect } from "react"
 import { Search, RefreshCw, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import BetCard from "@/components/bets/bet-card"
-import { useAllBetAddresses, useBatchBetDetails } from "@/lib/hooks/useBets"
+import { useExploreBets } from "@/lib/hooks/useBets"
 import { transformBetData } from "@/lib/utils/bet-helpers"
+import type { BetSort } from "@/lib/indexer/client"
 
 export default function ExploreBetsClient() {
   const [searchTerm, setSearchTerm] = useState("")
@@ -17,25 +18,27 @@ export default function ExploreBetsClient() {
   const [page, setPage] = useState(0)
   const pageSize = 20
 
-  // Fetch all bet addresses
-  const { data: allAddresses, isLoading: isLoadingAddresses, refetch: refetchAddresses } = useAllBetAddresses()
-
-  // Paginate addresses
-  const paginatedAddresses = useMemo(() => {
-    if (!allAddresses) return []
-    return allAddresses.slice(page * pageSize, (page + 1) * pageSize)
-  }, [allAddresses, page])
-
-  // Fetch bet details for current page
-  const { data: bets, isLoading: isLoadingBets, refetch: refetchBets } = useBatchBetDetails(paginatedAddresses)
-
-  const isLoading = isLoadingAddresses || isLoadingBets
-
-  // Transform and filter bets
+  // Filters change the result set, so start again from the first page
+  useEffect(() => {
+    setPage(0)
+  }, [searchTerm, statusFilter, categoryFilter, sortBy])
+
+  // Fetch the current page (indexed when available, otherwise straight from the chain)
+  const { bets, total, isIndexed, isLoading, refetch } = useExploreBets({
+    page,
+    pageSize,
+    status: statusFilter,
+    category: categoryFilter,
+    search: searchTerm,
+    sort: sortBy as BetSort,
+  })
+
+  // Transform and filter bets (the indexer has already filtered its page)
   const filteredBets = useMemo(() => {
     if (!bets) return []
 
     const transformed = bets.map(transformBetData)
+    if (isIndexed) return transformed
 
     return transformed.filter((bet) => {
       const matchesSearch = bet.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -43,7 +46,7 @@ export default function ExploreBetsClient() {
       const matchesCategory = categoryFilter === "all" || bet.category.toLowerCase() === categoryFilter.toLowerCase()
       return matchesSearch && matchesStatus && matchesCategory
     })
-  }, [bets, searchTerm, statusFilter, categoryFilter])
+  }, [bets, isIndexed, searchTerm, statusFilter, categoryFilter])
 
   // Sort bets
   const sortedBets = useMemo(() => {
@@ -65,11 +68,10 @@ export default function ExploreBetsClient() {
   }, [filteredBets, sortBy])
 
   const handleRefresh = () => {
-    refetchAddresses()
-    refetchBets()
+    refetch()
   }
 
-  const totalPages = allAddresses ? Math.ceil(allAddresses.length / pageSize) : 0
+  const totalPages = Math.ceil(total / pageSize)
   const hasNextPage = page < totalPages - 1
   const hasPrevPage = page > 0
 
@@ -83,7 +85,7 @@ export default function ExploreBetsClient() {
               <span className="text-orange-500">EXPLORE</span> BETS
             </h1>
             <p className="text-neutral-400">
-              Browse all active and pending bets on the platform {allAddresses && `(${allAddresses.length} total)`}
+              Browse all active and pending bets on the platform {total > 0 && `(${total} total)`}
             </p>
           </div>
           <Button
@@ -200,10 +202,10 @@ export default function ExploreBetsClient() {
           <div className="text-center py-12">
             <Search className="w-12 h-12 text-neutral-600 mx-auto mb-4" />
             <h3 className="text-xl font-bold mb-2">
-              {allAddresses?.length === 0 ? "No bets yet" : "No bets found"}
+              {total === 0 ? "No bets yet" : "No bets found"}
             </h3>
             <p className="text-neutral-400 mb-6">
-              {allAddresses?.length === 0
+              {total === 0
                 ? "Be the first to create a bet!"
                 : "Try adjusting your filters"}
             </p>
@@ -0,0 +1,239 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { CheckCircle, Clock, ExternalLink, Gavel, User } from "lucide-react"
+import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
+import {
+  DISPUTE_STATUS_LABELS,
+  DISPUTE_TIER_JUDGES,
+  useCanResolve,
+  useFinalizeDispute,
+  useSubmitVote,
+  type DocketCase,
+} from "@/lib/hooks/useDisputeManager"
+import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
+import { formatUSDC } from "@/lib/utils"
+import { EvidencePanel } from "@/components/bets/evidence-panel"
+
+// Bet.Outcome
+const OUTCOME_LABELS: Record<number, string> = {
+  1: "Creator Wins",
+  2: "Opponent Wins",
+  3: "Draw",
+}
+
+interface DisputeCaseCardProps {
+  dispute: DocketCase
+  onUpdated?: () => void
+}
+
+function PartyPosition({ role, address, position }: { role: string; address: string; position: string }) {
+  const { displayName } = useDisplayName(address)
+
+  return (
+    <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4">
+      <div className="flex items-center gap-2 mb-2">
+        <User className="w-4 h-4 text-orange-400" />
+        <span className="text-xs text-neutral-500 uppercase">{role}</span>
+      </div>
+      <div className="font-medium mb-1" title={address}>{displayName}</div>
+      <div className="text-sm text-neutral-400">{position}</div>
+    </div>
+  )
+}
+
+/**
+ * What each party is arguing, from the outcome declared before the dispute
+ */
+function getPositions(declaredOutcome: number) {
+  switch (declaredOutcome) {
+    case 1:
+      return { creator: "Declared that they won", opponent: "Disputes the creator's win" }
+    case 2:
+      return { creator: "Disputes the opponent's win", opponent: "Declared that they won" }
+    case 3:
+      return { creator: "A draw was declared and disputed", opponent: "A draw was declared and disputed" }
+    default:
+      return { creator: "No outcome declared", opponent: "No outcome declared" }
+  }
+}
+
+export function DisputeCaseCard({ dispute, onUpdated }: DisputeCaseCardProps) {
+  const [selectedOutcome, setSelectedOutcome] = useState<number | null>(null)
+
+  const { submitVote, isPending: isVoting } = useSubmitVote(dispute.disputeId)
+  const { finalizeDispute, isPending: isFinalizing } = useFinalizeDispute(dispute.disputeId)
+  const { canResolve } = useCanResolve(dispute.status === 0 ? dispute.disputeId : undefined)
+
+  const currentTime = Math.floor(Date.now() / 1000)
+  const timeRemaining = dispute.votingDeadline - currentTime
+  const hoursRemaining = Math.max(0, Math.floor(timeRemaining / 3600))
+  const minutesRemaining = Math.max(0, Math.floor((timeRemaining % 3600) / 60))
+  const isVotingOpen = dispute.status === 0 && timeRemaining > 0
+
+  const bet = dispute.bet
+  const positions = getPositions(bet?.outcome ?? 0)
+
+  const handleVote = () => {
+    if (!selectedOutcome) {
+      toast.error("Select an outcome first")
+      return
+    }
+
+    const toastId = toast.loading("Submitting vote...")
+    submitVote(selectedOutcome, {
+      onSuccess: () => {
+        toast.success(`Vote recorded: ${OUTCOME_LABELS[selectedOutcome]}`, { id: toastId })
+        onUpdated?.()
+      },
+      onError: (error) => {
+        console.error("Vote error:", error)
+        toastTransactionError("Failed to submit vote", error, { id: toastId })
+      },
+    })
+  }
+
+  const handleFinalize = () => {
+    const toastId = toast.loading("Finalizing dispute...")
+    finalizeDispute({
+      onSuccess: () => {
+        toast.success("Dispute finalized and bet resolved", { id: toastId })
+        onUpdated?.()
+      },
+      onError: (error) => {
+        console.error("Finalize dispute error:", error)
+        toastTransactionError("Failed to finalize dispute", error, { id: toastId })
+      },
+    })
+  }
+
+  return (
+    <Card className={dispute.status === 0 ? "border-orange-500/40" : ""}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Gavel className="h-5 w-5 text-orange-500" />
+              Case #{dispute.disputeId.toString()}
+            </CardTitle>
+            <div className="flex gap-2 mt-2">
+              <Badge className="bg-neutral-800 text-neutral-300 border-0">
+                Tier {dispute.tier} · {DISPUTE_TIER_JUDGES[dispute.tier] ?? dispute.judgeCount} judge
+                {(DISPUTE_TIER_JUDGES[dispute.tier] ?? dispute.judgeCount) === 1 ? "" : "s"}
+              </Badge>
+              <Badge className="bg-orange-500/20 text-orange-400 border-0">
+                {DISPUTE_STATUS_LABELS[dispute.status] ?? "Unknown"}
+              </Badge>
+            </div>
+          </div>
+          {isVotingOpen ? (
+            <Badge className="bg-orange-500/20 text-orange-400 border-0">
+              <Clock className="w-3 h-3 mr-1" />
+              {hoursRemaining}h {minutesRemaining}m left
+            </Badge>
+          ) : (
+            dispute.status === 0 && (
+              <Badge className="bg-red-500/20 text-red-400 border-0">Voting closed</Badge>
+            )
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Bet terms */}
+        {bet ? (
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-neutral-400">Bet Terms</div>
+            <div className="bg-neutral-900 border border-neutral-700 rounded-lg p-4 space-y-2">
+              <p className="font-medium">{bet.description}</p>
+              {bet.outcomeDescription && (
+                <p className="text-sm text-neutral-400">Creator wins if: {bet.outcomeDescription}</p>
+              )}
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-orange-500 font-bold">{formatUSDC(bet.stakeAmount)} USDC each</span>
+                {bet.tags.map((tag) => (
+                  <Badge key={tag} className="bg-neutral-800 text-neutral-400 border-0">
+                    {tag}
+                  </Badge>
+                ))}
+                <span className="text-neutral-500">
+                  Expired {new Date(Number(bet.expiresAt) * 1000).toLocaleString()}
+                </span>
+              </div>
+              <Link
+                href={`/bets/${dispute.betContract}`}
+                className="text-xs text-cyan-400 hover:text-cyan-300 inline-flex items-center gap-1"
+              >
+                View bet <ExternalLink className="w-3 h-3" />
+              </Link>
+            </div>
+          </div>
+        ) : (
+          <div className="text-sm text-neutral-500 font-mono">{dispute.betContract}</div>
+        )}
+
+        {/* Positions */}
+        {bet && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <PartyPosition role="Creator" address={bet.creator} position={positions.creator} />
+            <PartyPosition role="Opponent" address={bet.opponent} position={positions.opponent} />
+          </div>
+        )}
+
+        {bet && <EvidencePanel betAddress={dispute.betContract} creator={bet.creator} opponent={bet.opponent} />}
+
+        <div className="text-sm text-neutral-400">
+          Votes submitted: {dispute.votesSubmitted} / {dispute.judgeCount} · Deadline{" "}
+          {new Date(dispute.votingDeadline * 1000).toLocaleString()}
+        </div>
+
+        {/* Vote form */}
+        {dispute.vote.hasVoted ? (
+          <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4 flex items-center gap-2 text-sm text-green-300">
+            <CheckCircle className="w-4 h-4" />
+            You voted {OUTCOME_LABELS[dispute.vote.outcome]} on{" "}
+            {new Date(dispute.vote.votedAt * 1000).toLocaleString()}
+          </div>
+        ) : isVotingOpen ? (
+          <div className="space-y-3">
+            <div className="text-sm font-medium text-neutral-400">Your Decision</div>
+            <div className="grid grid-cols-3 gap-2">
+              {[1, 2, 3].map((outcome) => (
+                <Button
+                  key={outcome}
+                  variant={selectedOutcome === outcome ? "default" : "outline"}
+                  onClick={() => setSelectedOutcome(outcome)}
+                  disabled={isVoting}
+                >
+                  {OUTCOME_LABELS[outcome]}
+                </Button>
+              ))}
+            </div>
+            <Button
+              className="w-full bg-orange-500 hover:bg-orange-600"
+              onClick={handleVote}
+              disabled={!selectedOutcome || isVoting}
+            >
+              {isVoting ? "Submitting..." : "Submit Vote"}
+            </Button>
+          </div>
+        ) : dispute.status === 1 ? (
+          <div className="text-sm text-neutral-400">
+            Final outcome: <span className="font-medium text-white">{OUTCOME_LABELS[dispute.finalOutcome]}</span>
+          </div>
+        ) : null}
+
+        {dispute.status === 0 && canResolve && !isVotingOpen && (
+          <Button variant="outline" className="w-full" onClick={handleFinalize} disabled={isFinalizing}>
+            {isFinalizing ? "Finalizing..." : "Finalize Dispute"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,7 +5,7 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import Link from "next/link"
 import { useJudgeProfile } from "@/lib/hooks/useJudgeRegistry"
-import { formatAddress } from "@/lib/utils"
+import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
 import { Award, Scale, TrendingUp, Shield } from "lucide-react"
 
 interface JudgeCardProps {
@@ -15,6 +15,7 @@ interface JudgeCardProps {
 
 export function JudgeCard({ judgeAddress, showActions = true }: JudgeCardProps) {
   const { profile, isLoading } = useJudgeProfile(judgeAddress)
+  const { displayName } = useDisplayName(judgeAddress)
 
   if (isLoading) {
     return (
@@ -55,8 +56,8 @@ export function JudgeCard({ judgeAddress, showActions = true }: JudgeCardProps)
         {/* Header */}
         <div className="flex justify-between items-start mb-4">
           <div>
-            <h3 className="font-bold text-lg mb-1">
-              {formatAddress(profile.judgeAddress)}
+            <h3 className="font-bold text-lg mb-1" title={profile.judgeAddress}>
+              {displayName}
             </h3>
             <p className="text-sm text-neutral-400">
               Judge since {new Date(Number(profile.registrationTime) * 1000).toLocaleDateString()}
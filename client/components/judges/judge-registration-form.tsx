@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge"
 import { useJudgeRegistration, useJudgeRegistryConfig } from "@/lib/hooks/useJudgeRegistry"
 import { Shield, AlertCircle, CheckCircle, Clock } from "lucide-react"
 import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
 
 export function JudgeRegistrationForm() {
   const [currentStep, setCurrentStep] = useState(0)
@@ -17,12 +18,10 @@ export function JudgeRegistrationForm() {
   const {
     registerJudge,
     isPending,
-    transactionResult,
+    isSuccess,
     error,
   } = useJudgeRegistration(stakeAmount)
 
-  const isSuccess = !!transactionResult && !error
-
   useEffect(() => {
     if (isSuccess) {
       toast.success(`Successfully registered as judge with ${stakeAmount} MNT staked!`)
@@ -32,7 +31,7 @@ export function JudgeRegistrationForm() {
 
   useEffect(() => {
     if (error) {
-      toast.error("Failed to register as judge. Please try again.")
+      toastTransactionError("Failed to register as judge", error)
     }
   }, [error])
 
@@ -15,6 +15,7 @@ import {
 } from "@/lib/hooks/useJudgeRegistry"
 import { ArrowUp, ArrowDown, Clock, AlertTriangle } from "lucide-react"
 import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
 
 export function JudgeStakingPanel() {
   const account = useActiveAccount()
@@ -51,11 +52,11 @@ export function JudgeStakingPanel() {
       onSuccess: () => {
         toast.success(`Successfully increased stake by ${stakeAmount} MNT!`, { id: toastId })
         setStakeAmount("")
-        setTimeout(() => refetchProfile(), 2000)
+        refetchProfile()
       },
       onError: (error: any) => {
         console.error("Increase stake failed:", error)
-        toast.error("Failed to increase stake. Please try again.", { id: toastId })
+        toastTransactionError("Failed to increase stake", error, { id: toastId })
       }
     })
   }
@@ -66,14 +67,12 @@ export function JudgeStakingPanel() {
     requestWithdrawal({
       onSuccess: () => {
         toast.success("Withdrawal requested! Lock period has started.", { id: toastId })
-        setTimeout(() => {
-          refetchWithdrawal()
-          refetchProfile()
-        }, 2000)
+        refetchWithdrawal()
+        refetchProfile()
       },
       onError: (error: any) => {
         console.error("Request withdrawal failed:", error)
-        toast.error("Failed to request withdrawal. Please try again.", { id: toastId })
+        toastTransactionError("Failed to request withdrawal", error, { id: toastId })
       }
     })
   }
@@ -84,14 +83,12 @@ export function JudgeStakingPanel() {
     completeWithdrawal({
       onSuccess: () => {
         toast.success("Withdrawal completed successfully!", { id: toastId })
-        setTimeout(() => {
-          refetchWithdrawal()
-          refetchProfile()
-        }, 2000)
+        refetchWithdrawal()
+        refetchProfile()
       },
       onError: (error: any) => {
         console.error("Complete withdrawal failed:", error)
-        toast.error("Failed to complete withdrawal. Please try again.", { id: toastId })
+        toastTransactionError("Failed to complete withdrawal", error, { id: toastId })
       }
     })
   }
@@ -5,20 +5,30 @@ import Link from "next/link"
 import { Menu, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { ConnectButton, useActiveAccount } from "thirdweb/react"
-import { client, mantleSepolia, wallets } from "@/lib/thirdweb"
+import { client, wallets } from "@/lib/thirdweb"
+import { SUPPORTED_CHAINS } from "@/lib/chains"
+import { useActiveChain } from "@/lib/hooks/useActiveChain"
+import { useAdminAccess } from "@/lib/hooks/useAdmin"
+import NetworkSwitcher from "./network-switcher"
+import TransactionTracker from "./transaction-tracker"
 import Image from "next/image"
 
 export default function Navbar() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const account = useActiveAccount()
+  const chain = useActiveChain()
+  const { hasAccess } = useAdminAccess()
 
   const navLinks = [
     { label: "Explore", href: "/explore" },
     { label: "Create Bet", href: "/create" },
     { label: "My Bets", href: "/my-bets" },
     { label: "Pools", href: "/pools" },
+    { label: "Vault", href: "/vault" },
     { label: "Judges", href: "/judges" },
+    { label: "Leaderboard", href: "/leaderboard" },
     { label: "Profile", href: "/profile" },
+    ...(hasAccess ? [{ label: "Admin", href: "/admin" }] : []),
   ]
 
   return (
@@ -44,11 +54,14 @@ export default function Navbar() {
 
         {/* Right Section */}
         <div className="flex items-center gap-4">
+          <NetworkSwitcher className="hidden sm:flex w-44" />
+          <TransactionTracker />
           <div className="hidden sm:block">
             <ConnectButton
               client={client}
               wallets={wallets}
-              chain={mantleSepolia}
+              chain={chain}
+              chains={SUPPORTED_CHAINS}
               theme="dark"
               autoConnect={true}
               connectButton={{
@@ -85,11 +98,13 @@ export default function Navbar() {
                 {link.label}
               </Link>
             ))}
+            <NetworkSwitcher className="w-full" />
             <div className="mt-4">
               <ConnectButton
                 client={client}
                 wallets={wallets}
-                chain={mantleSepolia}
+                chain={chain}
+                chains={SUPPORTED_CHAINS}
                 theme="dark"
                 autoConnect={true}
                 connectButton={{
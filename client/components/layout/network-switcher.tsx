@@ -0,0 +1,39 @@
+"use client"
+
+import { toast } from "sonner"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useActiveChain, useIsWrongNetwork, useSwitchChain } from "@/lib/hooks/useActiveChain"
+import { SUPPORTED_CHAINS } from "@/lib/chains"
+
+export default function NetworkSwitcher({ className }: { className?: string }) {
+  const chain = useActiveChain()
+  const switchChain = useSwitchChain()
+  const isWrongNetwork = useIsWrongNetwork()
+
+  const handleChange = async (value: string) => {
+    try {
+      await switchChain(Number(value))
+    } catch (error) {
+      console.error("Failed to switch network:", error)
+      toast.error("Failed to switch network. Please switch in your wallet.")
+    }
+  }
+
+  return (
+    <Select value={chain.id.toString()} onValueChange={handleChange}>
+      <SelectTrigger
+        className={`${className || ""} ${isWrongNetwork ? "border-red-500 text-red-400" : "border-neutral-700"}`}
+        title={isWrongNetwork ? "Your wallet is on an unsupported network" : undefined}
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {SUPPORTED_CHAINS.map((supportedChain) => (
+          <SelectItem key={supportedChain.id} value={supportedChain.id.toString()}>
+            {supportedChain.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+
+import { useActiveAccount } from "thirdweb/react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { CheckCircle2, ExternalLink, History, Loader2, XCircle } from "lucide-react"
+import { useActiveChain } from "@/lib/hooks/useActiveChain"
+import { useResumePendingTransactions, useTransactionHistory } from "@/lib/hooks/useTransactions"
+import { clearSettledTransactions, type TrackedTransaction } from "@/lib/transactions/store"
+
+function StatusIcon({ status }: { status: TrackedTransaction["status"] }) {
+  if (status === "pending") return <Loader2 className="w-4 h-4 animate-spin text-orange-500 flex-shrink-0" />
+  if (status === "confirmed") return <CheckCircle2 className="w-4 h-4 text-green-500 flex-shrink-0" />
+  return <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
+}
+
+export default function TransactionTracker() {
+  const account = useActiveAccount()
+  const chain = useActiveChain()
+  const { transactions, pendingCount } = useTransactionHistory(chain.id)
+  const explorerUrl = chain.blockExplorers?.[0]?.url
+
+  useResumePendingTransactions()
+
+  if (!account) return null
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative text-neutral-400 hover:text-orange-500 hover:bg-neutral-800">
+          {pendingCount > 0 ? <Loader2 className="w-5 h-5 animate-spin text-orange-500" /> : <History className="w-5 h-5" />}
+          {pendingCount > 0 && (
+            <span className="absolute -top-1 -right-1 bg-orange-500 text-neutral-950 text-[10px] font-bold rounded-full w-4 h-4 flex items-center justify-center">
+              {pendingCount}
+            </span>
+          )}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-950 border-neutral-800">
+        <DialogHeader>
+          <DialogTitle>Transactions</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Transactions sent from this browser on {chain.name}. Pending ones keep being tracked across reloads.
+          </DialogDescription>
+        </DialogHeader>
+
+        {transactions.length === 0 ? (
+          <div className="text-sm text-neutral-500 text-center py-6">No transactions yet</div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {transactions.map((transaction) => (
+              <div key={transaction.hash} className="bg-neutral-900 border border-neutral-800 rounded p-3 text-sm">
+                <div className="flex items-center gap-2">
+                  <StatusIcon status={transaction.status} />
+                  <span className="font-medium flex-1">{transaction.label}</span>
+                  <span className="text-xs text-neutral-500">{new Date(transaction.submittedAt).toLocaleString()}</span>
+                  {explorerUrl && (
+                    <a
+                      href={`${explorerUrl}/tx/${transaction.hash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-neutral-500 hover:text-orange-500"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </a>
+                  )}
+                </div>
+                {transaction.error && <div className="text-xs text-red-400 mt-1 ml-6 break-words">{transaction.error}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {transactions.length > pendingCount && (
+          <Button variant="outline" size="sm" onClick={() => clearSettledTransactions(account.address)}>
+            Clear finished
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import Link from "next/link"
+import { useDisplayName } from "@/lib/hooks/useUsernameRegistry"
+
+interface LeaderboardRowProps {
+  rank: number
+  address: string
+  value: string
+  detail?: string
+  href?: string
+}
+
+const RANK_COLORS: Record<number, string> = {
+  1: "text-yellow-400",
+  2: "text-neutral-300",
+  3: "text-orange-400",
+}
+
+export default function LeaderboardRow({ rank, address, value, detail, href }: LeaderboardRowProps) {
+  const { displayName, hasUsername } = useDisplayName(address)
+
+  const name = (
+    <span className={hasUsername ? "font-bold" : "font-mono text-neutral-300"} title={address}>
+      {displayName}
+    </span>
+  )
+
+  return (
+    <div className="flex items-center justify-between py-3 px-4 border-b border-neutral-800 last:border-b-0">
+      <div className="flex items-center gap-4 min-w-0">
+        <span className={`w-8 text-lg font-bold ${RANK_COLORS[rank] || "text-neutral-500"}`}>#{rank}</span>
+        {href ? (
+          <Link href={href} className="hover:text-orange-500 transition-colors truncate">
+            {name}
+          </Link>
+        ) : (
+          <span className="truncate">{name}</span>
+        )}
+      </div>
+      <div className="text-right">
+        <div className="font-bold text-orange-500">{value}</div>
+        {detail && <div className="text-xs text-neutral-500">{detail}</div>}
+      </div>
+    </div>
+  )
+}
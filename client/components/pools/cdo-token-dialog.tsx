@@ -0,0 +1,231 @@
+"use client"
+
+import { useState } from "react"
+import { formatUnits, isAddress, parseUnits } from "viem"
+import { useActiveAccount } from "thirdweb/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { AlertTriangle, ArrowRightLeft } from "lucide-react"
+import { toast } from "sonner"
+import {
+  CDO_SHARE_DECIMALS,
+  useApproveCDOToken,
+  useCDOTokenAllowance,
+  useTransferCDOToken,
+  type CDOHolding,
+} from "@/lib/hooks/useCDOTokens"
+import { toastTransactionError } from "@/lib/transactions/toast"
+
+interface CDOTokenDialogProps {
+  holding: CDOHolding
+  onSuccess?: () => void
+}
+
+function parseShares(value: string): bigint | null {
+  try {
+    const shares = parseUnits(value || "0", CDO_SHARE_DECIMALS)
+    return shares > BigInt(0) ? shares : null
+  } catch {
+    return null
+  }
+}
+
+export default function CDOTokenDialog({ holding, onSuccess }: CDOTokenDialogProps) {
+  const account = useActiveAccount()
+  const [open, setOpen] = useState(false)
+  const [recipient, setRecipient] = useState("")
+  const [amount, setAmount] = useState("")
+
+  const tokenAddress = holding.pool.cdoToken
+  const symbol = holding.pool.symbol || "CDO"
+  const { transfer, isPending: isTransferring } = useTransferCDOToken(tokenAddress)
+  const { approve, isPending: isApproving } = useApproveCDOToken(tokenAddress)
+
+  const isValidRecipient = isAddress(recipient) && recipient.toLowerCase() !== account?.address.toLowerCase()
+  const { allowance, refetch: refetchAllowance } = useCDOTokenAllowance(
+    tokenAddress,
+    account?.address,
+    isValidRecipient ? recipient : undefined
+  )
+
+  const shares = parseShares(amount)
+  const exceedsBalance = !!shares && shares > holding.tokenBalance
+  const estimatedValue =
+    shares && holding.totalShares > BigInt(0) ? (shares * holding.totalAssets) / holding.totalShares : BigInt(0)
+
+  const formatShares = (value: bigint) => formatUnits(value, CDO_SHARE_DECIMALS)
+
+  const handleTransfer = () => {
+    if (!shares || !isValidRecipient || exceedsBalance) return
+
+    const toastId = toast.loading(`Transferring ${amount} ${symbol}...`)
+    transfer(recipient, shares, {
+      onSuccess: () => {
+        toast.success(`Transferred ${amount} ${symbol}`, { id: toastId })
+        setAmount("")
+        setOpen(false)
+        onSuccess?.()
+      },
+      onError: (error) => {
+        console.error("CDO transfer error:", error)
+        toastTransactionError("Transfer failed", error, { id: toastId })
+      },
+    })
+  }
+
+  const handleApprove = () => {
+    if (!shares || !isValidRecipient) return
+
+    const toastId = toast.loading(`Approving ${amount} ${symbol}...`)
+    approve(recipient, shares, {
+      onSuccess: () => {
+        toast.success(`Approved ${amount} ${symbol} for ${recipient.slice(0, 6)}...${recipient.slice(-4)}`, {
+          id: toastId,
+        })
+        refetchAllowance()
+        onSuccess?.()
+      },
+      onError: (error) => {
+        console.error("CDO approve error:", error)
+        toastTransactionError("Approval failed", error, { id: toastId })
+      },
+    })
+  }
+
+  const handleRevoke = () => {
+    if (!isValidRecipient) return
+
+    const toastId = toast.loading("Revoking approval...")
+    approve(recipient, BigInt(0), {
+      onSuccess: () => {
+        toast.success("Approval revoked", { id: toastId })
+        refetchAllowance()
+      },
+      onError: (error) => {
+        console.error("CDO revoke error:", error)
+        toastTransactionError("Failed to revoke approval", error, { id: toastId })
+      },
+    })
+  }
+
+  const fields = (
+    <div className="space-y-4">
+      <div>
+        <label className="text-sm font-medium mb-2 block">Wallet Address</label>
+        <Input
+          placeholder="0x..."
+          value={recipient}
+          onChange={(e) => setRecipient(e.target.value.trim())}
+          className="bg-neutral-900 border-neutral-700 font-mono"
+        />
+        {recipient && !isValidRecipient && (
+          <p className="text-xs text-red-400 mt-1">Enter a valid address other than your own</p>
+        )}
+      </div>
+      <div>
+        <div className="flex justify-between mb-2">
+          <label className="text-sm font-medium">Amount ({symbol})</label>
+          <button
+            type="button"
+            className="text-xs text-orange-400 hover:text-orange-300"
+            onClick={() => setAmount(formatShares(holding.tokenBalance))}
+          >
+            Balance: {formatShares(holding.tokenBalance)}
+          </button>
+        </div>
+        <Input
+          type="number"
+          min="0"
+          step="any"
+          placeholder="0.00"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="bg-neutral-900 border-neutral-700"
+        />
+        {shares && (
+          <p className="text-xs text-neutral-500 mt-1">≈ {formatShares(estimatedValue)} USDC at the current share price</p>
+        )}
+      </div>
+    </div>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={holding.tokenBalance === BigInt(0)}>
+          <ArrowRightLeft className="w-4 h-4 mr-2" />
+          Transfer / Approve
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-950 border-neutral-800">
+        <DialogHeader>
+          <DialogTitle>{holding.pool.name} Shares</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Move {symbol} tokens to another wallet or let another wallet move them for you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="bg-orange-500/10 border border-orange-500/30 rounded p-3 text-xs text-orange-200 flex gap-2">
+          <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          <span>
+            Pool positions stay with the depositing wallet. CDOPool burns the position&apos;s shares from that wallet on
+            withdrawal, so it cannot withdraw while the tokens are elsewhere, and the receiving wallet cannot redeem them
+            with the pool. Transfer them back before withdrawing.
+          </span>
+        </div>
+
+        <Tabs defaultValue="transfer" className="w-full">
+          <TabsList className="w-full justify-start bg-transparent border-b border-neutral-700 h-auto p-0 rounded-none">
+            <TabsTrigger
+              value="transfer"
+              className="data-[state=active]:border-b-2 data-[state=active]:border-orange-500 rounded-none"
+            >
+              Transfer
+            </TabsTrigger>
+            <TabsTrigger
+              value="approve"
+              className="data-[state=active]:border-b-2 data-[state=active]:border-orange-500 rounded-none"
+            >
+              Approve
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="transfer" className="mt-4 space-y-4">
+            {fields}
+            {exceedsBalance && <p className="text-xs text-red-400">Amount exceeds your {symbol} balance</p>}
+            <Button
+              className="w-full bg-orange-500 hover:bg-orange-600"
+              onClick={handleTransfer}
+              disabled={!shares || !isValidRecipient || exceedsBalance || isTransferring}
+            >
+              {isTransferring ? "Transferring..." : `Transfer ${symbol}`}
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="approve" className="mt-4 space-y-4">
+            {fields}
+            {isValidRecipient && allowance !== undefined && (
+              <div className="flex items-center justify-between text-xs text-neutral-400">
+                <span>Current allowance: {formatShares(allowance)} {symbol}</span>
+                {allowance > BigInt(0) && (
+                  <button type="button" className="text-red-400 hover:text-red-300" onClick={handleRevoke} disabled={isApproving}>
+                    Revoke
+                  </button>
+                )}
+              </div>
+            )}
+            <Button
+              className="w-full bg-orange-500 hover:bg-orange-600"
+              onClick={handleApprove}
+              disabled={!shares || !isValidRecipient || isApproving}
+            >
+              {isApproving ? "Approving..." : `Approve ${symbol}`}
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  )
+}
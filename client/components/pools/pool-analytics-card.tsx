@@ -0,0 +1,280 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Loader2 } from "lucide-react"
+import { usePoolHistory } from "@/lib/hooks/usePools"
+import {
+  ANALYTICS_RANGES,
+  buildPoolAnalytics,
+  type AnalyticsRange,
+  type PoolAnalyticsPoint,
+} from "@/lib/contracts/pool-analytics"
+
+interface PoolAnalyticsCardProps {
+  poolAddress: string
+  utilizationTarget: number // basis points, CDOPool config
+}
+
+const CATEGORY_COLORS = ["#f97316", "#22d3ee", "#a855f7", "#22c55e", "#eab308", "#ec4899"]
+
+const GRID_STROKE = "#404040"
+const AXIS_TICK = { fill: "#a3a3a3", fontSize: 12 }
+const TOOLTIP_STYLE = { backgroundColor: "#0a0a0a", border: "1px solid #404040", borderRadius: 8 }
+
+const TAB_TRIGGER_CLASS = "data-[state=active]:border-b-2 data-[state=active]:border-orange-500 rounded-none"
+
+function formatDollars(amount: number) {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatCompactDollars(amount: number) {
+  return `$${amount.toLocaleString("en-US", { notation: "compact", maximumFractionDigits: 1 })}`
+}
+
+function formatBps(bps: number) {
+  return `${(bps / 100).toFixed(1)}%`
+}
+
+export default function PoolAnalyticsCard({ poolAddress, utilizationTarget }: PoolAnalyticsCardProps) {
+  const [range, setRange] = useState<AnalyticsRange>("30d")
+  const { data: history, isLoading, error } = usePoolHistory(poolAddress)
+
+  const analytics = useMemo(
+    () => (history ? buildPoolAnalytics(history, range, Math.floor(Date.now() / 1000)) : null),
+    [history, range]
+  )
+
+  // Hourly labels only make sense for the 7 day range
+  const formatTime = (time: number) =>
+    new Date(time * 1000).toLocaleString("en-US", range === "7d"
+      ? { month: "short", day: "numeric", hour: "numeric" }
+      : { month: "short", day: "numeric" })
+
+  const xAxis = (
+    <XAxis dataKey="time" tickFormatter={formatTime} tick={AXIS_TICK} stroke={GRID_STROKE} minTickGap={24} />
+  )
+  const tooltipLabel = (time: number) => new Date(time * 1000).toLocaleString()
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle className="text-lg">Pool Analytics</CardTitle>
+          <div className="flex gap-1">
+            {ANALYTICS_RANGES.map((option) => (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={range === option.value ? "default" : "ghost"}
+                className={range === option.value ? "bg-orange-500 hover:bg-orange-600" : ""}
+                onClick={() => setRange(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-orange-500" />
+          </div>
+        ) : error || !analytics ? (
+          <div className="text-sm text-neutral-400 py-8 text-center">Unable to load the pool&apos;s event history.</div>
+        ) : (
+          <>
+            {/* Range summary */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <div className="text-xs text-neutral-400 uppercase mb-1">Realized APY</div>
+                <div className="text-lg font-bold">
+                  {analytics.summary.realizedApyBps !== null ? formatBps(analytics.summary.realizedApyBps) : "-"}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-neutral-400 uppercase mb-1">House P&amp;L</div>
+                <div
+                  className={`text-lg font-bold ${analytics.summary.netProfit >= 0 ? "text-green-400" : "text-red-400"}`}
+                >
+                  {analytics.summary.netProfit < 0 ? "-" : ""}
+                  {formatDollars(Math.abs(analytics.summary.netProfit))}
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-neutral-400 uppercase mb-1">House Record</div>
+                <div className="text-lg font-bold">
+                  {analytics.summary.wins}W / {analytics.summary.losses}L
+                </div>
+              </div>
+              <div>
+                <div className="text-xs text-neutral-400 uppercase mb-1">Matched Volume</div>
+                <div className="text-lg font-bold">{formatDollars(analytics.summary.matchedVolume)}</div>
+              </div>
+            </div>
+
+            <Tabs defaultValue="tvl">
+              <TabsList className="w-full justify-start bg-transparent border-b border-neutral-700 h-auto p-0 rounded-none">
+                <TabsTrigger value="tvl" className={TAB_TRIGGER_CLASS}>TVL</TabsTrigger>
+                <TabsTrigger value="utilization" className={TAB_TRIGGER_CLASS}>Utilization</TabsTrigger>
+                <TabsTrigger value="apy" className={TAB_TRIGGER_CLASS}>Realized APY</TabsTrigger>
+                <TabsTrigger value="house" className={TAB_TRIGGER_CLASS}>House Bets</TabsTrigger>
+                <TabsTrigger value="volume" className={TAB_TRIGGER_CLASS}>Volume</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="tvl" className="pt-4">
+                <ResponsiveContainer width="100%" height={260}>
+                  <AreaChart data={analytics.points}>
+                    <CartesianGrid stroke={GRID_STROKE} strokeDasharray="3 3" vertical={false} />
+                    {xAxis}
+                    <YAxis tickFormatter={formatCompactDollars} tick={AXIS_TICK} stroke={GRID_STROKE} width={64} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      labelFormatter={tooltipLabel}
+                      formatter={(value: number) => formatDollars(value)}
+                    />
+                    <Legend />
+                    <Area type="monotone" dataKey="tvl" name="TVL" stroke="#f97316" fill="#f97316" fillOpacity={0.2} />
+                    <Area
+                      type="monotone"
+                      dataKey="matched"
+                      name="In active bets"
+                      stroke="#22d3ee"
+                      fill="#22d3ee"
+                      fillOpacity={0.15}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </TabsContent>
+
+              <TabsContent value="utilization" className="pt-4">
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={analytics.points}>
+                    <CartesianGrid stroke={GRID_STROKE} strokeDasharray="3 3" vertical={false} />
+                    {xAxis}
+                    <YAxis
+                      tickFormatter={formatBps}
+                      tick={AXIS_TICK}
+                      stroke={GRID_STROKE}
+                      width={64}
+                      domain={[0, (max: number) => Math.max(max, utilizationTarget)]}
+                    />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      labelFormatter={tooltipLabel}
+                      formatter={(value: number) => formatBps(value)}
+                    />
+                    <ReferenceLine
+                      y={utilizationTarget}
+                      stroke="#ef4444"
+                      strokeDasharray="4 4"
+                      label={{ value: `Target ${formatBps(utilizationTarget)}`, fill: "#ef4444", fontSize: 12, position: "insideTopRight" }}
+                    />
+                    <Line type="stepAfter" dataKey="utilizationBps" name="Utilization" stroke="#f97316" dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </TabsContent>
+
+              <TabsContent value="apy" className="pt-4">
+                <ResponsiveContainer width="100%" height={260}>
+                  <LineChart data={analytics.points}>
+                    <CartesianGrid stroke={GRID_STROKE} strokeDasharray="3 3" vertical={false} />
+                    {xAxis}
+                    <YAxis tickFormatter={formatBps} tick={AXIS_TICK} stroke={GRID_STROKE} width={64} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      labelFormatter={tooltipLabel}
+                      formatter={(value: number) => formatBps(value)}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="realizedApyBps"
+                      name="Realized APY"
+                      stroke="#22c55e"
+                      connectNulls
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+                <p className="text-xs text-neutral-500 mt-2">
+                  Annualized return LPs took home on the positions they withdrew in each period, after early withdrawal fees.
+                </p>
+              </TabsContent>
+
+              <TabsContent value="house" className="pt-4">
+                <ResponsiveContainer width="100%" height={260}>
+                  <BarChart data={analytics.points} stackOffset="sign">
+                    <CartesianGrid stroke={GRID_STROKE} strokeDasharray="3 3" vertical={false} />
+                    {xAxis}
+                    <YAxis tickFormatter={formatCompactDollars} tick={AXIS_TICK} stroke={GRID_STROKE} width={64} />
+                    <Tooltip
+                      contentStyle={TOOLTIP_STYLE}
+                      labelFormatter={tooltipLabel}
+                      formatter={(value: number, name: string, item: { payload?: PoolAnalyticsPoint }) => {
+                        const count = name === "Won" ? item.payload?.wins : item.payload?.losses
+                        return [`${formatDollars(value)} (${count ?? 0} bet${count === 1 ? "" : "s"})`, name]
+                      }}
+                    />
+                    <Legend />
+                    <ReferenceLine y={0} stroke={GRID_STROKE} />
+                    <Bar dataKey="won" name="Won" stackId="house" fill="#22c55e" />
+                    <Bar dataKey="lost" name="Lost" stackId="house" fill="#ef4444" />
+                  </BarChart>
+                </ResponsiveContainer>
+                <p className="text-xs text-neutral-500 mt-2">
+                  Wins show the profit the pool booked; losses show the matched stake paid to the winner.
+                </p>
+              </TabsContent>
+
+              <TabsContent value="volume" className="pt-4">
+                {analytics.categories.length === 0 ? (
+                  <div className="text-sm text-neutral-400 py-8 text-center">No bets matched in this range.</div>
+                ) : (
+                  <ResponsiveContainer width="100%" height={260}>
+                    <BarChart data={analytics.points}>
+                      <CartesianGrid stroke={GRID_STROKE} strokeDasharray="3 3" vertical={false} />
+                      {xAxis}
+                      <YAxis tickFormatter={formatCompactDollars} tick={AXIS_TICK} stroke={GRID_STROKE} width={64} />
+                      <Tooltip
+                        contentStyle={TOOLTIP_STYLE}
+                        labelFormatter={tooltipLabel}
+                        formatter={(value: number) => formatDollars(value)}
+                      />
+                      <Legend />
+                      {analytics.categories.map((category, i) => (
+                        <Bar
+                          key={category}
+                          dataKey={(point: PoolAnalyticsPoint) => point.volume[category] ?? 0}
+                          name={category}
+                          stackId="volume"
+                          fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]}
+                        />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                )}
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
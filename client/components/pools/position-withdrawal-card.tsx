@@ -0,0 +1,146 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Loader2 } from "lucide-react"
+import { formatUSDC } from "@/lib/utils"
+import {
+  quoteWithdrawal,
+  type PoolPosition,
+  type PoolWithdrawalState,
+} from "@/lib/contracts/withdrawal-quote"
+
+interface PositionWithdrawalCardProps {
+  position: PoolPosition
+  state: PoolWithdrawalState
+  baseApyBps: number
+  isWithdrawing: boolean
+  onWithdraw: (positionId: number, isEarly: boolean) => void
+}
+
+function formatAmount(amount: bigint) {
+  return `$${Number(formatUSDC(amount)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatCountdown(seconds: number) {
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const secs = seconds % 60
+  const pad = (value: number) => value.toString().padStart(2, "0")
+  return `${days}d ${pad(hours)}h ${pad(minutes)}m ${pad(secs)}s`
+}
+
+/**
+ * Current unix time, ticking every second while `active`
+ */
+function useNowSeconds(active: boolean) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+
+  useEffect(() => {
+    if (!active) return
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(interval)
+  }, [active])
+
+  return now
+}
+
+export default function PositionWithdrawalCard({
+  position,
+  state,
+  baseApyBps,
+  isWithdrawing,
+  onWithdraw,
+}: PositionWithdrawalCardProps) {
+  const now = useNowSeconds(position.lockUntil > Math.floor(Date.now() / 1000))
+  const quote = quoteWithdrawal(position, state, baseApyBps, now)
+  const tier = state.tiers[position.tier]
+  const feePercent = Number(state.earlyWithdrawalFeeBps) / 100
+
+  return (
+    <div className="p-3 bg-neutral-900 border border-neutral-700 rounded space-y-3">
+      <div className="flex justify-between items-start">
+        <div>
+          <div className="font-bold text-sm">{formatAmount(position.depositAmount)}</div>
+          <div className="text-xs text-neutral-400">
+            #{position.id} · {tier?.name ?? `Tier ${position.tier}`}
+            {tier && tier.yieldBoostBps > 0 && ` · +${(tier.yieldBoostBps / 100).toFixed(1)}% APY`}
+          </div>
+        </div>
+        {quote.isLocked ? (
+          <Badge className="bg-orange-500/20 text-orange-400 border-0 text-xs font-mono">
+            {formatCountdown(quote.secondsUntilUnlock)}
+          </Badge>
+        ) : (
+          <Badge className="bg-green-500/20 text-green-400 border-0 text-xs">Unlocked</Badge>
+        )}
+      </div>
+
+      {/* Withdraw now vs at unlock */}
+      <div className="grid grid-cols-2 gap-2 text-xs">
+        <div className="bg-neutral-950 border border-neutral-800 rounded p-2 space-y-1">
+          <div className="text-neutral-400 uppercase">Withdraw Now</div>
+          <div className="font-bold text-sm">{formatAmount(quote.now.net)}</div>
+          <div className="text-neutral-500">Yield {formatAmount(quote.earnedYield)}</div>
+          {quote.now.penalty > BigInt(0) && (
+            <div className="text-red-400">
+              Fee -{formatAmount(quote.now.penalty)} ({feePercent}%)
+            </div>
+          )}
+        </div>
+        <div className="bg-neutral-950 border border-neutral-800 rounded p-2 space-y-1">
+          <div className="text-neutral-400 uppercase">At Unlock</div>
+          <div className="font-bold text-sm">
+            {quote.isLocked ? "≈ " : ""}
+            {formatAmount(quote.atUnlock.net)}
+          </div>
+          {quote.isLocked ? (
+            <>
+              <div className="text-neutral-500">
+                +{formatAmount(quote.atUnlock.projectedYield)} at {(quote.atUnlock.apyBps / 100).toFixed(1)}% APY
+              </div>
+              <div className="text-neutral-500">{new Date(position.lockUntil * 1000).toLocaleDateString()}</div>
+            </>
+          ) : (
+            <div className="text-neutral-500">No fee</div>
+          )}
+        </div>
+      </div>
+
+      {quote.isLocked && quote.now.penalty > BigInt(0) && (
+        <div className="text-xs text-orange-300 flex gap-1">
+          <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+          Waiting keeps {formatAmount(quote.atUnlock.net - quote.now.net)} more (estimated).
+        </div>
+      )}
+      {quote.blockedReason && (
+        <div className="text-xs text-red-400">
+          {quote.blockedReason === "withdrawals-disabled"
+            ? "Withdrawals are paused for this pool."
+            : "Not enough idle liquidity in the pool right now - funds are matched in active bets."}
+        </div>
+      )}
+
+      <Button
+        size="sm"
+        variant="outline"
+        className={`w-full ${quote.isLocked ? "border-red-500/30 text-red-400 hover:bg-red-500/10" : ""}`}
+        onClick={() => onWithdraw(position.id, quote.isLocked)}
+        disabled={isWithdrawing || !!quote.blockedReason}
+      >
+        {isWithdrawing ? (
+          <>
+            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+            Withdrawing...
+          </>
+        ) : quote.isLocked ? (
+          `Withdraw Early for ${formatAmount(quote.now.net)}`
+        ) : (
+          `Withdraw ${formatAmount(quote.now.net)}`
+        )}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { formatUSDC } from "@/lib/utils"
+import {
+  previewWithdrawAll,
+  type PoolPosition,
+  type PoolWithdrawalState,
+} from "@/lib/contracts/withdrawal-quote"
+
+interface WithdrawAllDialogProps {
+  positions: PoolPosition[]
+  state: PoolWithdrawalState
+  isWithdrawing: boolean
+  onConfirm: (onDone: () => void) => void
+}
+
+function formatAmount(amount: bigint) {
+  return `$${Number(formatUSDC(amount)).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+export default function WithdrawAllDialog({ positions, state, isWithdrawing, onConfirm }: WithdrawAllDialogProps) {
+  const [open, setOpen] = useState(false)
+  const preview = previewWithdrawAll(positions, state)
+  const principalOf = (positionId: number) => positions.find((p) => p.id === positionId)?.depositAmount ?? BigInt(0)
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" disabled={preview.positions.length === 0 || !state.withdrawalsEnabled}>
+          Withdraw All
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-950 border-neutral-800">
+        <DialogHeader>
+          <DialogTitle>Withdraw All Unlocked Positions</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            Locked positions are skipped and no early withdrawal fee is charged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="bg-neutral-900 border border-neutral-700 rounded-lg divide-y divide-neutral-800 text-sm">
+            {preview.positions.map((entry) => (
+              <div key={entry.positionId} className="flex justify-between px-4 py-2">
+                <span className="text-neutral-400">
+                  #{entry.positionId} · {formatAmount(principalOf(entry.positionId))} deposited
+                </span>
+                <span>
+                  {formatAmount(entry.amount)}
+                  <span className="text-green-400 text-xs ml-1">(+{formatAmount(entry.earnedYield)})</span>
+                </span>
+              </div>
+            ))}
+            {preview.skippedLocked.map((positionId) => (
+              <div key={positionId} className="flex justify-between px-4 py-2 text-neutral-500">
+                <span>#{positionId}</span>
+                <span>Locked - skipped</span>
+              </div>
+            ))}
+            {preview.skippedLiquidity.map((positionId) => (
+              <div key={positionId} className="flex justify-between px-4 py-2 text-orange-400">
+                <span>#{positionId}</span>
+                <span>Pool liquidity exhausted - skipped</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between font-bold">
+            <span>You Receive</span>
+            <span className="text-green-400">{formatAmount(preview.totalAmount)}</span>
+          </div>
+          <div className="flex justify-between text-sm text-neutral-400">
+            <span>Of which yield</span>
+            <span>{formatAmount(preview.totalYield)}</span>
+          </div>
+
+          <div className="flex gap-3">
+            <Button variant="outline" className="flex-1" onClick={() => setOpen(false)} disabled={isWithdrawing}>
+              Cancel
+            </Button>
+            <Button
+              className="flex-1 bg-orange-500 hover:bg-orange-600"
+              onClick={() => onConfirm(() => setOpen(false))}
+              disabled={isWithdrawing || preview.positions.length === 0}
+            >
+              {isWithdrawing ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Withdrawing...
+                </>
+              ) : (
+                `Withdraw ${formatAmount(preview.totalAmount)}`
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
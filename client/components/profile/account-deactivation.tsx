@@ -0,0 +1,75 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { useDeactivateAccount } from "@/lib/hooks/useUsernameRegistry"
+import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
+
+interface AccountDeactivationProps {
+  username: string
+  ensName?: string
+}
+
+export default function AccountDeactivation({ username, ensName }: AccountDeactivationProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const { deactivateAccount, isPending } = useDeactivateAccount()
+
+  const handleDeactivate = () => {
+    const toastId = toast.loading("Deactivating account...")
+
+    deactivateAccount({
+      onSuccess: () => {
+        toast.success("Account deactivated", { id: toastId })
+        setIsOpen(false)
+      },
+      onError: (error) => {
+        console.error("Failed to deactivate account:", error)
+        toastTransactionError("Failed to deactivate account", error, { id: toastId })
+      },
+    })
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="destructive">Deactivate Account</Button>
+      </DialogTrigger>
+      <DialogContent className="bg-neutral-950 border-neutral-800">
+        <DialogHeader>
+          <DialogTitle>Deactivate Account</DialogTitle>
+          <DialogDescription className="text-neutral-400">
+            @{username}
+            {ensName ? ` and ${ensName}` : ""} will be released and no longer resolve to your wallet. Your bets and
+            pool positions are not affected, and you can register a new username later.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button variant="outline" className="bg-transparent" onClick={() => setIsOpen(false)} disabled={isPending}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleDeactivate} disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Deactivating...
+              </>
+            ) : (
+              "Deactivate"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,127 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react"
+import { useEnsVerification, useLinkENS } from "@/lib/hooks/useUsernameRegistry"
+import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
+
+interface EnsLinkProps {
+  address: string
+  linkedName?: string
+}
+
+export default function EnsLink({ address, linkedName }: EnsLinkProps) {
+  const [ensName, setEnsName] = useState("")
+  const { name, node, resolvedAddress, isValid, isOwner, isChecking } = useEnsVerification(ensName, address)
+  const { linkENS, isPending } = useLinkENS(ensName)
+
+  const hasInput = ensName.trim().length > 0
+  const isAlreadyLinked = Boolean(name && linkedName && name === linkedName)
+  const canLink = isValid && isOwner && !isChecking && !isAlreadyLinked && !isPending
+
+  const handleLink = () => {
+    if (!canLink) return
+
+    const toastId = toast.loading(`Linking ${name}...`)
+
+    linkENS({
+      onSuccess: () => {
+        toast.success(`${name} linked to your profile`, { id: toastId })
+        setEnsName("")
+      },
+      onError: (error) => {
+        console.error("Failed to link ENS name:", error)
+        toastTransactionError("Failed to link ENS name", error, { id: toastId })
+      },
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>ENS Name</CardTitle>
+        <CardDescription>
+          Link an ENS name that resolves to your wallet so other players can find you by it when choosing an
+          opponent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">Linked Name</label>
+          <div className="text-lg font-bold">{linkedName || <span className="text-neutral-400">None</span>}</div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="relative">
+            <Input
+              type="text"
+              placeholder="alice.eth"
+              value={ensName}
+              onChange={(e) => setEnsName(e.target.value)}
+              disabled={isPending}
+              className="pr-10"
+            />
+            {hasInput && (
+              <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                {isChecking ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : canLink ? (
+                  <CheckCircle2 className="h-4 w-4 text-green-500" />
+                ) : (
+                  <AlertCircle className="h-4 w-4 text-red-500" />
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Verification result */}
+          {hasInput && !isChecking && (
+            <div className="text-sm space-y-1">
+              {!isValid ? (
+                <p className="text-red-500 flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  Not a valid ENS name
+                </p>
+              ) : isAlreadyLinked ? (
+                <p className="text-neutral-400">This name is already linked to your profile</p>
+              ) : !resolvedAddress ? (
+                <p className="text-red-500 flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {name} has no address record
+                </p>
+              ) : !isOwner ? (
+                <p className="text-red-500 flex items-center gap-1">
+                  <AlertCircle className="h-3 w-3" />
+                  {name} resolves to {resolvedAddress.slice(0, 6)}...{resolvedAddress.slice(-4)}, not your wallet
+                </p>
+              ) : (
+                <p className="text-green-500 flex items-center gap-1">
+                  <CheckCircle2 className="h-3 w-3" />
+                  {name} resolves to your wallet
+                </p>
+              )}
+              {node && <p className="text-xs text-neutral-500 font-mono break-all">Node: {node}</p>}
+            </div>
+          )}
+        </div>
+
+        <Button onClick={handleLink} disabled={!canLink} className="w-full">
+          {isPending ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Linking...
+            </>
+          ) : linkedName ? (
+            "Replace ENS Name"
+          ) : (
+            "Link ENS Name"
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
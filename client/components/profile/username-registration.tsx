@@ -11,6 +11,7 @@ import {
   useValidateUsernameFormat,
 } from "@/lib/hooks/useUsernameRegistry"
 import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
 
 export default function UsernameRegistration() {
   const [username, setUsername] = useState("")
@@ -20,18 +21,20 @@ export default function UsernameRegistration() {
 
   const canRegister = username.length >= 3 && isValid && isAvailable && !isPending && !isSuccess
 
-  const handleRegister = async () => {
+  const handleRegister = () => {
     if (!canRegister) return
 
     const toastId = toast.loading("Registering username...")
 
-    try {
-      await registerUsername()
-      toast.success(`Username @${username} registered successfully!`, { id: toastId })
-    } catch (err) {
-      console.error("Failed to register username:", err)
-      toast.error("Failed to register username. Please try again.", { id: toastId })
-    }
+    registerUsername({
+      onSuccess: () => {
+        toast.success(`Username @${username} registered successfully!`, { id: toastId })
+      },
+      onError: (error) => {
+        console.error("Failed to register username:", error)
+        toastTransactionError("Failed to register username", error, { id: toastId })
+      },
+    })
   }
 
   // Show success state
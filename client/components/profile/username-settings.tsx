@@ -0,0 +1,140 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react"
+import {
+  useUpdateUsername,
+  useUsernameAvailability,
+  useValidateUsernameFormat,
+} from "@/lib/hooks/useUsernameRegistry"
+import { toast } from "sonner"
+import { toastTransactionError } from "@/lib/transactions/toast"
+
+interface UsernameSettingsProps {
+  currentUsername: string
+}
+
+export default function UsernameSettings({ currentUsername }: UsernameSettingsProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [username, setUsername] = useState("")
+  const { isValid, errorMessage } = useValidateUsernameFormat(username)
+  const { isAvailable, isChecking } = useUsernameAvailability(username)
+  const { updateUsername, isPending } = useUpdateUsername(username)
+
+  const isUnchanged = username === currentUsername
+  const canUpdate = username.length >= 3 && isValid && isAvailable && !isUnchanged && !isChecking && !isPending
+
+  const handleCancel = () => {
+    setIsEditing(false)
+    setUsername("")
+  }
+
+  const handleUpdate = () => {
+    if (!canUpdate) return
+
+    const toastId = toast.loading("Changing username...")
+
+    updateUsername({
+      onSuccess: () => {
+        toast.success(`Your username is now @${username}`, { id: toastId })
+        handleCancel()
+      },
+      onError: (error) => {
+        console.error("Failed to change username:", error)
+        toastTransactionError("Failed to change username", error, { id: toastId })
+      },
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Username</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium mb-2">Current Username</label>
+            <div className="text-lg font-bold">@{currentUsername}</div>
+          </div>
+
+          {isEditing ? (
+            <div className="space-y-3">
+              <div className="relative">
+                <Input
+                  type="text"
+                  placeholder="New username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value.toLowerCase())}
+                  disabled={isPending}
+                  className="pr-10"
+                />
+                {username.length >= 3 && !isUnchanged && (
+                  <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                    {isChecking ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    ) : isValid && isAvailable ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <AlertCircle className="h-4 w-4 text-red-500" />
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {username.length > 0 && (
+                <div className="text-sm">
+                  {!isValid && errorMessage ? (
+                    <p className="text-red-500 flex items-center gap-1">
+                      <AlertCircle className="h-3 w-3" />
+                      {errorMessage}
+                    </p>
+                  ) : isUnchanged ? (
+                    <p className="text-neutral-400">That is already your username</p>
+                  ) : !isChecking && !isAvailable ? (
+                    <p className="text-red-500 flex items-center gap-1">
+                      <AlertCircle className="h-3 w-3" />
+                      Username is already taken
+                    </p>
+                  ) : isAvailable ? (
+                    <p className="text-green-500 flex items-center gap-1">
+                      <CheckCircle2 className="h-3 w-3" />
+                      Username is available!
+                    </p>
+                  ) : null}
+                </div>
+              )}
+
+              <p className="text-xs text-neutral-400">
+                Your old username is released as soon as the change confirms and anyone can claim it.
+              </p>
+
+              <div className="flex gap-2">
+                <Button onClick={handleUpdate} disabled={!canUpdate}>
+                  {isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    "Save Username"
+                  )}
+                </Button>
+                <Button variant="outline" className="bg-transparent" onClick={handleCancel} disabled={isPending}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button variant="outline" className="bg-transparent" onClick={() => setIsEditing(true)}>
+              Change Username
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
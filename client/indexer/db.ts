@@ -0,0 +1,121 @@
+import { mkdirSync } from "node:fs"
+import path from "node:path"
+import Database from "better-sqlite3"
+
+export type IndexerDatabase = Database.Database
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS bets (
+    address TEXT PRIMARY KEY,
+    creator TEXT NOT NULL,
+    opponent TEXT NOT NULL,
+    stake_amount INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    outcome_description TEXT NOT NULL DEFAULT '',
+    tags TEXT NOT NULL DEFAULT '[]',
+    category TEXT NOT NULL DEFAULT 'General',
+    is_house INTEGER NOT NULL DEFAULT 0,
+    state INTEGER NOT NULL DEFAULT 0,
+    outcome INTEGER NOT NULL DEFAULT 0,
+    creator_funded INTEGER NOT NULL DEFAULT 0,
+    opponent_funded INTEGER NOT NULL DEFAULT 0,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    winner TEXT,
+    total_payout INTEGER,
+    yield_earned INTEGER,
+    resolved_at INTEGER,
+    created_block INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS bets_creator ON bets (creator);
+  CREATE INDEX IF NOT EXISTS bets_opponent ON bets (opponent);
+  CREATE INDEX IF NOT EXISTS bets_state ON bets (state);
+
+  CREATE TABLE IF NOT EXISTS events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    UNIQUE (transaction_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_contract ON events (contract, name);
+
+  CREATE TABLE IF NOT EXISTS disputes (
+    dispute_id INTEGER PRIMARY KEY,
+    bet_address TEXT NOT NULL,
+    initiator TEXT NOT NULL,
+    tier INTEGER NOT NULL,
+    judge_count INTEGER NOT NULL,
+    deadline INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active',
+    final_outcome INTEGER,
+    appealed_to INTEGER,
+    created_at INTEGER NOT NULL,
+    resolved_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS disputes_bet ON disputes (bet_address);
+
+  CREATE TABLE IF NOT EXISTS pools (
+    address TEXT PRIMARY KEY,
+    pool_id INTEGER NOT NULL,
+    category TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS dispute_votes (
+    dispute_id INTEGER NOT NULL,
+    judge TEXT NOT NULL,
+    outcome INTEGER NOT NULL,
+    voted_at INTEGER NOT NULL,
+    PRIMARY KEY (dispute_id, judge)
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    address TEXT PRIMARY KEY,
+    username TEXT NOT NULL,
+    ens_name TEXT,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    registered_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS users_username ON users (username);
+
+  -- Bets whose state still has to be re-read; kept until the read succeeds so a failed RPC call is retried next sync
+  CREATE TABLE IF NOT EXISTS pending_refreshes (
+    address TEXT PRIMARY KEY
+  );
+`
+
+/**
+ * Open (and migrate) the indexer's SQLite store
+ */
+export function openDatabase(filePath: string, schema = SCHEMA): IndexerDatabase {
+  mkdirSync(path.dirname(filePath), { recursive: true })
+
+  const db = new Database(filePath)
+  db.pragma("journal_mode = WAL")
+  db.exec(schema)
+  return db
+}
+
+/**
+ * Last fully indexed block, or null before the first sync
+ */
+export function getLastBlock(db: IndexerDatabase): bigint | null {
+  const row = db.prepare("SELECT value FROM meta WHERE key = 'lastBlock'").get() as { value: string } | undefined
+  return row ? BigInt(row.value) : null
+}
+
+export function setLastBlock(db: IndexerDatabase, block: bigint) {
+  db.prepare("INSERT INTO meta (key, value) VALUES ('lastBlock', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value").run(
+    block.toString()
+  )
+}
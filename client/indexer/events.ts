@@ -0,0 +1,43 @@
+import { parseAbi } from "viem"
+
+// BetFactory - discovers new bet contracts
+export const FACTORY_EVENTS = parseAbi([
+  "event BetCreated(address indexed betContract, address indexed creator, address indexed opponent, uint256 stakeAmount, uint256 duration, string description, uint256 timestamp)",
+  "event HouseBetCreated(address indexed betContract, address indexed creator, uint256 stakeAmount, uint256 duration, string description, bytes32 indexed betId, uint256 timestamp)",
+])
+
+// Bet - lifecycle of each bet clone
+export const BET_EVENTS = parseAbi([
+  "event BetAccepted(address indexed opponent, uint256 timestamp)",
+  "event BetFunded(address indexed participant, uint256 amount, uint256 timestamp)",
+  "event OutcomeDeclared(address indexed declarer, uint8 outcome, uint256 disputeDeadline, uint256 timestamp)",
+  "event DisputeRaised(address indexed disputer, uint256 timestamp)",
+  "event BetResolved(uint8 outcome, address winner, uint256 totalPayout, uint256 yieldEarned, uint256 timestamp)",
+  "event BetCancelled(address canceller, uint256 timestamp)",
+])
+
+// CDOPool - LP flows and house bet matching (pool analytics)
+export const POOL_EVENTS = parseAbi([
+  "event Deposited(address indexed user, uint256 positionId, uint256 amount, uint256 shares, uint256 tier, uint256 lockUntil, uint256 timestamp)",
+  "event Withdrawn(address indexed user, uint256 positionId, uint256 amount, uint256 shares, uint256 yieldEarned, uint256 penalty, uint256 timestamp)",
+  "event BetMatched(address indexed betContract, uint256 amount, uint256 timestamp)",
+  "event BetSettled(address indexed betContract, uint256 amount, uint256 profit, bool won, uint256 timestamp)",
+  "event YieldUpdated(address indexed user, uint256 positionId, uint256 yieldAmount, uint256 timestamp)",
+])
+
+// DisputeManager - judge panels and votes
+export const DISPUTE_EVENTS = parseAbi([
+  "event DisputeCreated(uint256 indexed disputeId, address indexed betContract, address indexed initiator, uint8 tier, uint8 judgeCount, uint256 deadline, uint256 timestamp)",
+  "event VoteSubmitted(uint256 indexed disputeId, address indexed judge, uint8 outcome, uint256 timestamp)",
+  "event DisputeResolved(uint256 indexed disputeId, uint8 finalOutcome, uint8 totalVotes, uint256 timestamp)",
+  "event DisputeAppealed(uint256 indexed disputeId, uint256 indexed newDisputeId, uint8 newTier, uint256 timestamp)",
+  "event JudgeReplaced(uint256 indexed disputeId, address indexed oldJudge, address indexed newJudge, uint256 timestamp)",
+])
+
+// UsernameRegistry - usernames and ENS links for opponent search
+export const USERNAME_EVENTS = parseAbi([
+  "event UsernameRegistered(address indexed user, string username, uint256 timestamp)",
+  "event UsernameUpdated(address indexed user, string oldUsername, string newUsername, uint256 timestamp)",
+  "event ENSLinked(address indexed user, bytes32 indexed ensNode, string ensName, uint256 timestamp)",
+  "event UserDeactivated(address indexed user, string username, uint256 timestamp)",
+])
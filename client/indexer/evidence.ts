@@ -0,0 +1,103 @@
+import { isAddress, isHex } from "viem"
+import { CID_PATTERN } from "../lib/evidence/content"
+import type { EvidenceRecord } from "../lib/evidence/types"
+import { openDatabase, type IndexerDatabase } from "./db"
+
+/**
+ * Dispute evidence index: which signed evidence documents were submitted for which bet.
+ *
+ * Unlike everything else the indexer stores, these records are written by the app rather than
+ * derived from chain events, so they cannot be rebuilt by a resync. They live in their own
+ * SQLite file, which survives deleting the event database.
+ */
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS evidence (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    bet_address TEXT NOT NULL,
+    submitter TEXT NOT NULL,
+    cid TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    submitted_at INTEGER NOT NULL,
+    UNIQUE (bet_address, submitter, cid)
+  );
+  CREATE INDEX IF NOT EXISTS evidence_bet ON evidence (bet_address);
+`
+
+interface EvidenceRow {
+  bet_address: string
+  submitter: string
+  cid: string
+  content_hash: `0x${string}`
+  signature: `0x${string}`
+  submitted_at: number
+}
+
+export function openEvidenceDatabase(filePath: string): IndexerDatabase {
+  return openDatabase(filePath, SCHEMA)
+}
+
+/**
+ * Validate a submitted record for this indexer's chain. Signatures are not checked here -
+ * the app verifies them before recording and again whenever evidence is read.
+ */
+export function parseEvidenceRecord(body: unknown, chainId: number): EvidenceRecord | null {
+  const record = (body || {}) as Partial<EvidenceRecord>
+  if (
+    record.chainId !== chainId ||
+    typeof record.cid !== "string" ||
+    !CID_PATTERN.test(record.cid) ||
+    typeof record.betAddress !== "string" ||
+    !isAddress(record.betAddress, { strict: false }) ||
+    typeof record.submitter !== "string" ||
+    !isAddress(record.submitter, { strict: false }) ||
+    !isHex(record.contentHash) ||
+    !isHex(record.signature) ||
+    !Number.isInteger(record.submittedAt)
+  ) {
+    return null
+  }
+
+  return {
+    cid: record.cid,
+    contentHash: record.contentHash,
+    chainId,
+    betAddress: record.betAddress.toLowerCase(),
+    submitter: record.submitter.toLowerCase(),
+    signature: record.signature,
+    submittedAt: record.submittedAt as number,
+  }
+}
+
+/**
+ * Store a submission; resubmitting the same document for the same bet is a no-op
+ * @returns Whether the record was new
+ */
+export function insertEvidence(db: IndexerDatabase, record: EvidenceRecord): boolean {
+  const result = db
+    .prepare(
+      "INSERT OR IGNORE INTO evidence (bet_address, submitter, cid, content_hash, signature, submitted_at) VALUES (?, ?, ?, ?, ?, ?)"
+    )
+    .run(record.betAddress, record.submitter, record.cid, record.contentHash, record.signature, record.submittedAt)
+  return result.changes > 0
+}
+
+/**
+ * All evidence submitted for a bet, oldest first
+ */
+export function listEvidence(db: IndexerDatabase, chainId: number, betAddress: string): EvidenceRecord[] {
+  const rows = db
+    .prepare("SELECT * FROM evidence WHERE bet_address = ? ORDER BY id")
+    .all(betAddress.toLowerCase()) as EvidenceRow[]
+
+  return rows.map((row) => ({
+    cid: row.cid,
+    contentHash: row.content_hash,
+    chainId,
+    betAddress: row.bet_address,
+    submitter: row.submitter,
+    signature: row.signature,
+    submittedAt: row.submitted_at,
+  }))
+}
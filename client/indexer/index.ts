@@ -0,0 +1,78 @@
+/**
+ * Event indexer for bets, pools, disputes and usernames.
+ *
+ * Usage:
+ *   npm run indexer
+ *
+ * Environment:
+ *   INDEXER_CHAIN_ID     chain to index (default NEXT_PUBLIC_DEFAULT_CHAIN_ID or 5003)
+ *   INDEXER_RPC_URL      RPC endpoint (default: the chain's public RPC)
+ *   INDEXER_DB_PATH      SQLite file (default .data/indexer-<chainId>.sqlite)
+ *   INDEXER_PORT         query API port (default 4001)
+ *   INDEXER_START_BLOCK  first block to scan on an empty store (default 0)
+ *   INDEXER_BATCH_SIZE   blocks per getLogs request (default 2000)
+ *   INDEXER_POLL_MS      delay between syncs once caught up (default 5000)
+ *   INDEXER_EVIDENCE_DB_PATH  SQLite file for the dispute evidence index (default .data/evidence-<chainId>.sqlite)
+ *   INDEXER_WRITE_TOKEN  shared secret the app records evidence with (evidence writes are refused without it)
+ */
+import path from "node:path"
+import { createPublicClient, http } from "viem"
+import { DEFAULT_CHAIN, getChain } from "../lib/chains"
+import { getContractAddresses } from "../lib/contracts/addresses"
+import { openDatabase } from "./db"
+import { openEvidenceDatabase } from "./evidence"
+import { createQueryServer } from "./server"
+import { syncToHead, type IndexerContext } from "./sync"
+
+const chainId = Number(process.env.INDEXER_CHAIN_ID || DEFAULT_CHAIN.id)
+const chain = getChain(chainId)
+const rpcUrl = process.env.INDEXER_RPC_URL || chain.rpc
+const dbPath = process.env.INDEXER_DB_PATH || path.join(process.cwd(), ".data", `indexer-${chainId}.sqlite`)
+const port = Number(process.env.INDEXER_PORT || 4001)
+const pollMs = Number(process.env.INDEXER_POLL_MS || 5000)
+const evidenceDbPath =
+  process.env.INDEXER_EVIDENCE_DB_PATH || path.join(process.cwd(), ".data", `evidence-${chainId}.sqlite`)
+
+const db = openDatabase(dbPath)
+const evidenceDb = openEvidenceDatabase(evidenceDbPath)
+
+const ctx: IndexerContext = {
+  db,
+  client: createPublicClient({ transport: http(rpcUrl) }),
+  addresses: getContractAddresses(chainId),
+  startBlock: BigInt(process.env.INDEXER_START_BLOCK || 0),
+  batchSize: BigInt(process.env.INDEXER_BATCH_SIZE || 2000),
+}
+
+let timer: NodeJS.Timeout | undefined
+let stopped = false
+
+async function poll() {
+  try {
+    await syncToHead(ctx)
+  } catch (error) {
+    console.error("Indexer sync failed:", error)
+  }
+  if (!stopped) timer = setTimeout(poll, pollMs)
+}
+
+const server = createQueryServer(db, chainId, { db: evidenceDb, writeToken: process.env.INDEXER_WRITE_TOKEN })
+server.listen(port, () => {
+  console.log(`Indexing ${chain.name} (${chainId}) via ${rpcUrl}`)
+  console.log(`Query API listening on http://localhost:${port}`)
+})
+
+function shutdown() {
+  stopped = true
+  if (timer) clearTimeout(timer)
+  server.close(() => {
+    db.close()
+    evidenceDb.close()
+    process.exit(0)
+  })
+}
+
+process.on("SIGINT", shutdown)
+process.on("SIGTERM", shutdown)
+
+poll()
@@ -0,0 +1,374 @@
+import type {
+  BetListQuery,
+  IndexedBet,
+  IndexedBettorRank,
+  IndexedDispute,
+  IndexedEvent,
+  IndexedLeaderboard,
+  IndexedLiquidityProviderRank,
+  IndexedUser,
+  IndexedUserStats,
+  LeaderboardQuery,
+  LeaderboardWindow,
+  UserSearchQuery,
+} from "../lib/indexer/types"
+import type { IndexerDatabase } from "./db"
+
+const MAX_LIMIT = 100
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+const WINDOW_SECONDS: Record<LeaderboardWindow, number | null> = {
+  "7d": 7 * 86400,
+  "30d": 30 * 86400,
+  all: null,
+}
+
+// Fewer decided bets than this and a win rate says more about luck than skill
+const MIN_DECIDED_BETS_FOR_WIN_RATE = 3
+
+interface BetRow {
+  address: string
+  creator: string
+  opponent: string
+  stake_amount: number
+  description: string
+  outcome_description: string
+  tags: string
+  category: string
+  is_house: number
+  state: number
+  outcome: number
+  creator_funded: number
+  opponent_funded: number
+  created_at: number
+  expires_at: number
+  winner: string | null
+  total_payout: number | null
+  yield_earned: number | null
+  resolved_at: number | null
+  created_block: number
+}
+
+interface EventRow {
+  contract: string
+  name: string
+  args: string
+  block_number: number
+  log_index: number
+  transaction_hash: string
+  timestamp: number
+}
+
+function toIndexedBet(row: BetRow): IndexedBet {
+  return {
+    address: row.address,
+    creator: row.creator,
+    opponent: row.opponent,
+    stakeAmount: row.stake_amount.toString(),
+    description: row.description,
+    outcomeDescription: row.outcome_description,
+    tags: JSON.parse(row.tags),
+    category: row.category,
+    isHouseBet: row.is_house === 1,
+    state: row.state,
+    outcome: row.outcome,
+    creatorFunded: row.creator_funded === 1,
+    opponentFunded: row.opponent_funded === 1,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    winner: row.winner,
+    totalPayout: row.total_payout?.toString() ?? null,
+    yieldEarned: row.yield_earned?.toString() ?? null,
+    resolvedAt: row.resolved_at,
+  }
+}
+
+function toIndexedEvent(row: EventRow): IndexedEvent {
+  return {
+    contract: row.contract,
+    name: row.name,
+    args: JSON.parse(row.args),
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    transactionHash: row.transaction_hash,
+    timestamp: row.timestamp,
+  }
+}
+
+const SORT_ORDER: Record<string, string> = {
+  newest: "created_at DESC",
+  "highest-stake": "stake_amount DESC",
+  "ending-soon": "expires_at ASC",
+}
+
+/**
+ * Filtered, sorted page of bets
+ */
+export function listBets(db: IndexerDatabase, query: BetListQuery): { bets: IndexedBet[]; total: number } {
+  const conditions: string[] = []
+  const params: (string | number)[] = []
+
+  if (query.status !== undefined) {
+    conditions.push("state = ?")
+    params.push(query.status)
+  }
+  if (query.category) {
+    conditions.push("LOWER(category) = LOWER(?)")
+    params.push(query.category)
+  }
+  if (query.search) {
+    conditions.push("description LIKE ?")
+    params.push(`%${query.search}%`)
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""
+  const order = SORT_ORDER[query.sort || "newest"] || SORT_ORDER.newest
+  const limit = Math.min(query.limit || 20, MAX_LIMIT)
+  const offset = query.offset || 0
+
+  const total = (db.prepare(`SELECT COUNT(*) AS count FROM bets ${where}`).get(...params) as { count: number }).count
+  const rows = db
+    .prepare(`SELECT * FROM bets ${where} ORDER BY ${order} LIMIT ? OFFSET ?`)
+    .all(...params, limit, offset) as BetRow[]
+
+  return { bets: rows.map(toIndexedBet), total }
+}
+
+/**
+ * A single bet with its event history, starting with the BetFactory event that created it
+ */
+export function getBet(db: IndexerDatabase, address: string): { bet: IndexedBet; events: IndexedEvent[] } | null {
+  const row = db.prepare("SELECT * FROM bets WHERE address = ?").get(address.toLowerCase()) as BetRow | undefined
+  if (!row) return null
+
+  // The bet's own events, plus the BetFactory event that created it (its transaction carries the AI attestation)
+  const events = db
+    .prepare(
+      `SELECT * FROM events
+       WHERE contract = ?
+          OR (block_number = ? AND name IN ('BetCreated', 'HouseBetCreated')
+              AND lower(json_extract(args, '$.betContract')) = ?)
+       ORDER BY block_number, log_index`
+    )
+    .all(row.address, row.created_block, row.address) as EventRow[]
+
+  return { bet: toIndexedBet(row), events: events.map(toIndexedEvent) }
+}
+
+/**
+ * Bets a user created or joined, newest first
+ */
+export function getUserBets(db: IndexerDatabase, user: string): IndexedBet[] {
+  const address = user.toLowerCase()
+  const rows = db
+    .prepare("SELECT * FROM bets WHERE creator = ? OR opponent = ? ORDER BY created_at DESC")
+    .all(address, address) as BetRow[]
+  return rows.map(toIndexedBet)
+}
+
+/**
+ * Aggregate betting record for a user
+ */
+export function getUserStats(db: IndexerDatabase, user: string): IndexedUserStats {
+  const address = user.toLowerCase()
+  const row = db
+    .prepare(
+      `SELECT
+         COUNT(*) AS totalBets,
+         SUM(state = 1) AS activeBets,
+         SUM(state = 0) AS pendingBets,
+         SUM(state = 4) AS completedBets,
+         SUM(state = 4 AND winner = ?) AS wonBets,
+         SUM(state = 4 AND outcome != 3 AND winner != ?) AS lostBets,
+         SUM(state = 4 AND outcome = 3) AS drawBets,
+         SUM(stake_amount) AS totalVolume,
+         SUM(CASE WHEN winner = ? THEN total_payout ELSE 0 END) AS totalWinnings
+       FROM bets WHERE creator = ? OR opponent = ?`
+    )
+    .get(address, address, address, address, address) as Record<string, number | null>
+
+  return {
+    totalBets: row.totalBets || 0,
+    activeBets: row.activeBets || 0,
+    pendingBets: row.pendingBets || 0,
+    completedBets: row.completedBets || 0,
+    wonBets: row.wonBets || 0,
+    lostBets: row.lostBets || 0,
+    drawBets: row.drawBets || 0,
+    totalVolume: (row.totalVolume || 0).toString(),
+    totalWinnings: (row.totalWinnings || 0).toString(),
+  }
+}
+
+/**
+ * Active users matching a username / ENS name prefix: exact match, then username matches (shortest first), then ENS matches
+ */
+export function searchUsers(db: IndexerDatabase, query: UserSearchQuery): IndexedUser[] {
+  const search = (query.search || "").trim().toLowerCase()
+  const limit = Math.min(query.limit || 10, MAX_LIMIT)
+  // Escape LIKE wildcards - underscores are valid in usernames
+  const prefix = `${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`
+
+  const rows = db
+    .prepare(
+      `SELECT * FROM users
+       WHERE is_active = 1 AND (LOWER(username) LIKE ? ESCAPE '\\' OR LOWER(ens_name) LIKE ? ESCAPE '\\')
+       ORDER BY LOWER(username) = ? DESC, LOWER(username) LIKE ? ESCAPE '\\' DESC, LENGTH(username), username
+       LIMIT ?`
+    )
+    .all(prefix, prefix, search, prefix, limit) as Record<string, any>[]
+
+  return rows.map((row) => ({
+    address: row.address,
+    username: row.username,
+    ensName: row.ens_name,
+    registeredAt: row.registered_at,
+  }))
+}
+
+/**
+ * Disputes (with votes), optionally for one bet
+ */
+export function listDisputes(db: IndexerDatabase, betAddress?: string): IndexedDispute[] {
+  const rows = (
+    betAddress
+      ? db.prepare("SELECT * FROM disputes WHERE bet_address = ? ORDER BY dispute_id DESC").all(betAddress.toLowerCase())
+      : db.prepare("SELECT * FROM disputes ORDER BY dispute_id DESC").all()
+  ) as Record<string, any>[]
+
+  const votesStatement = db.prepare("SELECT * FROM dispute_votes WHERE dispute_id = ? ORDER BY voted_at")
+
+  return rows.map((row) => ({
+    disputeId: row.dispute_id,
+    betAddress: row.bet_address,
+    initiator: row.initiator,
+    tier: row.tier,
+    judgeCount: row.judge_count,
+    deadline: row.deadline,
+    status: row.status,
+    finalOutcome: row.final_outcome,
+    appealedTo: row.appealed_to,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at,
+    votes: (votesStatement.all(row.dispute_id) as Record<string, any>[]).map((vote) => ({
+      judge: vote.judge,
+      outcome: vote.outcome,
+      votedAt: vote.voted_at,
+    })),
+  }))
+}
+
+/**
+ * Raw events emitted by one contract (e.g. a pool's Deposited / Withdrawn history)
+ */
+export function listContractEvents(db: IndexerDatabase, contract: string, name?: string): IndexedEvent[] {
+  const rows = (
+    name
+      ? db
+          .prepare("SELECT * FROM events WHERE contract = ? AND name = ? ORDER BY block_number, log_index")
+          .all(contract.toLowerCase(), name)
+      : db.prepare("SELECT * FROM events WHERE contract = ? ORDER BY block_number, log_index").all(contract.toLowerCase())
+  ) as EventRow[]
+  return rows.map(toIndexedEvent)
+}
+
+/**
+ * Bettor and LP rankings. Bets count towards the window they were created in,
+ * LP yield towards the window it was withdrawn (realized) in.
+ */
+export function getLeaderboard(db: IndexerDatabase, query: LeaderboardQuery): IndexedLeaderboard {
+  const window = query.window && query.window in WINDOW_SECONDS ? query.window : "all"
+  const windowSeconds = WINDOW_SECONDS[window]
+  const since = windowSeconds !== null ? Math.floor(Date.now() / 1000) - windowSeconds : null
+  const limit = Math.min(query.limit || 10, MAX_LIMIT)
+  const category = query.category || null
+
+  // Every (participant, bet) pair - house bets only count the human side
+  const betConditions = ["user != ?"]
+  const betParams: (string | number)[] = [ZERO_ADDRESS]
+  if (since !== null) {
+    betConditions.push("created_at >= ?")
+    betParams.push(since)
+  }
+  if (category) {
+    betConditions.push("LOWER(category) = LOWER(?)")
+    betParams.push(category)
+  }
+
+  const bettorRows = db
+    .prepare(
+      `WITH participants AS (
+         SELECT creator AS user, * FROM bets
+         UNION ALL
+         SELECT opponent AS user, * FROM bets WHERE is_house = 0
+       )
+       SELECT
+         user AS address,
+         COUNT(*) AS totalBets,
+         SUM(state = 4 AND winner = user) AS wonBets,
+         SUM(state = 4 AND outcome IN (1, 2)) AS decidedBets,
+         SUM(stake_amount) AS totalVolume,
+         SUM(CASE WHEN state = 4 AND winner = user THEN total_payout ELSE 0 END) AS totalWinnings
+       FROM participants
+       WHERE ${betConditions.join(" AND ")}
+       GROUP BY user`
+    )
+    .all(...betParams) as Record<string, any>[]
+
+  const bettors: IndexedBettorRank[] = bettorRows.map((row) => ({
+    address: row.address,
+    totalBets: row.totalBets,
+    wonBets: row.wonBets || 0,
+    decidedBets: row.decidedBets || 0,
+    winRate: row.decidedBets > 0 ? ((row.wonBets || 0) / row.decidedBets) * 100 : 0,
+    totalVolume: (row.totalVolume || 0).toString(),
+    totalWinnings: (row.totalWinnings || 0).toString(),
+  }))
+
+  const topWinners = bettors
+    .filter((entry) => Number(entry.totalWinnings) > 0)
+    .sort((a, b) => Number(b.totalWinnings) - Number(a.totalWinnings))
+    .slice(0, limit)
+  const topVolume = [...bettors].sort((a, b) => Number(b.totalVolume) - Number(a.totalVolume)).slice(0, limit)
+  const topWinRate = bettors
+    .filter((entry) => entry.decidedBets >= MIN_DECIDED_BETS_FOR_WIN_RATE)
+    .sort((a, b) => b.winRate - a.winRate || b.decidedBets - a.decidedBets)
+    .slice(0, limit)
+
+  // Realized LP yield from CDOPool Withdrawn events
+  const lpConditions = ["e.name = 'Withdrawn'"]
+  const lpParams: (string | number)[] = []
+  if (since !== null) {
+    lpConditions.push("e.timestamp >= ?")
+    lpParams.push(since)
+  }
+  if (category) {
+    lpConditions.push("LOWER(p.category) = LOWER(?)")
+    lpParams.push(category)
+  }
+
+  const lpRows = db
+    .prepare(
+      `SELECT
+         LOWER(json_extract(e.args, '$.user')) AS address,
+         COUNT(*) AS withdrawals,
+         SUM(CAST(json_extract(e.args, '$.amount') AS INTEGER)) AS totalWithdrawn,
+         SUM(CAST(json_extract(e.args, '$.yieldEarned') AS INTEGER)) AS realizedYield
+       FROM events e JOIN pools p ON p.address = e.contract
+       WHERE ${lpConditions.join(" AND ")}
+       GROUP BY address
+       HAVING realizedYield > 0
+       ORDER BY realizedYield DESC
+       LIMIT ?`
+    )
+    .all(...lpParams, limit) as Record<string, any>[]
+
+  const topLiquidityProviders: IndexedLiquidityProviderRank[] = lpRows.map((row) => ({
+    address: row.address,
+    withdrawals: row.withdrawals,
+    totalWithdrawn: (row.totalWithdrawn || 0).toString(),
+    realizedYield: (row.realizedYield || 0).toString(),
+  }))
+
+  return { window, category, since, topWinners, topVolume, topWinRate, topLiquidityProviders }
+}
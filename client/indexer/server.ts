@@ -0,0 +1,242 @@
+import { timingSafeEqual } from "node:crypto"
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http"
+import { isAddress } from "viem"
+import type { BetSort, LeaderboardWindow } from "../lib/indexer/types"
+import { getLastBlock, type IndexerDatabase } from "./db"
+import { insertEvidence, listEvidence, parseEvidenceRecord } from "./evidence"
+import {
+  getBet,
+  getLeaderboard,
+  getUserBets,
+  getUserStats,
+  listBets,
+  listContractEvents,
+  listDisputes,
+  searchUsers,
+} from "./queries"
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  })
+  res.end(JSON.stringify(body))
+}
+
+// Evidence records are a few hundred bytes
+const MAX_BODY_BYTES = 16 * 1024
+
+export interface EvidenceIndexOptions {
+  db: IndexerDatabase
+  writeToken?: string // bearer token the app authenticates evidence writes with; writes are refused without one
+}
+
+function isAuthorized(req: IncomingMessage, token: string | undefined): boolean {
+  if (!token) return false
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(req.headers.authorization || "")
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")))
+      } catch (error) {
+        reject(error)
+      }
+    })
+    req.on("error", reject)
+  })
+}
+
+/**
+ * Record a signed evidence submission forwarded by the app
+ */
+async function handleEvidenceSubmission(
+  req: IncomingMessage,
+  res: ServerResponse,
+  chainId: number,
+  evidence: EvidenceIndexOptions
+) {
+  if (!isAuthorized(req, evidence.writeToken)) {
+    sendJson(res, 401, { error: "Unauthorized" })
+    return
+  }
+
+  let body: unknown
+  try {
+    body = await readJsonBody(req)
+  } catch {
+    sendJson(res, 400, { error: "Invalid JSON body" })
+    return
+  }
+
+  const record = parseEvidenceRecord(body, chainId)
+  if (!record) {
+    sendJson(res, 400, { error: "Invalid evidence record" })
+    return
+  }
+
+  try {
+    sendJson(res, 200, { record, created: insertEvidence(evidence.db, record) })
+  } catch (error) {
+    console.error("Evidence write failed:", error)
+    sendJson(res, 500, { error: "Write failed" })
+  }
+}
+
+function optionalNumber(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+/**
+ * Query API over the indexed store, plus the dispute evidence index the app writes to
+ *
+ *   GET /health
+ *   GET /bets?status=&category=&search=&sort=newest|highest-stake|ending-soon&limit=&offset=
+ *   GET /bets/:address
+ *   GET /users?search=&limit=
+ *   GET /users/:address/bets
+ *   GET /users/:address/stats
+ *   GET /disputes?bet=
+ *   GET /leaderboard?window=7d|30d|all&category=&limit=
+ *   GET /contracts/:address/events?name=
+ *   GET /evidence?bet=
+ *   POST /evidence (Authorization: Bearer <write token>)
+ */
+export function createQueryServer(db: IndexerDatabase, chainId: number, evidence: EvidenceIndexOptions): Server {
+  return createServer((req, res) => {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, { "Access-Control-Allow-Origin": "*", "Access-Control-Allow-Methods": "GET" })
+      res.end()
+      return
+    }
+
+    const url = new URL(req.url || "/", "http://localhost")
+
+    // Server-to-server only, so no CORS preflight is offered for it
+    if (req.method === "POST" && url.pathname === "/evidence") {
+      handleEvidenceSubmission(req, res, chainId, evidence)
+      return
+    }
+    if (req.method !== "GET") {
+      sendJson(res, 405, { error: "Method not allowed" })
+      return
+    }
+
+    const segments = url.pathname.split("/").filter(Boolean)
+    const addressParam = segments[1]
+
+    try {
+      if (segments[0] === "health") {
+        const bets = (db.prepare("SELECT COUNT(*) AS count FROM bets").get() as { count: number }).count
+        const lastBlock = getLastBlock(db)
+        sendJson(res, 200, { chainId, lastBlock: lastBlock !== null ? Number(lastBlock) : null, bets })
+        return
+      }
+
+      if (segments[0] === "bets" && segments.length === 1) {
+        sendJson(
+          res,
+          200,
+          listBets(db, {
+            status: optionalNumber(url.searchParams.get("status")),
+            category: url.searchParams.get("category") || undefined,
+            search: url.searchParams.get("search") || undefined,
+            sort: (url.searchParams.get("sort") as BetSort) || undefined,
+            limit: optionalNumber(url.searchParams.get("limit")),
+            offset: optionalNumber(url.searchParams.get("offset")),
+          })
+        )
+        return
+      }
+
+      if (segments[0] === "users" && segments.length === 1) {
+        const users = searchUsers(db, {
+          search: url.searchParams.get("search") || undefined,
+          limit: optionalNumber(url.searchParams.get("limit")),
+        })
+        sendJson(res, 200, { users })
+        return
+      }
+
+      if (addressParam && !isAddress(addressParam)) {
+        sendJson(res, 400, { error: "Invalid address" })
+        return
+      }
+
+      if (segments[0] === "bets" && segments.length === 2) {
+        const result = getBet(db, addressParam)
+        if (!result) sendJson(res, 404, { error: "Bet not indexed" })
+        else sendJson(res, 200, result)
+        return
+      }
+
+      if (segments[0] === "users" && segments[2] === "bets") {
+        sendJson(res, 200, { bets: getUserBets(db, addressParam) })
+        return
+      }
+
+      if (segments[0] === "users" && segments[2] === "stats") {
+        sendJson(res, 200, getUserStats(db, addressParam))
+        return
+      }
+
+      if (segments[0] === "disputes" && segments.length === 1) {
+        const bet = url.searchParams.get("bet") || undefined
+        sendJson(res, 200, { disputes: listDisputes(db, bet) })
+        return
+      }
+
+      if (segments[0] === "leaderboard" && segments.length === 1) {
+        sendJson(
+          res,
+          200,
+          getLeaderboard(db, {
+            window: (url.searchParams.get("window") as LeaderboardWindow) || undefined,
+            category: url.searchParams.get("category") || undefined,
+            limit: optionalNumber(url.searchParams.get("limit")),
+          })
+        )
+        return
+      }
+
+      if (segments[0] === "evidence" && segments.length === 1) {
+        const bet = url.searchParams.get("bet") || ""
+        if (!isAddress(bet)) {
+          sendJson(res, 400, { error: "Invalid address" })
+          return
+        }
+        sendJson(res, 200, { evidence: listEvidence(evidence.db, chainId, bet) })
+        return
+      }
+
+      if (segments[0] === "contracts" && segments[2] === "events") {
+        const name = url.searchParams.get("name") || undefined
+        sendJson(res, 200, { events: listContractEvents(db, addressParam, name) })
+        return
+      }
+
+      sendJson(res, 404, { error: "Not found" })
+    } catch (error) {
+      console.error(`Indexer query failed (${url.pathname}):`, error)
+      sendJson(res, 500, { error: "Query failed" })
+    }
+  })
+}
@@ -0,0 +1,331 @@
+import { parseAbi, type AbiEvent, type Address, type GetLogsReturnType, type PublicClient } from "viem"
+import type { ContractAddresses } from "../lib/contracts/addresses"
+import { HOUSE_ADDRESS, deriveCategoryFromTags } from "../lib/utils/bet-helpers"
+import { getLastBlock, setLastBlock, type IndexerDatabase } from "./db"
+import { BET_EVENTS, DISPUTE_EVENTS, FACTORY_EVENTS, POOL_EVENTS, USERNAME_EVENTS } from "./events"
+
+const READ_ABI = parseAbi([
+  "function getBetDetails() view returns ((address creator, address opponent, uint256 stakeAmount, string description, string outcomeDescription, uint256 createdAt, uint256 duration, uint256 expiresAt, uint8 state, uint8 outcome, string[] tags))",
+  "function creatorFunded() view returns (bool)",
+  "function opponentFunded() view returns (bool)",
+  "function getAllPools() view returns (address[])",
+  "function getPoolMetadata(uint256 poolId) view returns ((string name, string symbol, address poolAddress, address tokenAddress, string category, string subcategory, (string description, uint8 riskTier, uint256 minStake, uint256 maxStake, uint256 maxUtilization, bool requiresAIValidation) config, uint256 createdAt, bool isActive))",
+])
+
+export interface IndexerContext {
+  db: IndexerDatabase
+  client: PublicClient
+  addresses: ContractAddresses
+  startBlock: bigint
+  batchSize: bigint
+}
+
+interface DecodedLog {
+  address: Address
+  eventName: string
+  args: Record<string, unknown>
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: `0x${string}`
+}
+
+// A log decoded with one of the event ABIs in ./events, args typed per event name
+type EventLog<TEvents extends readonly AbiEvent[]> = GetLogsReturnType<undefined, TEvents, true>[number]
+
+/**
+ * Make decoded event args JSON friendly (uint256 values become decimal strings)
+ */
+function serializeArgs(args: Record<string, unknown>): Record<string, string | number | boolean> {
+  const serialized: Record<string, string | number | boolean> = {}
+  Object.entries(args).forEach(([key, value]) => {
+    if (typeof value === "bigint") serialized[key] = value.toString()
+    else if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") serialized[key] = value
+    else serialized[key] = String(value)
+  })
+  return serialized
+}
+
+function recordEvent(db: IndexerDatabase, log: DecodedLog) {
+  db.prepare(
+    `INSERT OR IGNORE INTO events (contract, name, args, block_number, log_index, transaction_hash, timestamp)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    log.address.toLowerCase(),
+    log.eventName,
+    JSON.stringify(serializeArgs(log.args)),
+    Number(log.blockNumber),
+    log.logIndex,
+    log.transactionHash,
+    Number(log.args.timestamp ?? 0)
+  )
+}
+
+/**
+ * Insert a newly created bet from its BetFactory event
+ */
+function recordNewBet(db: IndexerDatabase, log: EventLog<typeof FACTORY_EVENTS>) {
+  const { args } = log
+  const isHouse = log.eventName === "HouseBetCreated"
+
+  db.prepare(
+    `INSERT OR IGNORE INTO bets
+       (address, creator, opponent, stake_amount, description, is_house, created_at, expires_at, created_block)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    args.betContract.toLowerCase(),
+    args.creator.toLowerCase(),
+    (log.eventName === "BetCreated" ? log.args.opponent : HOUSE_ADDRESS).toLowerCase(),
+    Number(args.stakeAmount),
+    args.description,
+    isHouse ? 1 : 0,
+    Number(args.timestamp),
+    Number(args.timestamp + args.duration),
+    Number(log.blockNumber)
+  )
+}
+
+/**
+ * Apply a Bet event that carries data not readable from getBetDetails
+ */
+function applyBetEvent(db: IndexerDatabase, log: EventLog<typeof BET_EVENTS>) {
+  if (log.eventName !== "BetResolved") return
+
+  const { args } = log
+  db.prepare("UPDATE bets SET winner = ?, total_payout = ?, yield_earned = ?, resolved_at = ? WHERE address = ?").run(
+    args.winner.toLowerCase(),
+    Number(args.totalPayout),
+    Number(args.yieldEarned),
+    Number(args.timestamp),
+    log.address.toLowerCase()
+  )
+}
+
+/**
+ * Track dispute panels and votes from DisputeManager events
+ */
+function applyDisputeEvent(db: IndexerDatabase, log: EventLog<typeof DISPUTE_EVENTS>) {
+  switch (log.eventName) {
+    case "DisputeCreated":
+      db.prepare(
+        `INSERT OR IGNORE INTO disputes (dispute_id, bet_address, initiator, tier, judge_count, deadline, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        Number(log.args.disputeId),
+        log.args.betContract.toLowerCase(),
+        log.args.initiator.toLowerCase(),
+        log.args.tier,
+        log.args.judgeCount,
+        Number(log.args.deadline),
+        Number(log.args.timestamp)
+      )
+      break
+    case "VoteSubmitted":
+      db.prepare("INSERT OR IGNORE INTO dispute_votes (dispute_id, judge, outcome, voted_at) VALUES (?, ?, ?, ?)").run(
+        Number(log.args.disputeId),
+        log.args.judge.toLowerCase(),
+        log.args.outcome,
+        Number(log.args.timestamp)
+      )
+      break
+    case "DisputeResolved":
+      db.prepare("UPDATE disputes SET status = 'resolved', final_outcome = ?, resolved_at = ? WHERE dispute_id = ?").run(
+        log.args.finalOutcome,
+        Number(log.args.timestamp),
+        Number(log.args.disputeId)
+      )
+      break
+    case "DisputeAppealed":
+      db.prepare("UPDATE disputes SET status = 'appealed', appealed_to = ? WHERE dispute_id = ?").run(
+        Number(log.args.newDisputeId),
+        Number(log.args.disputeId)
+      )
+      break
+  }
+}
+
+/**
+ * Mirror UsernameRegistry profiles so the create wizard can search opponents by name
+ */
+function applyUsernameEvent(db: IndexerDatabase, log: EventLog<typeof USERNAME_EVENTS>) {
+  const user = log.args.user.toLowerCase()
+  const timestamp = Number(log.args.timestamp)
+
+  switch (log.eventName) {
+    case "UsernameRegistered":
+      // Re-registering after deactivation starts a fresh profile
+      db.prepare(
+        `INSERT INTO users (address, username, ens_name, is_active, registered_at, updated_at) VALUES (?, ?, NULL, 1, ?, ?)
+         ON CONFLICT(address) DO UPDATE SET
+           username = excluded.username, ens_name = NULL, is_active = 1,
+           registered_at = excluded.registered_at, updated_at = excluded.updated_at`
+      ).run(user, log.args.username, timestamp, timestamp)
+      break
+    case "UsernameUpdated":
+      db.prepare("UPDATE users SET username = ?, updated_at = ? WHERE address = ?").run(log.args.newUsername, timestamp, user)
+      break
+    case "ENSLinked":
+      db.prepare("UPDATE users SET ens_name = ?, updated_at = ? WHERE address = ?").run(log.args.ensName, timestamp, user)
+      break
+    case "UserDeactivated":
+      db.prepare("UPDATE users SET is_active = 0, updated_at = ? WHERE address = ?").run(timestamp, user)
+      break
+  }
+}
+
+/**
+ * Re-read a bet's current state after any of its events
+ */
+async function refreshBet(ctx: IndexerContext, address: Address) {
+  const [details, creatorFunded, opponentFunded] = await Promise.all([
+    ctx.client.readContract({ address, abi: READ_ABI, functionName: "getBetDetails" }),
+    ctx.client.readContract({ address, abi: READ_ABI, functionName: "creatorFunded" }),
+    ctx.client.readContract({ address, abi: READ_ABI, functionName: "opponentFunded" }),
+  ])
+
+  const tags = [...details.tags]
+  ctx.db
+    .prepare(
+      `UPDATE bets SET
+         opponent = ?, outcome_description = ?, tags = ?, category = ?, state = ?, outcome = ?,
+         creator_funded = ?, opponent_funded = ?, created_at = ?, expires_at = ?
+       WHERE address = ?`
+    )
+    .run(
+      details.opponent.toLowerCase(),
+      details.outcomeDescription,
+      JSON.stringify(tags),
+      deriveCategoryFromTags(tags),
+      details.state,
+      details.outcome,
+      creatorFunded ? 1 : 0,
+      opponentFunded ? 1 : 0,
+      Number(details.createdAt),
+      Number(details.expiresAt),
+      address.toLowerCase()
+    )
+}
+
+function knownBets(db: IndexerDatabase): Set<string> {
+  const rows = db.prepare("SELECT address FROM bets").all() as { address: string }[]
+  return new Set(rows.map((row) => row.address))
+}
+
+/**
+ * Record the category of pools created since the last sync (pool ids follow getAllPools order)
+ */
+async function registerPools(ctx: IndexerContext, pools: readonly Address[]) {
+  const known = new Set((ctx.db.prepare("SELECT address FROM pools").all() as { address: string }[]).map((row) => row.address))
+
+  for (let poolId = 0; poolId < pools.length; poolId++) {
+    const address = pools[poolId].toLowerCase()
+    if (known.has(address)) continue
+
+    const metadata = await ctx.client.readContract({
+      address: ctx.addresses.cdoPoolFactory as Address,
+      abi: READ_ABI,
+      functionName: "getPoolMetadata",
+      args: [BigInt(poolId)],
+    })
+    ctx.db.prepare("INSERT OR IGNORE INTO pools (address, pool_id, category) VALUES (?, ?, ?)").run(
+      address,
+      poolId,
+      metadata.category
+    )
+  }
+}
+
+/**
+ * Index every relevant log in [fromBlock, toBlock]
+ */
+export async function indexRange(ctx: IndexerContext, fromBlock: bigint, toBlock: bigint) {
+  const { client, db, addresses } = ctx
+
+  const pools = await client.readContract({
+    address: addresses.cdoPoolFactory as Address,
+    abi: READ_ABI,
+    functionName: "getAllPools",
+  })
+  await registerPools(ctx, pools)
+
+  const [factoryLogs, betLogs, poolLogs, disputeLogs, usernameLogs] = await Promise.all([
+    client.getLogs({ address: addresses.betFactory as Address, events: FACTORY_EVENTS, fromBlock, toBlock, strict: true }),
+    // Bets are minimal proxies, so match on topics and keep logs from bets we know about
+    client.getLogs({ events: BET_EVENTS, fromBlock, toBlock, strict: true }),
+    pools.length > 0
+      ? client.getLogs({ address: [...pools], events: POOL_EVENTS, fromBlock, toBlock, strict: true })
+      : Promise.resolve([] as EventLog<typeof POOL_EVENTS>[]),
+    client.getLogs({ address: addresses.disputeManager as Address, events: DISPUTE_EVENTS, fromBlock, toBlock, strict: true }),
+    client.getLogs({ address: addresses.usernameRegistry as Address, events: USERNAME_EVENTS, fromBlock, toBlock, strict: true }),
+  ])
+
+  const touched = new Set<Address>()
+
+  db.transaction(() => {
+    for (const log of factoryLogs) {
+      recordNewBet(db, log)
+      recordEvent(db, log)
+      touched.add(log.args.betContract)
+    }
+
+    const bets = knownBets(db)
+    for (const log of betLogs) {
+      if (!bets.has(log.address.toLowerCase())) continue
+      recordEvent(db, log)
+      applyBetEvent(db, log)
+      touched.add(log.address)
+    }
+
+    for (const log of poolLogs) {
+      recordEvent(db, log)
+    }
+
+    for (const log of disputeLogs) {
+      recordEvent(db, log)
+      applyDisputeEvent(db, log)
+    }
+
+    for (const log of usernameLogs) {
+      recordEvent(db, log)
+      applyUsernameEvent(db, log)
+    }
+
+    // Queued with the events, so the cursor never moves past a bet whose state was not re-read
+    const queue = db.prepare("INSERT OR IGNORE INTO pending_refreshes (address) VALUES (?)")
+    touched.forEach((address) => queue.run(address.toLowerCase()))
+    setLastBlock(db, toBlock)
+  })()
+
+  // Includes bets whose refresh failed in an earlier run
+  const pending = db.prepare("SELECT address FROM pending_refreshes").all() as { address: Address }[]
+  let refreshed = 0
+  for (const { address } of pending) {
+    try {
+      await refreshBet(ctx, address)
+      db.prepare("DELETE FROM pending_refreshes WHERE address = ?").run(address)
+      refreshed++
+    } catch (error) {
+      console.error(`Failed to refresh bet ${address}, retrying next sync:`, error)
+    }
+  }
+
+  return {
+    bets: refreshed,
+    events: factoryLogs.length + betLogs.length + poolLogs.length + disputeLogs.length + usernameLogs.length,
+  }
+}
+
+/**
+ * Catch up from the stored cursor to the chain head in batches
+ */
+export async function syncToHead(ctx: IndexerContext) {
+  const head = await ctx.client.getBlockNumber()
+  const lastBlock = getLastBlock(ctx.db)
+  let fromBlock = lastBlock !== null ? lastBlock + BigInt(1) : ctx.startBlock
+
+  while (fromBlock <= head) {
+    const toBlock = fromBlock + ctx.batchSize - BigInt(1) < head ? fromBlock + ctx.batchSize - BigInt(1) : head
+    const { bets, events } = await indexRange(ctx, fromBlock, toBlock)
+    console.log(`Indexed blocks ${fromBlock}-${toBlock}: ${events} events, ${bets} bets updated`)
+    fromBlock = toBlock + BigInt(1)
+  }
+}
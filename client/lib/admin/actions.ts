@@ -0,0 +1,589 @@
+import { getContract, readContract, type Chain } from "thirdweb"
+import { client } from "@/lib/thirdweb"
+import type { ContractAddresses } from "../contracts/addresses"
+import { formatFieldValue, type AdminField, type AdminFieldValue, type AdminValues } from "./fields"
+
+/**
+ * Owner-only protocol functions exposed in the admin console. Each action declares its form fields,
+ * how to read the values it overwrites, and how the form maps onto the call. Validation mirrors the
+ * contract's require checks so a bad value is caught before it reaches a wallet or multisig.
+ */
+
+export type AdminContract = "betFactory" | "betRiskValidator" | "cdoPool" | "judgeRegistry" | "disputeManager"
+
+export const ADMIN_CONTRACT_LABELS: Record<AdminContract, string> = {
+  betFactory: "BetFactory",
+  betRiskValidator: "BetRiskValidator",
+  cdoPool: "CDOPool",
+  judgeRegistry: "JudgeRegistry",
+  disputeManager: "DisputeManager",
+}
+
+export interface AdminReadContext {
+  chain: Chain
+  addresses: ContractAddresses
+}
+
+/**
+ * What an action reads before it is sent
+ */
+export interface AdminState {
+  target: string // contract the call is sent to
+  owner: string
+  current: AdminValues // values the call overwrites, by field name
+  readouts: { label: string; value: string }[] // other context worth seeing first
+  context?: Record<string, any> // raw reads behind the readouts, for validate and effects
+}
+
+export interface AdminDiffRow {
+  label: string
+  from: string
+  to: string
+}
+
+export interface AdminAction {
+  id: string
+  contract: AdminContract
+  title: string
+  description: string
+  signature: string
+  // What the call operates on (a pool, category, bet, judge or dispute) - the state read depends on it
+  key?: AdminField
+  fields: AdminField[]
+  read: (ctx: AdminReadContext, key?: AdminFieldValue) => Promise<AdminState>
+  toArgs: (values: AdminValues, key?: AdminFieldValue) => readonly unknown[]
+  validate?: (values: AdminValues, state: AdminState) => string | null
+  // Changes a call makes beyond the fields it overwrites
+  effects?: (values: AdminValues, state: AdminState) => AdminDiffRow[]
+}
+
+const OWNER_METHOD = "function owner() view returns (address)"
+
+async function readOwner(ctx: AdminReadContext, address: string): Promise<string> {
+  return readContract({ contract: getContract({ client, chain: ctx.chain, address }), method: OWNER_METHOD, params: [] })
+}
+
+function contractAt(ctx: AdminReadContext, address: string) {
+  return getContract({ client, chain: ctx.chain, address })
+}
+
+const FACTORY_CONFIG_METHOD =
+  "function config() view returns (uint256 minStakeAmount, uint256 maxStakeAmount, uint256 minDuration, uint256 maxDuration, uint256 maxBetsPerUser, uint256 maxTotalBets, bool paused)"
+
+const POOL_CONFIG_METHOD =
+  "function config() view returns (uint256 minDepositAmount, uint256 maxPoolSize, uint256 utilizationTarget, uint256 minLockPeriod, uint256 maxLockPeriod, uint256 earlyWithdrawalFee, bool depositsEnabled, bool withdrawalsEnabled)"
+
+const REGISTRY_CONFIG_METHOD =
+  "function config() view returns (uint256 minStakeAmount, uint256 minReputationScore, uint256 withdrawalLockPeriod, uint256 slashPercentage, uint256 initialReputation)"
+
+const DISPUTE_STATUS_LABELS = ["Active", "Resolved", "Appealed"]
+
+async function readFactoryConfig(ctx: AdminReadContext) {
+  const factory = contractAt(ctx, ctx.addresses.betFactory)
+  const [config, owner] = await Promise.all([
+    readContract({ contract: factory, method: FACTORY_CONFIG_METHOD, params: [] }),
+    readOwner(ctx, ctx.addresses.betFactory),
+  ])
+  return { factory, config, owner }
+}
+
+async function readPoolConfig(ctx: AdminReadContext, pool: string) {
+  const [config, owner] = await Promise.all([
+    readContract({ contract: contractAt(ctx, pool), method: POOL_CONFIG_METHOD, params: [] }),
+    readOwner(ctx, pool),
+  ])
+  return { config, owner }
+}
+
+export const ADMIN_ACTIONS: AdminAction[] = [
+  // ============ BetFactory ============
+  {
+    id: "factory-config",
+    contract: "betFactory",
+    title: "Protocol Limits",
+    description: "Stake, duration and bet-count limits enforced when bets are created.",
+    signature:
+      "function updateConfig(uint256 _minStakeAmount, uint256 _maxStakeAmount, uint256 _minDuration, uint256 _maxDuration, uint256 _maxBetsPerUser, uint256 _maxTotalBets)",
+    fields: [
+      { name: "minStakeAmount", label: "Min Stake", kind: "usdc" },
+      { name: "maxStakeAmount", label: "Max Stake", kind: "usdc" },
+      { name: "minDuration", label: "Min Duration", kind: "seconds" },
+      { name: "maxDuration", label: "Max Duration", kind: "seconds" },
+      { name: "maxBetsPerUser", label: "Max Bets per User", kind: "uint", hint: "0 = unlimited" },
+      { name: "maxTotalBets", label: "Max Total Bets", kind: "uint", hint: "0 = unlimited" },
+    ],
+    read: async (ctx) => {
+      const { config, owner } = await readFactoryConfig(ctx)
+      return {
+        target: ctx.addresses.betFactory,
+        owner,
+        current: {
+          minStakeAmount: config[0],
+          maxStakeAmount: config[1],
+          minDuration: config[2],
+          maxDuration: config[3],
+          maxBetsPerUser: config[4],
+          maxTotalBets: config[5],
+        },
+        readouts: [],
+      }
+    },
+    toArgs: (v) => [v.minStakeAmount, v.maxStakeAmount, v.minDuration, v.maxDuration, v.maxBetsPerUser, v.maxTotalBets],
+    validate: (v) => {
+      if ((v.minStakeAmount as bigint) > (v.maxStakeAmount as bigint)) return "Min stake is above max stake"
+      if ((v.minDuration as bigint) > (v.maxDuration as bigint)) return "Min duration is above max duration"
+      return null
+    },
+  },
+  {
+    id: "factory-paused",
+    contract: "betFactory",
+    title: "Emergency Pause",
+    description: "Stops new bets from being created. Existing bets are unaffected.",
+    signature: "function setPaused(bool _paused)",
+    fields: [{ name: "paused", label: "Paused", kind: "bool" }],
+    read: async (ctx) => {
+      const { config, owner } = await readFactoryConfig(ctx)
+      return { target: ctx.addresses.betFactory, owner, current: { paused: config[6] }, readouts: [] }
+    },
+    toArgs: (v) => [v.paused],
+  },
+  {
+    id: "factory-risk-validator",
+    contract: "betFactory",
+    title: "Risk Validator",
+    description: "BetRiskValidator consulted before house bets are matched.",
+    signature: "function setRiskValidator(address _riskValidator)",
+    fields: [{ name: "riskValidator", label: "Validator Address", kind: "address" }],
+    read: async (ctx) => {
+      const factory = contractAt(ctx, ctx.addresses.betFactory)
+      const [riskValidator, owner] = await Promise.all([
+        readContract({ contract: factory, method: "function riskValidator() view returns (address)", params: [] }),
+        readOwner(ctx, ctx.addresses.betFactory),
+      ])
+      return { target: ctx.addresses.betFactory, owner, current: { riskValidator }, readouts: [] }
+    },
+    toArgs: (v) => [v.riskValidator],
+    validate: (v) =>
+      (v.riskValidator as string) === "0x0000000000000000000000000000000000000000" ? "Invalid validator" : null,
+  },
+  {
+    id: "factory-default-pool",
+    contract: "betFactory",
+    title: "Default Pool",
+    description: "Pool that matches house bets whose category has no pool of its own.",
+    signature: "function setDefaultPool(uint256 _defaultPoolId)",
+    fields: [{ name: "defaultPoolId", label: "Pool ID", kind: "uint" }],
+    read: async (ctx) => {
+      const factory = contractAt(ctx, ctx.addresses.betFactory)
+      const [defaultPoolId, totalPools, owner] = await Promise.all([
+        readContract({ contract: factory, method: "function defaultPoolId() view returns (uint256)", params: [] }),
+        readContract({
+          contract: contractAt(ctx, ctx.addresses.cdoPoolFactory),
+          method: "function getTotalPools() view returns (uint256)",
+          params: [],
+        }),
+        readOwner(ctx, ctx.addresses.betFactory),
+      ])
+      return {
+        target: ctx.addresses.betFactory,
+        owner,
+        current: { defaultPoolId },
+        readouts: [{ label: "Pools in CDOPoolFactory", value: totalPools.toString() }],
+        context: { totalPools },
+      }
+    },
+    toArgs: (v) => [v.defaultPoolId],
+    validate: (v, state) => ((v.defaultPoolId as bigint) >= state.context?.totalPools ? "Invalid pool ID" : null),
+  },
+
+  // ============ BetRiskValidator ============
+  {
+    id: "validator-rules",
+    contract: "betRiskValidator",
+    title: "Validation Rules",
+    description: "Global limits every house bet must pass before a pool matches it.",
+    signature:
+      "function updateValidationRules((uint256 minDuration, uint256 maxDuration, uint256 minStakeAmount, uint256 maxStakePercentage, uint256 minRiskScore, uint256 maxUtilization) newRules)",
+    fields: [
+      { name: "minDuration", label: "Min Duration", kind: "seconds" },
+      { name: "maxDuration", label: "Max Duration", kind: "seconds" },
+      { name: "minStakeAmount", label: "Min Stake", kind: "usdc" },
+      { name: "maxStakePercentage", label: "Max Stake of Liquidity", kind: "bps", hint: "max 1000 (10%)" },
+      { name: "minRiskScore", label: "Min Risk Score", kind: "uint", hint: "0-100" },
+      { name: "maxUtilization", label: "Max Utilization", kind: "bps" },
+    ],
+    read: async (ctx) => {
+      const validator = contractAt(ctx, ctx.addresses.betRiskValidator)
+      const [rules, owner] = await Promise.all([
+        readContract({
+          contract: validator,
+          method:
+            "function rules() view returns (uint256 minDuration, uint256 maxDuration, uint256 minStakeAmount, uint256 maxStakePercentage, uint256 minRiskScore, uint256 maxUtilization)",
+          params: [],
+        }),
+        readOwner(ctx, ctx.addresses.betRiskValidator),
+      ])
+      return {
+        target: ctx.addresses.betRiskValidator,
+        owner,
+        current: {
+          minDuration: rules[0],
+          maxDuration: rules[1],
+          minStakeAmount: rules[2],
+          maxStakePercentage: rules[3],
+          minRiskScore: rules[4],
+          maxUtilization: rules[5],
+        },
+        readouts: [],
+      }
+    },
+    toArgs: (v) => [
+      {
+        minDuration: v.minDuration,
+        maxDuration: v.maxDuration,
+        minStakeAmount: v.minStakeAmount,
+        maxStakePercentage: v.maxStakePercentage,
+        minRiskScore: v.minRiskScore,
+        maxUtilization: v.maxUtilization,
+      },
+    ],
+    validate: (v) => {
+      if ((v.minDuration as bigint) === BigInt(0)) return "Invalid min duration"
+      if ((v.maxDuration as bigint) <= (v.minDuration as bigint)) return "Invalid max duration"
+      if ((v.maxStakePercentage as bigint) > BigInt(1000)) return "Max stake too high"
+      if ((v.minRiskScore as bigint) > BigInt(100)) return "Invalid risk score"
+      if ((v.maxUtilization as bigint) > BigInt(10000)) return "Invalid utilization"
+      return null
+    },
+  },
+  {
+    id: "validator-category",
+    contract: "betRiskValidator",
+    title: "Category Risk",
+    description: "Per-category overrides. A disabled category is never matched by a pool.",
+    signature:
+      "function setCategoryRisk(string category, bool enabled, uint256 riskLevel, uint256 minDuration, uint256 maxStakePercentage)",
+    key: { name: "category", label: "Category", kind: "text", hint: "e.g. Sports, Crypto, Price" },
+    fields: [
+      { name: "enabled", label: "Enabled", kind: "bool" },
+      { name: "riskLevel", label: "Risk Level", kind: "uint", hint: "1 = safest, 10 = riskiest" },
+      { name: "minDuration", label: "Min Duration", kind: "seconds" },
+      { name: "maxStakePercentage", label: "Max Stake of Liquidity", kind: "bps", hint: "max 1000 (10%)" },
+    ],
+    read: async (ctx, category) => {
+      const validator = contractAt(ctx, ctx.addresses.betRiskValidator)
+      const [risk, owner] = await Promise.all([
+        readContract({
+          contract: validator,
+          method:
+            "function categoryRisk(string) view returns (bool enabled, uint256 riskLevel, uint256 minDuration, uint256 maxStakePercentage)",
+          params: [category as string],
+        }),
+        readOwner(ctx, ctx.addresses.betRiskValidator),
+      ])
+      const isConfigured = risk[0] || risk[1] > BigInt(0)
+      return {
+        target: ctx.addresses.betRiskValidator,
+        owner,
+        current: { enabled: risk[0], riskLevel: risk[1], minDuration: risk[2], maxStakePercentage: risk[3] },
+        readouts: isConfigured ? [] : [{ label: "Status", value: "Not configured yet" }],
+      }
+    },
+    toArgs: (v, category) => [category, v.enabled, v.riskLevel, v.minDuration, v.maxStakePercentage],
+    validate: (v) => {
+      if ((v.riskLevel as bigint) > BigInt(10)) return "Risk level must be 1-10"
+      if ((v.maxStakePercentage as bigint) > BigInt(1000)) return "Max stake too high"
+      return null
+    },
+  },
+  {
+    id: "validator-blacklist",
+    contract: "betRiskValidator",
+    title: "Blacklist Bet",
+    description: "Blocks a bet from ever being matched by a pool.",
+    signature: "function blacklistBet(address betContract, string reason)",
+    key: { name: "betContract", label: "Bet Address", kind: "address" },
+    fields: [{ name: "reason", label: "Reason", kind: "text" }],
+    read: async (ctx, betContract) => {
+      const validator = contractAt(ctx, ctx.addresses.betRiskValidator)
+      const [blacklisted, owner] = await Promise.all([
+        readContract({
+          contract: validator,
+          method: "function blacklistedBets(address) view returns (bool)",
+          params: [betContract as string],
+        }),
+        readOwner(ctx, ctx.addresses.betRiskValidator),
+      ])
+      return {
+        target: ctx.addresses.betRiskValidator,
+        owner,
+        current: {},
+        readouts: [{ label: "Blacklisted", value: formatFieldValue("bool", blacklisted) }],
+        context: { blacklisted },
+      }
+    },
+    toArgs: (v, betContract) => [betContract, v.reason],
+    validate: (v, state) => {
+      if (state.context?.blacklisted) return "Bet is already blacklisted"
+      if ((v.reason as string).length === 0) return "Give a reason - it is emitted with the event"
+      return null
+    },
+    effects: () => [{ label: "Blacklisted", from: formatFieldValue("bool", false), to: formatFieldValue("bool", true) }],
+  },
+  {
+    id: "validator-price-rule",
+    contract: "betRiskValidator",
+    title: "Price Proximity Rule",
+    description: "Price bets whose target is closer than the gap must run at least the minimum duration.",
+    signature: "function updatePriceProximityRule(uint256 minPriceGapPercentage, uint256 minDurationForGap)",
+    fields: [
+      { name: "minPriceGapPercentage", label: "Min Price Gap", kind: "bps" },
+      { name: "minDurationForGap", label: "Min Duration for Small Gaps", kind: "seconds" },
+    ],
+    read: async (ctx) => {
+      const validator = contractAt(ctx, ctx.addresses.betRiskValidator)
+      const [rule, owner] = await Promise.all([
+        readContract({
+          contract: validator,
+          method: "function priceProximityRule() view returns (uint256 minPriceGapPercentage, uint256 minDurationForGap)",
+          params: [],
+        }),
+        readOwner(ctx, ctx.addresses.betRiskValidator),
+      ])
+      return {
+        target: ctx.addresses.betRiskValidator,
+        owner,
+        current: { minPriceGapPercentage: rule[0], minDurationForGap: rule[1] },
+        readouts: [],
+      }
+    },
+    toArgs: (v) => [v.minPriceGapPercentage, v.minDurationForGap],
+  },
+
+  // ============ CDOPool ============
+  {
+    id: "pool-config",
+    contract: "cdoPool",
+    title: "Pool Config",
+    description: "Deposit limits, utilization target and early withdrawal fee of one pool.",
+    signature:
+      "function updateConfig(uint256 _minDepositAmount, uint256 _maxPoolSize, uint256 _utilizationTarget, uint256 _earlyWithdrawalFee)",
+    key: { name: "pool", label: "Pool", kind: "address" },
+    fields: [
+      { name: "minDepositAmount", label: "Min Deposit", kind: "usdc" },
+      { name: "maxPoolSize", label: "Max Pool Size", kind: "usdc" },
+      { name: "utilizationTarget", label: "Utilization Target", kind: "bps" },
+      { name: "earlyWithdrawalFee", label: "Early Withdrawal Fee", kind: "bps", hint: "max 1000 (10%)" },
+    ],
+    read: async (ctx, pool) => {
+      const { config, owner } = await readPoolConfig(ctx, pool as string)
+      return {
+        target: pool as string,
+        owner,
+        current: {
+          minDepositAmount: config[0],
+          maxPoolSize: config[1],
+          utilizationTarget: config[2],
+          earlyWithdrawalFee: config[5],
+        },
+        readouts: [],
+      }
+    },
+    toArgs: (v) => [v.minDepositAmount, v.maxPoolSize, v.utilizationTarget, v.earlyWithdrawalFee],
+    validate: (v) => {
+      if ((v.utilizationTarget as bigint) > BigInt(10000)) return "Invalid utilization"
+      if ((v.earlyWithdrawalFee as bigint) > BigInt(1000)) return "Fee too high"
+      return null
+    },
+  },
+  {
+    id: "pool-deposits",
+    contract: "cdoPool",
+    title: "Deposits",
+    description: "Pause or resume new LP deposits into one pool. Withdrawals are unaffected.",
+    signature: "function setDepositsEnabled(bool enabled)",
+    key: { name: "pool", label: "Pool", kind: "address" },
+    fields: [{ name: "depositsEnabled", label: "Deposits Enabled", kind: "bool" }],
+    read: async (ctx, pool) => {
+      const { config, owner } = await readPoolConfig(ctx, pool as string)
+      return { target: pool as string, owner, current: { depositsEnabled: config[6] }, readouts: [] }
+    },
+    toArgs: (v) => [v.depositsEnabled],
+  },
+
+  // ============ JudgeRegistry ============
+  {
+    id: "judges-config",
+    contract: "judgeRegistry",
+    title: "Registry Config",
+    description: "Judge staking, eligibility and slashing parameters.",
+    signature:
+      "function updateConfig(uint256 _minStakeAmount, uint256 _minReputationScore, uint256 _withdrawalLockPeriod, uint256 _slashPercentage, uint256 _initialReputation)",
+    fields: [
+      { name: "minStakeAmount", label: "Min Stake", kind: "mnt" },
+      { name: "minReputationScore", label: "Min Reputation", kind: "bps" },
+      { name: "withdrawalLockPeriod", label: "Withdrawal Lock", kind: "seconds" },
+      { name: "slashPercentage", label: "Slash Percentage", kind: "bps", hint: "max 5000 (50%)" },
+      { name: "initialReputation", label: "Initial Reputation", kind: "bps" },
+    ],
+    read: async (ctx) => {
+      const [config, owner] = await Promise.all([
+        readContract({
+          contract: contractAt(ctx, ctx.addresses.judgeRegistry),
+          method: REGISTRY_CONFIG_METHOD,
+          params: [],
+        }),
+        readOwner(ctx, ctx.addresses.judgeRegistry),
+      ])
+      return {
+        target: ctx.addresses.judgeRegistry,
+        owner,
+        current: {
+          minStakeAmount: config[0],
+          minReputationScore: config[1],
+          withdrawalLockPeriod: config[2],
+          slashPercentage: config[3],
+          initialReputation: config[4],
+        },
+        readouts: [],
+      }
+    },
+    toArgs: (v) => [v.minStakeAmount, v.minReputationScore, v.withdrawalLockPeriod, v.slashPercentage, v.initialReputation],
+    validate: (v) => {
+      if ((v.minReputationScore as bigint) > BigInt(10000)) return "Invalid reputation"
+      if ((v.slashPercentage as bigint) > BigInt(5000)) return "Slash too high"
+      if ((v.initialReputation as bigint) > BigInt(10000)) return "Invalid initial reputation"
+      return null
+    },
+  },
+  {
+    id: "judges-slash",
+    contract: "judgeRegistry",
+    title: "Slash Judge",
+    description: "Takes the configured slash percentage of a judge's stake. Judges below the minimum stake are deactivated.",
+    signature: "function slashJudge(address judge)",
+    key: { name: "judge", label: "Judge Address", kind: "address" },
+    fields: [],
+    read: async (ctx, judge) => {
+      const registry = contractAt(ctx, ctx.addresses.judgeRegistry)
+      const [profile, config, owner] = await Promise.all([
+        readContract({
+          contract: registry,
+          method:
+            "function getJudgeProfile(address) view returns ((uint256 stakedAmount, uint96 reputationScore, uint96 totalCases, uint96 correctDecisions, uint64 registeredAt, bool isActive, uint64 withdrawRequestTime))",
+          params: [judge as string],
+        }),
+        readContract({ contract: registry, method: REGISTRY_CONFIG_METHOD, params: [] }),
+        readOwner(ctx, ctx.addresses.judgeRegistry),
+      ])
+      const slashAmount = (profile.stakedAmount * config[3]) / BigInt(10000)
+      const remaining = profile.stakedAmount - slashAmount
+      const activeAfter = profile.isActive && remaining >= config[0]
+      return {
+        target: ctx.addresses.judgeRegistry,
+        owner,
+        current: {},
+        readouts: [
+          { label: "Staked", value: formatFieldValue("mnt", profile.stakedAmount) },
+          { label: "Reputation", value: formatFieldValue("bps", BigInt(profile.reputationScore)) },
+          { label: "Active", value: formatFieldValue("bool", profile.isActive) },
+          { label: "Slash", value: `${formatFieldValue("bps", config[3])} = ${formatFieldValue("mnt", slashAmount)}` },
+        ],
+        context: { profile, remaining, activeAfter },
+      }
+    },
+    toArgs: (_v, judge) => [judge],
+    validate: (_v, state) => (state.context?.profile.stakedAmount === BigInt(0) ? "Judge has no stake" : null),
+    effects: (_v, state) => [
+      {
+        label: "Staked",
+        from: formatFieldValue("mnt", state.context?.profile.stakedAmount),
+        to: formatFieldValue("mnt", state.context?.remaining),
+      },
+      {
+        label: "Active",
+        from: formatFieldValue("bool", state.context?.profile.isActive),
+        to: formatFieldValue("bool", state.context?.activeAfter),
+      },
+    ],
+  },
+
+  // ============ DisputeManager ============
+  {
+    id: "disputes-replace-judge",
+    contract: "disputeManager",
+    title: "Replace Timed-Out Judge",
+    description:
+      "Swaps a judge who has not voted within the judge timeout for a newly selected one. The old judge is recorded as an incorrect decision.",
+    signature: "function replaceTimeoutJudge(uint256 disputeId, uint256 judgeIndex)",
+    key: { name: "disputeId", label: "Dispute ID", kind: "uint" },
+    fields: [{ name: "judgeIndex", label: "Judge Index", kind: "uint", hint: "position in the panel, from 0" }],
+    read: async (ctx, disputeId) => {
+      const manager = contractAt(ctx, ctx.addresses.disputeManager)
+      const [dispute, judges, config, owner] = await Promise.all([
+        readContract({
+          contract: manager,
+          method:
+            "function getDispute(uint256) view returns ((address betContract, address initiator, uint64 createdAt, uint64 votingDeadline, uint8 status, uint8 tier, uint8 judgeCount, uint8 votesSubmitted, uint8 finalOutcome, bool appealed))",
+          params: [disputeId as bigint],
+        }),
+        readContract({
+          contract: manager,
+          method: "function getDisputeJudges(uint256) view returns (address[])",
+          params: [disputeId as bigint],
+        }),
+        readContract({
+          contract: manager,
+          method:
+            "function config() view returns (uint256 tier0Threshold, uint256 tier1Threshold, uint256 votingPeriod, uint256 judgeTimeout)",
+          params: [],
+        }),
+        readOwner(ctx, ctx.addresses.disputeManager),
+      ])
+      const votes = await Promise.all(
+        judges.map((judge) =>
+          readContract({
+            contract: manager,
+            method: "function getVote(uint256, address) view returns ((uint8 outcome, uint64 votedAt, bool hasVoted))",
+            params: [disputeId as bigint, judge],
+          })
+        )
+      )
+      const timeoutAt = Number(dispute.createdAt) + Number(config[3])
+
+      return {
+        target: ctx.addresses.disputeManager,
+        owner,
+        current: {},
+        readouts: [
+          { label: "Status", value: DISPUTE_STATUS_LABELS[dispute.status] ?? "Unknown" },
+          { label: "Judge Timeout", value: new Date(timeoutAt * 1000).toLocaleString() },
+          ...judges.map((judge, i) => ({
+            label: `Judge #${i}`,
+            value: `${judge} · ${votes[i].hasVoted ? "voted" : "not voted"}`,
+          })),
+        ],
+        context: {
+          status: dispute.status,
+          timeoutAt,
+          judges: judges.map((judge, i) => ({ address: judge, hasVoted: votes[i].hasVoted })),
+        },
+      }
+    },
+    toArgs: (v, disputeId) => [disputeId, v.judgeIndex],
+    validate: (v, state) => {
+      // Mirrors the checks in DisputeManager.replaceTimeoutJudge
+      if (state.context?.status !== 0) return "Dispute is not active"
+      const judge = state.context.judges[Number(v.judgeIndex)]
+      if (!judge) return "Invalid index"
+      if (judge.hasVoted) return "Judge already voted"
+      if (Date.now() / 1000 < state.context.timeoutAt) return "Timeout not reached"
+      return null
+    },
+    effects: (v, state) => {
+      const judge = state.context?.judges[Number(v.judgeIndex)]
+      return judge ? [{ label: `Judge #${v.judgeIndex}`, from: judge.address, to: "Newly selected eligible judge" }] : []
+    },
+  },
+]
@@ -0,0 +1,82 @@
+import { encodeFunctionData, parseAbiItem, type Abi, type AbiFunction, type AbiParameter, type Hex } from "viem"
+import type { AdminDiffRow } from "./actions"
+
+/**
+ * A prepared admin call: where it goes, its calldata and the diff that was reviewed for it
+ */
+export interface AdminCall {
+  id: string // unique within a batch
+  actionId: string
+  title: string
+  to: string
+  signature: string
+  args: readonly unknown[]
+  data: Hex
+  diff: AdminDiffRow[]
+}
+
+/**
+ * Encode an owner call from its human-readable signature
+ */
+export function encodeAdminCall(signature: string, args: readonly unknown[]): Hex {
+  const abiItem = parseAbiItem(signature) as AbiFunction
+  return encodeFunctionData({ abi: [abiItem] as Abi, functionName: abiItem.name, args })
+}
+
+/**
+ * Stringify a call argument the way the Safe Transaction Builder expects it
+ * (integers as decimal strings, tuples as JSON arrays in component order)
+ */
+function toInputValue(value: unknown, input: AbiParameter): string {
+  if (typeof value === "bigint") return value.toString()
+  if (typeof value === "string") return value
+  if (typeof value === "boolean") return value ? "true" : "false"
+
+  const tupleValue =
+    "components" in input && value && typeof value === "object" && !Array.isArray(value)
+      ? input.components.map((component) => (value as Record<string, unknown>)[component.name || ""])
+      : value
+  return JSON.stringify(tupleValue, (_key, v) => (typeof v === "bigint" ? v.toString() : v))
+}
+
+/**
+ * Unsigned batch in the Safe Transaction Builder JSON format, importable into a Safe{Wallet}
+ * for the owners to review and sign
+ * @param safeAddress The Safe that owns the contracts, if known
+ */
+export function toSafeBatch(chainId: number, calls: AdminCall[], safeAddress?: string) {
+  return {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: `Just-a-Bet admin batch (${calls.length} transaction${calls.length === 1 ? "" : "s"})`,
+      description: calls.map((call) => call.title).join(", "),
+      txBuilderVersion: "1.16.5",
+      createdFromSafeAddress: safeAddress || "",
+      createdFromOwnerAddress: "",
+      checksum: "",
+    },
+    transactions: calls.map((call) => {
+      const abiItem = parseAbiItem(call.signature) as AbiFunction
+      return {
+        to: call.to,
+        value: "0",
+        data: call.data,
+        contractMethod: {
+          name: abiItem.name,
+          payable: false,
+          inputs: abiItem.inputs.map((input) => ({
+            name: input.name || "",
+            type: input.type,
+            internalType: input.type,
+            ...("components" in input ? { components: input.components } : {}),
+          })),
+        },
+        contractInputsValues: Object.fromEntries(
+          abiItem.inputs.map((input, i) => [input.name || `arg${i}`, toInputValue(call.args[i], input)])
+        ),
+      }
+    }),
+  }
+}
@@ -0,0 +1,104 @@
+import { formatUnits, isAddress, parseUnits } from "viem"
+
+/**
+ * Form fields of the admin console. Each kind knows how to turn contract values into
+ * form strings and back, so current values, inputs and diffs share one formatting.
+ */
+
+export type AdminFieldKind =
+  | "usdc" // uint256, 6 decimals
+  | "mnt" // uint256, 18 decimals
+  | "uint"
+  | "seconds"
+  | "bps" // uint256 basis points
+  | "bool"
+  | "address"
+  | "text"
+
+export interface AdminField {
+  name: string
+  label: string
+  kind: AdminFieldKind
+  hint?: string
+}
+
+export type AdminFieldValue = bigint | boolean | string
+
+export type AdminValues = Record<string, AdminFieldValue>
+
+const DECIMALS: Partial<Record<AdminFieldKind, number>> = { usdc: 6, mnt: 18 }
+
+/**
+ * Contract value -> form input string
+ */
+export function toInputValue(kind: AdminFieldKind, value: AdminFieldValue | undefined): string {
+  if (value === undefined) return ""
+  if (typeof value === "boolean") return value ? "true" : "false"
+  if (typeof value === "bigint") {
+    const decimals = DECIMALS[kind]
+    return decimals !== undefined ? formatUnits(value, decimals) : value.toString()
+  }
+  return value
+}
+
+/**
+ * Form input string -> contract value. Throws with a field-level message when the input is invalid.
+ */
+export function parseInputValue(field: AdminField, input: string): AdminFieldValue {
+  const value = input.trim()
+
+  switch (field.kind) {
+    case "bool":
+      return value === "true"
+    case "address":
+      if (!isAddress(value)) throw new Error(`${field.label} must be an address`)
+      return value
+    case "text":
+      return value
+    default: {
+      if (value === "") throw new Error(`${field.label} is required`)
+      const decimals = DECIMALS[field.kind]
+      try {
+        const parsed = decimals !== undefined ? parseUnits(value, decimals) : BigInt(value)
+        if (parsed < BigInt(0)) throw new Error()
+        return parsed
+      } catch {
+        throw new Error(`${field.label} must be a non-negative ${decimals !== undefined ? "amount" : "integer"}`)
+      }
+    }
+  }
+}
+
+/**
+ * Human-readable value for readouts and diffs
+ */
+export function formatFieldValue(kind: AdminFieldKind, value: AdminFieldValue | undefined): string {
+  if (value === undefined) return "-"
+
+  switch (kind) {
+    case "usdc":
+      return `${Number(formatUnits(value as bigint, 6)).toLocaleString("en-US", { maximumFractionDigits: 6 })} USDC`
+    case "mnt":
+      return `${formatUnits(value as bigint, 18)} MNT`
+    case "seconds": {
+      const seconds = Number(value)
+      if (seconds > 0 && seconds % 86400 === 0) return `${seconds / 86400}d (${seconds}s)`
+      if (seconds > 0 && seconds % 3600 === 0) return `${seconds / 3600}h (${seconds}s)`
+      return `${seconds}s`
+    }
+    case "bps":
+      return `${(Number(value) / 100).toFixed(2)}% (${value} bps)`
+    case "bool":
+      return value ? "Yes" : "No"
+    default:
+      return value.toString()
+  }
+}
+
+/**
+ * Compare two values of a field, ignoring address checksum casing
+ */
+export function isSameValue(kind: AdminFieldKind, a: AdminFieldValue | undefined, b: AdminFieldValue | undefined) {
+  if (kind === "address" && typeof a === "string" && typeof b === "string") return a.toLowerCase() === b.toLowerCase()
+  return a === b
+}
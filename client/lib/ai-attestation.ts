@@ -0,0 +1,105 @@
+import { privateKeyToAccount } from "viem/accounts"
+import { decodeFunctionData, encodeFunctionData, size, slice, verifyMessage, type Hex } from "viem"
+import { betFactoryAbi } from "./contracts/generated"
+import {
+  decodeAttestationCallData,
+  hashValidatedBet,
+  type AIValidationResult,
+  type AttestedBet,
+  type ValidationAttestation,
+} from "./ai-validation"
+
+// How long a signed validation can be used to create the bet
+const ATTESTATION_TTL_SECONDS = 15 * 60
+
+/**
+ * Get the server attestation signer
+ * AI_ATTESTATION_PRIVATE_KEY must be a server-only env var (never NEXT_PUBLIC_)
+ */
+function getAttestationSigner() {
+  const privateKey = process.env.AI_ATTESTATION_PRIVATE_KEY
+  if (!privateKey) {
+    throw new Error("AI_ATTESTATION_PRIVATE_KEY is not set")
+  }
+  return privateKeyToAccount(privateKey as Hex)
+}
+
+/**
+ * Sign an AI validation result for a specific bet and creator wallet
+ * @param bet The bet as it will be passed to createBet, pool category tag included
+ */
+export async function signValidationResult(bet: AttestedBet, result: AIValidationResult): Promise<ValidationAttestation> {
+  const signer = getAttestationSigner()
+  const issuedAt = Math.floor(Date.now() / 1000)
+  const expiresAt = issuedAt + ATTESTATION_TTL_SECONDS
+
+  const digest = hashValidatedBet(bet, result, issuedAt, expiresAt)
+  const signature = await signer.signMessage({ message: { raw: digest } })
+
+  return {
+    digest,
+    signature,
+    signer: signer.address,
+    issuedAt,
+    expiresAt,
+    tags: bet.tags,
+  }
+}
+
+/**
+ * Verify an attestation was produced by the configured signer for this bet
+ */
+export async function verifyValidationAttestation(
+  bet: AttestedBet,
+  result: Pick<AIValidationResult, "isValid" | "riskScore" | "recommendedPool">,
+  attestation: Pick<ValidationAttestation, "digest" | "signature" | "issuedAt" | "expiresAt">
+): Promise<boolean> {
+  const digest = hashValidatedBet(bet, result, attestation.issuedAt, attestation.expiresAt)
+  if (digest !== attestation.digest) return false
+
+  return verifyMessage({
+    address: getAttestationSigner().address,
+    message: { raw: digest },
+    signature: attestation.signature,
+  })
+}
+
+/**
+ * Attestation calldata appended to a direct BetFactory.createBet call, or null when the
+ * transaction input is something else (e.g. a smart account wrapping the call)
+ */
+export function extractAttestationCallData(input: Hex): Hex | null {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: betFactoryAbi, data: input })
+    if (functionName !== "createBet") return null
+
+    const callSize = size(encodeFunctionData({ abi: betFactoryAbi, functionName, args }))
+    return size(input) > callSize ? slice(input, callSize) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Verify the attestation a bet was created with against the bet's on-chain details
+ * @param bet The deployed bet, as read from the chain
+ * @param callData Attestation calldata taken from the creation transaction
+ * @returns The signed verdict and whether this server signed it for exactly this bet, or null when the calldata isn't an attestation
+ */
+export async function verifyBetAttestation(bet: AttestedBet, callData: Hex) {
+  let decoded: ReturnType<typeof decodeAttestationCallData>
+  try {
+    decoded = decodeAttestationCallData(callData)
+  } catch {
+    return null
+  }
+
+  let verified = false
+  try {
+    verified = await verifyValidationAttestation(bet, decoded.result, decoded)
+  } catch (error) {
+    console.error("Attestation verification error:", error)
+  }
+
+  return { ...decoded, verified }
+}
@@ -0,0 +1,322 @@
+/**
+ * Shared AI validation types and pool configuration.
+ * Safe to import from client components - the LLM calls live in lib/risk-providers (server only).
+ */
+import { z } from "zod"
+import { decodeAbiParameters, encodeAbiParameters, keccak256, parseUnits, toBytes, type Hex } from "viem"
+import type { PriceContext } from "./price-oracle/types"
+
+export interface AIValidationResult {
+  isValid: boolean
+  riskScore: number // 0-100 (higher = SAFER FOR HOUSE, lower = RISKIER FOR HOUSE)
+  recommendedPool: string | null // Pool name that fits this bet, or null if no pool fits
+  confidence: number // 0-100
+  reasoning: string
+  warnings?: string[]
+}
+
+export type AIValidationErrorCode =
+  | "AI_UNAVAILABLE" // provider could not be reached or errored
+  | "AI_INVALID_RESPONSE" // provider answered but never produced a valid result
+  | "RATE_LIMITED"
+  | "BAD_REQUEST"
+
+/**
+ * Raised when a bet could not be assessed at all.
+ * A bet the model assessed and rejected is a normal result with isValid = false.
+ */
+export class AIValidationError extends Error {
+  readonly code: AIValidationErrorCode
+
+  constructor(message: string, code: AIValidationErrorCode) {
+    super(message)
+    this.name = "AIValidationError"
+    this.code = code
+  }
+}
+
+const score = z.number().finite().transform((value) => Math.min(100, Math.max(0, Math.round(value))))
+
+/**
+ * Schema for an AI verdict. recommendedPool must be one of the given pool names.
+ * isValid is forced to false when no pool fits or the score is below the acceptance threshold.
+ */
+export function createAIValidationResultSchema(poolNames: string[]) {
+  return z
+    .object({
+      isValid: z.boolean(),
+      riskScore: score,
+      recommendedPool: z
+        .string()
+        .refine((name) => poolNames.includes(name), {
+          message: `recommendedPool must be one of: ${poolNames.join(", ")}`,
+        })
+        .nullable(),
+      confidence: score,
+      reasoning: z.string().min(1),
+      warnings: z.array(z.string()).default([]),
+    })
+    .transform((result) => ({
+      ...result,
+      isValid: result.isValid && result.recommendedPool !== null && result.riskScore >= 60,
+    }))
+}
+
+/**
+ * Bet content that determines an AI verdict
+ */
+export interface BetContent {
+  description: string
+  outcomeDescription: string
+  duration: number // in seconds
+  stakeAmount: number // in USDC (human readable, e.g., 100.50)
+  tags: string[] // user tags, without the pool category the create flow prepends
+}
+
+/**
+ * Bet parameters submitted for AI validation
+ */
+export interface BetValidationRequest extends BetContent {
+  wallet: string // creator wallet - the attestation is bound to it
+  chainId?: number // chain whose pool catalogue the bet is assessed against
+}
+
+/**
+ * A bet as BetFactory.createBet receives it - what an attestation is signed over
+ */
+export interface AttestedBet extends Omit<BetContent, "tags"> {
+  wallet: string // creator wallet
+  tags: string[] // createBet tags - the pool category key first for house bets
+}
+
+/**
+ * Persisted record of an AI verdict, shown to LPs on the bet details page
+ */
+export interface ValidationAuditRecord {
+  betKey: Hex // hashBetContent - derivable from on-chain bet details
+  contentHash: Hex // hashValidationCacheKey - betKey plus the pool set offered to the model
+  promptVersion: string
+  provider: string
+  model: string
+  isValid: boolean
+  riskScore: number
+  recommendedPool: string | null
+  confidence: number
+  reasoning: string
+  warnings: string[]
+  priceContext?: PriceContext | null // reference price the model was given, if any
+  createdAt: number // unix seconds
+}
+
+/**
+ * Server-signed statement that a bet passed (or failed) AI validation
+ */
+export interface ValidationAttestation {
+  digest: Hex // hashValidatedBet(bet, result, issuedAt, expiresAt)
+  signature: Hex // EIP-191 signature over digest by the attestation signer
+  signer: string
+  issuedAt: number // unix seconds
+  expiresAt: number // unix seconds
+  tags: string[] // createBet tags the digest covers - submit the bet with exactly these
+}
+
+export interface AttestedValidationResult {
+  result: AIValidationResult
+  attestation: ValidationAttestation
+  contentHash: Hex
+  cached: boolean // true when the verdict was reused from the audit log
+  priceContext: PriceContext | null // reference price for crypto price bets
+}
+
+/**
+ * Outcome of checking a deployed house bet's creation transaction for its attestation
+ * (app/api/bets/[address]/attestation)
+ */
+export interface AttestationCheck {
+  status: "verified" | "invalid" | "missing" // missing: no attestation calldata on a direct createBet call
+  transactionHash: string
+  result?: Pick<AIValidationResult, "isValid" | "riskScore" | "recommendedPool">
+  issuedAt?: number
+  expiresAt?: number
+}
+
+export interface PoolOption {
+  id: string
+  name: string
+  category: string
+  description: string
+  minStake: number
+  maxStake: number
+  targetAPY: number
+}
+
+// Fields of an attestation digest, in signing order
+const ATTESTATION_PAYLOAD = [
+  { name: "wallet", type: "address" },
+  { name: "descriptionHash", type: "bytes32" },
+  { name: "outcomeDescriptionHash", type: "bytes32" },
+  { name: "duration", type: "uint256" },
+  { name: "stakeAmount", type: "uint256" },
+  { name: "tagsHash", type: "bytes32" },
+  { name: "isValid", type: "bool" },
+  { name: "riskScore", type: "uint8" },
+  { name: "recommendedPool", type: "string" },
+  { name: "issuedAt", type: "uint256" },
+  { name: "expiresAt", type: "uint256" },
+] as const
+
+const ATTESTATION_CALLDATA = [...ATTESTATION_PAYLOAD, { name: "signature", type: "bytes" }] as const
+
+function getAttestationPayload(
+  bet: AttestedBet,
+  result: Pick<AIValidationResult, "isValid" | "riskScore" | "recommendedPool">,
+  issuedAt: number,
+  expiresAt: number
+) {
+  return [
+    bet.wallet as Hex,
+    keccak256(toBytes(bet.description)),
+    keccak256(toBytes(bet.outcomeDescription)),
+    BigInt(bet.duration),
+    parseUnits(bet.stakeAmount.toFixed(6), 6),
+    keccak256(toBytes(bet.tags.join(","))),
+    result.isValid,
+    Math.round(result.riskScore),
+    result.recommendedPool ?? "",
+    BigInt(issuedAt),
+    BigInt(expiresAt),
+  ] as const
+}
+
+/**
+ * Hash a validated bet together with the AI verdict.
+ * Mirrors what the server signs, so anyone holding the on-chain bet details
+ * plus the attestation calldata can recompute and verify it.
+ */
+export function hashValidatedBet(
+  bet: AttestedBet,
+  result: Pick<AIValidationResult, "isValid" | "riskScore" | "recommendedPool">,
+  issuedAt: number,
+  expiresAt: number
+): Hex {
+  return keccak256(encodeAbiParameters(ATTESTATION_PAYLOAD, getAttestationPayload(bet, result, issuedAt, expiresAt)))
+}
+
+/**
+ * Hash the bet content an AI verdict depends on.
+ * Uses only fields stored on-chain, so the bet details page can look up the audit trail.
+ */
+export function hashBetContent(content: BetContent): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "string" }, { type: "string" }, { type: "uint256" }, { type: "uint256" }, { type: "string[]" }],
+      [
+        content.description,
+        content.outcomeDescription,
+        BigInt(content.duration),
+        parseUnits(content.stakeAmount.toFixed(6), 6),
+        content.tags,
+      ]
+    )
+  )
+}
+
+/**
+ * Cache key for an AI verdict: the bet content plus the pools the model could choose from
+ */
+export function hashValidationCacheKey(content: BetContent, poolNames: string[]): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "bytes32" }, { type: "string[]" }],
+      [hashBetContent(content), [...poolNames].sort()]
+    )
+  )
+}
+
+/**
+ * Encode an attestation so it can be appended to BetFactory.createBet calldata.
+ * The contract ignores trailing calldata, but it is preserved in the transaction for auditing:
+ * it carries the whole signed digest preimage plus the signature.
+ */
+export function encodeAttestationCallData(
+  bet: AttestedBet,
+  result: AIValidationResult,
+  attestation: ValidationAttestation
+): Hex {
+  return encodeAbiParameters(ATTESTATION_CALLDATA, [
+    ...getAttestationPayload(bet, result, attestation.issuedAt, attestation.expiresAt),
+    attestation.signature,
+  ])
+}
+
+/**
+ * Decode attestation calldata appended by encodeAttestationCallData.
+ * `digest` is recomputed from the decoded fields - compare it with hashValidatedBet of the on-chain bet.
+ */
+export function decodeAttestationCallData(data: Hex) {
+  const [
+    wallet,
+    descriptionHash,
+    outcomeDescriptionHash,
+    duration,
+    stakeAmount,
+    tagsHash,
+    isValid,
+    riskScore,
+    recommendedPool,
+    issuedAt,
+    expiresAt,
+    signature,
+  ] = decodeAbiParameters(ATTESTATION_CALLDATA, data)
+
+  return {
+    wallet,
+    result: { isValid, riskScore, recommendedPool: recommendedPool || null },
+    digest: keccak256(
+      encodeAbiParameters(ATTESTATION_PAYLOAD, [
+        wallet,
+        descriptionHash,
+        outcomeDescriptionHash,
+        duration,
+        stakeAmount,
+        tagsHash,
+        isValid,
+        riskScore,
+        recommendedPool,
+        issuedAt,
+        expiresAt,
+      ])
+    ),
+    signature,
+    issuedAt: Number(issuedAt),
+    expiresAt: Number(expiresAt),
+  }
+}
+
+/**
+ * Check whether an attestation can still be submitted with a bet
+ */
+export function isAttestationExpired(attestation: ValidationAttestation): boolean {
+  return attestation.expiresAt <= Math.floor(Date.now() / 1000)
+}
+
+/**
+ * Request a signed AI validation from the server (app/api/validate-bet)
+ */
+export async function requestBetValidation(request: BetValidationRequest): Promise<AttestedValidationResult> {
+  const response = await fetch("/api/validate-bet", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  })
+
+  const data = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    const code: AIValidationErrorCode =
+      data?.code || (response.status === 429 ? "RATE_LIMITED" : response.status === 400 ? "BAD_REQUEST" : "AI_UNAVAILABLE")
+    throw new AIValidationError(data?.error || `AI validation request failed (${response.status})`, code)
+  }
+
+  return data as AttestedValidationResult
+}
@@ -0,0 +1,78 @@
+import { defineChain, type Chain } from "thirdweb"
+import { ADDRESSES } from "./contracts/addresses"
+
+// Mantle mainnet
+export const mantle = defineChain({
+  id: 5000,
+  name: "Mantle",
+  nativeCurrency: {
+    name: "MNT",
+    symbol: "MNT",
+    decimals: 18,
+  },
+  rpc: "https://rpc.mantle.xyz",
+  blockExplorers: [
+    {
+      name: "Mantle Explorer",
+      url: "https://explorer.mantle.xyz",
+    },
+  ],
+})
+
+// Mantle Sepolia testnet
+export const mantleSepolia = defineChain({
+  id: 5003,
+  name: "Mantle Sepolia",
+  nativeCurrency: {
+    name: "MNT",
+    symbol: "MNT",
+    decimals: 18,
+  },
+  rpc: "https://rpc.sepolia.mantle.xyz",
+  blockExplorers: [
+    {
+      name: "Mantle Sepolia Explorer",
+      url: "https://explorer.sepolia.mantle.xyz",
+    },
+  ],
+  testnet: true,
+})
+
+// Local Anvil node (e.g. `anvil --fork-url https://rpc.sepolia.mantle.xyz`)
+export const anvil = defineChain({
+  id: 31337,
+  name: "Anvil (Local)",
+  nativeCurrency: {
+    name: "MNT",
+    symbol: "MNT",
+    decimals: 18,
+  },
+  rpc: process.env.NEXT_PUBLIC_ANVIL_RPC_URL || "http://127.0.0.1:8545",
+  testnet: true,
+})
+
+/**
+ * Chains the app can run against - only those with a configured address book
+ */
+export const SUPPORTED_CHAINS: Chain[] = [mantle, mantleSepolia, anvil].filter((chain) => !!ADDRESSES[chain.id])
+
+export function isSupportedChainId(chainId?: number): chainId is number {
+  return chainId !== undefined && SUPPORTED_CHAINS.some((chain) => chain.id === chainId)
+}
+
+/**
+ * Chain used before a wallet is connected (NEXT_PUBLIC_DEFAULT_CHAIN_ID, falls back to Mantle Sepolia)
+ */
+export const DEFAULT_CHAIN: Chain =
+  SUPPORTED_CHAINS.find((chain) => chain.id === Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID)) || mantleSepolia
+
+/**
+ * Look up a supported chain by id
+ */
+export function getChain(chainId: number): Chain {
+  const chain = SUPPORTED_CHAINS.find((c) => c.id === chainId)
+  if (!chain) {
+    throw new Error(`Unsupported chain: ${chainId}`)
+  }
+  return chain
+}
@@ -1,18 +1,36 @@
-import { defineChain } from "thirdweb";
+export interface ContractAddresses {
+  usdc: string;
+  betFactory: string;
+  cdoPoolFactory: string;
+  usernameRegistry: string;
+  judgeRegistry: string;
+  betRiskValidator: string;
+  disputeManager: string;
+  betYieldVault: string;
+  // Optional - defaults to the canonical Multicall3 deployment (see multicall.ts)
+  multicall3?: string;
+}
 
-export const MANTLE_SEPOLIA_CHAIN = defineChain({
-  id: 5003,
-  name: "Mantle Sepolia",
-  nativeCurrency: {
-    name: "Mantle",
-    symbol: "MNT",
-    decimals: 18,
-  },
-  rpc: "https://rpc.sepolia.mantle.xyz",
-  testnet: true,
-});
+/**
+ * Parse an address book supplied as JSON through the environment
+ * (same keys as ContractAddresses), e.g. after a local `forge script` deployment.
+ */
+function parseAddressBook(json: string | undefined, label: string): ContractAddresses | undefined {
+  if (!json) return undefined;
+
+  try {
+    return JSON.parse(json) as ContractAddresses;
+  } catch (error) {
+    console.error(`Invalid ${label} address book:`, error);
+    return undefined;
+  }
+}
 
-export const ADDRESSES = {
+export const ADDRESSES: Record<number, ContractAddresses | undefined> = {
+  // Mantle mainnet - set NEXT_PUBLIC_MANTLE_ADDRESSES once deployed
+  5000: parseAddressBook(process.env.NEXT_PUBLIC_MANTLE_ADDRESSES, "NEXT_PUBLIC_MANTLE_ADDRESSES"),
+
+  // Mantle Sepolia
   5003: {
     // Core Contracts
     usdc: "0xA1103E6490ab174036392EbF5c798C9DaBAb24EE", // Matches deployed-addresses.m (renamed from mockUSDC to usdc to match hooks)
@@ -26,43 +44,18 @@ export const ADDRESSES = {
     disputeManager: "0x3335BaEEDdD1Cc77B8Ab9acBF862764812337a3F",
     betYieldVault: "0x12ccF0F4A22454d53aBdA56a796a08e93E947256",
 
-    // Pools & CDO Tokens (Matches deployed-addresses.m)
-    pools: {
-      sports: {
-        address: "0x2b2E21596A22f6Ab273E41F4BB28Dcc1D0be6D85",
-        cdoToken: "0xDb02a4d36c750FE94986ac4E9B736EA31ac9B32e",
-        name: "Sports Pool - NBA",
-        category: "Sports",
-        poolId: 0,
-      },
-      crypto: {
-        address: "0xd0B0aF8488D7000c6658a0E7A50566dAa6B6E631",
-        cdoToken: "0xEb3aE9248B253e4dEbfd2A1A822cCB129D618bF5",
-        name: "Crypto Pool - BTC",
-        category: "Crypto",
-        poolId: 1,
-      },
-      politics: {
-        address: "0xb8886E5638d17Fe6161976FD4Ca27d2DaAC9029f",
-        cdoToken: "0xA8586243CBf327B4c8Fd061B2a1F2B0CCD495297",
-        name: "Politics Pool",
-        category: "Politics",
-        poolId: 2,
-      },
-      general: {
-        address: "0x2b2E21596A22f6Ab273E41F4BB28Dcc1D0be6D85",
-        cdoToken: "0xDb02a4d36c750FE94986ac4E9B736EA31ac9B32e", // Matches Pool 0 (Sports) as routing dictates
-        name: "General Pool",
-        category: "General",
-        poolId: 3,
-      },
-    },
+    // Pools are enumerated from cdoPoolFactory at runtime (see pool-registry.ts)
   },
-} as const;
 
-export const ACTIVE_CHAIN = MANTLE_SEPOLIA_CHAIN;
-export const ACTIVE_CHAIN_ID = 5003;
+  // Local Anvil - set NEXT_PUBLIC_ANVIL_ADDRESSES to your local deployment
+  // (a fork of Mantle Sepolia can reuse the Sepolia addresses above)
+  31337: parseAddressBook(process.env.NEXT_PUBLIC_ANVIL_ADDRESSES, "NEXT_PUBLIC_ANVIL_ADDRESSES"),
+};
 
-export const getContractAddresses = (chainId: number = ACTIVE_CHAIN_ID) => {
-  return ADDRESSES[chainId as keyof typeof ADDRESSES];
+export const getContractAddresses = (chainId: number): ContractAddresses => {
+  const addresses = ADDRESSES[chainId];
+  if (!addresses) {
+    throw new Error(`No contract addresses configured for chain ${chainId}`);
+  }
+  return addresses;
 };
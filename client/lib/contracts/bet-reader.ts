@@ -0,0 +1,142 @@
+import type { Chain } from "thirdweb"
+import { encodeFunctionData } from "viem"
+import { Bet, betAbi } from "./generated"
+import { aggregate3 } from "./multicall"
+import type { ReadResult } from "./typed"
+
+// Bets per aggregate3 call (4 reads each)
+const MAX_BETS_PER_MULTICALL = 100
+
+const BET_READS = ["getBetDetails", "creatorFunded", "opponentFunded", "resolution"] as const
+
+type BetRead = (typeof BET_READS)[number]
+
+type BetReads = { [TName in BetRead]: ReadResult<typeof betAbi, TName> }
+
+// None of the reads take arguments, so their calldata is the same for every bet
+const BET_READ_CALLDATA = BET_READS.map((functionName) => encodeFunctionData({ abi: betAbi, functionName }))
+
+/**
+ * Everything the bet pages read from a Bet clone, in UI-ready form.
+ * This is the value cached under ["bet", address, chainId].
+ */
+export interface BetDetails {
+  address: string
+  creator: string
+  opponent: string
+  stakeAmount: bigint
+  description: string
+  outcomeDescription: string
+  createdAt: bigint
+  expiresAt: bigint
+  state: number // 0=Created, 1=Active, 2=AwaitingResolution, 3=InDispute, 4=Resolved, 5=Cancelled
+  outcome: number // 0=Pending, 1=CreatorWins, 2=OpponentWins, 3=Draw
+  creatorFunded: boolean
+  opponentFunded: boolean
+  tags: string[]
+  resolution: {
+    disputeWindowDuration: number
+    declaredWinner: string
+    declaredAt: number
+    disputeDeadline: number
+  }
+}
+
+function toBetDetails(address: string, results: BetReads): BetDetails {
+  const details = results.getBetDetails
+  const resolution = results.resolution
+
+  return {
+    address,
+    creator: details.creator,
+    opponent: details.opponent,
+    stakeAmount: details.stakeAmount,
+    description: details.description,
+    outcomeDescription: details.outcomeDescription,
+    createdAt: details.createdAt,
+    expiresAt: details.expiresAt,
+    state: details.state,
+    outcome: details.outcome,
+    creatorFunded: results.creatorFunded,
+    opponentFunded: results.opponentFunded,
+    tags: [...details.tags],
+    resolution: {
+      disputeWindowDuration: Number(resolution.disputeWindowDuration),
+      declaredWinner: resolution.declaredWinner,
+      declaredAt: Number(resolution.declaredAt),
+      disputeDeadline: Number(resolution.disputeDeadline),
+    },
+  }
+}
+
+/**
+ * Read a group of bets through a single Multicall3.aggregate3 call.
+ * Bets whose reads revert come back as null.
+ */
+async function readViaMulticall(chain: Chain, addresses: string[]): Promise<(BetDetails | null)[]> {
+  const results = await aggregate3(
+    chain,
+    addresses.flatMap((address) => BET_READ_CALLDATA.map((callData) => ({ target: address, callData })))
+  )
+
+  return addresses.map((address, i) => {
+    const betResults = results.slice(i * BET_READS.length, (i + 1) * BET_READS.length)
+    if (betResults.some((result) => !result.success)) {
+      console.error(`Error fetching bet ${address}: multicall read reverted`)
+      return null
+    }
+
+    const [getBetDetails, creatorFunded, opponentFunded, resolution] = betResults.map((result) => result.returnData)
+    return toBetDetails(address, {
+      getBetDetails: Bet.decode("getBetDetails", getBetDetails),
+      creatorFunded: Bet.decode("creatorFunded", creatorFunded),
+      opponentFunded: Bet.decode("opponentFunded", opponentFunded),
+      resolution: Bet.decode("resolution", resolution),
+    })
+  })
+}
+
+/**
+ * Read one bet with individual eth_calls (used when Multicall3 is unavailable)
+ */
+async function readDirect(chain: Chain, address: string): Promise<BetDetails | null> {
+  try {
+    const bet = Bet.at(chain, address)
+    const [getBetDetails, creatorFunded, opponentFunded, resolution] = await Promise.all([
+      Bet.read(bet, "getBetDetails", []),
+      Bet.read(bet, "creatorFunded", []),
+      Bet.read(bet, "opponentFunded", []),
+      Bet.read(bet, "resolution", []),
+    ])
+    return toBetDetails(address, { getBetDetails, creatorFunded, opponentFunded, resolution })
+  } catch (error) {
+    console.error(`Error fetching bet ${address}:`, error)
+    return null
+  }
+}
+
+/**
+ * Read details, funding and resolution for many bets in one RPC round trip per
+ * MAX_BETS_PER_MULTICALL bets. Unreadable bets are dropped; input order is kept.
+ */
+export async function readBetDetailsBatch(chain: Chain, addresses: string[]): Promise<BetDetails[]> {
+  if (addresses.length === 0) return []
+
+  const groups: string[][] = []
+  for (let i = 0; i < addresses.length; i += MAX_BETS_PER_MULTICALL) {
+    groups.push(addresses.slice(i, i + MAX_BETS_PER_MULTICALL))
+  }
+
+  const results = await Promise.all(
+    groups.map(async (group) => {
+      try {
+        return await readViaMulticall(chain, group)
+      } catch (error) {
+        console.error("Multicall failed, falling back to individual reads:", error)
+        return Promise.all(group.map((address) => readDirect(chain, address)))
+      }
+    })
+  )
+
+  return results.flat().filter((bet): bet is BetDetails => bet !== null)
+}
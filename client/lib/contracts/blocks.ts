@@ -0,0 +1,24 @@
+import type { Chain } from "thirdweb"
+import { eth_blockNumber, eth_getBlockByNumber, getRpcClient } from "thirdweb/rpc"
+import { client } from "@/lib/thirdweb"
+
+/**
+ * First block mined at or after `timestamp` (unix seconds), found by binary search over block
+ * timestamps. Used to bound log queries when no indexer is configured.
+ */
+export async function findBlockAtTimestamp(chain: Chain, timestamp: number): Promise<bigint> {
+  const rpcRequest = getRpcClient({ client, chain })
+  const target = BigInt(timestamp)
+
+  let low = BigInt(0)
+  let high = await eth_blockNumber(rpcRequest)
+
+  while (low < high) {
+    const middle = (low + high) / BigInt(2)
+    const block = await eth_getBlockByNumber(rpcRequest, { blockNumber: middle })
+    if (block.timestamp < target) low = middle + BigInt(1)
+    else high = middle
+  }
+
+  return low
+}
@@ -1,967 +1,969 @@
-[
+// Generated by scripts/generate-contracts.mjs from the Foundry artifacts - do not edit
+
+export const betFactoryAbi = [
   {
-    "type": "constructor",
     "inputs": [
       {
+        "internalType": "address",
         "name": "_usdc",
-        "type": "address",
-        "internalType": "address"
+        "type": "address"
       },
       {
+        "internalType": "address",
         "name": "_usernameRegistry",
-        "type": "address",
-        "internalType": "address"
+        "type": "address"
       }
     ],
-    "stateMutability": "nonpayable"
+    "stateMutability": "nonpayable",
+    "type": "constructor"
   },
   {
-    "type": "function",
-    "name": "HOUSE_ADDRESS",
     "inputs": [],
-    "outputs": [
+    "name": "CDOPoolNotSet",
+    "type": "error"
+  },
+  {
+    "inputs": [
       {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "string",
+        "name": "reason",
+        "type": "string"
       }
     ],
-    "stateMutability": "view"
+    "name": "HouseBetRejectedByRiskValidator",
+    "type": "error"
   },
   {
-    "type": "function",
-    "name": "HOUSE_IDENTIFIER",
     "inputs": [],
-    "outputs": [
-      {
-        "name": "",
-        "type": "string",
-        "internalType": "string"
-      }
-    ],
-    "stateMutability": "view"
+    "name": "InsufficientPoolLiquidity",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidDuration",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidOpponent",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidStakeAmount",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NoPoolForCategory",
+    "type": "error"
   },
   {
-    "type": "function",
-    "name": "allBets",
     "inputs": [
       {
-        "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
       }
     ],
-    "outputs": [
+    "name": "OwnableInvalidOwner",
+    "type": "error"
+  },
+  {
+    "inputs": [
       {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "name": "OwnableUnauthorizedAccount",
+    "type": "error"
   },
   {
-    "type": "function",
-    "name": "betImplementation",
     "inputs": [],
-    "outputs": [
+    "name": "PoolFactoryNotSet",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "ProtocolIsPaused",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "ReentrancyGuardReentrantCall",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "RiskValidatorNotSet",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "YieldVaultNotSet",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
       {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
+        "indexed": true,
+        "internalType": "address",
+        "name": "betContract",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "creator",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "opponent",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "stakeAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "duration",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "description",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view"
+    "name": "BetCreated",
+    "type": "event"
   },
   {
-    "type": "function",
-    "name": "betToPool",
+    "anonymous": false,
     "inputs": [
       {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
-      }
-    ],
-    "outputs": [
+        "indexed": false,
+        "internalType": "address",
+        "name": "oldPool",
+        "type": "address"
+      },
       {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
+        "indexed": false,
+        "internalType": "address",
+        "name": "newPool",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view"
+    "name": "CDOPoolUpdated",
+    "type": "event"
   },
   {
-    "type": "function",
-    "name": "cdoPool",
-    "inputs": [],
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
-        "name": "",
-        "type": "address",
-        "internalType": "contract CDOPool"
+        "indexed": false,
+        "internalType": "string",
+        "name": "parameter",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "newValue",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view"
+    "name": "ConfigUpdated",
+    "type": "event"
   },
   {
-    "type": "function",
-    "name": "config",
-    "inputs": [],
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
-        "name": "minStakeAmount",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": true,
+        "internalType": "address",
+        "name": "betContract",
+        "type": "address"
       },
       {
-        "name": "maxStakeAmount",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": true,
+        "internalType": "address",
+        "name": "creator",
+        "type": "address"
       },
       {
-        "name": "minDuration",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "stakeAmount",
+        "type": "uint256"
       },
       {
-        "name": "maxDuration",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "duration",
+        "type": "uint256"
       },
       {
-        "name": "maxBetsPerUser",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": false,
+        "internalType": "string",
+        "name": "description",
+        "type": "string"
       },
       {
-        "name": "maxTotalBets",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "betId",
+        "type": "bytes32"
       },
       {
-        "name": "paused",
-        "type": "bool",
-        "internalType": "bool"
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view"
+    "name": "HouseBetCreated",
+    "type": "event"
   },
   {
-    "type": "function",
-    "name": "createBet",
+    "anonymous": false,
     "inputs": [
       {
-        "name": "opponentIdentifier",
-        "type": "string",
-        "internalType": "string"
+        "indexed": true,
+        "internalType": "address",
+        "name": "betContract",
+        "type": "address"
       },
       {
-        "name": "stakeAmount",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "poolAmount",
+        "type": "uint256"
       },
       {
-        "name": "description",
-        "type": "string",
-        "internalType": "string"
-      },
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "HouseBetMatched",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
       {
-        "name": "outcomeDescription",
-        "type": "string",
-        "internalType": "string"
+        "indexed": true,
+        "internalType": "address",
+        "name": "betContract",
+        "type": "address"
       },
       {
-        "name": "duration",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": false,
+        "internalType": "string",
+        "name": "reason",
+        "type": "string"
       },
       {
-        "name": "tags",
-        "type": "string[]",
-        "internalType": "string[]"
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
       }
     ],
-    "outputs": [
+    "name": "HouseBetRejected",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
       {
-        "name": "betContract",
-        "type": "address",
-        "internalType": "address"
+        "indexed": true,
+        "internalType": "address",
+        "name": "previousOwner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
       }
     ],
-    "stateMutability": "nonpayable"
+    "name": "OwnershipTransferred",
+    "type": "event"
   },
   {
-    "type": "function",
-    "name": "defaultPoolId",
-    "inputs": [],
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
-        "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
+        "indexed": false,
+        "internalType": "bool",
+        "name": "paused",
+        "type": "bool"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view"
+    "name": "ProtocolPaused",
+    "type": "event"
   },
   {
-    "type": "function",
-    "name": "getAllBets",
-    "inputs": [],
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
-        "name": "",
-        "type": "address[]",
-        "internalType": "address[]"
+        "indexed": false,
+        "internalType": "address",
+        "name": "oldValidator",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "newValidator",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view"
+    "name": "RiskValidatorUpdated",
+    "type": "event"
   },
   {
-    "type": "function",
-    "name": "getBetsForUser",
+    "anonymous": false,
     "inputs": [
       {
-        "name": "user",
-        "type": "address",
-        "internalType": "address"
-      }
-    ],
-    "outputs": [
+        "indexed": false,
+        "internalType": "address",
+        "name": "oldVault",
+        "type": "address"
+      },
       {
-        "name": "",
-        "type": "address[]",
-        "internalType": "address[]"
+        "indexed": false,
+        "internalType": "address",
+        "name": "newVault",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view"
+    "name": "YieldVaultUpdated",
+    "type": "event"
   },
   {
-    "type": "function",
-    "name": "getHouseBets",
     "inputs": [],
+    "name": "HOUSE_ADDRESS",
     "outputs": [
       {
+        "internalType": "address",
         "name": "",
-        "type": "address[]",
-        "internalType": "address[]"
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "getHouseBetsCount",
     "inputs": [],
+    "name": "HOUSE_IDENTIFIER",
     "outputs": [
       {
+        "internalType": "string",
         "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
+        "type": "string"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "getMatchedPool",
     "inputs": [
       {
-        "name": "betContract",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
       }
     ],
+    "name": "allBets",
     "outputs": [
       {
-        "name": "poolAddress",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "address",
+        "name": "",
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "getTotalBets",
     "inputs": [],
+    "name": "betImplementation",
     "outputs": [
       {
+        "internalType": "address",
         "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "houseBets",
     "inputs": [
       {
+        "internalType": "address",
         "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
+        "type": "address"
       }
     ],
+    "name": "betToPool",
     "outputs": [
       {
+        "internalType": "address",
         "name": "",
-        "type": "address",
-        "internalType": "address"
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "isHouseBet",
-    "inputs": [
-      {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
-      }
-    ],
+    "inputs": [],
+    "name": "cdoPool",
     "outputs": [
       {
+        "internalType": "contract CDOPool",
         "name": "",
-        "type": "bool",
-        "internalType": "bool"
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "config",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "minStakeAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "maxStakeAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "minDuration",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "maxDuration",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "maxBetsPerUser",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "maxTotalBets",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bool",
+        "name": "paused",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "isHouseMatch",
     "inputs": [
       {
-        "name": "betContract",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "string",
+        "name": "opponentIdentifier",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "stakeAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string",
+        "name": "description",
+        "type": "string"
+      },
+      {
+        "internalType": "string",
+        "name": "outcomeDescription",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "duration",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string[]",
+        "name": "tags",
+        "type": "string[]"
       }
     ],
+    "name": "createBet",
     "outputs": [
       {
-        "name": "",
-        "type": "bool",
-        "internalType": "bool"
+        "internalType": "address",
+        "name": "betContract",
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "owner",
     "inputs": [],
+    "name": "defaultPoolId",
     "outputs": [
       {
+        "internalType": "uint256",
         "name": "",
-        "type": "address",
-        "internalType": "address"
+        "type": "uint256"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "poolFactory",
     "inputs": [],
+    "name": "getAllBets",
     "outputs": [
       {
+        "internalType": "address[]",
         "name": "",
-        "type": "address",
-        "internalType": "contract CDOPoolFactory"
+        "type": "address[]"
       }
     ],
-    "stateMutability": "view"
-  },
-  {
-    "type": "function",
-    "name": "renounceOwnership",
-    "inputs": [],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "riskValidator",
-    "inputs": [],
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      }
+    ],
+    "name": "getBetsForUser",
     "outputs": [
       {
+        "internalType": "address[]",
         "name": "",
-        "type": "address",
-        "internalType": "contract BetRiskValidator"
+        "type": "address[]"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "setCDOPool",
-    "inputs": [
+    "inputs": [],
+    "name": "getHouseBets",
+    "outputs": [
       {
-        "name": "_cdoPool",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "address[]",
+        "name": "",
+        "type": "address[]"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "setCDOPoolFactory",
-    "inputs": [
+    "inputs": [],
+    "name": "getHouseBetsCount",
+    "outputs": [
       {
-        "name": "_poolFactory",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "setDefaultPool",
     "inputs": [
       {
-        "name": "_defaultPoolId",
-        "type": "uint256",
-        "internalType": "uint256"
+        "internalType": "address",
+        "name": "betContract",
+        "type": "address"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
-  },
-  {
-    "type": "function",
-    "name": "setPaused",
-    "inputs": [
+    "name": "getMatchedPool",
+    "outputs": [
       {
-        "name": "_paused",
-        "type": "bool",
-        "internalType": "bool"
+        "internalType": "address",
+        "name": "poolAddress",
+        "type": "address"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "setRiskValidator",
-    "inputs": [
+    "inputs": [],
+    "name": "getTotalBets",
+    "outputs": [
       {
-        "name": "_riskValidator",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "setYieldVault",
     "inputs": [
       {
-        "name": "_yieldVault",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
-  },
-  {
-    "type": "function",
-    "name": "transferOwnership",
-    "inputs": [
+    "name": "houseBets",
+    "outputs": [
       {
-        "name": "newOwner",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "address",
+        "name": "",
+        "type": "address"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "updateConfig",
     "inputs": [
       {
-        "name": "_minStakeAmount",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
-      {
-        "name": "_maxStakeAmount",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
-      {
-        "name": "_minDuration",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
-      {
-        "name": "_maxDuration",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
-      {
-        "name": "_maxBetsPerUser",
-        "type": "uint256",
-        "internalType": "uint256"
-      },
-      {
-        "name": "_maxTotalBets",
-        "type": "uint256",
-        "internalType": "uint256"
+        "internalType": "address",
+        "name": "",
+        "type": "address"
       }
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
-  },
-  {
-    "type": "function",
-    "name": "usdc",
-    "inputs": [],
+    "name": "isHouseBet",
     "outputs": [
       {
+        "internalType": "bool",
         "name": "",
-        "type": "address",
-        "internalType": "address"
+        "type": "bool"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "userBets",
     "inputs": [
       {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
-      },
-      {
-        "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
+        "internalType": "address",
+        "name": "betContract",
+        "type": "address"
       }
     ],
+    "name": "isHouseMatch",
     "outputs": [
       {
+        "internalType": "bool",
         "name": "",
-        "type": "address",
-        "internalType": "address"
+        "type": "bool"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "usernameRegistry",
     "inputs": [],
+    "name": "owner",
     "outputs": [
       {
+        "internalType": "address",
         "name": "",
-        "type": "address",
-        "internalType": "contract UsernameRegistry"
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "function",
-    "name": "yieldVault",
     "inputs": [],
+    "name": "poolFactory",
     "outputs": [
       {
+        "internalType": "contract CDOPoolFactory",
         "name": "",
-        "type": "address",
-        "internalType": "address"
+        "type": "address"
       }
     ],
-    "stateMutability": "view"
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "BetCreated",
-    "inputs": [
-      {
-        "name": "betContract",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
-      },
-      {
-        "name": "creator",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
-      },
-      {
-        "name": "opponent",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
-      },
-      {
-        "name": "stakeAmount",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      },
-      {
-        "name": "duration",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      },
-      {
-        "name": "description",
-        "type": "string",
-        "indexed": false,
-        "internalType": "string"
-      },
+    "inputs": [],
+    "name": "renounceOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "riskValidator",
+    "outputs": [
       {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        "internalType": "contract BetRiskValidator",
+        "name": "",
+        "type": "address"
       }
     ],
-    "anonymous": false
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "CDOPoolUpdated",
     "inputs": [
       {
-        "name": "oldPool",
-        "type": "address",
-        "indexed": false,
-        "internalType": "address"
-      },
-      {
-        "name": "newPool",
-        "type": "address",
-        "indexed": false,
-        "internalType": "address"
-      },
-      {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        "internalType": "address",
+        "name": "_cdoPool",
+        "type": "address"
       }
     ],
-    "anonymous": false
+    "name": "setCDOPool",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "ConfigUpdated",
     "inputs": [
       {
-        "name": "parameter",
-        "type": "string",
-        "indexed": false,
-        "internalType": "string"
-      },
-      {
-        "name": "newValue",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      },
-      {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        "internalType": "address",
+        "name": "_poolFactory",
+        "type": "address"
       }
     ],
-    "anonymous": false
+    "name": "setCDOPoolFactory",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "HouseBetCreated",
     "inputs": [
       {
-        "name": "betContract",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
-      },
-      {
-        "name": "creator",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
-      },
-      {
-        "name": "stakeAmount",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      },
-      {
-        "name": "duration",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      },
-      {
-        "name": "description",
-        "type": "string",
-        "indexed": false,
-        "internalType": "string"
-      },
-      {
-        "name": "betId",
-        "type": "bytes32",
-        "indexed": true,
-        "internalType": "bytes32"
-      },
-      {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        "internalType": "uint256",
+        "name": "_defaultPoolId",
+        "type": "uint256"
       }
     ],
-    "anonymous": false
+    "name": "setDefaultPool",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "HouseBetMatched",
     "inputs": [
       {
-        "name": "betContract",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
-      },
-      {
-        "name": "poolAmount",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      },
-      {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        "internalType": "bool",
+        "name": "_paused",
+        "type": "bool"
       }
     ],
-    "anonymous": false
+    "name": "setPaused",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "HouseBetRejected",
     "inputs": [
       {
-        "name": "betContract",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
-      },
-      {
-        "name": "reason",
-        "type": "string",
-        "indexed": false,
-        "internalType": "string"
-      },
-      {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        "internalType": "address",
+        "name": "_riskValidator",
+        "type": "address"
       }
     ],
-    "anonymous": false
+    "name": "setRiskValidator",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "OwnershipTransferred",
     "inputs": [
       {
-        "name": "previousOwner",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
-      },
-      {
-        "name": "newOwner",
-        "type": "address",
-        "indexed": true,
-        "internalType": "address"
+        "internalType": "address",
+        "name": "_yieldVault",
+        "type": "address"
       }
     ],
-    "anonymous": false
+    "name": "setYieldVault",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "ProtocolPaused",
     "inputs": [
       {
-        "name": "paused",
-        "type": "bool",
-        "indexed": false,
-        "internalType": "bool"
-      },
-      {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
       }
     ],
-    "anonymous": false
+    "name": "transferOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "event",
-    "name": "RiskValidatorUpdated",
     "inputs": [
       {
-        "name": "oldValidator",
-        "type": "address",
-        "indexed": false,
-        "internalType": "address"
+        "internalType": "uint256",
+        "name": "_minStakeAmount",
+        "type": "uint256"
       },
       {
-        "name": "newValidator",
-        "type": "address",
-        "indexed": false,
-        "internalType": "address"
+        "internalType": "uint256",
+        "name": "_maxStakeAmount",
+        "type": "uint256"
       },
       {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      }
-    ],
-    "anonymous": false
-  },
-  {
-    "type": "event",
-    "name": "YieldVaultUpdated",
-    "inputs": [
+        "internalType": "uint256",
+        "name": "_minDuration",
+        "type": "uint256"
+      },
       {
-        "name": "oldVault",
-        "type": "address",
-        "indexed": false,
-        "internalType": "address"
+        "internalType": "uint256",
+        "name": "_maxDuration",
+        "type": "uint256"
       },
       {
-        "name": "newVault",
-        "type": "address",
-        "indexed": false,
-        "internalType": "address"
+        "internalType": "uint256",
+        "name": "_maxBetsPerUser",
+        "type": "uint256"
       },
       {
-        "name": "timestamp",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        "internalType": "uint256",
+        "name": "_maxTotalBets",
+        "type": "uint256"
       }
     ],
-    "anonymous": false
-  },
-  {
-    "type": "error",
-    "name": "CDOPoolNotSet",
-    "inputs": []
+    "name": "updateConfig",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
   },
   {
-    "type": "error",
-    "name": "HouseBetRejectedByRiskValidator",
-    "inputs": [
+    "inputs": [],
+    "name": "usdc",
+    "outputs": [
       {
-        "name": "reason",
-        "type": "string",
-        "internalType": "string"
+        "internalType": "address",
+        "name": "",
+        "type": "address"
       }
-    ]
-  },
-  {
-    "type": "error",
-    "name": "InsufficientPoolLiquidity",
-    "inputs": []
-  },
-  {
-    "type": "error",
-    "name": "InvalidDuration",
-    "inputs": []
-  },
-  {
-    "type": "error",
-    "name": "InvalidOpponent",
-    "inputs": []
-  },
-  {
-    "type": "error",
-    "name": "InvalidStakeAmount",
-    "inputs": []
-  },
-  {
-    "type": "error",
-    "name": "NoPoolForCategory",
-    "inputs": []
+    ],
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "error",
-    "name": "OwnableInvalidOwner",
     "inputs": [
       {
-        "name": "owner",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
       }
-    ]
-  },
-  {
-    "type": "error",
-    "name": "OwnableUnauthorizedAccount",
-    "inputs": [
+    ],
+    "name": "userBets",
+    "outputs": [
       {
-        "name": "account",
-        "type": "address",
-        "internalType": "address"
+        "internalType": "address",
+        "name": "",
+        "type": "address"
       }
-    ]
-  },
-  {
-    "type": "error",
-    "name": "PoolFactoryNotSet",
-    "inputs": []
-  },
-  {
-    "type": "error",
-    "name": "ProtocolIsPaused",
-    "inputs": []
-  },
-  {
-    "type": "error",
-    "name": "ReentrancyGuardReentrantCall",
-    "inputs": []
+    ],
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "error",
-    "name": "RiskValidatorNotSet",
-    "inputs": []
+    "inputs": [],
+    "name": "usernameRegistry",
+    "outputs": [
+      {
+        "internalType": "contract UsernameRegistry",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
   },
   {
-    "type": "error",
-    "name": "YieldVaultNotSet",
-    "inputs": []
+    "inputs": [],
+    "name": "yieldVault",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
   }
-]
+] as const
@@ -0,0 +1,24 @@
+// Generated by scripts/generate-contracts.mjs from the Foundry artifacts - do not edit
+
+import { defineContract } from "../typed"
+import { betAbi } from "./Bet"
+import { betFactoryAbi } from "./BetFactory"
+import { cdoPoolAbi } from "./CDOPool"
+import { judgeRegistryAbi } from "./JudgeRegistry"
+import { disputeManagerAbi } from "./DisputeManager"
+import { betYieldVaultAbi } from "./BetYieldVault"
+import { betRiskValidatorAbi } from "./BetRiskValidator"
+import { usernameRegistryAbi } from "./UsernameRegistry"
+import { erc20Abi } from "./ERC20"
+
+export { betAbi, betFactoryAbi, cdoPoolAbi, judgeRegistryAbi, disputeManagerAbi, betYieldVaultAbi, betRiskValidatorAbi, usernameRegistryAbi, erc20Abi }
+
+export const Bet = defineContract(betAbi)
+export const BetFactory = defineContract(betFactoryAbi)
+export const CDOPool = defineContract(cdoPoolAbi)
+export const JudgeRegistry = defineContract(judgeRegistryAbi)
+export const DisputeManager = defineContract(disputeManagerAbi)
+export const BetYieldVault = defineContract(betYieldVaultAbi)
+export const BetRiskValidator = defineContract(betRiskValidatorAbi)
+export const UsernameRegistry = defineContract(usernameRegistryAbi)
+export const ERC20 = defineContract(erc20Abi)
@@ -0,0 +1,71 @@
+import { getContract, readContract, type Chain } from "thirdweb"
+import { parseAbi, type Hex } from "viem"
+import { client } from "@/lib/thirdweb"
+import { ADDRESSES } from "./addresses"
+
+// Canonical Multicall3 - same address on Mantle, Mantle Sepolia and forks of either
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11"
+
+// Calls per aggregate3 request in readMany
+const MAX_CALLS_PER_MULTICALL = 200
+
+const MULTICALL3_ABI = parseAbi([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) view returns ((bool success, bytes returnData)[] returnData)",
+])
+
+/**
+ * Multicall3 address for a chain - the address book can point at a locally deployed copy
+ */
+export function getMulticallAddress(chainId: number): string {
+  return ADDRESSES[chainId]?.multicall3 || MULTICALL3_ADDRESS
+}
+
+/**
+ * Run encoded view calls in one Multicall3.aggregate3 eth_call. Each call may revert on its own;
+ * the whole request throws when Multicall3 itself is unavailable.
+ */
+export async function aggregate3(
+  chain: Chain,
+  calls: { target: string; callData: Hex }[]
+): Promise<readonly { success: boolean; returnData: Hex }[]> {
+  const multicall = getContract({ client, chain, address: getMulticallAddress(chain.id), abi: MULTICALL3_ABI })
+  return readContract({
+    contract: multicall,
+    method: "aggregate3",
+    params: [calls.map((call) => ({ target: call.target, allowFailure: true, callData: call.callData }))],
+  })
+}
+
+/**
+ * One view call, encoded for Multicall3 and callable directly as a fallback
+ */
+export interface BatchedRead<T> {
+  target: string
+  callData: Hex
+  decode: (data: Hex) => T
+  read: () => Promise<T>
+}
+
+/**
+ * Run read-only calls through Multicall3, falling back to individual eth_calls when it is unavailable.
+ * Reverted calls come back as null.
+ */
+export async function readMany<T>(chain: Chain, calls: BatchedRead<T>[]): Promise<(T | null)[]> {
+  const results: (T | null)[] = []
+
+  for (let i = 0; i < calls.length; i += MAX_CALLS_PER_MULTICALL) {
+    const group = calls.slice(i, i + MAX_CALLS_PER_MULTICALL)
+
+    try {
+      const returnData = await aggregate3(chain, group)
+      returnData.forEach((result, j) => {
+        results.push(result.success ? group[j].decode(result.returnData) : null)
+      })
+    } catch (error) {
+      console.error("Multicall failed, falling back to individual reads:", error)
+      results.push(...(await Promise.all(group.map((call) => call.read().catch(() => null)))))
+    }
+  }
+
+  return results
+}
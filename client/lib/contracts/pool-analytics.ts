@@ -0,0 +1,400 @@
+import { getContractEvents, type Chain } from "thirdweb"
+import type { AbiParameter, AbiParameterToPrimitiveType } from "viem"
+import { fetchIndexer, getIndexerUrl, type IndexedEvent } from "../indexer/client"
+import { deriveCategoryFromTags } from "../utils/bet-helpers"
+import { readBetDetailsBatch } from "./bet-reader"
+import { CDOPool, cdoPoolAbi } from "./generated"
+
+/**
+ * Pool analytics rebuilt from CDOPool's event log, following the stats() accounting in CDOPool
+ * (deposit, withdraw, matchBet, settleBet). Amounts in the series are USDC (not raw units), rates in
+ * basis points, times in unix seconds.
+ *
+ * The log does not pin down poolBalance exactly: settleBet subtracts matchedAmount - finalAmount on a
+ * loss, and BetSettled carries the matched amount and profit but not finalAmount. A lost bet is counted
+ * as losing its whole matched amount, which is what Bet pays the winner, and a bet settled as won
+ * without profit (finalAmount <= matchedAmount) as returning its stake. Where a settlement returned
+ * part of the stake, TVL can drift from the live stats() read.
+ *
+ * YieldUpdated is declared by CDOPool but not emitted by the current contract - yield it reports is
+ * folded in so it is not counted again when the position is withdrawn.
+ */
+
+const BASIS_POINTS = 10000
+const USDC_UNIT = 1000000
+const SECONDS_PER_DAY = 24 * 60 * 60
+const SECONDS_PER_YEAR = 365 * SECONDS_PER_DAY
+const MAX_POINTS = 60
+
+interface PoolEventBase {
+  blockNumber: number
+  logIndex: number
+  timestamp: number
+}
+
+export type PoolEvent = PoolEventBase &
+  (
+    | { name: "Deposited"; user: string; positionId: number; amount: bigint; shares: bigint }
+    | {
+        name: "Withdrawn"
+        user: string
+        positionId: number
+        amount: bigint // net of the early withdrawal penalty
+        shares: bigint
+        yieldEarned: bigint
+        penalty: bigint
+      }
+    | { name: "BetMatched"; betContract: string; amount: bigint }
+    | { name: "BetSettled"; betContract: string; amount: bigint; profit: bigint; won: boolean }
+    | { name: "YieldUpdated"; user: string; positionId: number; yieldAmount: bigint }
+  )
+
+export interface PoolHistory {
+  events: PoolEvent[]
+  categories: Record<string, string> // lowercased bet address -> category
+}
+
+export type AnalyticsRange = "7d" | "30d" | "90d" | "all"
+
+export const ANALYTICS_RANGES: { value: AnalyticsRange; label: string; seconds: number | null; bucket: number }[] = [
+  { value: "7d", label: "7D", seconds: 7 * SECONDS_PER_DAY, bucket: 6 * 60 * 60 },
+  { value: "30d", label: "30D", seconds: 30 * SECONDS_PER_DAY, bucket: SECONDS_PER_DAY },
+  { value: "90d", label: "90D", seconds: 90 * SECONDS_PER_DAY, bucket: 3 * SECONDS_PER_DAY },
+  { value: "all", label: "All", seconds: null, bucket: SECONDS_PER_DAY },
+]
+
+/**
+ * One bucket of the series. Balances are sampled at the end of the bucket,
+ * flows (settlements, matched volume, realized yield) are summed over it.
+ */
+export interface PoolAnalyticsPoint {
+  time: number // bucket end
+  tvl: number // poolBalance - matched funds stay in the pool, so this is the whole pool
+  matched: number // activeMatchedAmount
+  utilizationBps: number // activeMatchedAmount / totalDeposits, as CDOPool.getUtilizationRate
+  won: number // profit from house bets settled in the bucket
+  lost: number // negative: matched amount of house bets lost in the bucket
+  wins: number
+  losses: number
+  volume: Record<string, number> // matched volume by category
+  realizedApyBps: number | null // null when nothing was realized in the bucket
+}
+
+export interface PoolAnalytics {
+  points: PoolAnalyticsPoint[]
+  categories: string[]
+  summary: {
+    tvl: number
+    utilizationBps: number
+    netProfit: number
+    wins: number
+    losses: number
+    matchedVolume: number
+    realizedApyBps: number | null
+  }
+}
+
+type PoolEventName = PoolEvent["name"]
+
+const POOL_EVENT_NAMES: readonly string[] = [
+  "Deposited",
+  "Withdrawn",
+  "BetMatched",
+  "BetSettled",
+  "YieldUpdated",
+] satisfies PoolEventName[]
+
+type PoolAbiEvent<TName extends PoolEventName> = Extract<(typeof cdoPoolAbi)[number], { type: "event"; name: TName }>
+
+// The indexer serializes everything but booleans to strings; thirdweb decodes addresses as plain strings
+type EventArg<TParam extends AbiParameter> =
+  | AbiParameterToPrimitiveType<TParam>
+  | (AbiParameterToPrimitiveType<TParam> extends boolean ? never : string)
+
+/**
+ * A CDOPool event with the args declared in cdoPoolAbi, as decoded from the chain or read from the indexer
+ */
+type PoolLog = {
+  [TName in PoolEventName]: {
+    eventName: TName
+    args: { [TParam in PoolAbiEvent<TName>["inputs"][number] as TParam["name"]]: EventArg<TParam> }
+  }
+}[PoolEventName]
+
+function isPoolEventName(name: string): name is PoolEventName {
+  return POOL_EVENT_NAMES.includes(name)
+}
+
+function isPoolLog<TLog extends { eventName: string }>(log: TLog): log is Extract<TLog, { eventName: PoolEventName }> {
+  return isPoolEventName(log.eventName)
+}
+
+/**
+ * Shape a pool event's args (bigints from the chain, strings from the indexer) into a PoolEvent
+ */
+function toPoolEvent(log: PoolLog, position: { blockNumber: number; logIndex: number }): PoolEvent {
+  const base = { ...position, timestamp: Number(log.args.timestamp) }
+
+  switch (log.eventName) {
+    case "Deposited": {
+      const { args } = log
+      return {
+        ...base,
+        name: log.eventName,
+        user: args.user.toLowerCase(),
+        positionId: Number(args.positionId),
+        amount: BigInt(args.amount),
+        shares: BigInt(args.shares),
+      }
+    }
+    case "Withdrawn": {
+      const { args } = log
+      return {
+        ...base,
+        name: log.eventName,
+        user: args.user.toLowerCase(),
+        positionId: Number(args.positionId),
+        amount: BigInt(args.amount),
+        shares: BigInt(args.shares),
+        yieldEarned: BigInt(args.yieldEarned),
+        penalty: BigInt(args.penalty),
+      }
+    }
+    case "BetMatched":
+      return { ...base, name: log.eventName, betContract: log.args.betContract.toLowerCase(), amount: BigInt(log.args.amount) }
+    case "BetSettled": {
+      const { args } = log
+      return {
+        ...base,
+        name: log.eventName,
+        betContract: args.betContract.toLowerCase(),
+        amount: BigInt(args.amount),
+        profit: BigInt(args.profit),
+        won: args.won,
+      }
+    }
+    case "YieldUpdated": {
+      const { args } = log
+      return {
+        ...base,
+        name: log.eventName,
+        user: args.user.toLowerCase(),
+        positionId: Number(args.positionId),
+        yieldAmount: BigInt(args.yieldAmount),
+      }
+    }
+  }
+}
+
+/**
+ * Read a pool's analytics events, from the indexer when one is configured, and the
+ * category of every bet the pool matched
+ */
+export async function fetchPoolHistory(chain: Chain, poolAddress: string): Promise<PoolHistory> {
+  const indexerUrl = getIndexerUrl(chain.id)
+  let events: PoolEvent[]
+
+  if (indexerUrl) {
+    const response = await fetchIndexer<{ events: IndexedEvent[] }>(indexerUrl, `/contracts/${poolAddress}/events`)
+    events = response.events.flatMap((event) => {
+      if (!isPoolEventName(event.name)) return []
+      // The indexer decoded these with cdoPoolAbi and stored the args serialized
+      const log = { eventName: event.name, args: event.args } as PoolLog
+      return [toPoolEvent(log, { blockNumber: event.blockNumber, logIndex: event.logIndex })]
+    })
+  } else {
+    const logs = await getContractEvents({ contract: CDOPool.at(chain, poolAddress), fromBlock: BigInt(0) })
+    events = logs
+      .filter(isPoolLog)
+      .map((log) => toPoolEvent(log, { blockNumber: Number(log.blockNumber), logIndex: Number(log.logIndex) }))
+  }
+
+  events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  const matchedBets = Array.from(
+    new Set(events.flatMap((event) => (event.name === "BetMatched" ? [event.betContract] : [])))
+  )
+  const bets = await readBetDetailsBatch(chain, matchedBets)
+
+  const categories: Record<string, string> = {}
+  for (const bet of bets) {
+    categories[bet.address.toLowerCase()] = deriveCategoryFromTags(bet.tags)
+  }
+
+  return { events, categories }
+}
+
+function toUSDC(amount: bigint): number {
+  return Number(amount) / USDC_UNIT
+}
+
+/**
+ * Bucket size for a range. "All" widens its buckets so the series stays under MAX_POINTS.
+ */
+function getBucketSeconds(range: (typeof ANALYTICS_RANGES)[number], span: number): number {
+  if (range.seconds !== null) return range.bucket
+  return Math.max(range.bucket, Math.ceil(span / MAX_POINTS / range.bucket) * range.bucket)
+}
+
+/**
+ * Fold a pool's event log into time series for `range`, ending at `now`
+ */
+export function buildPoolAnalytics(history: PoolHistory, range: AnalyticsRange, now: number): PoolAnalytics {
+  const rangeConfig = ANALYTICS_RANGES.find((r) => r.value === range) || ANALYTICS_RANGES[ANALYTICS_RANGES.length - 1]
+  const events = history.events
+  const firstTimestamp = events.length > 0 ? events[0].timestamp : now
+  const rangeStart = rangeConfig.seconds !== null ? now - rangeConfig.seconds : firstTimestamp
+  const bucketSeconds = getBucketSeconds(rangeConfig, Math.max(0, now - rangeStart))
+  const start = Math.floor(rangeStart / bucketSeconds) * bucketSeconds
+  const bucketCount = Math.max(1, Math.ceil((now - start) / bucketSeconds))
+
+  // CDOPool.stats() as of the current event
+  let poolBalance = BigInt(0)
+  let activeMatchedAmount = BigInt(0)
+  let totalDeposits = BigInt(0)
+
+  // Per position: principal, when its yield was last realized, and yield already reported by YieldUpdated
+  const positions = new Map<string, { principal: bigint; since: number; credited: bigint }>()
+
+  const categories = new Set<string>()
+  const points: PoolAnalyticsPoint[] = []
+  // Realized yield and principal-years per bucket, for the APY
+  const realized: { yieldAmount: number; exposure: number }[] = []
+  const total = { yieldAmount: 0, exposure: 0 }
+
+  const snapshot = (time: number): PoolAnalyticsPoint => ({
+    time,
+    tvl: toUSDC(poolBalance),
+    matched: toUSDC(activeMatchedAmount),
+    utilizationBps:
+      totalDeposits > BigInt(0) ? Number((activeMatchedAmount * BigInt(BASIS_POINTS)) / totalDeposits) : 0,
+    won: 0,
+    lost: 0,
+    wins: 0,
+    losses: 0,
+    volume: {},
+    realizedApyBps: null,
+  })
+
+  for (let i = 0; i < bucketCount; i++) {
+    points.push(snapshot(Math.min(start + (i + 1) * bucketSeconds, now)))
+    realized.push({ yieldAmount: 0, exposure: 0 })
+  }
+
+  const realize = (bucket: number, yieldAmount: bigint, principal: bigint, seconds: number) => {
+    if (bucket < 0) return
+    const amount = toUSDC(yieldAmount)
+    const exposure = (toUSDC(principal) * Math.max(0, seconds)) / SECONDS_PER_YEAR
+    realized[bucket].yieldAmount += amount
+    realized[bucket].exposure += exposure
+    total.yieldAmount += amount
+    total.exposure += exposure
+  }
+
+  let bucket = -1
+  for (const event of events) {
+    // Close out every bucket that ended before this event
+    const eventBucket = Math.min(bucketCount - 1, Math.floor((event.timestamp - start) / bucketSeconds))
+    while (bucket < eventBucket) {
+      if (bucket >= 0) Object.assign(points[bucket], { ...snapshot(points[bucket].time), ...flows(points[bucket]) })
+      bucket++
+    }
+    const point = bucket >= 0 ? points[bucket] : null
+
+    switch (event.name) {
+      case "Deposited":
+        poolBalance += event.amount
+        totalDeposits += event.amount
+        positions.set(`${event.user}:${event.positionId}`, {
+          principal: event.amount,
+          since: event.timestamp,
+          credited: BigInt(0),
+        })
+        break
+      case "Withdrawn": {
+        poolBalance -= event.amount
+        const key = `${event.user}:${event.positionId}`
+        const position = positions.get(key)
+        if (position) {
+          // What the LP took home above principal, less yield YieldUpdated already reported
+          const gain = event.amount - position.principal - position.credited
+          realize(bucket, gain, position.principal, event.timestamp - position.since)
+          positions.delete(key)
+        }
+        break
+      }
+      case "BetMatched": {
+        activeMatchedAmount += event.amount
+        if (point) {
+          const category = history.categories[event.betContract] || "General"
+          categories.add(category)
+          point.volume[category] = (point.volume[category] || 0) + toUSDC(event.amount)
+        }
+        break
+      }
+      case "BetSettled":
+        activeMatchedAmount -= event.amount
+        if (event.won) {
+          // No profit: the stake came back, or less than it - BetSettled does not say how much
+          if (event.profit === BigInt(0)) break
+          poolBalance += event.profit
+          if (point) {
+            point.won += toUSDC(event.profit)
+            point.wins++
+          }
+        } else {
+          poolBalance -= event.amount
+          if (point) {
+            point.lost -= toUSDC(event.amount)
+            point.losses++
+          }
+        }
+        break
+      case "YieldUpdated": {
+        const position = positions.get(`${event.user}:${event.positionId}`)
+        if (position) {
+          realize(bucket, event.yieldAmount, position.principal, event.timestamp - position.since)
+          position.credited += event.yieldAmount
+          position.since = event.timestamp
+        }
+        break
+      }
+    }
+  }
+
+  // Buckets after the last event carry its balances forward
+  for (let i = Math.max(0, bucket); i < bucketCount; i++) {
+    Object.assign(points[i], { ...snapshot(points[i].time), ...flows(points[i]) })
+  }
+
+  points.forEach((point, i) => {
+    point.realizedApyBps =
+      realized[i].exposure > 0 ? Math.round((realized[i].yieldAmount / realized[i].exposure) * BASIS_POINTS) : null
+  })
+
+  const last = points[points.length - 1]
+
+  return {
+    points,
+    categories: Array.from(categories).sort(),
+    summary: {
+      tvl: last.tvl,
+      utilizationBps: last.utilizationBps,
+      netProfit: points.reduce((sum, point) => sum + point.won + point.lost, 0),
+      wins: points.reduce((sum, point) => sum + point.wins, 0),
+      losses: points.reduce((sum, point) => sum + point.losses, 0),
+      matchedVolume: points.reduce(
+        (sum, point) => sum + Object.values(point.volume).reduce((s, amount) => s + amount, 0),
+        0
+      ),
+      realizedApyBps: total.exposure > 0 ? Math.round((total.yieldAmount / total.exposure) * BASIS_POINTS) : null,
+    },
+  }
+}
+
+/**
+ * The summed fields of a point, kept when its balances are re-sampled
+ */
+function flows(point: PoolAnalyticsPoint) {
+  return { won: point.won, lost: point.lost, wins: point.wins, losses: point.losses, volume: point.volume }
+}
@@ -0,0 +1,162 @@
+import type { Chain, ThirdwebContract } from "thirdweb"
+import { encodeFunctionData, type Hex } from "viem"
+import { getContractAddresses } from "./addresses"
+import { readBetDetailsBatch, type BetDetails } from "./bet-reader"
+import { BetFactory, CDOPool, betFactoryAbi, cdoPoolAbi } from "./generated"
+import { readMany, type BatchedRead } from "./multicall"
+
+/**
+ * House exposure of a CDOPool: every bet the pool matched that has not resolved yet.
+ *
+ * CDOPool.activeBets is append-only (settleBet clears matchedBetAmounts but never pops the array)
+ * and settleBet is only called by an authorized matcher, so a bet counts as open while it still
+ * has a matched amount and has not been resolved or cancelled on the Bet itself.
+ * Amounts are raw USDC (6 decimals), times in unix seconds.
+ */
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+function activeBetAt(pool: ThirdwebContract<typeof cdoPoolAbi>, index: bigint): BatchedRead<Hex> {
+  return {
+    target: pool.address,
+    callData: encodeFunctionData({ abi: cdoPoolAbi, functionName: "activeBets", args: [index] }),
+    decode: (data) => CDOPool.decode("activeBets", data),
+    read: () => CDOPool.read(pool, "activeBets", [index]),
+  }
+}
+
+function matchedBetAmount(pool: ThirdwebContract<typeof cdoPoolAbi>, bet: Hex): BatchedRead<bigint> {
+  return {
+    target: pool.address,
+    callData: encodeFunctionData({ abi: cdoPoolAbi, functionName: "matchedBetAmounts", args: [bet] }),
+    decode: (data) => CDOPool.decode("matchedBetAmounts", data),
+    read: () => CDOPool.read(pool, "matchedBetAmounts", [bet]),
+  }
+}
+
+function matchedPoolOf(factory: ThirdwebContract<typeof betFactoryAbi>, bet: Hex): BatchedRead<string> {
+  return {
+    target: factory.address,
+    callData: encodeFunctionData({ abi: betFactoryAbi, functionName: "getMatchedPool", args: [bet] }),
+    decode: (data) => BetFactory.decode("getMatchedPool", data),
+    read: () => BetFactory.read(factory, "getMatchedPool", [bet]),
+  }
+}
+
+export interface HouseBetExposure {
+  address: string
+  matchedAmount: bigint // what the pool loses if the bet resolves against the house
+  routedByFactory: boolean // BetFactory.getMatchedPool points at this pool
+  bet: BetDetails
+}
+
+export interface ExposureBucket {
+  label: string
+  amount: bigint
+  count: number
+}
+
+export const EXPIRY_BUCKETS: { label: string; maxSeconds: number }[] = [
+  { label: "Expired", maxSeconds: 0 },
+  { label: "< 24h", maxSeconds: 24 * 60 * 60 },
+  { label: "1-7 days", maxSeconds: 7 * 24 * 60 * 60 },
+  { label: "7-30 days", maxSeconds: 30 * 24 * 60 * 60 },
+  { label: "> 30 days", maxSeconds: Infinity },
+]
+
+export interface PoolExposure {
+  poolBalance: bigint
+  activeMatchedAmount: bigint
+  bets: HouseBetExposure[]
+}
+
+export interface ExposureSummary {
+  worstCaseLoss: bigint // every open bet resolves against the house
+  worstCaseLossBps: number // of poolBalance
+  byTag: ExposureBucket[] // a bet counts towards each of its tags, largest first
+  byExpiry: ExposureBucket[] // EXPIRY_BUCKETS order
+}
+
+/**
+ * Read a pool's open house bets with their matched amounts and bet details
+ */
+export async function fetchPoolExposure(chain: Chain, poolAddress: string): Promise<PoolExposure> {
+  const pool = CDOPool.at(chain, poolAddress)
+  const stats = await CDOPool.read(pool, "stats", [])
+
+  // activeBets has no length getter; matchBet pushes once per totalBetsMatched increment
+  const betCount = Number(stats.totalBetsMatched)
+  const activeBets = (
+    await readMany(
+      chain,
+      Array.from({ length: betCount }, (_, i) => activeBetAt(pool, BigInt(i)))
+    )
+  ).filter((address): address is Hex => address !== null)
+
+  const factory = BetFactory.at(chain, getContractAddresses(chain.id).betFactory)
+  const [amounts, matchedPools] = await Promise.all([
+    readMany(chain, activeBets.map((bet) => matchedBetAmount(pool, bet))),
+    readMany(chain, activeBets.map((bet) => matchedPoolOf(factory, bet))),
+  ])
+
+  const matched = activeBets
+    .map((address, i) => ({
+      address,
+      matchedAmount: amounts[i] ?? BigInt(0),
+      matchedPool: matchedPools[i] ?? ZERO_ADDRESS,
+    }))
+    .filter((entry) => entry.matchedAmount > BigInt(0))
+
+  const details = await readBetDetailsBatch(chain, matched.map((entry) => entry.address))
+
+  const bets = matched.flatMap((entry): HouseBetExposure[] => {
+    const bet = details.find((d) => d.address.toLowerCase() === entry.address.toLowerCase())
+    // 4=Resolved, 5=Cancelled - waiting on settleBet, no longer at risk
+    if (!bet || bet.state >= 4) return []
+    return [
+      {
+        address: entry.address,
+        matchedAmount: entry.matchedAmount,
+        routedByFactory: entry.matchedPool.toLowerCase() === poolAddress.toLowerCase(),
+        bet,
+      },
+    ]
+  })
+
+  bets.sort((a, b) => Number(a.bet.expiresAt - b.bet.expiresAt))
+
+  return { poolBalance: stats.poolBalance, activeMatchedAmount: stats.activeMatchedAmount, bets }
+}
+
+/**
+ * Concentration by tag and expiry, and the loss if every open bet goes against the house
+ */
+export function summarizeExposure(exposure: PoolExposure, now: number): ExposureSummary {
+  const worstCaseLoss = exposure.bets.reduce((sum, entry) => sum + entry.matchedAmount, BigInt(0))
+
+  const tags = new Map<string, ExposureBucket>()
+  for (const entry of exposure.bets) {
+    for (const tag of new Set(entry.bet.tags)) {
+      const bucket = tags.get(tag) || { label: tag, amount: BigInt(0), count: 0 }
+      bucket.amount += entry.matchedAmount
+      bucket.count++
+      tags.set(tag, bucket)
+    }
+  }
+
+  const byExpiry = EXPIRY_BUCKETS.map((bucket) => ({ label: bucket.label, amount: BigInt(0), count: 0 }))
+  for (const entry of exposure.bets) {
+    const remaining = Number(entry.bet.expiresAt) - now
+    const index = EXPIRY_BUCKETS.findIndex((bucket) => remaining <= bucket.maxSeconds)
+    byExpiry[index].amount += entry.matchedAmount
+    byExpiry[index].count++
+  }
+
+  return {
+    worstCaseLoss,
+    worstCaseLossBps:
+      exposure.poolBalance > BigInt(0) ? Number((worstCaseLoss * BigInt(10000)) / exposure.poolBalance) : 0,
+    byTag: Array.from(tags.values()).sort((a, b) => (b.amount > a.amount ? 1 : b.amount < a.amount ? -1 : 0)),
+    byExpiry,
+  }
+}
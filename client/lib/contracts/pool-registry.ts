@@ -0,0 +1,164 @@
+import { getContract, readContract, type Chain } from "thirdweb"
+import { client } from "@/lib/thirdweb"
+import { DEFAULT_CHAIN } from "../chains"
+import { getContractAddresses } from "./addresses"
+import { CDOPool } from "./generated"
+import type { PoolOption } from "../ai-validation"
+
+export type PoolRiskTier = "LOW" | "MEDIUM" | "HIGH"
+
+const RISK_TIERS: PoolRiskTier[] = ["LOW", "MEDIUM", "HIGH"]
+
+/**
+ * A pool as registered in CDOPoolFactory, with its CDOPool config.
+ * Stake limits are in USDC, percentages in basis points, periods in seconds.
+ */
+export interface PoolInfo {
+  poolId: number
+  address: `0x${string}`
+  cdoToken: `0x${string}`
+  name: string
+  symbol: string
+  category: string // "Sports" - BetRiskValidator category
+  subcategory: string // "NBA"
+  categoryKey: string // "Sports-NBA" - CDOPoolFactory routing key
+  description: string
+  riskTier: PoolRiskTier
+  minStake: number
+  maxStake: number
+  maxUtilization: number
+  requiresAIValidation: boolean
+  isActive: boolean
+  apy: number // percent, from CDOPoolFactory.getPoolStats
+  config: {
+    minDepositAmount: number
+    maxPoolSize: number
+    utilizationTarget: number
+    minLockPeriod: number
+    maxLockPeriod: number
+    earlyWithdrawalFee: number
+    depositsEnabled: boolean
+    withdrawalsEnabled: boolean
+  }
+}
+
+/**
+ * Format USDC amount from wei to human readable
+ */
+function formatUSDC(amount: bigint): number {
+  return Number(amount) / 1_000_000
+}
+
+/**
+ * Read a single pool's factory metadata, CDOPool config and APY
+ */
+async function fetchPool(chain: Chain, factoryAddress: string, poolId: number): Promise<PoolInfo> {
+  const factory = getContract({ client, chain, address: factoryAddress })
+
+  const [metadata, stats] = await Promise.all([
+    readContract({
+      contract: factory,
+      method:
+        "function getPoolMetadata(uint256 poolId) view returns ((string name, string symbol, address poolAddress, address tokenAddress, string category, string subcategory, (string description, uint8 riskTier, uint256 minStake, uint256 maxStake, uint256 maxUtilization, bool requiresAIValidation) config, uint256 createdAt, bool isActive))",
+      params: [BigInt(poolId)],
+    }),
+    readContract({
+      contract: factory,
+      method:
+        "function getPoolStats(uint256 poolId) view returns ((uint256 poolId, string name, string category, uint256 totalLiquidity, uint256 availableLiquidity, uint256 activeBets, uint256 utilization, uint256 apy, uint8 riskTier))",
+      params: [BigInt(poolId)],
+    }),
+  ])
+
+  const config = await CDOPool.read(CDOPool.at(chain, metadata.poolAddress), "config", [])
+
+  return {
+    poolId,
+    address: metadata.poolAddress as `0x${string}`,
+    cdoToken: metadata.tokenAddress as `0x${string}`,
+    name: metadata.name,
+    symbol: metadata.symbol,
+    category: metadata.category,
+    subcategory: metadata.subcategory,
+    categoryKey: `${metadata.category}-${metadata.subcategory}`,
+    description: metadata.config.description,
+    riskTier: RISK_TIERS[metadata.config.riskTier] || "MEDIUM",
+    minStake: formatUSDC(metadata.config.minStake),
+    maxStake: formatUSDC(metadata.config.maxStake),
+    maxUtilization: Number(metadata.config.maxUtilization),
+    requiresAIValidation: metadata.config.requiresAIValidation,
+    isActive: metadata.isActive,
+    apy: Number(stats.apy) / 100,
+    config: {
+      minDepositAmount: formatUSDC(config.minDepositAmount),
+      maxPoolSize: formatUSDC(config.maxPoolSize),
+      utilizationTarget: Number(config.utilizationTarget),
+      minLockPeriod: Number(config.minLockPeriod),
+      maxLockPeriod: Number(config.maxLockPeriod),
+      earlyWithdrawalFee: Number(config.earlyWithdrawalFee),
+      depositsEnabled: config.depositsEnabled,
+      withdrawalsEnabled: config.withdrawalsEnabled,
+    },
+  }
+}
+
+/**
+ * Enumerate every pool created by CDOPoolFactory (including deactivated ones)
+ */
+export async function fetchPoolRegistry(chain: Chain = DEFAULT_CHAIN): Promise<PoolInfo[]> {
+  const addresses = getContractAddresses(chain.id)
+  const factory = getContract({ client, chain, address: addresses.cdoPoolFactory })
+
+  const totalPools = await readContract({
+    contract: factory,
+    method: "function getTotalPools() view returns (uint256)",
+    params: [],
+  })
+
+  return Promise.all(
+    Array.from({ length: Number(totalPools) }, (_, poolId) => fetchPool(chain, addresses.cdoPoolFactory, poolId))
+  )
+}
+
+/**
+ * Shape a pool for the AI risk prompt and rule-based validator
+ */
+export function toPoolOption(pool: PoolInfo): PoolOption {
+  return {
+    id: pool.categoryKey,
+    name: pool.name,
+    category: pool.category,
+    description: pool.description,
+    minStake: pool.minStake,
+    maxStake: pool.maxStake,
+    targetAPY: pool.apy,
+  }
+}
+
+/**
+ * Active pools a house bet can be recommended into
+ */
+export function getPoolOptions(pools: PoolInfo[]): PoolOption[] {
+  return pools.filter((pool) => pool.isActive).map(toPoolOption)
+}
+
+/**
+ * Pool a house bet lands in when `tag` is its first tag.
+ *
+ * Mirrors CDOPoolFactory.getPoolByCategory: an unknown key reads categoryToPoolId's
+ * default of 0, so base categories like "Crypto" route to pool 0 while it is active.
+ * BetFactory falls back to its default pool otherwise (not modelled here).
+ */
+export function resolvePoolForTag(pools: PoolInfo[], tag: string): PoolInfo | null {
+  const pool = pools.find((p) => p.categoryKey === tag) || pools.find((p) => p.poolId === 0)
+  return pool?.isActive ? pool : null
+}
+
+/**
+ * Map an AI-recommended pool name to the tag BetFactory expects first.
+ * BetRiskValidator validates using base category names (Sports, Crypto, Politics, General)
+ * NOT subcategory keys like "Sports-NBA" or "General-Misc"
+ */
+export function getPoolCategoryKey(pools: Pick<PoolInfo, "name" | "category">[], poolName: string): string | null {
+  return pools.find((pool) => pool.name === poolName)?.category || null
+}
@@ -0,0 +1,148 @@
+import {
+  getContract,
+  prepareContractCall,
+  readContract,
+  type Chain,
+  type PrepareContractCallOptions,
+  type ReadContractOptions,
+  type ThirdwebContract,
+} from "thirdweb"
+import { prepareMethod } from "thirdweb/contract"
+import { decodeFunctionResult, type Abi, type AbiFunction, type AbiParameter, type AbiParameterToPrimitiveType, type Hex } from "viem"
+import { client } from "@/lib/thirdweb"
+
+/**
+ * Typed access to the protocol contracts. The ABIs come from scripts/generate-contracts.mjs;
+ * these wrappers turn them into checked method names, argument tuples and results.
+ *
+ * Reads return outputs keyed by their Solidity names (`config.minStake` rather than `config[0]`),
+ * a single output is returned as is. Structs are objects either way.
+ */
+
+type AbiFunctionOf<TAbi extends Abi> = Extract<TAbi[number], { type: "function" }>
+
+export type ReadMethod<TAbi extends Abi> = Extract<AbiFunctionOf<TAbi>, { stateMutability: "view" | "pure" }>["name"]
+
+export type WriteMethod<TAbi extends Abi> = Extract<AbiFunctionOf<TAbi>, { stateMutability: "nonpayable" | "payable" }>["name"]
+
+type FunctionItem<TAbi extends Abi, TName extends string> = Extract<AbiFunctionOf<TAbi>, { name: TName }>
+
+// Addresses are accepted as plain strings, the way they come out of forms, routes and the indexer
+type InputType<TParam extends AbiParameter> = TParam["type"] extends "address"
+  ? string
+  : TParam["type"] extends "address[]"
+    ? readonly string[]
+    : AbiParameterToPrimitiveType<TParam>
+
+type InputTypes<TInputs extends readonly AbiParameter[]> = {
+  readonly [K in keyof TInputs]: TInputs[K] extends AbiParameter ? InputType<TInputs[K]> : never
+}
+
+export type MethodArgs<TAbi extends Abi, TName extends string> = InputTypes<FunctionItem<TAbi, TName>["inputs"]>
+
+export type NamedOutputs<TOutputs extends readonly AbiParameter[]> = TOutputs extends readonly [
+  infer TOnly extends AbiParameter,
+]
+  ? AbiParameterToPrimitiveType<TOnly>
+  : { [TParam in TOutputs[number] as TParam["name"] & string]: AbiParameterToPrimitiveType<TParam> }
+
+export type ReadResult<TAbi extends Abi, TName extends string> = NamedOutputs<FunctionItem<TAbi, TName>["outputs"]>
+
+export interface WriteOptions {
+  value?: bigint
+  gas?: bigint
+  extraCallData?: Hex
+}
+
+// A resolved ABI function, the form thirdweb accepts for contracts whose ABI is only known generically
+type PreparedFunction = ReturnType<typeof prepareMethod<AbiFunction>>
+
+function findFunction<TAbi extends Abi, TName extends string>(abi: TAbi | undefined, name: TName) {
+  const item = abi?.find((entry): entry is FunctionItem<TAbi, TName> => entry.type === "function" && entry.name === name)
+  if (!item) throw new Error(`Function ${name} not found in ABI`)
+  return item
+}
+
+/**
+ * Key decoded outputs by their ABI names
+ */
+export function toNamedOutputs<TOutputs extends readonly AbiParameter[]>(
+  outputs: TOutputs,
+  result: unknown
+): NamedOutputs<TOutputs> {
+  if (outputs.length === 1) return result as NamedOutputs<TOutputs>
+  const values = result as readonly unknown[]
+  return Object.fromEntries(outputs.map((output, i) => [output.name || `${i}`, values[i]])) as NamedOutputs<TOutputs>
+}
+
+/**
+ * Call a view function of a typed contract
+ */
+export async function readNamed<TAbi extends Abi, TName extends ReadMethod<TAbi>>(
+  contract: ThirdwebContract<TAbi>,
+  method: TName,
+  params: MethodArgs<TAbi, TName>
+): Promise<ReadResult<TAbi, TName>> {
+  const item = findFunction(contract.abi, method)
+  const options: ReadContractOptions<Abi, string, PreparedFunction> = {
+    contract,
+    method: prepareMethod<AbiFunction>(item),
+    params,
+  }
+  return toNamedOutputs<FunctionItem<TAbi, TName>["outputs"]>(item.outputs, await readContract(options))
+}
+
+/**
+ * Decode the return data of a view function (e.g. from a Multicall3 result) into named outputs
+ */
+export function decodeNamed<TAbi extends Abi, TName extends ReadMethod<TAbi>>(
+  abi: TAbi,
+  method: TName,
+  data: Hex
+): ReadResult<TAbi, TName> {
+  const item = findFunction(abi, method)
+  const functions: readonly AbiFunction[] = [item]
+  const functionName: string = method
+  return toNamedOutputs<FunctionItem<TAbi, TName>["outputs"]>(
+    item.outputs,
+    decodeFunctionResult({ abi: functions, functionName, data })
+  )
+}
+
+/**
+ * Prepare a state-changing call of a typed contract
+ */
+export function prepareWrite<TAbi extends Abi, TName extends WriteMethod<TAbi>>(
+  contract: ThirdwebContract<TAbi>,
+  method: TName,
+  params: MethodArgs<TAbi, TName>,
+  options?: WriteOptions
+) {
+  const callOptions: PrepareContractCallOptions<Abi, string, PreparedFunction> = {
+    contract,
+    method: prepareMethod<AbiFunction>(findFunction(contract.abi, method)),
+    params,
+    ...options,
+  }
+  return prepareContractCall(callOptions)
+}
+
+/**
+ * Typed wrapper around one contract ABI: `at` binds it to a deployment, `read` and `prepare`
+ * call it with checked method names and arguments, `decode` reads raw return data
+ */
+export function defineContract<const TAbi extends Abi>(abi: TAbi) {
+  return {
+    abi,
+    at: (chain: Chain, address: string): ThirdwebContract<TAbi> => getContract({ client, chain, address, abi }),
+    read: <TName extends ReadMethod<TAbi>>(contract: ThirdwebContract<TAbi>, method: TName, params: MethodArgs<TAbi, TName>) =>
+      readNamed(contract, method, params),
+    decode: <TName extends ReadMethod<TAbi>>(method: TName, data: Hex) => decodeNamed(abi, method, data),
+    prepare: <TName extends WriteMethod<TAbi>>(
+      contract: ThirdwebContract<TAbi>,
+      method: TName,
+      params: MethodArgs<TAbi, TName>,
+      options?: WriteOptions
+    ) => prepareWrite(contract, method, params, options),
+  }
+}
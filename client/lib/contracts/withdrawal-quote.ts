@@ -0,0 +1,201 @@
+import type { Chain } from "thirdweb"
+import { CDOPool } from "./generated"
+
+/**
+ * Withdrawal quotes for CDOPool positions. The arithmetic mirrors CDOPool.withdraw and
+ * CDOPool.withdrawAll so the preview matches what the transaction pays out. (calculatePendingYield
+ * values shares against poolBalance alone, while withdraw adds activeMatchedAmount, so it is not used.)
+ * Amounts are raw USDC (6 decimals), rates in basis points, times in unix seconds.
+ */
+
+const BASIS_POINTS = BigInt(10000)
+const SECONDS_PER_YEAR = BigInt(365 * 24 * 60 * 60)
+const TIER_COUNT = 4
+
+export interface PoolWithdrawalState {
+  poolBalance: bigint
+  activeMatchedAmount: bigint
+  totalShares: bigint
+  earlyWithdrawalFeeBps: bigint
+  withdrawalsEnabled: boolean
+  tiers: { name: string; lockDuration: number; yieldBoostBps: number }[]
+}
+
+export interface PoolPosition {
+  id: number
+  depositAmount: bigint
+  shares: bigint
+  depositedAt: number
+  lockUntil: number
+  tier: number
+}
+
+export interface WithdrawalQuote {
+  positionId: number
+  principal: bigint
+  earnedYield: bigint // share of pool value above principal, as CDOPool.withdraw computes it
+  isLocked: boolean
+  secondsUntilUnlock: number
+  now: {
+    gross: bigint // principal + earned yield
+    penalty: bigint // early withdrawal fee, charged on the gross amount while locked
+    net: bigint
+  }
+  atUnlock: {
+    projectedYield: bigint // estimate: base APY plus the tier boost until lockUntil
+    net: bigint
+    apyBps: number
+  }
+  blockedReason: "withdrawals-disabled" | "insufficient-liquidity" | null
+}
+
+export interface WithdrawAllPreview {
+  positions: { positionId: number; amount: bigint; earnedYield: bigint }[]
+  skippedLocked: number[] // withdrawAll leaves locked positions untouched
+  skippedLiquidity: number[] // withdrawAll stops at the first position the pool cannot cover
+  totalAmount: bigint
+  totalYield: bigint
+}
+
+function positionValue(shares: bigint, state: Pick<PoolWithdrawalState, "poolBalance" | "activeMatchedAmount" | "totalShares">) {
+  if (state.totalShares === BigInt(0)) return BigInt(0)
+  return (shares * (state.poolBalance + state.activeMatchedAmount)) / state.totalShares
+}
+
+/**
+ * Net USDC for withdrawing a position now versus holding it until its lock expires
+ * @param baseApyBps Pool APY used to project yield until unlock (the tier boost is added on top)
+ */
+export function quoteWithdrawal(
+  position: PoolPosition,
+  state: PoolWithdrawalState,
+  baseApyBps: number,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): WithdrawalQuote {
+  const value = positionValue(position.shares, state)
+  const earnedYield = value > position.depositAmount ? value - position.depositAmount : BigInt(0)
+  const gross = position.depositAmount + earnedYield
+
+  const isLocked = nowSeconds < position.lockUntil
+  const penalty = isLocked ? (gross * state.earlyWithdrawalFeeBps) / BASIS_POINTS : BigInt(0)
+  const net = gross - penalty
+
+  const secondsUntilUnlock = Math.max(0, position.lockUntil - nowSeconds)
+  const apyBps = baseApyBps + (state.tiers[position.tier]?.yieldBoostBps ?? 0)
+  const projectedYield =
+    (position.depositAmount * BigInt(apyBps) * BigInt(secondsUntilUnlock)) / (SECONDS_PER_YEAR * BASIS_POINTS)
+
+  return {
+    positionId: position.id,
+    principal: position.depositAmount,
+    earnedYield,
+    isLocked,
+    secondsUntilUnlock,
+    now: { gross, penalty, net },
+    atUnlock: { projectedYield, net: gross + projectedYield, apyBps },
+    blockedReason: !state.withdrawalsEnabled
+      ? "withdrawals-disabled"
+      : net > state.poolBalance
+        ? "insufficient-liquidity"
+        : null,
+  }
+}
+
+/**
+ * Replay CDOPool.withdrawAll: unlocked positions in id order, each valued against the pool
+ * as left by the previous one, stopping at the first the pool balance cannot cover
+ */
+export function previewWithdrawAll(
+  positions: PoolPosition[],
+  state: PoolWithdrawalState,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): WithdrawAllPreview {
+  const preview: WithdrawAllPreview = {
+    positions: [],
+    skippedLocked: [],
+    skippedLiquidity: [],
+    totalAmount: BigInt(0),
+    totalYield: BigInt(0),
+  }
+  let poolBalance = state.poolBalance
+  let totalShares = state.totalShares
+  let stopped = false
+
+  for (const position of [...positions].sort((a, b) => a.id - b.id)) {
+    if (position.shares === BigInt(0)) continue
+    if (nowSeconds < position.lockUntil) {
+      preview.skippedLocked.push(position.id)
+      continue
+    }
+    if (stopped) {
+      preview.skippedLiquidity.push(position.id)
+      continue
+    }
+
+    const value = positionValue(position.shares, {
+      poolBalance,
+      activeMatchedAmount: state.activeMatchedAmount,
+      totalShares,
+    })
+    const earnedYield = value > position.depositAmount ? value - position.depositAmount : BigInt(0)
+    const amount = position.depositAmount + earnedYield
+
+    if (amount > poolBalance) {
+      stopped = true
+      preview.skippedLiquidity.push(position.id)
+      continue
+    }
+
+    preview.positions.push({ positionId: position.id, amount, earnedYield })
+    preview.totalAmount += amount
+    preview.totalYield += earnedYield
+    poolBalance -= amount
+    totalShares -= position.shares
+  }
+
+  return preview
+}
+
+/**
+ * Read everything a quote needs from a CDOPool: stats, fee config, lock tiers and the user's positions
+ */
+export async function fetchWithdrawalState(
+  chain: Chain,
+  poolAddress: string,
+  user: string
+): Promise<{ state: PoolWithdrawalState; positions: PoolPosition[] }> {
+  const pool = CDOPool.at(chain, poolAddress)
+
+  const [stats, config, tiers, positions] = await Promise.all([
+    CDOPool.read(pool, "stats", []),
+    CDOPool.read(pool, "config", []),
+    Promise.all(Array.from({ length: TIER_COUNT }, (_, tier) => CDOPool.read(pool, "getTierConfig", [BigInt(tier)]))),
+    CDOPool.read(pool, "getUserPositions", [user]),
+  ])
+
+  return {
+    state: {
+      poolBalance: stats.poolBalance,
+      activeMatchedAmount: stats.activeMatchedAmount,
+      totalShares: stats.totalShares,
+      earlyWithdrawalFeeBps: config.earlyWithdrawalFee,
+      withdrawalsEnabled: config.withdrawalsEnabled,
+      tiers: tiers.map((tier) => ({
+        name: tier.name,
+        lockDuration: Number(tier.lockDuration),
+        yieldBoostBps: Number(tier.yieldBoostBps),
+      })),
+    },
+    positions: positions
+      .map((position, id) => ({
+        id,
+        depositAmount: position.depositAmount,
+        shares: position.shares,
+        depositedAt: Number(position.depositedAt),
+        lockUntil: Number(position.lockUntil),
+        tier: Number(position.tier),
+      }))
+      // Withdrawn positions stay in the array with zero shares
+      .filter((position) => position.shares > BigInt(0)),
+  }
+}
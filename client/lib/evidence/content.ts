@@ -0,0 +1,107 @@
+import { bytesToString, keccak256, sha256, stringToBytes, type Hex } from "viem"
+import { EVIDENCE_VERSION, type EvidenceContent, type EvidenceImage } from "./types"
+
+/**
+ * Evidence hashing and signing helpers, shared by the browser (which signs) and the API (which verifies)
+ */
+
+export const MAX_EVIDENCE_TEXT_LENGTH = 5000
+export const MAX_EVIDENCE_LINKS = 10
+export const MAX_EVIDENCE_IMAGES = 6
+export const MAX_EVIDENCE_IMAGE_BYTES = 2 * 1024 * 1024
+
+export const EVIDENCE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"] as const
+
+/**
+ * Rebuild a document with a fixed key order so the same evidence always serializes to the same bytes
+ */
+export function canonicalizeEvidence(content: EvidenceContent): EvidenceContent {
+  return {
+    version: EVIDENCE_VERSION,
+    chainId: content.chainId,
+    betAddress: content.betAddress.toLowerCase(),
+    text: content.text,
+    links: [...content.links],
+    images: content.images.map((image: EvidenceImage) => ({
+      cid: image.cid,
+      mimeType: image.mimeType,
+      name: image.name,
+    })),
+  }
+}
+
+export function encodeEvidence(content: EvidenceContent): Uint8Array {
+  return stringToBytes(JSON.stringify(canonicalizeEvidence(content)))
+}
+
+export function decodeEvidence(bytes: Uint8Array): EvidenceContent {
+  return JSON.parse(bytesToString(bytes)) as EvidenceContent
+}
+
+export function hashEvidence(content: EvidenceContent): Hex {
+  return keccak256(encodeEvidence(content))
+}
+
+/**
+ * Human-readable message the submitting party signs with their wallet
+ */
+export function getEvidenceSigningMessage(content: EvidenceContent, contentHash: Hex): string {
+  return [
+    "Just-a-Bet dispute evidence",
+    `Bet: ${content.betAddress.toLowerCase()}`,
+    `Chain: ${content.chainId}`,
+    `Evidence: ${contentHash}`,
+  ].join("\n")
+}
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567"
+
+function base32(bytes: Uint8Array): string {
+  let bits = 0
+  let value = 0
+  let output = ""
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+/**
+ * CIDv1 (raw codec, sha2-256) in base32 - the same id `ipfs add --cid-version=1 --raw-leaves`
+ * assigns to a single-block file, so local and IPFS stores agree on ids for small blobs
+ */
+export function computeRawCid(bytes: Uint8Array): string {
+  const digest = sha256(bytes, "bytes")
+  const prefix = new Uint8Array([0x01, 0x55, 0x12, 0x20]) // cidv1, raw, sha2-256, 32 bytes
+  const cid = new Uint8Array(prefix.length + digest.length)
+  cid.set(prefix)
+  cid.set(digest, prefix.length)
+  return "b" + base32(cid)
+}
+
+// Base32 CIDv1 (bafk... for raw blocks, bafy... for dag-pb files split by IPFS)
+export const CID_PATTERN = /^b[a-z2-7]{20,}$/
+
+/**
+ * Image type from the file's magic bytes - the declared Content-Type is not trusted
+ */
+export function detectImageType(bytes: Uint8Array): (typeof EVIDENCE_IMAGE_TYPES)[number] | null {
+  const startsWith = (signature: number[], offset = 0) =>
+    bytes.length >= offset + signature.length && signature.every((byte, i) => bytes[offset + i] === byte)
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return "image/gif"
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) return "image/webp"
+  return null
+}
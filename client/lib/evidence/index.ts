@@ -0,0 +1,125 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises"
+import path from "node:path"
+import { fetchEvidenceRecords, getIndexerUrl } from "../indexer/client"
+import { isErrorCode } from "../utils"
+import { createIpfsEvidenceStore } from "./stores/ipfs"
+import { createLocalEvidenceStore } from "./stores/local"
+import type { EvidenceRecord, EvidenceStore, EvidenceStoreName } from "./types"
+
+export type { EvidenceContent, EvidenceEntry, EvidenceImage, EvidenceRecord, EvidenceStore } from "./types"
+export { createIpfsEvidenceStore } from "./stores/ipfs"
+export { createLocalEvidenceStore } from "./stores/local"
+
+let cachedStore: EvidenceStore | null = null
+
+/**
+ * Build the evidence store selected by EVIDENCE_STORE. Server only.
+ *
+ * - local (default in development): files under EVIDENCE_LOCAL_DIR (.data/evidence)
+ * - ipfs (default in production): IPFS_API_URL, optional IPFS_API_AUTHORIZATION / IPFS_GATEWAY_URL
+ */
+export function getEvidenceStore(): EvidenceStore {
+  if (cachedStore) return cachedStore
+
+  const name = (process.env.EVIDENCE_STORE ||
+    (process.env.NODE_ENV === "production" ? "ipfs" : "local")) as EvidenceStoreName
+
+  switch (name) {
+    case "local":
+      cachedStore = createLocalEvidenceStore()
+      break
+    case "ipfs":
+      if (!process.env.IPFS_API_URL) {
+        throw new Error("IPFS_API_URL must be set for the ipfs evidence store")
+      }
+      cachedStore = createIpfsEvidenceStore({
+        apiUrl: process.env.IPFS_API_URL,
+        gatewayUrl: process.env.IPFS_GATEWAY_URL || "https://ipfs.io",
+        authorization: process.env.IPFS_API_AUTHORIZATION,
+      })
+      break
+    default:
+      throw new Error(`Unknown EVIDENCE_STORE: ${name}`)
+  }
+
+  return cachedStore
+}
+
+/**
+ * Index of submitted evidence: maps bets to the CIDs and signatures of their evidence documents.
+ *
+ * Kept by the indexer serving the bet's chain (GET/POST /evidence, writes authenticated with
+ * INDEXER_WRITE_TOKEN). Without one, the local store falls back to an append-only JSONL file;
+ * the ipfs store refuses to, as a production instance's disk does not outlive it.
+ */
+const EVIDENCE_LOG_PATH =
+  process.env.EVIDENCE_LOG_PATH || path.join(process.cwd(), ".data", "dispute-evidence.jsonl")
+
+let records: EvidenceRecord[] | null = null
+
+function assertLocalIndex(chainId: number) {
+  if (getEvidenceStore().name !== "local") {
+    throw new Error(`No indexer serves chain ${chainId} - set NEXT_PUBLIC_INDEXER_URL to index evidence`)
+  }
+}
+
+async function loadRecords(): Promise<EvidenceRecord[]> {
+  if (records) return records
+
+  try {
+    const contents = await readFile(EVIDENCE_LOG_PATH, "utf8")
+    records = contents
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as EvidenceRecord)
+  } catch (error: unknown) {
+    if (!isErrorCode(error, "ENOENT")) throw error
+    records = []
+  }
+
+  return records
+}
+
+async function postToIndexer(indexerUrl: string, record: EvidenceRecord): Promise<void> {
+  const token = process.env.INDEXER_WRITE_TOKEN
+  if (!token) {
+    throw new Error("INDEXER_WRITE_TOKEN is not set")
+  }
+
+  const response = await fetch(`${indexerUrl}/evidence`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify(record),
+  })
+  if (!response.ok) {
+    throw new Error(`Indexer rejected evidence (${response.status}): ${await response.text()}`)
+  }
+}
+
+/**
+ * Persist a new evidence submission
+ */
+export async function recordEvidence(record: EvidenceRecord): Promise<void> {
+  const indexerUrl = getIndexerUrl(record.chainId)
+  if (indexerUrl) return postToIndexer(indexerUrl, record)
+
+  assertLocalIndex(record.chainId)
+  const all = await loadRecords()
+
+  await mkdir(path.dirname(EVIDENCE_LOG_PATH), { recursive: true })
+  await appendFile(EVIDENCE_LOG_PATH, JSON.stringify(record) + "\n", "utf8")
+  all.push(record)
+}
+
+/**
+ * All evidence submitted for a bet, oldest first
+ */
+export async function getEvidenceRecords(chainId: number, betAddress: string): Promise<EvidenceRecord[]> {
+  const indexerUrl = getIndexerUrl(chainId)
+  if (indexerUrl) return (await fetchEvidenceRecords(indexerUrl, betAddress)).evidence
+
+  assertLocalIndex(chainId)
+  const all = await loadRecords()
+  const bet = betAddress.toLowerCase()
+  return all.filter((record) => record.chainId === chainId && record.betAddress === bet)
+}
@@ -0,0 +1,62 @@
+import { CID_PATTERN, computeRawCid } from "../content"
+import type { EvidenceStore } from "../types"
+
+// Gateway and API requests give up after this long
+const IPFS_TIMEOUT_MS = 15 * 1000
+
+interface IpfsEvidenceStoreOptions {
+  apiUrl: string // Kubo-compatible RPC endpoint, e.g. http://127.0.0.1:5001 or a pinning service
+  gatewayUrl: string // HTTP gateway used for reads
+  authorization?: string // full Authorization header value for the RPC endpoint
+}
+
+/**
+ * Production store: pins blobs through the Kubo RPC API (/api/v0/add) and reads them back
+ * through an HTTP gateway. Any IPFS node or pinning service that speaks the Kubo API works.
+ */
+export function createIpfsEvidenceStore(options: IpfsEvidenceStoreOptions): EvidenceStore {
+  const apiUrl = options.apiUrl.replace(/\/+$/, "")
+  const gatewayUrl = options.gatewayUrl.replace(/\/+$/, "")
+
+  return {
+    name: "ipfs",
+
+    async put(bytes) {
+      const form = new FormData()
+      form.append("file", new Blob([new Uint8Array(bytes)]))
+
+      const response = await fetch(`${apiUrl}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`, {
+        method: "POST",
+        headers: options.authorization ? { Authorization: options.authorization } : undefined,
+        body: form,
+        signal: AbortSignal.timeout(IPFS_TIMEOUT_MS),
+      })
+      if (!response.ok) {
+        throw new Error(`IPFS add failed: ${response.status} ${await response.text()}`)
+      }
+
+      const result = (await response.json()) as { Hash?: string }
+      if (!result.Hash) {
+        throw new Error("IPFS add returned no CID")
+      }
+      return result.Hash
+    },
+
+    async get(cid) {
+      if (!CID_PATTERN.test(cid)) return null
+
+      const response = await fetch(`${gatewayUrl}/ipfs/${cid}`, { signal: AbortSignal.timeout(IPFS_TIMEOUT_MS) })
+      if (response.status === 404) return null
+      if (!response.ok) {
+        throw new Error(`IPFS gateway read failed: ${response.status}`)
+      }
+
+      const bytes = new Uint8Array(await response.arrayBuffer())
+      // Raw single-block CIDs can be checked here; gateways verify chunked files themselves
+      if (cid.startsWith("bafk") && computeRawCid(bytes) !== cid) {
+        throw new Error(`IPFS gateway returned content that does not match ${cid}`)
+      }
+      return bytes
+    },
+  }
+}
@@ -0,0 +1,38 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { isErrorCode } from "../../utils"
+import { CID_PATTERN, computeRawCid } from "../content"
+import type { EvidenceStore } from "../types"
+
+/**
+ * Development store: one file per blob, named by its CID, under EVIDENCE_LOCAL_DIR
+ */
+export function createLocalEvidenceStore(
+  directory = process.env.EVIDENCE_LOCAL_DIR || path.join(process.cwd(), ".data", "evidence")
+): EvidenceStore {
+  return {
+    name: "local",
+
+    async put(bytes) {
+      const cid = computeRawCid(bytes)
+      await mkdir(directory, { recursive: true })
+      // Same bytes, same CID - an existing file never needs rewriting
+      await writeFile(path.join(directory, cid), bytes, { flag: "wx" }).catch((error: unknown) => {
+        if (!isErrorCode(error, "EEXIST")) throw error
+      })
+      return cid
+    },
+
+    async get(cid) {
+      if (!CID_PATTERN.test(cid)) return null
+
+      try {
+        const bytes = new Uint8Array(await readFile(path.join(directory, cid)))
+        return computeRawCid(bytes) === cid ? bytes : null
+      } catch (error: unknown) {
+        if (isErrorCode(error, "ENOENT")) return null
+        throw error
+      }
+    },
+  }
+}
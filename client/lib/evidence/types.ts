@@ -0,0 +1,55 @@
+import type { Hex } from "viem"
+
+export const EVIDENCE_VERSION = 1
+
+export interface EvidenceImage {
+  cid: string // content id of the uploaded image bytes
+  mimeType: string
+  name: string
+}
+
+/**
+ * The evidence document a party signs. Stored as canonical JSON (see canonicalizeEvidence),
+ * so the document's bytes, its CID and its keccak256 hash all describe the same content.
+ */
+export interface EvidenceContent {
+  version: typeof EVIDENCE_VERSION
+  chainId: number
+  betAddress: string // lowercase
+  text: string
+  links: string[]
+  images: EvidenceImage[]
+}
+
+/**
+ * Index entry for a submitted evidence document (kept by the indexer, or a JSONL file in development)
+ */
+export interface EvidenceRecord {
+  cid: string // content id of the evidence document
+  contentHash: Hex // keccak256 of the canonical document, the value the submitter signed
+  chainId: number
+  betAddress: string // lowercase
+  submitter: string // lowercase
+  signature: Hex
+  submittedAt: number // unix seconds
+}
+
+/**
+ * Evidence as served to the dispute views, re-verified on every read
+ */
+export interface EvidenceEntry extends EvidenceRecord {
+  content: EvidenceContent | null // null when the store no longer has the document
+  contentValid: boolean // stored document still hashes to contentHash
+  signatureValid: boolean // signature over the signing message recovers to submitter
+}
+
+/**
+ * Content-addressed blob storage (local directory in development, IPFS in production)
+ */
+export interface EvidenceStore {
+  name: string
+  put(bytes: Uint8Array): Promise<string> // returns the CID
+  get(cid: string): Promise<Uint8Array | null>
+}
+
+export type EvidenceStoreName = "local" | "ipfs"
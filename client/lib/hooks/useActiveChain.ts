@@ -0,0 +1,79 @@
+import { useCallback, useSyncExternalStore } from "react"
+import { useActiveWallet, useActiveWalletChain, useSwitchActiveWalletChain } from "thirdweb/react"
+import type { Chain } from "thirdweb"
+import { DEFAULT_CHAIN, getChain, isSupportedChainId } from "../chains"
+
+const STORAGE_KEY = "just-a-bet:chainId"
+
+// Chain picked in the network switcher, shared by every component without a provider
+let selectedChainId: number | null = null
+const listeners = new Set<() => void>()
+
+function getSelectedChainId(): number {
+  if (selectedChainId === null) {
+    const stored = Number(window.localStorage.getItem(STORAGE_KEY))
+    selectedChainId = isSupportedChainId(stored) ? stored : DEFAULT_CHAIN.id
+  }
+  return selectedChainId
+}
+
+function setSelectedChainId(chainId: number) {
+  selectedChainId = chainId
+  window.localStorage.setItem(STORAGE_KEY, chainId.toString())
+  listeners.forEach((listener) => listener())
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Hook to get the chain the app is reading from and writing to.
+ * Follows the connected wallet when it is on a supported chain, otherwise the network switcher selection.
+ */
+export function useActiveChain(): Chain {
+  const walletChain = useActiveWalletChain()
+  const selectedId = useSyncExternalStore(subscribe, getSelectedChainId, () => DEFAULT_CHAIN.id)
+
+  if (walletChain && isSupportedChainId(walletChain.id)) {
+    return getChain(walletChain.id)
+  }
+  return getChain(selectedId)
+}
+
+/**
+ * Hook to get the active chain id (handy for react-query keys)
+ */
+export function useActiveChainId(): number {
+  return useActiveChain().id
+}
+
+/**
+ * Hook to switch networks - switches the connected wallet too
+ */
+export function useSwitchChain() {
+  const wallet = useActiveWallet()
+  const switchActiveWalletChain = useSwitchActiveWalletChain()
+
+  return useCallback(
+    async (chainId: number) => {
+      const chain = getChain(chainId)
+      if (wallet) {
+        await switchActiveWalletChain(chain)
+      }
+      setSelectedChainId(chain.id)
+    },
+    [wallet, switchActiveWalletChain]
+  )
+}
+
+/**
+ * Hook to detect a wallet connected to a network the app has no contracts on
+ */
+export function useIsWrongNetwork(): boolean {
+  const walletChain = useActiveWalletChain()
+  return !!walletChain && !isSupportedChainId(walletChain.id)
+}
@@ -0,0 +1,116 @@
+import { useCallback } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useActiveAccount } from "thirdweb/react"
+import { getContract, prepareContractCall, readContract } from "thirdweb"
+import { parseAbiItem, type AbiFunction } from "viem"
+import { client } from "@/lib/thirdweb"
+import { BetFactory, BetRiskValidator, CDOPool, DisputeManager, JudgeRegistry } from "../contracts/generated"
+import type { AdminAction } from "../admin/actions"
+import type { AdminCall } from "../admin/batch"
+import type { AdminFieldValue } from "../admin/fields"
+import { useActiveChain } from "./useActiveChain"
+import { useContractAddresses } from "./useContracts"
+import { usePoolRegistry } from "./usePools"
+import { useTrackedTransaction, type TrackedTransactionOptions } from "./useTransactions"
+
+/**
+ * Hook to find who may use the admin console: the owner of any protocol contract,
+ * or a signer of a Safe that owns one
+ */
+export function useAdminAccess() {
+  const chain = useActiveChain()
+  const account = useActiveAccount()
+  const addresses = useContractAddresses()
+  const { pools, isLoading: isLoadingPools } = usePoolRegistry()
+
+  const contracts = [
+    addresses.betFactory,
+    addresses.betRiskValidator,
+    addresses.judgeRegistry,
+    addresses.disputeManager,
+    ...pools.map((pool) => pool.address),
+  ]
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["adminOwners", contracts, chain.id],
+    queryFn: async () => {
+      const owners = await Promise.all(
+        [
+          BetFactory.read(BetFactory.at(chain, addresses.betFactory), "owner", []),
+          BetRiskValidator.read(BetRiskValidator.at(chain, addresses.betRiskValidator), "owner", []),
+          JudgeRegistry.read(JudgeRegistry.at(chain, addresses.judgeRegistry), "owner", []),
+          DisputeManager.read(DisputeManager.at(chain, addresses.disputeManager), "owner", []),
+          ...pools.map((pool) => CDOPool.read(CDOPool.at(chain, pool.address), "owner", [])),
+        ].map((read) => read.catch(() => null))
+      )
+
+      // Owners that are Safes expose their signers
+      const distinct = Array.from(new Set(owners.filter((owner) => owner !== null).map((o) => o.toLowerCase())))
+      const signers = await Promise.all(
+        distinct.map((owner) =>
+          readContract({
+            contract: getContract({ client, chain, address: owner }),
+            method: "function getOwners() view returns (address[])",
+            params: [],
+          }).catch(() => [] as readonly string[])
+        )
+      )
+
+      return {
+        owners: distinct,
+        safes: distinct
+          .map((owner, i) => ({ address: owner, signers: signers[i].map((signer) => signer.toLowerCase()) }))
+          .filter((safe) => safe.signers.length > 0),
+      }
+    },
+    enabled: !!account && !isLoadingPools,
+    staleTime: 300000,
+  })
+
+  const user = account?.address.toLowerCase()
+  const isOwner = !!user && !!data?.owners.includes(user)
+  const safe = user ? data?.safes.find((s) => s.signers.includes(user)) ?? null : null
+
+  return {
+    isOwner,
+    isSafeSigner: !!safe,
+    safeAddress: safe?.address ?? data?.safes[0]?.address ?? null,
+    hasAccess: isOwner || !!safe,
+    isLoading: !!account && (isLoading || isLoadingPools),
+  }
+}
+
+/**
+ * Hook to read the current values an admin action would change
+ * @param key What the action operates on, for actions that have a key (pool, category, ...)
+ */
+export function useAdminState(action: AdminAction, key?: AdminFieldValue) {
+  const chain = useActiveChain()
+  const addresses = useContractAddresses()
+
+  return useQuery({
+    queryKey: ["adminState", action.id, typeof key === "bigint" ? key.toString() : key, chain.id],
+    queryFn: () => action.read({ chain, addresses }, key),
+    enabled: !action.key || key !== undefined,
+    staleTime: 10000,
+  })
+}
+
+/**
+ * Hook to send a prepared admin call from the connected owner wallet
+ */
+export function useSendAdminCall() {
+  const chain = useActiveChain()
+  const { send, ...status } = useTrackedTransaction()
+
+  const sendAdminCall = useCallback((call: AdminCall, options?: Pick<TrackedTransactionOptions, "onSuccess" | "onError">) => {
+    const transaction = prepareContractCall({
+      contract: getContract({ client, chain, address: call.to }),
+      method: parseAbiItem(call.signature) as AbiFunction,
+      params: call.args,
+    })
+    send(transaction, { label: call.title, invalidate: [["adminState", call.actionId], ["poolRegistry"]], ...options })
+  }, [chain, send])
+
+  return { sendAdminCall, ...status }
+}
@@ -1,92 +1,57 @@
-import { useSendTransaction } from "thirdweb/react"
-import { prepareContractCall, getContract } from "thirdweb"
-import { client, mantleSepolia } from "@/lib/thirdweb"
-import { ABIS } from "../contracts/abis"
+import { Bet } from "../contracts/generated"
+import { useBetContract } from "./useContracts"
+import { useTrackedTransaction, type TrackedTransactionOptions } from "./useTransactions"
 import { useCallback } from "react"
 
+type ActionCallbacks = Pick<TrackedTransactionOptions, "onSuccess" | "onError">
+
 /**
- * Get bet contract instance
+ * Queries a bet action can change: the bet itself, the lists it appears in, and pool stats
+ * (house bets move pool liquidity when they are matched and settled)
  */
-function getBetContract(betAddress: string) {
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: betAddress as `0x${string}`,
-    abi: ABIS.Bet as any,
-  })
+function betQueryKeys(betAddress: string) {
+  return [
+    ["bet", betAddress],
+    ["betPayout", betAddress],
+    ["betDispute", betAddress],
+    ["bets"],
+    ["userBets"],
+    ["exploreBets"],
+    ["poolStats"],
+  ]
 }
 
 /**
  * Hook to accept a pending bet (become the opponent)
  */
 export function useAcceptBet(betAddress: string) {
-  const contract = getBetContract(betAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const contract = useBetContract(betAddress)
+  const { send, ...status } = useTrackedTransaction()
 
-  const acceptBet = useCallback((options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
-    const transaction = prepareContractCall({
-      contract,
-      method: "function acceptBet()",
-      params: [],
-    })
-    sendTransaction(transaction, {
-      onSuccess: (result) => {
-        if (options?.onSuccess) options.onSuccess(result)
-      },
-      onError: (error) => {
-        if (options?.onError) options.onError(error)
-      },
-    })
-  }, [contract, sendTransaction])
+  const acceptBet = useCallback((options?: ActionCallbacks) => {
+    const transaction = Bet.prepare(contract, "acceptBet", [])
+    send(transaction, { label: "Accept bet", invalidate: betQueryKeys(betAddress), ...options })
+  }, [contract, send, betAddress])
 
-  return {
-    acceptBet,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
+  return { acceptBet, ...status }
 }
 
 /**
  * Hook to fund creator stake
  */
 export function useFundCreatorStake(betAddress: string) {
-  const contract = getBetContract(betAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const contract = useBetContract(betAddress)
+  const { send, ...status } = useTrackedTransaction()
 
-  const fundCreator = useCallback((options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
+  const fundCreator = useCallback((options?: ActionCallbacks) => {
     console.log("fundCreator called for bet:", betAddress)
 
-    const transaction = prepareContractCall({
-      contract,
-      method: "function fundCreator()",
-      params: [],
-    })
-
-    console.log("Transaction prepared:", transaction)
+    const transaction = Bet.prepare(contract, "fundCreator", [])
 
-    sendTransaction(transaction, {
-      onSuccess: (result) => {
-        console.log("Fund creator successful:", result)
-        if (options?.onSuccess) options.onSuccess(result)
-      },
-      onError: (error) => {
-        console.error("Fund creator error:", error)
-        if (options?.onError) options.onError(error)
-      },
-    })
-  }, [contract, sendTransaction, betAddress])
+    send(transaction, { label: "Fund creator stake", invalidate: betQueryKeys(betAddress), ...options })
+  }, [contract, send, betAddress])
 
-  return {
-    fundCreator,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
+  return { fundCreator, ...status }
 }
 
 /**
@@ -101,34 +66,16 @@ export function useFundBet(betAddress: string) {
  * Hook to declare outcome (winner declares first)
  */
 export function useDeclareOutcome(betAddress: string) {
-  const contract = getBetContract(betAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const contract = useBetContract(betAddress)
+  const { send, ...status } = useTrackedTransaction()
 
-  const declareOutcome = useCallback((outcome: number, options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
+  const declareOutcome = useCallback((outcome: number, options?: ActionCallbacks) => {
     // 1 = CreatorWins, 2 = OpponentWins, 3 = Draw
-    const transaction = prepareContractCall({
-      contract,
-      method: "function declareOutcome(uint8)",
-      params: [outcome],
-    })
-    sendTransaction(transaction, {
-      onSuccess: (result) => {
-        if (options?.onSuccess) options.onSuccess(result)
-      },
-      onError: (error) => {
-        if (options?.onError) options.onError(error)
-      },
-    })
-  }, [contract, sendTransaction])
+    const transaction = Bet.prepare(contract, "declareOutcome", [outcome])
+    send(transaction, { label: "Declare outcome", invalidate: betQueryKeys(betAddress), ...options })
+  }, [contract, send, betAddress])
 
-  return {
-    declareOutcome,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
+  return { declareOutcome, ...status }
 }
 
 /**
@@ -136,33 +83,15 @@ export function useDeclareOutcome(betAddress: string) {
  * (This is how the other party "agrees" - by not disputing and waiting for window to expire)
  */
 export function useFinalizeResolution(betAddress: string) {
-  const contract = getBetContract(betAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const contract = useBetContract(betAddress)
+  const { send, ...status } = useTrackedTransaction()
 
-  const finalizeResolution = useCallback((options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
-    const transaction = prepareContractCall({
-      contract,
-      method: "function finalizeResolution()",
-      params: [],
-    })
-    sendTransaction(transaction, {
-      onSuccess: (result) => {
-        if (options?.onSuccess) options.onSuccess(result)
-      },
-      onError: (error) => {
-        if (options?.onError) options.onError(error)
-      },
-    })
-  }, [contract, sendTransaction])
+  const finalizeResolution = useCallback((options?: ActionCallbacks) => {
+    const transaction = Bet.prepare(contract, "finalizeResolution", [])
+    send(transaction, { label: "Finalize resolution", invalidate: betQueryKeys(betAddress), ...options })
+  }, [contract, send, betAddress])
 
-  return {
-    finalizeResolution,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
+  return { finalizeResolution, ...status }
 }
 
 /**
@@ -170,90 +99,28 @@ export function useFinalizeResolution(betAddress: string) {
  * Note: The reason is not stored on-chain in the Bet contract, but should be submitted to DisputeManager
  */
 export function useRaiseDispute(betAddress: string) {
-  const contract = getBetContract(betAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const contract = useBetContract(betAddress)
+  const { send, ...status } = useTrackedTransaction()
 
-  const raiseDispute = useCallback((options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
-    const transaction = prepareContractCall({
-      contract,
-      method: "function raiseDispute()",
-      params: [],
-    })
-    sendTransaction(transaction, {
-      onSuccess: (result) => {
-        if (options?.onSuccess) options.onSuccess(result)
-      },
-      onError: (error) => {
-        if (options?.onError) options.onError(error)
-      },
-    })
-  }, [contract, sendTransaction])
+  const raiseDispute = useCallback((options?: ActionCallbacks) => {
+    const transaction = Bet.prepare(contract, "raiseDispute", [])
+    send(transaction, { label: "Raise dispute", invalidate: betQueryKeys(betAddress), ...options })
+  }, [contract, send, betAddress])
 
-  return {
-    raiseDispute,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
+  return { raiseDispute, ...status }
 }
 
 /**
  * Hook to cancel a bet (only if not funded yet)
  */
 export function useCancelBet(betAddress: string) {
-  const contract = getBetContract(betAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
-
-  const cancelBet = () => {
-    const transaction = prepareContractCall({
-      contract,
-      method: "function cancelBet()",
-      params: [],
-    })
-    sendTransaction(transaction)
-  }
-
-  return {
-    cancelBet,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
-}
-
-/**
- * Hook to claim winnings after bet is resolved
- */
-export function useClaimWinnings(betAddress: string) {
-  const contract = getBetContract(betAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const contract = useBetContract(betAddress)
+  const { send, ...status } = useTrackedTransaction()
 
-  const claimWinnings = useCallback((options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
-    const transaction = prepareContractCall({
-      contract,
-      method: "function claimWinnings()",
-      params: [],
-    })
-    sendTransaction(transaction, {
-      onSuccess: (result) => {
-        if (options?.onSuccess) options.onSuccess(result)
-      },
-      onError: (error) => {
-        if (options?.onError) options.onError(error)
-      },
-    })
-  }, [contract, sendTransaction])
+  const cancelBet = useCallback((options?: ActionCallbacks) => {
+    const transaction = Bet.prepare(contract, "cancelBet", [])
+    send(transaction, { label: "Cancel bet", invalidate: betQueryKeys(betAddress), ...options })
+  }, [contract, send, betAddress])
 
-  return {
-    claimWinnings,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
+  return { cancelBet, ...status }
 }
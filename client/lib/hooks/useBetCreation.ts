@@ -1,67 +1,58 @@
-import { useReadContract, useSendTransaction } from "thirdweb/react"
-import { prepareContractCall, toUnits } from "thirdweb"
-import { useBetFactoryContract, useUSDCContract } from "./useContracts"
+import { toUnits } from "thirdweb"
+import type { Hex } from "viem"
+import { BetFactory, ERC20 } from "../contracts/generated"
+import { useBetFactoryContract, useContractRead, useUSDCContract } from "./useContracts"
+import { useTrackedTransaction, type TrackedTransactionOptions } from "./useTransactions"
 
 /**
  * Hook for creating a new bet
  */
 export function useCreateBet() {
   const betFactory = useBetFactoryContract()
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
-
-  const createBet = (params: {
-    opponentIdentifier: string
-    stakeAmount: string // in USDC
-    description: string
-    outcomeDescription: string
-    duration: number // in seconds
-    tags: string[]
-  }) => {
+  const { send, ...status } = useTrackedTransaction()
+
+  const createBet = (
+    params: {
+      opponentIdentifier: string
+      stakeAmount: string // in USDC
+      description: string
+      outcomeDescription: string
+      duration: number // in seconds
+      tags: string[]
+      attestation?: Hex // encoded AI validation attestation, appended to calldata for house bets
+    },
+    options?: Pick<TrackedTransactionOptions, "onSuccess" | "onError">
+  ) => {
     console.log("createBet called with params:", params)
 
-    try {
-      // Convert stake amount to 6 decimals (USDC)
-      const stakeAmountWei = toUnits(params.stakeAmount, 6)
-      console.log("Stake amount in wei:", stakeAmountWei.toString())
-
-      const transaction = prepareContractCall({
-        contract: betFactory,
-        method: "function createBet(string, uint256, string, string, uint256, string[])",
-        params: [
-          params.opponentIdentifier,
-          stakeAmountWei,
-          params.description,
-          params.outcomeDescription,
-          BigInt(params.duration),
-          params.tags,
-        ],
-      })
-
-      console.log("Transaction prepared:", transaction)
-      console.log("Calling sendTransaction...")
-
-      sendTransaction(transaction, {
-        onSuccess: (result) => {
-          console.log("Transaction successful:", result)
-        },
-        onError: (error) => {
-          console.error("Transaction error:", error)
-        },
-      })
-    } catch (err) {
-      console.error("Error in createBet:", err)
-      throw err
-    }
+    // Convert stake amount to 6 decimals (USDC)
+    const stakeAmountWei = toUnits(params.stakeAmount, 6)
+    console.log("Stake amount in wei:", stakeAmountWei.toString())
+
+    const transaction = BetFactory.prepare(
+      betFactory,
+      "createBet",
+      [
+        params.opponentIdentifier,
+        stakeAmountWei,
+        params.description,
+        params.outcomeDescription,
+        BigInt(params.duration),
+        params.tags,
+      ],
+      { extraCallData: params.attestation }
+    )
+
+    console.log("Transaction prepared:", transaction)
+
+    send(transaction, {
+      label: "Create bet",
+      invalidate: [["betAddresses"], ["bets"], ["userBets"], ["exploreBets"], ["poolStats"]],
+      ...options,
+    })
   }
 
-  return {
-    createBet,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
+  return { createBet, ...status }
 }
 
 /**
@@ -69,48 +60,20 @@ export function useCreateBet() {
  */
 export function useUSDCApproval(spenderAddress: string) {
   const usdc = useUSDCContract()
-  const { mutate: sendTransaction, data: transactionResult, isPending } = useSendTransaction()
+  const { send, ...status } = useTrackedTransaction()
 
-  const approve = (amount: string, options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
+  const approve = (amount: string, options?: Pick<TrackedTransactionOptions, "onSuccess" | "onError">) => {
     console.log("approve called with amount:", amount, "spender:", spenderAddress)
 
-    try {
-      const amountWei = toUnits(amount, 6)
-      console.log("Approval amount in wei:", amountWei.toString())
-
-      const transaction = prepareContractCall({
-        contract: usdc,
-        method: "function approve(address, uint256) returns (bool)",
-        params: [spenderAddress, amountWei],
-      })
-
-      console.log("Approval transaction prepared:", transaction)
-
-      const txOptions: any = {
-        onSuccess: (result: any) => {
-          console.log("Approval successful:", result)
-          if (options?.onSuccess) options.onSuccess(result)
-        },
-        onError: (error: any) => {
-          console.error("Approval error:", error)
-          if (options?.onError) options.onError(error)
-        },
-      }
-
-      sendTransaction(transaction, txOptions)
-    } catch (err) {
-      console.error("Error in approve:", err)
-      throw err
-    }
-  }
+    const amountWei = toUnits(amount, 6)
+    console.log("Approval amount in wei:", amountWei.toString())
 
-  return {
-    approve,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult,
-    hash: transactionResult?.transactionHash,
+    const transaction = ERC20.prepare(usdc, "approve", [spenderAddress, amountWei])
+
+    send(transaction, { label: "Approve USDC", ...options })
   }
+
+  return { approve, ...status }
 }
 
 /**
@@ -119,14 +82,10 @@ export function useUSDCApproval(spenderAddress: string) {
 export function useUSDCAllowance(owner: string | undefined, spender: string) {
   const usdc = useUSDCContract()
 
-  const { data: allowance, refetch } = useReadContract({
-    contract: usdc,
-    method: "function allowance(address, address) view returns (uint256)",
-    params: owner ? [owner, spender] as any : undefined,
-  })
+  const { data: allowance, refetch } = useContractRead(usdc, "allowance", owner ? [owner, spender] : undefined)
 
   return {
-    allowance: allowance ? BigInt(allowance.toString()) : undefined,
+    allowance,
     refetch,
   }
 }
@@ -137,14 +96,10 @@ export function useUSDCAllowance(owner: string | undefined, spender: string) {
 export function useUSDCBalance(address: string | undefined) {
   const usdc = useUSDCContract()
 
-  const { data: balance, refetch } = useReadContract({
-    contract: usdc,
-    method: "function balanceOf(address) view returns (uint256)",
-    params: address ? [address] as any : undefined,
-  })
+  const { data: balance, refetch } = useContractRead(usdc, "balanceOf", address ? [address] : undefined)
 
   return {
-    balance: balance ? BigInt(balance.toString()) : undefined,
+    balance,
     refetch,
   }
 }
@@ -1,18 +1,11 @@
-import { useQuery } from "@tanstack/react-query"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
 import { useActiveAccount } from "thirdweb/react"
-import { readContract, getContract } from "thirdweb"
 import { useBetFactoryContract } from "./useContracts"
-import { client, mantleSepolia } from "@/lib/thirdweb"
-import { ABIS } from "../contracts/abis"
-
-// Utility to split array into chunks
-function chunk<T>(array: T[], size: number): T[][] {
-  const chunks: T[][] = []
-  for (let i = 0; i < array.length; i += size) {
-    chunks.push(array.slice(i, i + size))
-  }
-  return chunks
-}
+import { BetFactory } from "../contracts/generated"
+import { useActiveChain } from "./useActiveChain"
+import { readBetDetailsBatch } from "../contracts/bet-reader"
+import { isHouseAddress } from "../utils/bet-helpers"
+import { fetchIndexedBets, fetchIndexer, getIndexerUrl, toBetData, type BetSort, type IndexedBet } from "../indexer/client"
 
 /**
  * Fetch all bet addresses from BetFactory
@@ -21,14 +14,10 @@ export function useAllBetAddresses() {
   const betFactory = useBetFactoryContract()
 
   return useQuery({
-    queryKey: ["betAddresses"],
+    queryKey: ["betAddresses", betFactory.chain.id],
     queryFn: async () => {
-      const addresses = await readContract({
-        contract: betFactory,
-        method: "function getAllBets() view returns (address[])",
-        params: [],
-      })
-      return addresses as string[]
+      const addresses = await BetFactory.read(betFactory, "getAllBets", [])
+      return [...addresses]
     },
     staleTime: 30000, // 30 seconds
   })
@@ -38,65 +27,14 @@ export function useAllBetAddresses() {
  * Fetch details for a single bet
  */
 export function useBetDetails(betAddress: string) {
+  const chain = useActiveChain()
+
   return useQuery({
-    queryKey: ["bet", betAddress],
+    queryKey: ["bet", betAddress, chain.id],
     queryFn: async () => {
-      const contract = getContract({
-        client,
-        chain: mantleSepolia,
-        address: betAddress as `0x${string}`,
-        abi: ABIS.Bet as any,
-      })
-
-      // Thirdweb will use the ABI we provided to the contract
-      const details = await readContract({
-        contract,
-        method: "getBetDetails",
-        params: [],
-      })
-
-      // Fetch funding status separately
-      const creatorFunded = await readContract({
-        contract,
-        method: "function creatorFunded() view returns (bool)",
-        params: [],
-      })
-
-      const opponentFunded = await readContract({
-        contract,
-        method: "function opponentFunded() view returns (bool)",
-        params: [],
-      })
-
-      // Fetch resolution data
-      const resolution = await readContract({
-        contract,
-        method: "function resolution() view returns (uint256 disputeWindowDuration, address declaredWinner, uint256 declaredAt, uint256 disputeDeadline)",
-        params: [],
-      })
-
-      // Transform to UI format - details is a struct object
-      return {
-        address: betAddress,
-        creator: details.creator as string,
-        opponent: details.opponent as string,
-        stakeAmount: BigInt(details.stakeAmount?.toString() ?? "0"),
-        description: details.description as string,
-        outcomeDescription: details.outcomeDescription as string,
-        createdAt: BigInt(details.createdAt?.toString() ?? "0"),
-        expiresAt: BigInt(details.expiresAt?.toString() ?? "0"),
-        state: Number(details.state ?? 0), // 0=Created, 1=Active, 2=AwaitingResolution, 3=InDispute, 4=Resolved, 5=Cancelled
-        outcome: Number(details.outcome ?? 0), // 0=Pending, 1=CreatorWins, 2=OpponentWins, 3=Draw
-        creatorFunded: Boolean(creatorFunded),
-        opponentFunded: Boolean(opponentFunded),
-        tags: (details.tags as string[]) || [],
-        resolution: {
-          disputeWindowDuration: Number(resolution[0] ?? 0),
-          declaredWinner: resolution[1] as string,
-          declaredAt: Number(resolution[2] ?? 0),
-          disputeDeadline: Number(resolution[3] ?? 0),
-        },
-      }
+      const [bet] = await readBetDetailsBatch(chain, [betAddress])
+      if (!bet) throw new Error(`Failed to load bet ${betAddress}`)
+      return bet
     },
     enabled: !!betAddress && betAddress !== "0x0000000000000000000000000000000000000000",
     staleTime: 30000,
@@ -104,11 +42,15 @@ export function useBetDetails(betAddress: string) {
 }
 
 /**
- * Fetch multiple bets in batches
+ * Fetch multiple bets through Multicall3, seeding each bet's ["bet", address] cache entry
+ * so opening a bet from a list doesn't refetch it
  */
 export function useBatchBetDetails(addresses: string[]) {
+  const chain = useActiveChain()
+  const queryClient = useQueryClient()
+
   return useQuery({
-    queryKey: ["bets", addresses],
+    queryKey: ["bets", addresses, chain.id],
     queryFn: async () => {
       if (!addresses || addresses.length === 0) return []
 
@@ -117,72 +59,87 @@ export function useBatchBetDetails(addresses: string[]) {
         (addr) => addr && addr !== "0x0000000000000000000000000000000000000000"
       )
 
-      // Fetch in batches of 10 to avoid rate limits
-      const batches = chunk(validAddresses, 10)
-      const results = []
-
-      for (const batch of batches) {
-        const batchResults = await Promise.all(
-          batch.map(async (addr) => {
-            try {
-              const contract = getContract({
-                client,
-                chain: mantleSepolia,
-                address: addr as `0x${string}`,
-                abi: ABIS.Bet as any,
-              })
-
-              // Thirdweb will use the ABI we provided to the contract
-              const details = await readContract({
-                contract,
-                method: "getBetDetails",
-                params: [],
-              })
-
-              // Fetch funding status
-              const creatorFunded = await readContract({
-                contract,
-                method: "function creatorFunded() view returns (bool)",
-                params: [],
-              })
-
-              const opponentFunded = await readContract({
-                contract,
-                method: "function opponentFunded() view returns (bool)",
-                params: [],
-              })
-
-              return {
-                address: addr,
-                creator: details.creator as string,
-                opponent: details.opponent as string,
-                stakeAmount: BigInt(details.stakeAmount?.toString() ?? "0"),
-                description: details.description as string,
-                outcomeDescription: details.outcomeDescription as string,
-                createdAt: BigInt(details.createdAt?.toString() ?? "0"),
-                expiresAt: BigInt(details.expiresAt?.toString() ?? "0"),
-                state: Number(details.state ?? 0),
-                outcome: Number(details.outcome ?? 0),
-                creatorFunded: Boolean(creatorFunded),
-                opponentFunded: Boolean(opponentFunded),
-                tags: (details.tags as string[]) || [],
-              }
-            } catch (error) {
-              console.error(`Error fetching bet ${addr}:`, error)
-              return null
-            }
-          })
-        )
-        results.push(...batchResults.filter((r) => r !== null))
-      }
-
-      return results
+      const bets = await readBetDetailsBatch(chain, validAddresses)
+      bets.forEach((bet) => queryClient.setQueryData(["bet", bet.address, chain.id], bet))
+
+      return bets
     },
     enabled: addresses && addresses.length > 0,
     staleTime: 30000,
   })
 }
 
+// UI status filter -> Bet.BetState
+const STATUS_TO_STATE: Record<string, number> = {
+  pending: 0,
+  active: 1,
+  awaiting_resolution: 2,
+  in_dispute: 3,
+  completed: 4,
+  cancelled: 5,
+}
+
+interface ExploreBetsParams {
+  page: number
+  pageSize: number
+  status: string
+  category: string
+  search: string
+  sort: BetSort
+}
+
+/**
+ * Paginated bet listing for the explore page. Served by the indexer when one is
+ * configured for the active chain (filters and sort apply across all bets),
+ * otherwise pages through BetFactory.getAllBets() and reads each bet.
+ */
+export function useExploreBets({ page, pageSize, status, category, search, sort }: ExploreBetsParams) {
+  const chain = useActiveChain()
+  const indexerUrl = getIndexerUrl(chain.id)
+
+  const indexed = useQuery({
+    queryKey: ["exploreBets", page, pageSize, status, category, search, sort, chain.id],
+    queryFn: async () => {
+      const result = await fetchIndexedBets(indexerUrl!, {
+        status: status === "all" ? undefined : STATUS_TO_STATE[status],
+        category: category === "all" ? undefined : category,
+        search: search || undefined,
+        sort,
+        limit: pageSize,
+        offset: page * pageSize,
+      })
+      return { bets: result.bets.map(toBetData), total: result.total }
+    },
+    enabled: !!indexerUrl,
+    staleTime: 30000,
+  })
+
+  const { data: allAddresses, isLoading: isLoadingAddresses, refetch: refetchAddresses } = useAllBetAddresses()
+  const pageAddresses = indexerUrl || !allAddresses ? [] : allAddresses.slice(page * pageSize, (page + 1) * pageSize)
+  const { data: bets, isLoading: isLoadingBets, refetch: refetchBets } = useBatchBetDetails(pageAddresses)
+
+  if (indexerUrl) {
+    return {
+      bets: indexed.data?.bets,
+      total: indexed.data?.total ?? 0,
+      isIndexed: true,
+      isLoading: indexed.isLoading,
+      refetch: indexed.refetch,
+    }
+  }
+
+  return {
+    bets,
+    total: allAddresses?.length ?? 0,
+    isIndexed: false,
+    isLoading: isLoadingAddresses || isLoadingBets,
+    refetch: () => {
+      refetchAddresses()
+      refetchBets()
+    },
+  }
+}
+
 /**
  * Get bets for a specific user (created or joined)
  */
@@ -190,21 +147,27 @@ export function useUserBets(userAddress?: string) {
   const account = useActiveAccount()
   const addressToQuery = userAddress || account?.address
   const betFactory = useBetFactoryContract()
+  const indexerUrl = getIndexerUrl(betFactory.chain.id)
+
+  const indexed = useQuery({
+    queryKey: ["userBets", addressToQuery, "indexed", betFactory.chain.id],
+    queryFn: async () => {
+      const result = await fetchIndexer<{ bets: IndexedBet[] }>(indexerUrl!, `/users/${addressToQuery}/bets`)
+      return result.bets.map(toBetData)
+    },
+    enabled: !!indexerUrl && !!addressToQuery,
+    staleTime: 30000,
+  })
 
   const { data: addresses, isLoading: isLoadingAddresses } = useQuery({
-    queryKey: ["userBets", addressToQuery],
+    queryKey: ["userBets", addressToQuery, betFactory.chain.id],
     queryFn: async () => {
       if (!addressToQuery) return []
 
-      const bets = await readContract({
-        contract: betFactory,
-        method: "function getBetsForUser(address) view returns (address[])",
-        params: [addressToQuery],
-      })
-
-      return bets as string[]
+      const bets = await BetFactory.read(betFactory, "getBetsForUser", [addressToQuery])
+      return [...bets]
     },
-    enabled: !!addressToQuery,
+    enabled: !!addressToQuery && !indexerUrl,
     staleTime: 30000,
   })
 
@@ -214,6 +177,14 @@ export function useUserBets(userAddress?: string) {
     refetch,
   } = useBatchBetDetails(addresses || [])
 
+  if (indexerUrl) {
+    return {
+      bets: indexed.data,
+      isLoading: indexed.isLoading,
+      refetch: indexed.refetch,
+    }
+  }
+
   return {
     bets,
     isLoading: isLoadingAddresses || isLoadingBets,
@@ -261,41 +232,31 @@ export function useJoinedBets(userAddress?: string) {
 }
 
 /**
- * Get count of bets by state
+ * Get the people a user has bet against, most recent first
+ * @param limit Maximum number of counterparties
  */
-export function useBetCountByState() {
-  const betFactory = useBetFactoryContract()
+export function useRecentCounterparties(userAddress?: string, limit = 5) {
+  const { bets, isLoading } = useUserBets(userAddress)
 
-  return useQuery({
-    queryKey: ["betCountByState"],
-    queryFn: async () => {
-      try {
-        const counts = await readContract({
-          contract: betFactory,
-          method: "function getBetCountsByState() view returns (uint256, uint256, uint256, uint256, uint256, uint256)",
-          params: [],
-        })
-
-        return {
-          created: Number(counts[0] ?? 0),
-          active: Number(counts[1] ?? 0),
-          awaitingResolution: Number(counts[2] ?? 0),
-          inDispute: Number(counts[3] ?? 0),
-          resolved: Number(counts[4] ?? 0),
-          cancelled: Number(counts[5] ?? 0),
-        }
-      } catch (error) {
-        console.error("Error fetching bet counts:", error)
-        return {
-          created: 0,
-          active: 0,
-          awaitingResolution: 0,
-          inDispute: 0,
-          resolved: 0,
-          cancelled: 0,
-        }
-      }
-    },
-    staleTime: 60000, // 1 minute
-  })
+  const account = useActiveAccount()
+  const user = (userAddress || account?.address)?.toLowerCase()
+
+  const counterparties: { address: string; lastBetAt: number }[] = []
+  const seen = new Set<string>()
+  const sorted = [...(bets || [])].sort((a, b) => Number(b.createdAt - a.createdAt))
+
+  for (const bet of sorted) {
+    const other = bet.creator.toLowerCase() === user ? bet.opponent : bet.creator
+    const key = other.toLowerCase()
+    if (isHouseAddress(other) || key === user || seen.has(key)) continue
+
+    seen.add(key)
+    counterparties.push({ address: other, lastBetAt: Number(bet.createdAt) })
+    if (counterparties.length >= limit) break
+  }
+
+  return {
+    counterparties,
+    isLoading,
+  }
 }
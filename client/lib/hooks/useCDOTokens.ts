@@ -0,0 +1,163 @@
+import { useCallback } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useActiveAccount } from "thirdweb/react"
+import { CDOPool, ERC20 } from "../contracts/generated"
+import { usePoolRegistry } from "./usePools"
+import { useContractRead, useERC20Contract } from "./useContracts"
+import { useActiveChain } from "./useActiveChain"
+import { useTrackedTransaction } from "./useTransactions"
+
+/**
+ * CDO token amounts are in the pool's share units. CDOPool mints one share per USDC unit at a
+ * 1:1 price, so shares use USDC's 6 decimals even though CDOToken reports ERC20's default 18.
+ */
+export const CDO_SHARE_DECIMALS = 6
+
+const BASIS_POINTS = BigInt(10000)
+
+/**
+ * Hook to get the connected wallet's CDO token holdings and open positions in every pool,
+ * marked to market at the pool's current share price
+ */
+export function useCDOPortfolio(userAddress?: string) {
+  const chain = useActiveChain()
+  const { pools } = usePoolRegistry()
+  const account = useActiveAccount()
+  const addressToQuery = userAddress || account?.address
+
+  return useQuery({
+    queryKey: ["cdoPortfolio", addressToQuery, pools.map((pool) => pool.address), chain.id],
+    queryFn: async () => {
+      const holdings = await Promise.all(
+        pools.map(async (pool) => {
+          const poolContract = CDOPool.at(chain, pool.address)
+          const token = ERC20.at(chain, pool.cdoToken)
+
+          try {
+            const [tokenBalance, stats, positions] = await Promise.all([
+              ERC20.read(token, "balanceOf", [addressToQuery!]),
+              CDOPool.read(poolContract, "stats", []),
+              CDOPool.read(poolContract, "getUserPositions", [addressToQuery!]),
+            ])
+
+            // Same valuation as CDOPool.getUserTotalValue: poolBalance already includes matched funds
+            const { poolBalance: totalAssets, totalShares } = stats
+            const valueOf = (shares: bigint) => (totalShares > BigInt(0) ? (shares * totalAssets) / totalShares : BigInt(0))
+
+            const openPositions = positions
+              .map((position, id) => {
+                const { depositAmount, shares } = position
+                const value = valueOf(shares)
+                const pnl = value - depositAmount
+
+                return {
+                  id,
+                  depositAmount,
+                  shares,
+                  value,
+                  pnl,
+                  pnlBps: depositAmount > BigInt(0) ? Number((pnl * BASIS_POINTS) / depositAmount) : 0,
+                  tier: Number(position.tier),
+                  depositedAt: Number(position.depositedAt),
+                  lockUntil: Number(position.lockUntil),
+                }
+              })
+              // Withdrawn positions stay in the array with zero shares
+              .filter((position) => position.shares > BigInt(0))
+
+            const positionShares = openPositions.reduce((sum, position) => sum + position.shares, BigInt(0))
+
+            return {
+              pool,
+              tokenBalance,
+              tokenValue: valueOf(tokenBalance),
+              // USDC per share, scaled to 6 decimals
+              sharePrice: totalShares > BigInt(0) ? (totalAssets * BigInt(1000000)) / totalShares : BigInt(1000000),
+              totalAssets,
+              totalShares,
+              positions: openPositions,
+              positionShares,
+              // Withdrawals burn the position's shares from the position owner, so a wallet holding fewer
+              // tokens than its positions cannot withdraw, and tokens received by transfer are not redeemable
+              sharesShortfall: positionShares > tokenBalance ? positionShares - tokenBalance : BigInt(0),
+              unbackedTokens: tokenBalance > positionShares ? tokenBalance - positionShares : BigInt(0),
+            }
+          } catch (error) {
+            console.error(`Error fetching CDO holdings for pool ${pool.name}:`, error)
+            return null
+          }
+        })
+      )
+
+      return holdings.filter(
+        (holding): holding is NonNullable<typeof holding> =>
+          !!holding && (holding.tokenBalance > BigInt(0) || holding.positions.length > 0)
+      )
+    },
+    enabled: !!addressToQuery && pools.length > 0,
+    staleTime: 30000,
+  })
+}
+
+export type CDOHolding = NonNullable<ReturnType<typeof useCDOPortfolio>["data"]>[number]
+
+/**
+ * Hook to get how many CDO tokens `spender` may move on behalf of `owner`
+ */
+export function useCDOTokenAllowance(tokenAddress: string, owner?: string, spender?: string) {
+  const token = useERC20Contract(tokenAddress)
+
+  const { data, isLoading, refetch } = useContractRead(token, "allowance", owner && spender ? [owner, spender] : undefined)
+
+  return {
+    allowance: data,
+    isLoading,
+    refetch,
+  }
+}
+
+/**
+ * Hook to transfer CDO tokens
+ * @param tokenAddress CDOToken address (PoolInfo.cdoToken)
+ */
+export function useTransferCDOToken(tokenAddress: string) {
+  const token = useERC20Contract(tokenAddress)
+  const { send, ...status } = useTrackedTransaction()
+
+  const transfer = useCallback(
+    (
+      to: string,
+      shares: bigint,
+      options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }
+    ) => {
+      const transaction = ERC20.prepare(token, "transfer", [to, shares])
+      send(transaction, { label: "Transfer pool shares", invalidate: [["cdoPortfolio"], ["allUserPositions"]], ...options })
+    },
+    [token, send]
+  )
+
+  return { transfer, ...status }
+}
+
+/**
+ * Hook to approve a spender for CDO tokens
+ * @param tokenAddress CDOToken address (PoolInfo.cdoToken)
+ */
+export function useApproveCDOToken(tokenAddress: string) {
+  const token = useERC20Contract(tokenAddress)
+  const { send, ...status } = useTrackedTransaction()
+
+  const approve = useCallback(
+    (
+      spender: string,
+      shares: bigint,
+      options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }
+    ) => {
+      const transaction = ERC20.prepare(token, "approve", [spender, shares])
+      send(transaction, { label: "Approve pool shares", ...options })
+    },
+    [token, send]
+  )
+
+  return { approve, ...status }
+}
@@ -1,114 +1,137 @@
-import { getContract } from "thirdweb"
-import { client, mantleSepolia } from "@/lib/thirdweb"
+import { useQuery } from "@tanstack/react-query"
+import type { ThirdwebContract } from "thirdweb"
+import type { Abi } from "viem"
 import { getContractAddresses } from "../contracts/addresses"
-import { ABIS } from "../contracts/abis"
+import {
+  Bet,
+  BetFactory,
+  BetRiskValidator,
+  BetYieldVault,
+  CDOPool,
+  DisputeManager,
+  ERC20,
+  JudgeRegistry,
+  UsernameRegistry,
+} from "../contracts/generated"
+import { readNamed, type MethodArgs, type ReadMethod } from "../contracts/typed"
+import { useActiveChain } from "./useActiveChain"
 
 /**
- * Hook to get all contract addresses for Mantle Sepolia
+ * Hook to get all contract addresses for the active chain
  */
 export function useContractAddresses() {
-  return getContractAddresses(5003) // Always use Mantle Sepolia
+  const chain = useActiveChain()
+  return getContractAddresses(chain.id)
 }
 
 /**
  * Hook to get BetFactory contract
  */
 export function useBetFactoryContract() {
+  const chain = useActiveChain()
   const addresses = useContractAddresses()
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: addresses.betFactory,
-    abi: ABIS.BetFactory as any, 
-  })
+  return BetFactory.at(chain, addresses.betFactory)
 }
 
 /**
  * Hook to get USDC contract
  */
 export function useUSDCContract() {
+  const chain = useActiveChain()
   const addresses = useContractAddresses()
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: addresses.usdc,
-    abi: ABIS.ERC20 as any,
-  })
+  return ERC20.at(chain, addresses.usdc)
 }
 
 /**
- * Hook to get CDOPool contract for a specific pool
- * @param poolKey - 'sports', 'crypto', 'politics', or 'general'
+ * Hook to get an ERC20 contract (e.g. a pool's CDO share token)
  */
-export function useCDOPoolContract(poolKey: 'sports' | 'crypto' | 'politics' | 'general') {
-  const addresses = useContractAddresses()
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: addresses.pools[poolKey].address,
-    abi: ABIS.CDOPool as any,
-  })
+export function useERC20Contract(tokenAddress: string) {
+  const chain = useActiveChain()
+  return ERC20.at(chain, tokenAddress)
 }
 
 /**
  * Hook to get CDOPool contract by address
  */
 export function useCDOPoolContractByAddress(poolAddress: string) {
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: poolAddress as `0x${string}`,
-    abi: ABIS.CDOPool as any,
-  })
+  const chain = useActiveChain()
+  return CDOPool.at(chain, poolAddress)
 }
 
 /**
  * Hook to get UsernameRegistry contract
  */
 export function useUsernameRegistryContract() {
+  const chain = useActiveChain()
   const addresses = useContractAddresses()
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: addresses.usernameRegistry,
-    abi: ABIS.UsernameRegistry as any,
-  })
+  return UsernameRegistry.at(chain, addresses.usernameRegistry)
 }
 
 /**
  * Hook to get BetRiskValidator contract
  */
 export function useBetRiskValidatorContract() {
+  const chain = useActiveChain()
   const addresses = useContractAddresses()
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: addresses.betRiskValidator,
-    abi: ABIS.BetRiskValidator as any,
-  })
+  return BetRiskValidator.at(chain, addresses.betRiskValidator)
 }
 
 /**
  * Hook to get Bet contract for a specific bet address
  */
 export function useBetContract(betAddress: string) {
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: betAddress,
-    abi: ABIS.Bet as any,
-  })
+  const chain = useActiveChain()
+  return Bet.at(chain, betAddress)
 }
 
 /**
  * Hook to get JudgeRegistry contract
  */
 export function useJudgeRegistryContract() {
+  const chain = useActiveChain()
+  const addresses = useContractAddresses()
+  return JudgeRegistry.at(chain, addresses.judgeRegistry)
+}
+
+/**
+ * Hook to get DisputeManager contract
+ */
+export function useDisputeManagerContract() {
+  const chain = useActiveChain()
   const addresses = useContractAddresses()
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: addresses.judgeRegistry,
-    abi: ABIS.JudgeRegistry as any,
+  return DisputeManager.at(chain, addresses.disputeManager)
+}
+
+/**
+ * Hook to get BetYieldVault contract
+ */
+export function useBetYieldVaultContract() {
+  const chain = useActiveChain()
+  const addresses = useContractAddresses()
+  return BetYieldVault.at(chain, addresses.betYieldVault)
+}
+
+/**
+ * Hook to call a view function of a typed contract, with outputs keyed by name.
+ * Pass undefined params to wait until the inputs are known.
+ * Cached under ["contractRead", chainId, ...] so confirmed transactions refresh it.
+ */
+export function useContractRead<TAbi extends Abi, TName extends ReadMethod<TAbi>>(
+  contract: ThirdwebContract<TAbi>,
+  method: TName,
+  params: MethodArgs<TAbi, TName> | undefined,
+  options?: { refetchInterval?: number; staleTime?: number; retry?: boolean | number }
+) {
+  return useQuery({
+    queryKey: [
+      "contractRead",
+      contract.chain.id,
+      contract.address,
+      method,
+      JSON.stringify(params, (_key, value) => (typeof value === "bigint" ? value.toString() : value)),
+    ],
+    queryFn: () => readNamed(contract, method, params!),
+    enabled: params !== undefined,
+    ...options,
   })
 }
@@ -0,0 +1,327 @@
+import { useCallback } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { useActiveAccount } from "thirdweb/react"
+import { useContractRead, useDisputeManagerContract } from "./useContracts"
+import { useTrackedTransaction } from "./useTransactions"
+import { readBetDetailsBatch } from "../contracts/bet-reader"
+import { DisputeManager, type disputeManagerAbi } from "../contracts/generated"
+import type { ReadResult } from "../contracts/typed"
+import { fetchIndexer, getIndexerUrl, type IndexedDispute } from "../indexer/client"
+
+// DisputeManager.DisputeStatus
+export const DISPUTE_STATUS_LABELS = ["Active", "Resolved", "Appealed", "Expired"] as const
+
+// DisputeManager.DisputeTier -> judges on the panel
+export const DISPUTE_TIER_JUDGES = [1, 3, 5] as const
+
+function parseDispute(disputeId: bigint, data: ReadResult<typeof disputeManagerAbi, "getDispute">) {
+  return {
+    disputeId,
+    betContract: data.betContract as string,
+    initiator: data.initiator as string,
+    createdAt: Number(data.createdAt),
+    votingDeadline: Number(data.votingDeadline),
+    status: data.status, // 0=Active, 1=Resolved, 2=Appealed, 3=Expired
+    tier: data.tier,
+    judgeCount: data.judgeCount,
+    votesSubmitted: data.votesSubmitted,
+    finalOutcome: data.finalOutcome, // Bet.Outcome
+    appealed: data.appealed,
+  }
+}
+
+export type DisputeInfo = ReturnType<typeof parseDispute>
+
+/**
+ * Hook to get a dispute by id
+ * @param disputeId Dispute id (ids start at 1)
+ */
+export function useDispute(disputeId?: bigint) {
+  const contract = useDisputeManagerContract()
+
+  const { data, isLoading, error, refetch } = useContractRead(contract, "getDispute", disputeId ? [disputeId] : undefined)
+
+  // Unknown ids return an empty struct
+  const dispute = disputeId && data && data.createdAt > BigInt(0) ? parseDispute(disputeId, data) : null
+
+  return {
+    dispute,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get the judges assigned to a dispute
+ * @param disputeId Dispute id
+ */
+export function useDisputeJudges(disputeId?: bigint) {
+  const contract = useDisputeManagerContract()
+
+  const { data, isLoading, error, refetch } = useContractRead(
+    contract,
+    "getDisputeJudges",
+    disputeId ? [disputeId] : undefined
+  )
+
+  return {
+    judges: data ? [...data] as string[] : [],
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get a judge's vote on a dispute
+ * @param disputeId Dispute id
+ * @param judgeAddress Judge to query (defaults to the connected account)
+ */
+export function useJudgeVote(disputeId?: bigint, judgeAddress?: string) {
+  const contract = useDisputeManagerContract()
+  const account = useActiveAccount()
+  const addressToQuery = judgeAddress || account?.address
+
+  const { data, isLoading, error, refetch } = useContractRead(
+    contract,
+    "getVote",
+    disputeId && addressToQuery ? [disputeId, addressToQuery] : undefined
+  )
+
+  const vote = data ? {
+    outcome: data.outcome,
+    votedAt: Number(data.votedAt),
+    hasVoted: data.hasVoted,
+  } : null
+
+  return {
+    vote,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get vote tallies for a dispute
+ * @param disputeId Dispute id
+ */
+export function useVoteCounts(disputeId?: bigint) {
+  const contract = useDisputeManagerContract()
+
+  const { data: counts, isLoading, error, refetch } = useContractRead(
+    contract,
+    "getVoteCounts",
+    disputeId ? [disputeId] : undefined
+  )
+
+  return {
+    counts,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to check whether a dispute can be finalized (majority reached or voting period over)
+ * @param disputeId Dispute id
+ */
+export function useCanResolve(disputeId?: bigint) {
+  const contract = useDisputeManagerContract()
+
+  const { data, isLoading, error, refetch } = useContractRead(contract, "canResolve", disputeId ? [disputeId] : undefined)
+
+  return {
+    canResolve: Boolean(data),
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to find the dispute case(s) opened for a bet
+ * Uses the indexer when available, otherwise scans every dispute id.
+ * @param betAddress Bet contract address
+ * @returns The latest dispute (an appeal supersedes the original) and the full history, oldest first
+ */
+export function useBetDispute(betAddress?: string) {
+  const contract = useDisputeManagerContract()
+  const indexerUrl = getIndexerUrl(contract.chain.id)
+
+  return useQuery({
+    queryKey: ["betDispute", betAddress, contract.chain.id],
+    queryFn: async () => {
+      if (!betAddress) return { dispute: null, history: [] }
+
+      let ids: bigint[]
+      if (indexerUrl) {
+        const { disputes } = await fetchIndexer<{ disputes: IndexedDispute[] }>(indexerUrl, "/disputes", { bet: betAddress })
+        ids = disputes.map((d) => BigInt(d.disputeId))
+      } else {
+        const total = Number(await DisputeManager.read(contract, "totalDisputes", []))
+        ids = Array.from({ length: total }, (_, i) => BigInt(i + 1))
+      }
+
+      const disputes = await Promise.all(
+        ids.map(async (disputeId) =>
+          parseDispute(disputeId, await DisputeManager.read(contract, "getDispute", [disputeId]))
+        )
+      )
+
+      const history = disputes
+        .filter((d) => d.betContract.toLowerCase() === betAddress.toLowerCase())
+        .sort((a, b) => Number(a.disputeId - b.disputeId))
+
+      return {
+        dispute: history.length > 0 ? history[history.length - 1] : null,
+        history,
+      }
+    },
+    enabled: !!betAddress,
+    staleTime: 30000,
+  })
+}
+
+/**
+ * Hook to list the disputes a judge sits on, with the disputed bet and the judge's vote
+ * Takes the dispute ids from the indexer when available, otherwise scans every dispute id.
+ * Panels are not indexed, so each dispute's judges are still read from DisputeManager.
+ * @param judgeAddress Judge to query (defaults to the connected account)
+ */
+export function useJudgeDocket(judgeAddress?: string) {
+  const contract = useDisputeManagerContract()
+  const account = useActiveAccount()
+  const addressToQuery = judgeAddress || account?.address
+  const indexerUrl = getIndexerUrl(contract.chain.id)
+
+  return useQuery({
+    queryKey: ["judgeDocket", addressToQuery, contract.chain.id],
+    queryFn: async () => {
+      if (!addressToQuery) return []
+
+      let ids: bigint[]
+      if (indexerUrl) {
+        const { disputes } = await fetchIndexer<{ disputes: IndexedDispute[] }>(indexerUrl, "/disputes")
+        ids = disputes.map((d) => BigInt(d.disputeId))
+      } else {
+        const total = Number(await DisputeManager.read(contract, "totalDisputes", []))
+        ids = Array.from({ length: total }, (_, i) => BigInt(i + 1))
+      }
+
+      const panels = await Promise.all(
+        ids.map((disputeId) => DisputeManager.read(contract, "getDisputeJudges", [disputeId]))
+      )
+
+      const assigned = ids.flatMap((disputeId, i) =>
+        panels[i].some((judge) => judge.toLowerCase() === addressToQuery.toLowerCase())
+          ? [{ disputeId, judges: [...panels[i]] as string[] }]
+          : []
+      )
+
+      const cases = await Promise.all(
+        assigned.map(async ({ disputeId, judges }) => {
+          const [dispute, vote] = await Promise.all([
+            DisputeManager.read(contract, "getDispute", [disputeId]),
+            DisputeManager.read(contract, "getVote", [disputeId, addressToQuery]),
+          ])
+
+          return {
+            ...parseDispute(disputeId, dispute),
+            judges,
+            vote: {
+              outcome: vote.outcome,
+              votedAt: Number(vote.votedAt),
+              hasVoted: vote.hasVoted,
+            },
+          }
+        })
+      )
+
+      const bets = await readBetDetailsBatch(
+        contract.chain,
+        Array.from(new Set(cases.map((c) => c.betContract)))
+      )
+      const betsByAddress = new Map(bets.map((bet) => [bet.address.toLowerCase(), bet]))
+
+      // Open cases first, then newest
+      return cases
+        .map((c) => ({ ...c, bet: betsByAddress.get(c.betContract.toLowerCase()) || null }))
+        .sort((a, b) => Number(a.status !== 0) - Number(b.status !== 0) || Number(b.disputeId - a.disputeId))
+    },
+    enabled: !!addressToQuery,
+    staleTime: 30000,
+  })
+}
+
+export type DocketCase = NonNullable<ReturnType<typeof useJudgeDocket>["data"]>[number]
+
+// Queries a dispute transaction can change - finalizing also resolves the bet
+const DISPUTE_QUERY_KEYS = [["betDispute"], ["judgeDocket"], ["bet"], ["userBets"], ["judgeLeaderboard"]]
+
+/**
+ * Hook to open a dispute case for a disputed bet, which assigns the judge panel
+ * @param betAddress Bet contract address (must be in the Disputed state)
+ */
+export function useCreateDispute(betAddress: string) {
+  const contract = useDisputeManagerContract()
+  const { send, ...status } = useTrackedTransaction()
+
+  const createDispute = useCallback((options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
+    const transaction = DisputeManager.prepare(contract, "createDispute", [betAddress])
+    send(transaction, { label: "Open dispute", invalidate: DISPUTE_QUERY_KEYS, ...options })
+  }, [contract, send, betAddress])
+
+  return { createDispute, ...status }
+}
+
+/**
+ * Hook to submit a judge's vote on a dispute
+ * @param disputeId Dispute id
+ */
+export function useSubmitVote(disputeId: bigint) {
+  const contract = useDisputeManagerContract()
+  const { send, ...status } = useTrackedTransaction()
+
+  const submitVote = useCallback((outcome: number, options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
+    // outcome: 1=CreatorWins, 2=OpponentWins, 3=Draw
+    const transaction = DisputeManager.prepare(contract, "submitVote", [disputeId, outcome])
+    send(transaction, { label: "Submit vote", invalidate: DISPUTE_QUERY_KEYS, ...options })
+  }, [contract, send, disputeId])
+
+  return { submitVote, ...status }
+}
+
+/**
+ * Hook to finalize a dispute once its voting period has ended
+ * @param disputeId Dispute id
+ */
+export function useFinalizeDispute(disputeId: bigint) {
+  const contract = useDisputeManagerContract()
+  const { send, ...status } = useTrackedTransaction()
+
+  const finalizeDispute = useCallback((options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
+    const transaction = DisputeManager.prepare(contract, "finalizeDispute", [disputeId])
+    send(transaction, { label: "Finalize dispute", invalidate: DISPUTE_QUERY_KEYS, ...options })
+  }, [contract, send, disputeId])
+
+  return { finalizeDispute, ...status }
+}
+
+/**
+ * Hook to appeal a resolved dispute to the next tier (bet participants only)
+ * @param disputeId Dispute id
+ */
+export function useAppealDispute(disputeId: bigint) {
+  const contract = useDisputeManagerContract()
+  const { send, ...status } = useTrackedTransaction()
+
+  const appealDispute = useCallback((options?: { onSuccess?: (result: any) => void; onError?: (error: any) => void }) => {
+    const transaction = DisputeManager.prepare(contract, "appealDispute", [disputeId])
+    send(transaction, { label: "Appeal dispute", invalidate: DISPUTE_QUERY_KEYS, ...options })
+  }, [contract, send, disputeId])
+
+  return { appealDispute, ...status }
+}
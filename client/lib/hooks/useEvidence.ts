@@ -0,0 +1,118 @@
+import { useCallback } from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useActiveAccount } from "thirdweb/react"
+import { useActiveChain } from "./useActiveChain"
+import { canonicalizeEvidence, getEvidenceSigningMessage, hashEvidence } from "../evidence/content"
+import { EVIDENCE_VERSION, type EvidenceEntry, type EvidenceImage, type EvidenceRecord } from "../evidence/types"
+
+export interface EvidenceDraft {
+  text: string
+  links: string[]
+  images: File[]
+}
+
+async function readError(response: Response, fallback: string) {
+  const data = await response.json().catch(() => null)
+  return new Error(data?.error || `${fallback} (${response.status})`)
+}
+
+async function uploadEvidenceImage(file: File): Promise<EvidenceImage> {
+  const response = await fetch("/api/evidence/blobs", {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  })
+  if (!response.ok) {
+    throw await readError(response, `Failed to upload ${file.name}`)
+  }
+
+  const data = (await response.json()) as { cid: string; mimeType: string }
+  return { cid: data.cid, mimeType: data.mimeType, name: file.name.slice(0, 100) }
+}
+
+/**
+ * Hook to get the signed evidence both parties submitted for a bet's dispute
+ */
+export function useDisputeEvidence(betAddress?: string) {
+  const chain = useActiveChain()
+
+  return useQuery({
+    queryKey: ["evidence", betAddress, chain.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/evidence?bet=${betAddress}&chainId=${chain.id}`)
+      if (!response.ok) {
+        throw await readError(response, "Failed to load evidence")
+      }
+      const data = (await response.json()) as { evidence: EvidenceEntry[] }
+      return data.evidence
+    },
+    enabled: !!betAddress,
+  })
+}
+
+/**
+ * Hook to submit evidence for a bet: uploads images, signs the evidence hash with the
+ * connected wallet and stores the signed document
+ */
+export function useSubmitEvidence(betAddress: string) {
+  const account = useActiveAccount()
+  const chain = useActiveChain()
+  const queryClient = useQueryClient()
+
+  const { mutate, data, isPending, isSuccess, error } = useMutation({
+    mutationFn: async (draft: EvidenceDraft): Promise<EvidenceRecord> => {
+      if (!account) throw new Error("Connect your wallet to submit evidence")
+
+      const images = await Promise.all(draft.images.map(uploadEvidenceImage))
+      const content = canonicalizeEvidence({
+        version: EVIDENCE_VERSION,
+        chainId: chain.id,
+        betAddress,
+        text: draft.text.trim(),
+        links: draft.links.map((link) => link.trim()).filter(Boolean),
+        images,
+      })
+      const contentHash = hashEvidence(content)
+      const signature = await account.signMessage({ message: getEvidenceSigningMessage(content, contentHash) })
+
+      const response = await fetch("/api/evidence", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content, submitter: account.address, signature }),
+      })
+      if (!response.ok) {
+        throw await readError(response, "Failed to submit evidence")
+      }
+      const result = (await response.json()) as { record: EvidenceRecord }
+      return result.record
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["evidence", betAddress] })
+    },
+  })
+
+  const submitEvidence = useCallback(
+    (
+      draft: EvidenceDraft,
+      options?: { onSuccess?: (record: EvidenceRecord) => void; onError?: (error: any) => void }
+    ) => {
+      mutate(draft, {
+        onSuccess: (record) => {
+          if (options?.onSuccess) options.onSuccess(record)
+        },
+        onError: (error) => {
+          if (options?.onError) options.onError(error)
+        },
+      })
+    },
+    [mutate]
+  )
+
+  return {
+    submitEvidence,
+    isPending,
+    isSuccess,
+    record: data,
+    error,
+  }
+}
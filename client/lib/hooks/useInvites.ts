@@ -0,0 +1,53 @@
+import { useCallback } from "react"
+import { useMutation } from "@tanstack/react-query"
+import { useActiveAccount } from "thirdweb/react"
+import { useActiveChain } from "./useActiveChain"
+import {
+  MAX_INVITE_MESSAGE_LENGTH,
+  buildInviteUrl,
+  getInviteSigningMessage,
+  type BetInvite,
+} from "../invites"
+
+/**
+ * Hook to generate a shareable invite link for a bet. A personal message is signed with the
+ * connected wallet so the invite page can show it as coming from the creator.
+ */
+export function useCreateInvite(betAddress: string) {
+  const account = useActiveAccount()
+  const chain = useActiveChain()
+
+  const { mutate, data, isPending, reset } = useMutation({
+    mutationFn: async (message: string): Promise<string> => {
+      const invite: BetInvite = { chainId: chain.id, betAddress }
+      const trimmed = message.trim()
+
+      if (trimmed) {
+        if (!account) throw new Error("Connect your wallet to sign the invite message")
+        if (trimmed.length > MAX_INVITE_MESSAGE_LENGTH) {
+          throw new Error(`Keep the message under ${MAX_INVITE_MESSAGE_LENGTH} characters`)
+        }
+        invite.message = trimmed
+        invite.signature = await account.signMessage({ message: getInviteSigningMessage(invite) })
+      }
+
+      return buildInviteUrl(window.location.origin, invite)
+    },
+  })
+
+  const createInvite = useCallback(
+    (message: string, options?: { onSuccess?: (url: string) => void; onError?: (error: any) => void }) => {
+      mutate(message, {
+        onSuccess: (url) => {
+          if (options?.onSuccess) options.onSuccess(url)
+        },
+        onError: (error) => {
+          if (options?.onError) options.onError(error)
+        },
+      })
+    },
+    [mutate]
+  )
+
+  return { createInvite, inviteUrl: data, isPending, reset }
+}
@@ -1,7 +1,12 @@
-import { useActiveAccount, useReadContract } from "thirdweb/react"
-import { prepareContractCall, toEther, toWei } from "thirdweb"
-import { useSendTransaction } from "thirdweb/react"
-import { useJudgeRegistryContract } from "./useContracts"
+import { useQuery } from "@tanstack/react-query"
+import { useActiveAccount } from "thirdweb/react"
+import { toEther, toWei } from "thirdweb"
+import { useContractRead, useJudgeRegistryContract } from "./useContracts"
+import { useTrackedTransaction } from "./useTransactions"
+import { JudgeRegistry } from "../contracts/generated"
+
+// Judge profiles are thirdweb reads (refreshed on every confirmation); the leaderboard is cached separately
+const JUDGE_QUERY_KEYS = [["judgeLeaderboard"]]
 
 /**
  * Hook to register as a judge with MNT stake
@@ -9,30 +14,22 @@ import { useJudgeRegistryContract } from "./useContracts"
  */
 export function useJudgeRegistration(stakeAmount: string) {
   const contract = useJudgeRegistryContract()
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const { send, ...status } = useTrackedTransaction()
 
   const registerJudge = async () => {
     if (!stakeAmount || parseFloat(stakeAmount) <= 0) {
       throw new Error("Invalid stake amount")
     }
 
-    const transaction = prepareContractCall({
-      contract,
-      method: "function registerJudge() payable",
-      params: [],
+    const transaction = JudgeRegistry.prepare(contract, "registerJudge", [], {
       value: toWei(stakeAmount),
       gas: BigInt(500000), // Explicit gas limit to prevent "gas limit too low" errors
     })
 
-    sendTransaction(transaction)
+    send(transaction, { label: "Register as judge", invalidate: JUDGE_QUERY_KEYS })
   }
 
-  return {
-    registerJudge,
-    isPending,
-    transactionResult,
-    error,
-  }
+  return { registerJudge, ...status }
 }
 
 /**
@@ -41,7 +38,7 @@ export function useJudgeRegistration(stakeAmount: string) {
  */
 export function useIncreaseStake(additionalStake: string) {
   const contract = useJudgeRegistryContract()
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const { send, ...status } = useTrackedTransaction()
 
   const increaseStake = (callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
     if (!additionalStake || parseFloat(additionalStake) <= 0) {
@@ -49,31 +46,12 @@ export function useIncreaseStake(additionalStake: string) {
       return
     }
 
-    const transaction = prepareContractCall({
-      contract,
-      method: "function increaseStake() payable",
-      params: [],
-      value: toWei(additionalStake),
-    })
+    const transaction = JudgeRegistry.prepare(contract, "increaseStake", [], { value: toWei(additionalStake) })
 
-    sendTransaction(transaction, {
-      onSuccess: () => {
-        console.log("Increase stake successful")
-        callbacks?.onSuccess?.()
-      },
-      onError: (error) => {
-        console.error("Increase stake failed:", error)
-        callbacks?.onError?.(error)
-      },
-    })
+    send(transaction, { label: "Increase judge stake", invalidate: JUDGE_QUERY_KEYS, ...callbacks })
   }
 
-  return {
-    increaseStake,
-    isPending,
-    transactionResult,
-    error,
-  }
+  return { increaseStake, ...status }
 }
 
 /**
@@ -81,33 +59,15 @@ export function useIncreaseStake(additionalStake: string) {
  */
 export function useRequestWithdrawal() {
   const contract = useJudgeRegistryContract()
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const { send, ...status } = useTrackedTransaction()
 
   const requestWithdrawal = (callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
-    const transaction = prepareContractCall({
-      contract,
-      method: "function requestWithdrawal()",
-      params: [],
-    })
+    const transaction = JudgeRegistry.prepare(contract, "requestWithdrawal", [])
 
-    sendTransaction(transaction, {
-      onSuccess: () => {
-        console.log("Request withdrawal successful")
-        callbacks?.onSuccess?.()
-      },
-      onError: (error) => {
-        console.error("Request withdrawal failed:", error)
-        callbacks?.onError?.(error)
-      },
-    })
+    send(transaction, { label: "Request stake withdrawal", invalidate: JUDGE_QUERY_KEYS, ...callbacks })
   }
 
-  return {
-    requestWithdrawal,
-    isPending,
-    transactionResult,
-    error,
-  }
+  return { requestWithdrawal, ...status }
 }
 
 /**
@@ -115,33 +75,15 @@ export function useRequestWithdrawal() {
  */
 export function useCompleteWithdrawal() {
   const contract = useJudgeRegistryContract()
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const { send, ...status } = useTrackedTransaction()
 
   const completeWithdrawal = (callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
-    const transaction = prepareContractCall({
-      contract,
-      method: "function completeWithdrawal()",
-      params: [],
-    })
+    const transaction = JudgeRegistry.prepare(contract, "completeWithdrawal", [])
 
-    sendTransaction(transaction, {
-      onSuccess: () => {
-        console.log("Complete withdrawal successful")
-        callbacks?.onSuccess?.()
-      },
-      onError: (error) => {
-        console.error("Complete withdrawal failed:", error)
-        callbacks?.onError?.(error)
-      },
-    })
+    send(transaction, { label: "Complete stake withdrawal", invalidate: JUDGE_QUERY_KEYS, ...callbacks })
   }
 
-  return {
-    completeWithdrawal,
-    isPending,
-    transactionResult,
-    error,
-  }
+  return { completeWithdrawal, ...status }
 }
 
 /**
@@ -153,39 +95,34 @@ export function useJudgeProfile(judgeAddress?: string) {
   const account = useActiveAccount()
   const addressToQuery = judgeAddress || account?.address
 
-  const { data, isLoading, error, refetch } = useReadContract({
+  const { data, isLoading, error, refetch } = useContractRead(
     contract,
-    method: "function getJudgeProfile(address) view returns (uint256, uint256, uint256, uint256, uint256, bool, uint256)",
-    params: addressToQuery ? [addressToQuery] as any : undefined,
-  })
+    "getJudgeProfile",
+    addressToQuery ? [addressToQuery] : undefined
+  )
 
-  const { data: isEligible, isLoading: isEligibleLoading } = useReadContract({
+  const { data: isEligible, isLoading: isEligibleLoading } = useContractRead(
     contract,
-    method: "function isEligible(address) view returns (bool)",
-    params: addressToQuery ? [addressToQuery] as any : undefined,
-  })
+    "isEligible",
+    addressToQuery ? [addressToQuery] : undefined
+  )
 
-  // Parse the profile data
-  const profile = data && Array.isArray(data) && data.length >= 7 ? {
+  const profile = data ? {
     judgeAddress: addressToQuery as string,
-    stakedAmount: data[0] != null ? BigInt(data[0].toString()) : BigInt(0),
-    reputationScore: data[1] != null ? BigInt(data[1].toString()) : BigInt(0),
-    casesJudged: data[2] != null ? BigInt(data[2].toString()) : BigInt(0),
-    successfulCases: data[3] != null ? BigInt(data[3].toString()) : BigInt(0),
-    registrationTime: data[4] != null ? BigInt(data[4].toString()) : BigInt(0),
-    isActive: data[5] != null ? Boolean(data[5]) : false,
-    withdrawRequestTime: data[6] != null ? BigInt(data[6].toString()) : BigInt(0),
-    isEligible: isEligible != null ? Boolean(isEligible) : false,
-    // Calculated fields with null checks
-    stakedAmountFormatted: data[0] != null && data[0] !== undefined
-      ? toEther(BigInt(data[0].toString()))
-      : "0",
-    successRate: data[2] != null && BigInt(data[2].toString()) > BigInt(0)
-      ? Number(BigInt(data[3]?.toString() ?? "0") * BigInt(10000) / BigInt(data[2].toString())) / 100
+    stakedAmount: data.stakedAmount,
+    reputationScore: data.reputationScore,
+    casesJudged: data.totalCases,
+    successfulCases: data.correctDecisions,
+    registrationTime: data.registeredAt,
+    isActive: data.isActive,
+    withdrawRequestTime: data.withdrawRequestTime,
+    isEligible: Boolean(isEligible),
+    // Calculated fields
+    stakedAmountFormatted: toEther(data.stakedAmount),
+    successRate: data.totalCases > BigInt(0)
+      ? Number(data.correctDecisions * BigInt(10000) / data.totalCases) / 100
       : 0,
-    reputationPercentage: data[1] != null && data[1] !== undefined
-      ? Number(data[1]) / 100
-      : 0, // Reputation is 0-10000 (basis points)
+    reputationPercentage: Number(data.reputationScore) / 100, // Reputation is 0-10000 (basis points)
   } : null
 
   return {
@@ -204,20 +141,17 @@ export function useWithdrawalStatus(judgeAddress?: string) {
   const contract = useJudgeRegistryContract()
   const account = useActiveAccount()
   const addressToQuery = judgeAddress || account?.address
+  const params = addressToQuery ? [addressToQuery] as const : undefined
 
-  const { data, isLoading, error, refetch } = useReadContract({
-    contract,
-    method: "function getWithdrawalAvailability(address) view returns (bool, uint256, uint256)",
-    params: addressToQuery ? [addressToQuery] as any : undefined,
-  })
+  const { data, isLoading, error, refetch } = useContractRead(contract, "getWithdrawalAvailability", params)
+  const { data: profile } = useContractRead(contract, "getJudgeProfile", params)
 
-  const withdrawalStatus = data ? {
-    canWithdraw: Boolean(data[0]),
-    withdrawalRequestTime: BigInt(data[1]?.toString() ?? "0"),
-    withdrawalAvailableTime: BigInt(data[2]?.toString() ?? "0"),
-    timeRemaining: BigInt(data[2]?.toString() ?? "0") > BigInt(Math.floor(Date.now() / 1000))
-      ? BigInt(data[2]?.toString() ?? "0") - BigInt(Math.floor(Date.now() / 1000))
-      : BigInt(0),
+  const now = BigInt(Math.floor(Date.now() / 1000))
+  const withdrawalStatus = data && profile ? {
+    canWithdraw: data.canWithdraw,
+    withdrawalRequestTime: profile.withdrawRequestTime,
+    withdrawalAvailableTime: data.availableAt,
+    timeRemaining: data.availableAt > now ? data.availableAt - now : BigInt(0),
   } : null
 
   return {
@@ -237,11 +171,11 @@ export function useIsEligibleJudge(judgeAddress?: string) {
   const account = useActiveAccount()
   const addressToQuery = judgeAddress || account?.address
 
-  const { data: isEligible, isLoading, error } = useReadContract({
+  const { data: isEligible, isLoading, error } = useContractRead(
     contract,
-    method: "function isEligible(address) view returns (bool)",
-    params: addressToQuery ? [addressToQuery] as any : undefined,
-  })
+    "isEligible",
+    addressToQuery ? [addressToQuery] : undefined
+  )
 
   return {
     isEligible: Boolean(isEligible),
@@ -256,20 +190,17 @@ export function useIsEligibleJudge(judgeAddress?: string) {
 export function useJudgeRegistryConfig() {
   const contract = useJudgeRegistryContract()
 
-  const { data, isLoading, error } = useReadContract({
-    contract,
-    method: "function config() view returns (uint256, uint256, uint256, uint256)",
-  })
+  const { data, isLoading, error } = useContractRead(contract, "config", [])
 
   const config = data ? {
-    minStakeAmount: BigInt(data[0]?.toString() ?? "0"),
-    minReputationScore: BigInt(data[1]?.toString() ?? "0"),
-    withdrawalLockPeriod: BigInt(data[2]?.toString() ?? "0"),
-    slashPercentage: BigInt(data[3]?.toString() ?? "0"),
+    minStakeAmount: data.minStakeAmount,
+    minReputationScore: data.minReputationScore,
+    withdrawalLockPeriod: data.withdrawalLockPeriod,
+    slashPercentage: data.slashPercentage,
     // Formatted versions
-    minStakeFormatted: toEther(BigInt(data[0]?.toString() ?? "0")),
-    withdrawalLockDays: Number(data[2]?.toString() ?? "0") / 86400,
-    slashPercentageFormatted: Number(data[3]?.toString() ?? "0") / 100,
+    minStakeFormatted: toEther(data.minStakeAmount),
+    withdrawalLockDays: Number(data.withdrawalLockPeriod) / 86400,
+    slashPercentageFormatted: Number(data.slashPercentage) / 100,
   } : null
 
   return {
@@ -285,13 +216,10 @@ export function useJudgeRegistryConfig() {
 export function useActiveJudgesCount() {
   const contract = useJudgeRegistryContract()
 
-  const { data: count, isLoading, error } = useReadContract({
-    contract,
-    method: "function getActiveJudgesCount() view returns (uint256)",
-  })
+  const { data: count, isLoading, error } = useContractRead(contract, "getActiveJudgeCount", [])
 
   return {
-    count: count ? BigInt(count.toString()) : BigInt(0),
+    count: count ?? BigInt(0),
     isLoading,
     error,
   }
@@ -304,11 +232,7 @@ export function useActiveJudgesCount() {
 export function useActiveJudgeByIndex(index: number) {
   const contract = useJudgeRegistryContract()
 
-  const { data: judgeAddress, isLoading, error } = useReadContract({
-    contract,
-    method: "function activeJudges(uint256) view returns (address)",
-    params: [BigInt(index)],
-  })
+  const { data: judgeAddress, isLoading, error } = useContractRead(contract, "activeJudges", [BigInt(index)])
 
   return {
     judgeAddress: judgeAddress as string,
@@ -332,3 +256,43 @@ export function useAllActiveJudges() {
     isLoading: isCountLoading,
   }
 }
+
+/**
+ * Hook to rank active judges by on-chain success rate (correct / total cases)
+ * Judges that have not decided any case yet are left out.
+ * @param limit Max number of judges to return
+ */
+export function useJudgeLeaderboard(limit = 10) {
+  const contract = useJudgeRegistryContract()
+
+  return useQuery({
+    queryKey: ["judgeLeaderboard", limit, contract.chain.id],
+    queryFn: async () => {
+      const judges = await JudgeRegistry.read(contract, "getActiveJudges", [])
+
+      const ranked = await Promise.all(
+        judges.map(async (judge) => {
+          const [successRate, profile] = await Promise.all([
+            JudgeRegistry.read(contract, "getSuccessRate", [judge]),
+            JudgeRegistry.read(contract, "getJudgeProfile", [judge]),
+          ])
+
+          return {
+            address: judge as string,
+            successRate: Number(successRate) / 100, // basis points -> percent
+            casesJudged: Number(profile.totalCases),
+            correctDecisions: Number(profile.correctDecisions),
+            reputationPercentage: Number(profile.reputationScore) / 100,
+            stakedAmountFormatted: toEther(profile.stakedAmount),
+          }
+        })
+      )
+
+      return ranked
+        .filter((judge) => judge.casesJudged > 0)
+        .sort((a, b) => b.successRate - a.successRate || b.casesJudged - a.casesJudged)
+        .slice(0, limit)
+    },
+    staleTime: 300000, // 5 minutes
+  })
+}
@@ -1,10 +1,14 @@
 import { useQuery, useQueries } from "@tanstack/react-query"
 import { useActiveAccount } from "thirdweb/react"
-import { useSendTransaction } from "thirdweb/react"
-import { readContract, prepareContractCall, toUnits, getContract } from "thirdweb"
-import { getContractAddresses } from "../contracts/addresses"
-import { client, mantleSepolia } from "@/lib/thirdweb"
-import { ABIS } from "../contracts/abis"
+import { toUnits, type Chain } from "thirdweb"
+import { CDOPool } from "../contracts/generated"
+import { fetchPoolRegistry, type PoolInfo } from "../contracts/pool-registry"
+import { fetchWithdrawalState } from "../contracts/withdrawal-quote"
+import { fetchPoolHistory } from "../contracts/pool-analytics"
+import { fetchPoolExposure } from "../contracts/pool-exposure"
+import { useActiveChain } from "./useActiveChain"
+import { useCDOPoolContractByAddress } from "./useContracts"
+import { useTrackedTransaction } from "./useTransactions"
 /**
  * Format USDC amount from wei to human readable
  */
@@ -15,47 +19,71 @@ function formatUSDC(amount: bigint): number {
 /**
  * Get contract for specific pool address
  */
-function getPoolContract(poolAddress: string) {
-  return getContract({
-    client,
-    chain: mantleSepolia,
-    address: poolAddress as `0x${string}`,
-    abi: ABIS.CDOPool as any,
+function getPoolContract(poolAddress: string, chain: Chain) {
+  return CDOPool.at(chain, poolAddress)
+}
+
+/**
+ * Queries a deposit or withdrawal changes: the pool's stats, positions and the user's portfolio
+ */
+function poolQueryKeys(poolAddress: string) {
+  return [
+    ["poolStats", poolAddress],
+    ["positions", poolAddress],
+    ["withdrawalState", poolAddress],
+    ["poolHistory", poolAddress],
+    ["allUserPositions"],
+    ["cdoPortfolio"],
+    ["poolRegistry"],
+  ]
+}
+
+/**
+ * Hook to list every pool registered in CDOPoolFactory with its on-chain config
+ */
+export function usePoolRegistry() {
+  const chain = useActiveChain()
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ["poolRegistry", chain.id],
+    queryFn: () => fetchPoolRegistry(chain),
+    staleTime: 30000,
   })
+
+  return {
+    pools: data || ([] as PoolInfo[]),
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to look up a single pool in the registry by address
+ */
+export function usePoolInfo(poolAddress?: string) {
+  const { pools, isLoading, error } = usePoolRegistry()
+  const pool = poolAddress
+    ? pools.find((p) => p.address.toLowerCase() === poolAddress.toLowerCase()) || null
+    : null
+
+  return { pool, isLoading, error }
 }
 
 /**
  * Hook to get stats for a specific pool
  */
 export function usePoolStats(poolAddress: string) {
+  const chain = useActiveChain()
+
   return useQuery({
-    queryKey: ["poolStats", poolAddress],
+    queryKey: ["poolStats", poolAddress, chain.id],
     queryFn: async () => {
-      const contract = getPoolContract(poolAddress)
+      const contract = getPoolContract(poolAddress, chain)
 
       try {
-        const stats = await readContract({
-          contract,
-          method: "function stats() view returns (uint256 totalDeposits, uint256 totalBetsMatched, uint256 totalVolumeMatched, uint256 totalYieldDistributed, uint256 poolBalance, uint256 activeMatchedAmount, uint256 totalShares)",
-          params: [],
-        })
-
-        console.log("raw stats", stats);
-
-        // stats returns an array: [totalDeposits, totalBetsMatched, totalVolumeMatched, totalYieldDistributed, poolBalance, activeMatchedAmount, totalShares]
-        // Index 0: totalDeposits
-        // Index 1: totalBetsMatched
-        // Index 2: totalVolumeMatched
-        // Index 3: totalYieldDistributed
-        // Index 4: poolBalance
-        // Index 5: activeMatchedAmount
-        // Index 6: totalShares
-        const statsArray = stats as unknown as any[]
-        const totalDeposits = BigInt(statsArray[0]?.toString() ?? "0")
-        const totalBetsMatched = BigInt(statsArray[1]?.toString() ?? "0")
-        const totalYieldDistributed = BigInt(statsArray[3]?.toString() ?? "0")
-        const activeMatchedAmount = BigInt(statsArray[5]?.toString() ?? "0")
-        const totalShares = BigInt(statsArray[6]?.toString() ?? "0")
+        const { totalDeposits, totalBetsMatched, totalYieldDistributed, activeMatchedAmount, totalShares } =
+          await CDOPool.read(contract, "stats", [])
 
         console.log("pool stats", {
           totalDeposits,
@@ -101,31 +129,21 @@ export function usePoolStats(poolAddress: string) {
 }
 
 /**
- * Hook to get stats for all 4 pools
+ * Hook to get stats for every registered pool
  */
 export function useAllPoolsStats() {
-  const addresses = getContractAddresses(5003)
-  const pools = Object.values(addresses.pools)
+  const chain = useActiveChain()
+  const { pools, isLoading: isLoadingRegistry } = usePoolRegistry()
 
   const queries = useQueries({
     queries: pools.map((pool) => ({
-      queryKey: ["poolStats", pool.address],
+      queryKey: ["poolStats", pool.address, chain.id],
       queryFn: async () => {
-        const contract = getPoolContract(pool.address)
+        const contract = getPoolContract(pool.address, chain)
 
         try {
-          const stats = await readContract({
-            contract,
-            method: "function stats() view returns (uint256 totalDeposits, uint256 totalBetsMatched, uint256 totalVolumeMatched, uint256 totalYieldDistributed, uint256 poolBalance, uint256 activeMatchedAmount, uint256 totalShares)",
-            params: [],
-          })
-
-          // stats returns an array: [totalDeposits, totalBetsMatched, totalVolumeMatched, totalYieldDistributed, poolBalance, activeMatchedAmount, totalShares]
-          const statsArray = stats as unknown as any[]
-          const totalDeposits = BigInt(statsArray[0]?.toString() ?? "0")
-          const totalBetsMatched = BigInt(statsArray[1]?.toString() ?? "0")
-          const totalYieldDistributed = BigInt(statsArray[3]?.toString() ?? "0")
-          const activeMatchedAmount = BigInt(statsArray[5]?.toString() ?? "0")
+          const { totalDeposits, totalBetsMatched, totalYieldDistributed, activeMatchedAmount } =
+            await CDOPool.read(contract, "stats", [])
 
           return {
             poolInfo: pool,
@@ -150,7 +168,7 @@ export function useAllPoolsStats() {
     })),
   })
 
-  const isLoading = queries.some((q) => q.isLoading)
+  const isLoading = isLoadingRegistry || queries.some((q) => q.isLoading)
   const poolsData = queries
     .map((q) => q.data)
     .filter((d): d is NonNullable<typeof d> => d !== null && d !== undefined && 'poolInfo' in d)
@@ -165,37 +183,30 @@ export function useAllPoolsStats() {
  * Hook to get user positions in a specific pool
  */
 export function useUserPositions(poolAddress: string, userAddress?: string) {
+  const chain = useActiveChain()
   const account = useActiveAccount()
   const addressToQuery = userAddress || account?.address
 
   return useQuery({
-    queryKey: ["positions", poolAddress, addressToQuery],
+    queryKey: ["positions", poolAddress, addressToQuery, chain.id],
     queryFn: async () => {
       if (!addressToQuery) return []
 
-      const contract = getPoolContract(poolAddress)
+      const contract = getPoolContract(poolAddress, chain)
 
       try {
-        const positions = await readContract({
-          contract,
-          method: "function getUserPositions(address user) external view returns ((uint256 depositAmount, uint256 shares, uint256 depositedAt, uint256 lockUntil, uint256 tier)[])",
-          params: [addressToQuery],
-        })
-
-        // getUserPositions returns an array of Position structs
-        // Position: { depositAmount, shares, depositedAt, lockUntil, tier }
-        if (!positions || (positions as any[]).length === 0) return []
+        const positions = await CDOPool.read(contract, "getUserPositions", [addressToQuery])
 
-        return (positions as any[]).map((position, index) => ({
+        return positions.map((position, index) => ({
           id: index,
-          depositAmount: BigInt(position.depositAmount?.toString() ?? "0"),
-          shares: BigInt(position.shares?.toString() ?? "0"),
-          tier: Number(position.tier ?? 0),
-          depositTime: BigInt(position.depositedAt?.toString() ?? "0"),
-          lockEndTime: BigInt(position.lockUntil?.toString() ?? "0"),
+          depositAmount: position.depositAmount,
+          shares: position.shares,
+          tier: Number(position.tier),
+          depositTime: position.depositedAt,
+          lockEndTime: position.lockUntil,
           withdrawn: false, // getUserPositions only returns active positions
-          depositAmountFormatted: formatUSDC(BigInt(position.depositAmount?.toString() ?? "0")),
-          isLocked: BigInt(position.lockUntil?.toString() ?? "0") > BigInt(Math.floor(Date.now() / 1000)),
+          depositAmountFormatted: formatUSDC(position.depositAmount),
+          isLocked: position.lockUntil > BigInt(Math.floor(Date.now() / 1000)),
         }))
       } catch (error) {
         console.error(`Error fetching user positions:`, error)
@@ -211,43 +222,36 @@ export function useUserPositions(poolAddress: string, userAddress?: string) {
  * Hook to get user positions across all pools
  */
 export function useAllUserPositions(userAddress?: string) {
-  const addresses = getContractAddresses(5003)
-  const pools = Object.values(addresses.pools)
+  const chain = useActiveChain()
+  const { pools } = usePoolRegistry()
   const account = useActiveAccount()
   const addressToQuery = userAddress || account?.address
 
   return useQuery({
-    queryKey: ["allUserPositions", addressToQuery],
+    queryKey: ["allUserPositions", addressToQuery, pools.map((pool) => pool.address), chain.id],
     queryFn: async () => {
       if (!addressToQuery) return []
 
       const allPositions = await Promise.all(
         pools.map(async (pool) => {
-          const contract = getPoolContract(pool.address)
+          const contract = getPoolContract(pool.address, chain)
 
           try {
-            const positions = await readContract({
-              contract,
-              method: "function getUserPositions(address user) external view returns ((uint256 depositAmount, uint256 shares, uint256 depositedAt, uint256 lockUntil, uint256 tier)[])",
-              params: [addressToQuery],
-            })
+            const positions = await CDOPool.read(contract, "getUserPositions", [addressToQuery])
 
-            // getUserPositions returns an array of Position structs
-            if (!positions || (positions as any[]).length === 0) return []
-
-            return (positions as any[]).map((position, index) => ({
+            return positions.map((position, index) => ({
               poolAddress: pool.address,
               poolName: pool.name,
               poolCategory: pool.category,
               id: index,
-              depositAmount: BigInt(position.depositAmount?.toString() ?? "0"),
-              shares: BigInt(position.shares?.toString() ?? "0"),
-              tier: Number(position.tier ?? 0),
-              depositTime: BigInt(position.depositedAt?.toString() ?? "0"),
-              lockEndTime: BigInt(position.lockUntil?.toString() ?? "0"),
+              depositAmount: position.depositAmount,
+              shares: position.shares,
+              tier: Number(position.tier),
+              depositTime: position.depositedAt,
+              lockEndTime: position.lockUntil,
               withdrawn: false, // getUserPositions only returns active positions
-              depositAmountFormatted: formatUSDC(BigInt(position.depositAmount?.toString() ?? "0")),
-              isLocked: BigInt(position.lockUntil?.toString() ?? "0") > BigInt(Math.floor(Date.now() / 1000)),
+              depositAmountFormatted: formatUSDC(position.depositAmount),
+              isLocked: position.lockUntil > BigInt(Math.floor(Date.now() / 1000)),
             }))
           } catch (error) {
             console.error(`Error fetching positions for pool ${pool.name}:`, error)
@@ -258,7 +262,7 @@ export function useAllUserPositions(userAddress?: string) {
 
       return allPositions.flat()
     },
-    enabled: !!addressToQuery,
+    enabled: !!addressToQuery && pools.length > 0,
     staleTime: 30000,
   })
 }
@@ -267,74 +271,95 @@ export function useAllUserPositions(userAddress?: string) {
  * Hook to deposit to a specific pool
  */
 export function useDepositToPool(poolAddress: string) {
-  const contract = getPoolContract(poolAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const contract = useCDOPoolContractByAddress(poolAddress)
+  const { send, ...status } = useTrackedTransaction()
 
   const deposit = (amount: string, tier: number, callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
     const amountWei = toUnits(amount, 6)
 
-    const transaction = prepareContractCall({
-      contract,
-      method: "function deposit(uint256, uint256)",
-      params: [amountWei, BigInt(tier)],
-    })
+    const transaction = CDOPool.prepare(contract, "deposit", [amountWei, BigInt(tier)])
 
-    sendTransaction(transaction, {
-      onSuccess: () => {
-        console.log("Deposit transaction successful")
-        callbacks?.onSuccess?.()
-      },
-      onError: (error) => {
-        console.error("Deposit transaction failed:", error)
-        callbacks?.onError?.(error)
-      },
-    })
+    send(transaction, { label: "Deposit to pool", invalidate: poolQueryKeys(poolAddress), ...callbacks })
   }
 
-  return {
-    deposit,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
-  }
+  return { deposit, ...status }
 }
 
 /**
  * Hook to withdraw from a specific pool
  */
 export function useWithdrawFromPool(poolAddress: string) {
-  const contract = getPoolContract(poolAddress)
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const contract = useCDOPoolContractByAddress(poolAddress)
+  const { send, ...status } = useTrackedTransaction()
 
   const withdraw = (positionId: number, callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
-    const transaction = prepareContractCall({
-      contract,
-      method: "function withdraw(uint256)",
-      params: [BigInt(positionId)],
-    })
-
-    sendTransaction(transaction, {
-      onSuccess: () => {
-        console.log("Withdraw transaction successful")
-        callbacks?.onSuccess?.()
-      },
-      onError: (error) => {
-        console.error("Withdraw transaction failed:", error)
-        callbacks?.onError?.(error)
-      },
-    })
+    const transaction = CDOPool.prepare(contract, "withdraw", [BigInt(positionId)])
+
+    send(transaction, { label: "Withdraw from pool", invalidate: poolQueryKeys(poolAddress), ...callbacks })
   }
 
-  return {
-    withdraw,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
+  return { withdraw, ...status }
+}
+
+/**
+ * Hook to read the pool state and open positions that withdrawal quotes are computed from
+ * (see quoteWithdrawal / previewWithdrawAll in contracts/withdrawal-quote)
+ */
+export function useWithdrawalState(poolAddress: string, userAddress?: string) {
+  const chain = useActiveChain()
+  const account = useActiveAccount()
+  const addressToQuery = userAddress || account?.address
+
+  return useQuery({
+    queryKey: ["withdrawalState", poolAddress, addressToQuery, chain.id],
+    queryFn: () => fetchWithdrawalState(chain, poolAddress, addressToQuery!),
+    enabled: !!addressToQuery && !!poolAddress,
+    staleTime: 30000,
+  })
+}
+
+/**
+ * Hook to read a pool's event history for the analytics charts (see buildPoolAnalytics in contracts/pool-analytics)
+ */
+export function usePoolHistory(poolAddress: string) {
+  const chain = useActiveChain()
+
+  return useQuery({
+    queryKey: ["poolHistory", poolAddress, chain.id],
+    queryFn: () => fetchPoolHistory(chain, poolAddress),
+    enabled: !!poolAddress,
+    staleTime: 60000,
+  })
+}
+
+/**
+ * Hook to read the open house bets a pool has matched (see summarizeExposure in contracts/pool-exposure)
+ */
+export function usePoolExposure(poolAddress: string) {
+  const chain = useActiveChain()
+
+  return useQuery({
+    queryKey: ["poolExposure", poolAddress, chain.id],
+    queryFn: () => fetchPoolExposure(chain, poolAddress),
+    enabled: !!poolAddress,
+    staleTime: 30000,
+  })
+}
+
+/**
+ * Hook to withdraw every unlocked position in a pool
+ */
+export function useWithdrawAllFromPool(poolAddress: string) {
+  const contract = useCDOPoolContractByAddress(poolAddress)
+  const { send, ...status } = useTrackedTransaction()
+
+  const withdrawAll = (callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
+    const transaction = CDOPool.prepare(contract, "withdrawAll", [])
+
+    send(transaction, { label: "Withdraw all from pool", invalidate: poolQueryKeys(poolAddress), ...callbacks })
   }
+
+  return { withdrawAll, ...status }
 }
 
 /**
@@ -0,0 +1,26 @@
+import { useBetRiskValidatorContract, useContractRead } from "./useContracts"
+import { DEFAULT_PRICE_PROXIMITY_RULE } from "../risk-providers/rule-based"
+import type { PriceProximityRule } from "../price-oracle/types"
+
+/**
+ * Hook to read BetRiskValidator's current price proximity rule
+ * Falls back to the constructor defaults until the read resolves.
+ */
+export function usePriceProximityRule() {
+  const contract = useBetRiskValidatorContract()
+
+  const { data, isLoading, error } = useContractRead(contract, "priceProximityRule", [])
+
+  const rule: PriceProximityRule = data
+    ? {
+        minPriceGapPercentage: Number(data.minPriceGapPercentage),
+        minDurationForGap: Number(data.minDurationForGap),
+      }
+    : DEFAULT_PRICE_PROXIMITY_RULE
+
+  return {
+    rule,
+    isLoading,
+    error,
+  }
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from "react"
+import { useQueryClient, type QueryClient } from "@tanstack/react-query"
+import { useActiveAccount, useSendTransaction } from "thirdweb/react"
+import { waitForReceipt, type PreparedTransaction } from "thirdweb"
+import type { TransactionReceipt } from "thirdweb/transaction"
+import type { Abi, Hex } from "viem"
+import { client } from "@/lib/thirdweb"
+import { getChain, isSupportedChainId } from "../chains"
+import { fetchReceiptRevertError, toTransactionError } from "../transactions/revert"
+import { getTransactionMessages, TransactionError } from "../transactions/errors"
+import {
+  addTransaction,
+  getServerTransactions,
+  getTransactions,
+  subscribeTransactions,
+  updateTransaction,
+  type TrackedTransaction,
+} from "../transactions/store"
+
+export interface TrackedTransactionOptions {
+  label: string
+  invalidate?: (string | number)[][] // query key prefixes refreshed on confirmation (keys end with the chain id)
+  onSubmitted?: (hash: Hex) => void
+  onSuccess?: (receipt: TransactionReceipt) => void
+  onError?: (error: TransactionError) => void
+}
+
+// One receipt wait per hash, shared by the sending hook and the reload watcher
+const watching = new Map<Hex, Promise<TransactionReceipt>>()
+
+function watchTransaction(transaction: TrackedTransaction, queryClient: QueryClient): Promise<TransactionReceipt> {
+  const existing = watching.get(transaction.hash)
+  if (existing) return existing
+
+  const chain = getChain(transaction.chainId)
+  const watch = waitForReceipt({ client, chain, transactionHash: transaction.hash }).then(async (receipt) => {
+    if (receipt.status === "reverted") {
+      const failure =
+        (await fetchReceiptRevertError(chain, transaction.hash, receipt.blockNumber)) ||
+        new TransactionError(getTransactionMessages().noReason)
+      updateTransaction(transaction.hash, { status: "failed", error: failure.message, settledAt: Date.now() })
+      throw failure
+    }
+
+    updateTransaction(transaction.hash, { status: "confirmed", settledAt: Date.now() })
+    // Plain contract reads (allowances, balances, profiles) are refreshed after every confirmation
+    const contractReads = [["contractRead", transaction.chainId], ["readContract", transaction.chainId]]
+    for (const queryKey of [...transaction.invalidate, ...contractReads]) {
+      queryClient.invalidateQueries({ queryKey })
+    }
+    return receipt
+  })
+
+  watching.set(transaction.hash, watch)
+  watch.catch(() => undefined).finally(() => watching.delete(transaction.hash))
+  return watch
+}
+
+/**
+ * Hook to send a transaction and follow it to its receipt.
+ * The transaction is recorded in the persisted transaction list; once mined the given query keys
+ * are invalidated and onSuccess receives the receipt. Reverts come back through onError with the
+ * decoded reason.
+ */
+export function useTrackedTransaction() {
+  const account = useActiveAccount()
+  const queryClient = useQueryClient()
+  const { mutateAsync: sendTransaction, isPending: isSubmitting } = useSendTransaction()
+  const [hash, setHash] = useState<Hex>()
+  const [receipt, setReceipt] = useState<TransactionReceipt>()
+  const [isConfirming, setIsConfirming] = useState(false)
+  const [error, setError] = useState<TransactionError | null>(null)
+
+  const send = useCallback(
+    async (transaction: PreparedTransaction<Abi>, options: TrackedTransactionOptions) => {
+      setHash(undefined)
+      setReceipt(undefined)
+      setError(null)
+
+      let tracked: TrackedTransaction
+      try {
+        const result = await sendTransaction(transaction)
+        tracked = {
+          hash: result.transactionHash,
+          chainId: transaction.chain.id,
+          account: account?.address || "",
+          label: options.label,
+          status: "pending",
+          invalidate: options.invalidate || [],
+          submittedAt: Date.now(),
+        }
+        addTransaction(tracked)
+        setHash(tracked.hash)
+        if (options.onSubmitted) options.onSubmitted(tracked.hash)
+      } catch (err) {
+        console.error(`${options.label} error:`, err)
+        const failure = toTransactionError(err)
+        setError(failure)
+        if (options.onError) options.onError(failure)
+        return
+      }
+
+      setIsConfirming(true)
+      try {
+        const mined = await watchTransaction(tracked, queryClient)
+        console.log(`${options.label} confirmed:`, mined)
+        setReceipt(mined)
+        if (options.onSuccess) options.onSuccess(mined)
+      } catch (err) {
+        console.error(`${options.label} failed:`, err)
+        const failure = toTransactionError(err)
+        setError(failure)
+        if (options.onError) options.onError(failure)
+      } finally {
+        setIsConfirming(false)
+      }
+    },
+    [account, queryClient, sendTransaction]
+  )
+
+  return {
+    send,
+    isPending: isSubmitting || isConfirming,
+    isConfirming,
+    isSuccess: !!receipt,
+    hash,
+    receipt,
+    error,
+  }
+}
+
+/**
+ * Hook to list the tracked transactions of the connected account on the active chain, newest first
+ */
+export function useTransactionHistory(chainId: number) {
+  const account = useActiveAccount()
+  const transactions = useSyncExternalStore(subscribeTransactions, getTransactions, getServerTransactions)
+
+  return useMemo(() => {
+    const owner = account?.address.toLowerCase()
+    const mine = owner
+      ? transactions.filter((t) => t.chainId === chainId && t.account.toLowerCase() === owner)
+      : []
+    return {
+      transactions: mine,
+      pendingCount: mine.filter((t) => t.status === "pending").length,
+    }
+  }, [transactions, account, chainId])
+}
+
+/**
+ * Hook to resume waiting on transactions that were still pending when the page was last closed
+ */
+export function useResumePendingTransactions() {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    for (const transaction of getTransactions()) {
+      if (transaction.status !== "pending" || !isSupportedChainId(transaction.chainId)) continue
+      watchTransaction(transaction, queryClient).catch((err) => {
+        console.error(`${transaction.label} failed:`, err)
+      })
+    }
+  }, [queryClient])
+}
@@ -1,15 +1,18 @@
 import { useQuery } from "@tanstack/react-query"
 import { useUserBets } from "./useBets"
+import { useActiveChainId } from "./useActiveChain"
+import { fetchLeaderboard, getIndexerUrl, type IndexedBettorRank, type LeaderboardWindow } from "../indexer/client"
 import { transformBetData, didUserWin, getMostCommonCategory, type UIBet } from "../utils/bet-helpers"
 
 /**
  * Hook to calculate user stats from bet history
  */
 export function useUserStats(userAddress?: string) {
+  const chainId = useActiveChainId()
   const { bets, isLoading: isBetsLoading } = useUserBets(userAddress)
 
   return useQuery({
-    queryKey: ["userStats", userAddress, bets?.length],
+    queryKey: ["userStats", userAddress, bets?.length, chainId],
     queryFn: () => {
       if (!bets || !userAddress) return null
 
@@ -85,19 +88,50 @@ export function useUserStats(userAddress?: string) {
   })
 }
 
+function toBettorEntry(entry: IndexedBettorRank) {
+  return {
+    address: entry.address,
+    totalBets: entry.totalBets,
+    wonBets: entry.wonBets,
+    decidedBets: entry.decidedBets,
+    winRate: entry.winRate,
+    totalVolume: Number(entry.totalVolume) / 1e6,
+    totalWinnings: Number(entry.totalWinnings) / 1e6,
+  }
+}
+
+export type LeaderboardEntry = ReturnType<typeof toBettorEntry>
+
 /**
- * Hook to get leaderboard stats (simplified version)
+ * Hook to get leaderboard rankings from the indexer
+ * @param window Time window ("7d" | "30d" | "all")
+ * @param category Bet / pool category, or "all"
+ * @returns null data when no indexer serves the active chain
  */
-export function useLeaderboardStats() {
-  // For now, just return placeholder
-  // In production, this would fetch from a backend that indexes all users
+export function useLeaderboardStats(window: LeaderboardWindow = "all", category = "all") {
+  const chainId = useActiveChainId()
+  const indexerUrl = getIndexerUrl(chainId)
+
   return useQuery({
-    queryKey: ["leaderboard"],
+    queryKey: ["leaderboard", window, category, chainId],
     queryFn: async () => {
+      if (!indexerUrl) return null
+
+      const leaderboard = await fetchLeaderboard(indexerUrl, {
+        window,
+        category: category === "all" ? undefined : category,
+      })
+
       return {
-        topWinners: [],
-        topVolume: [],
-        topWinRate: [],
+        topWinners: leaderboard.topWinners.map(toBettorEntry),
+        topVolume: leaderboard.topVolume.map(toBettorEntry),
+        topWinRate: leaderboard.topWinRate.map(toBettorEntry),
+        topLiquidityProviders: leaderboard.topLiquidityProviders.map((entry) => ({
+          address: entry.address,
+          withdrawals: entry.withdrawals,
+          totalWithdrawn: Number(entry.totalWithdrawn) / 1e6,
+          realizedYield: Number(entry.realizedYield) / 1e6,
+        })),
       }
     },
     staleTime: 300000, // 5 minutes
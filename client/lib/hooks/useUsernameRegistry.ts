@@ -1,38 +1,148 @@
-import { useActiveAccount, useReadContract } from "thirdweb/react"
-import { prepareContractCall } from "thirdweb"
-import { useSendTransaction } from "thirdweb/react"
-import { useUsernameRegistryContract } from "./useContracts"
+import { useQuery } from "@tanstack/react-query"
+import { useActiveAccount } from "thirdweb/react"
+import { useContractRead, useUsernameRegistryContract } from "./useContracts"
+import { useTrackedTransaction } from "./useTransactions"
+import { UsernameRegistry } from "../contracts/generated"
+import { fetchUsers, getIndexerUrl } from "../indexer/client"
+import { getEnsNode, isEnsName, normalizeEnsName, resolveEnsAddress } from "../utils/ens"
 import { useState, useEffect } from "react"
 
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+/**
+ * Debounce a value by the given delay
+ */
+function useDebouncedValue<T>(value: T, delay = 500) {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timer)
+  }, [value, delay])
+
+  return debounced
+}
+
+/**
+ * Address an ENS name resolves to on mainnet, through its ENS resolver
+ * @param name Normalized ENS name, or null to skip the lookup
+ */
+function useEnsAddress(name: string | null) {
+  const { data, isLoading } = useQuery({
+    queryKey: ["ensAddress", name],
+    queryFn: () => resolveEnsAddress(name!),
+    enabled: Boolean(name),
+    staleTime: 60_000,
+  })
+
+  return { address: data ?? null, isLoading: Boolean(name) && isLoading }
+}
+
 /**
  * Hook to register a username
  * @param username The username to register
  */
 export function useRegisterUsername(username: string) {
   const contract = useUsernameRegistryContract()
-  const { mutate: sendTransaction, data: transactionResult, isPending, error } = useSendTransaction()
+  const { send, ...status } = useTrackedTransaction()
+
+  const registerUsername = (callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
+    if (!username || username.length < 3 || username.length > 32) {
+      callbacks?.onError?.(new Error("Username must be between 3 and 32 characters"))
+      return
+    }
+
+    const transaction = UsernameRegistry.prepare(contract, "registerUsername", [username])
+
+    send(transaction, { label: "Register username", ...callbacks })
+  }
+
+  return { registerUsername, ...status }
+}
+
+/**
+ * Hook to change the connected user's username
+ * @param username The new username
+ */
+export function useUpdateUsername(username: string) {
+  const contract = useUsernameRegistryContract()
+  const { send, ...status } = useTrackedTransaction()
 
-  const registerUsername = async () => {
+  const updateUsername = (callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
     if (!username || username.length < 3 || username.length > 32) {
-      throw new Error("Username must be between 3 and 32 characters")
+      callbacks?.onError?.(new Error("Username must be between 3 and 32 characters"))
+      return
+    }
+
+    const transaction = UsernameRegistry.prepare(contract, "updateUsername", [username])
+
+    send(transaction, { label: "Change username", ...callbacks })
+  }
+
+  return { updateUsername, ...status }
+}
+
+/**
+ * Hook to link an ENS name to the connected user's profile
+ * @param ensName The ENS name to link (e.g. "alice.eth")
+ */
+export function useLinkENS(ensName: string) {
+  const contract = useUsernameRegistryContract()
+  const { send, ...status } = useTrackedTransaction()
+
+  const linkENS = (callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
+    const name = normalizeEnsName(ensName)
+    const node = getEnsNode(ensName)
+    if (!name || !node) {
+      callbacks?.onError?.(new Error("Enter a valid ENS name"))
+      return
     }
 
-    const transaction = prepareContractCall({
-      contract,
-      method: "function registerUsername(string)",
-      params: [username],
-    })
+    const transaction = UsernameRegistry.prepare(contract, "linkENS", [node, name])
 
-    sendTransaction(transaction)
+    send(transaction, { label: `Link ${name}`, ...callbacks })
   }
 
+  return { linkENS, ...status }
+}
+
+/**
+ * Hook to deactivate the connected user's account, releasing its username and ENS link
+ */
+export function useDeactivateAccount() {
+  const contract = useUsernameRegistryContract()
+  const { send, ...status } = useTrackedTransaction()
+
+  const deactivateAccount = (callbacks?: { onSuccess?: () => void; onError?: (error: any) => void }) => {
+    const transaction = UsernameRegistry.prepare(contract, "deactivateAccount", [])
+
+    send(transaction, { label: "Deactivate account", ...callbacks })
+  }
+
+  return { deactivateAccount, ...status }
+}
+
+/**
+ * Hook to check an ENS name before linking it: computes its node hash and resolves it on mainnet
+ * @param ensName ENS name to check
+ * @param address Address the name should resolve to (defaults to connected wallet)
+ */
+export function useEnsVerification(ensName: string, address?: string) {
+  const account = useActiveAccount()
+  const owner = address || account?.address
+  const debouncedName = useDebouncedValue(ensName.trim())
+  const name = normalizeEnsName(debouncedName)
+  const node = getEnsNode(debouncedName)
+
+  const { address: resolvedAddress, isLoading } = useEnsAddress(name)
+
   return {
-    registerUsername,
-    isPending,
-    isConfirming: isPending,
-    isSuccess: !!transactionResult && !error,
-    hash: transactionResult?.transactionHash,
-    error,
+    name,
+    node,
+    resolvedAddress,
+    isValid: Boolean(node),
+    isOwner: Boolean(owner && resolvedAddress && resolvedAddress.toLowerCase() === owner.toLowerCase()),
+    isChecking: ensName.trim() !== debouncedName || isLoading,
   }
 }
 
@@ -45,20 +155,19 @@ export function useUserProfile(address?: string) {
   const account = useActiveAccount()
   const addressToQuery = address || account?.address
 
-  const { data, isLoading, error, refetch } = useReadContract({
+  const { data, isLoading, error, refetch } = useContractRead(
     contract,
-    method: "getProfile",
-    params: addressToQuery ? [addressToQuery] as any : undefined,
-  })
+    "getProfile",
+    addressToQuery ? [addressToQuery] : undefined
+  )
 
-  // Data is now a struct object, not an array
   const profile = data ? {
-    username: (data as any).username || "",
-    ensName: (data as any).ensName || "",
-    ensNode: (data as any).ensNode || "",
-    registeredAt: (data as any).registeredAt ? BigInt((data as any).registeredAt.toString()) : BigInt(0),
-    isActive: Boolean((data as any).isActive),
-    hasUsername: Boolean((data as any).isActive && (data as any).username && (data as any).username.length > 0),
+    username: data.username,
+    ensName: data.ensName,
+    ensNode: data.ensNode,
+    registeredAt: data.registeredAt,
+    isActive: data.isActive,
+    hasUsername: data.isActive && data.username.length > 0,
   } : null
 
   return { profile, isLoading, error, refetch }
@@ -70,22 +179,13 @@ export function useUserProfile(address?: string) {
  */
 export function useUsernameAvailability(username: string) {
   const contract = useUsernameRegistryContract()
-  const [debouncedUsername, setDebouncedUsername] = useState(username)
+  const debouncedUsername = useDebouncedValue(username)
 
-  // Debounce username check by 500ms
-  useEffect(() => {
-    const timer = setTimeout(() => {
-      setDebouncedUsername(username)
-    }, 500)
-
-    return () => clearTimeout(timer)
-  }, [username])
-
-  const { data: isAvailable, isLoading, error } = useReadContract({
+  const { data: isAvailable, isLoading, error } = useContractRead(
     contract,
-    method: "function isUsernameAvailable(string) view returns (bool)",
-    params: debouncedUsername && debouncedUsername.length >= 3 ? [debouncedUsername] as any  : undefined,
-  })
+    "isUsernameAvailable",
+    debouncedUsername && debouncedUsername.length >= 3 ? [debouncedUsername] : undefined
+  )
 
   return {
     isAvailable: Boolean(isAvailable),
@@ -96,25 +196,102 @@ export function useUsernameAvailability(username: string) {
 }
 
 /**
- * Hook to resolve an identifier (username or address) to an address
- * @param identifier Username or address to resolve
+ * Hook to resolve an identifier (username, linked ENS name or address) to an address
+ * @param identifier Username, ENS name or address to resolve
  */
 export function useResolveIdentifier(identifier?: string) {
   const contract = useUsernameRegistryContract()
+  // The registry's own resolveIdentifier hashes ENS names with plain keccak256, which never
+  // matches the namehash linkENS stores, so ENS names are looked up by node instead
+  const ensName = identifier && isEnsName(identifier) ? normalizeEnsName(identifier) : null
+  const ensNode = ensName ? getEnsNode(ensName) : null
 
-  const { data: resolvedAddress, isLoading, error } = useReadContract({
+  // Unknown identifiers revert with UsernameNotFound - no point retrying those
+  const identifierRead = useContractRead(
     contract,
-    method: "function resolveIdentifier(string) view returns (address)",
-    params: identifier ? [identifier] as any : undefined,
-  })
+    "resolveIdentifier",
+    identifier && !isEnsName(identifier) ? [identifier] : undefined,
+    { retry: false }
+  )
+  const ensRead = useContractRead(contract, "ensNodeToAddress", ensNode ? [ensNode] : undefined)
+  // linkENS doesn't check ownership, so a linked name only counts when its ENS resolver agrees
+  const ensResolver = useEnsAddress(ensName)
+
+  let resolvedAddress: string | undefined
+  let isLoading: boolean
+  let error: Error | null
+  if (identifier && isEnsName(identifier)) {
+    const linked = ensRead.data && ensRead.data !== ZERO_ADDRESS ? ensRead.data : undefined
+    const isOwner = Boolean(
+      linked && ensResolver.address && linked.toLowerCase() === ensResolver.address.toLowerCase()
+    )
+    resolvedAddress = isOwner ? linked : undefined
+    isLoading = ensRead.isLoading || ensResolver.isLoading
+    error = ensRead.error
+  } else {
+    resolvedAddress = identifierRead.data && identifierRead.data !== ZERO_ADDRESS ? identifierRead.data : undefined
+    isLoading = identifierRead.isLoading
+    error = identifierRead.error
+  }
 
   return {
-    resolvedAddress: resolvedAddress as string | undefined,
+    resolvedAddress,
     isLoading,
     error,
   }
 }
 
+export type OpponentStatus = "idle" | "resolving" | "resolved" | "not-found" | "self"
+
+/**
+ * Hook to resolve a bet opponent as it is typed, the same way BetFactory.createBet will
+ * @param identifier Username, linked ENS name or address
+ * @param creator Address creating the bet (defaults to connected wallet), which can't be its own opponent
+ */
+export function useResolveOpponent(identifier: string, creator?: string) {
+  const account = useActiveAccount()
+  const creatorAddress = creator || account?.address
+  const trimmed = identifier.trim().replace(/^@/, "")
+  const debouncedIdentifier = useDebouncedValue(trimmed)
+  const { resolvedAddress, isLoading } = useResolveIdentifier(debouncedIdentifier || undefined)
+
+  let status: OpponentStatus
+  if (!trimmed) status = "idle"
+  else if (trimmed !== debouncedIdentifier || isLoading) status = "resolving"
+  else if (!resolvedAddress) status = "not-found"
+  else if (creatorAddress && resolvedAddress.toLowerCase() === creatorAddress.toLowerCase()) status = "self"
+  else status = "resolved"
+
+  return {
+    status,
+    resolvedAddress: status === "resolved" || status === "self" ? resolvedAddress : undefined,
+  }
+}
+
+/**
+ * Hook to search registered users by username or ENS prefix (needs the indexer)
+ * @param search Text typed so far
+ * @returns Empty results when no indexer serves the active chain
+ */
+export function useUserSearch(search: string, limit = 8) {
+  const contract = useUsernameRegistryContract()
+  const indexerUrl = getIndexerUrl(contract.chain.id)
+  const debouncedSearch = useDebouncedValue(search.trim().replace(/^@/, ""), 250)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["userSearch", debouncedSearch, limit, contract.chain.id],
+    queryFn: async () => (await fetchUsers(indexerUrl!, { search: debouncedSearch, limit })).users,
+    enabled: !!indexerUrl && debouncedSearch.length > 0,
+    staleTime: 30000,
+  })
+
+  return {
+    users: data || [],
+    isLoading,
+    isAvailable: !!indexerUrl,
+  }
+}
+
 /**
  * Hook to get address from username
  * @param username Username to look up
@@ -122,11 +299,11 @@ export function useResolveIdentifier(identifier?: string) {
 export function useAddressFromUsername(username?: string) {
   const contract = useUsernameRegistryContract()
 
-  const { data: address, isLoading, error } = useReadContract({
+  const { data: address, isLoading, error } = useContractRead(
     contract,
-    method: "function getUserAddress(string) view returns (address)",
-    params: username ? [username] as any : undefined,
-  })
+    "usernameToAddress",
+    username ? [username] : undefined
+  )
 
   return {
     address: address as string | undefined,
@@ -142,49 +319,54 @@ export function useAddressFromUsername(username?: string) {
 export function useUsernameFromAddress(address?: string) {
   const contract = useUsernameRegistryContract()
 
-  const { data: username, isLoading, error } = useReadContract({
-    contract,
-    method: "getUsername",
-    params: address ? [address] as any : undefined,
-  })
+  const { data: username, isLoading, error } = useContractRead(contract, "getUsername", address ? [address] : undefined)
 
   return {
-    username: username as string | undefined,
+    username,
     isLoading,
     error,
   }
 }
 
 /**
- * Hook to get display name (username or shortened address)
+ * Hook to check that a linked ENS name really points at its profile's address
+ * @param address Address the name is linked to
+ * @param ensName Linked ENS name from the registry or indexer
+ * @returns The name when its ENS resolver returns the address, null otherwise (and while checking)
+ */
+export function useVerifiedEnsName(address?: string, ensName?: string | null) {
+  const name = address && ensName ? normalizeEnsName(ensName) : null
+  const { address: resolvedAddress, isLoading } = useEnsAddress(name)
+
+  const isVerified = Boolean(address && resolvedAddress && resolvedAddress.toLowerCase() === address.toLowerCase())
+
+  return { ensName: isVerified ? name : null, isLoading }
+}
+
+/**
+ * Hook to get display name (username, linked ENS name or shortened address)
  * @param address Address to look up
- * @returns Display name with @ prefix for usernames, shortened address otherwise
+ * @returns Display name with @ prefix for usernames, the ENS name if linked and verified, shortened address otherwise
  */
 export function useDisplayName(address?: string) {
   const contract = useUsernameRegistryContract()
 
-  const { data, isLoading } = useReadContract({
-    contract,
-    method: "getProfile",
-    params: address ? [address] as any : undefined,
-  })
-
-  // Check if user has an active profile with username
-  const profile = data ? {
-    username: (data as any).username || "",
-    isActive: Boolean((data as any).isActive),
-  } : null
+  const { data: profile, isLoading } = useContractRead(contract, "getProfile", address ? [address] : undefined)
+  const { ensName } = useVerifiedEnsName(address, profile?.isActive ? profile.ensName : null)
 
   // Return formatted display name
   const displayName = profile?.isActive && profile.username
     ? `@${profile.username}`
-    : address
-      ? `${address.slice(0, 6)}...${address.slice(-4)}`
-      : "Unknown"
+    : ensName
+      ? ensName
+      : address
+        ? `${address.slice(0, 6)}...${address.slice(-4)}`
+        : "Unknown"
 
   return {
     displayName,
     hasUsername: Boolean(profile?.isActive && profile.username),
+    ensName,
     isLoading,
   }
 }
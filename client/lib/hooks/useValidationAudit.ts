@@ -0,0 +1,59 @@
+import { useQuery } from "@tanstack/react-query"
+import { hashBetContent, type AttestationCheck, type ValidationAuditRecord } from "../ai-validation"
+import { getIndexerUrl } from "../indexer/client"
+import type { UIBet } from "../utils/bet-helpers"
+import { useActiveChain } from "./useActiveChain"
+
+/**
+ * Hook to get the AI validation audit trail for a deployed house bet
+ * The audit log is keyed by bet content, so it is looked up from the on-chain details
+ */
+export function useValidationAudit(bet: UIBet | null) {
+  // House bets carry the pool category as their first tag - the AI saw only the user's tags
+  const betKey = bet?.isHouseBet
+    ? hashBetContent({
+        description: bet.description,
+        outcomeDescription: bet.outcomeDescription,
+        duration: bet.expiresAt - bet.createdAt,
+        stakeAmount: bet.stake,
+        tags: bet.tags.slice(1),
+      })
+    : undefined
+
+  return useQuery({
+    queryKey: ["validationAudit", betKey],
+    queryFn: async () => {
+      const response = await fetch(`/api/validation-audit/${betKey}`)
+      if (!response.ok) {
+        throw new Error(`Failed to load validation audit (${response.status})`)
+      }
+      const data = (await response.json()) as { records: ValidationAuditRecord[] }
+      return data.records
+    },
+    enabled: !!betKey,
+    staleTime: 300000, // 5 minutes - audit records never change
+  })
+}
+
+/**
+ * Hook to verify the signed AI attestation a house bet was created with
+ * The creation transaction is found through the indexer, so this is disabled on chains without one
+ */
+export function useAttestationCheck(bet: UIBet | null) {
+  const chain = useActiveChain()
+  const enabled = !!bet?.isHouseBet && !!getIndexerUrl(chain.id)
+
+  return useQuery({
+    queryKey: ["attestationCheck", bet?.address, chain.id],
+    queryFn: async () => {
+      const response = await fetch(`/api/bets/${bet!.address}/attestation?chain=${chain.id}`)
+      if (!response.ok) {
+        throw new Error(`Failed to check attestation (${response.status})`)
+      }
+      return (await response.json()) as AttestationCheck
+    },
+    enabled,
+    staleTime: 300000, // 5 minutes - the creation transaction never changes
+    retry: false,
+  })
+}
@@ -0,0 +1,243 @@
+import { useQuery } from "@tanstack/react-query"
+import { getContract, getContractEvents, prepareEvent, readContract } from "thirdweb"
+import { client } from "@/lib/thirdweb"
+import { useBetYieldVaultContract, useContractRead } from "./useContracts"
+import { useActiveChain } from "./useActiveChain"
+import { readBetDetailsBatch } from "../contracts/bet-reader"
+import { findBlockAtTimestamp } from "../contracts/blocks"
+import { BetYieldVault, type betYieldVaultAbi } from "../contracts/generated"
+import type { ReadResult } from "../contracts/typed"
+import { fetchIndexer, getIndexerUrl, type IndexedBet } from "../indexer/client"
+
+const BET_RESOLVED_EVENT = prepareEvent({
+  signature: "event BetResolved(uint8 outcome, address winner, uint256 totalPayout, uint256 yieldEarned, uint256 timestamp)",
+})
+
+// Per-bet rows on the vault page are read for at most this many active bets
+const MAX_VAULT_BETS = 50
+
+function parseBetDeposit(data: ReadResult<typeof betYieldVaultAbi, "getBetDeposit">) {
+  return {
+    shares: data.shares,
+    depositedAt: Number(data.depositedAt),
+    principalAmount: data.principalAmount,
+    withdrawn: data.withdrawn,
+  }
+}
+
+export type BetDeposit = ReturnType<typeof parseBetDeposit>
+export type BetYield = ReadResult<typeof betYieldVaultAbi, "calculateYieldForBet">
+
+/**
+ * Hook to get the vault deposit backing a bet (both stakes, deposited when the bet activated)
+ * @param betAddress Bet contract address
+ */
+export function useBetDeposit(betAddress?: string) {
+  const contract = useBetYieldVaultContract()
+
+  const { data, isLoading, error, refetch } = useContractRead(
+    contract,
+    "getBetDeposit",
+    betAddress ? [betAddress] : undefined
+  )
+
+  // Bets that never activated have an empty deposit
+  const deposit = data && data.principalAmount > BigInt(0) ? parseBetDeposit(data) : null
+
+  return {
+    deposit,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get the yield a bet's escrowed stake has accrued so far (zero once withdrawn)
+ * @param betAddress Bet contract address
+ */
+export function useBetYield(betAddress?: string) {
+  const contract = useBetYieldVaultContract()
+
+  const { data, isLoading, error, refetch } = useContractRead(
+    contract,
+    "calculateYieldForBet",
+    betAddress ? [betAddress] : undefined
+  )
+
+  return {
+    yield: data ?? null,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get the vault's fee configuration and lifetime totals
+ */
+export function useYieldConfig() {
+  const contract = useBetYieldVaultContract()
+
+  const { data, isLoading, error, refetch } = useContractRead(contract, "getYieldConfig", [])
+
+  const config = data
+    ? {
+        platformFeeBps: Number(data.platformFeePercentage),
+        platformFeeReceiver: data.platformFeeReceiver as string,
+        totalPlatformFees: data.totalPlatformFees,
+        totalYieldGenerated: data.totalYieldGenerated,
+      }
+    : null
+
+  return {
+    config,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get total USDC under management (held by the strategy when one is set)
+ */
+export function useVaultTotalAssets() {
+  const contract = useBetYieldVaultContract()
+
+  const { data, isLoading, error, refetch } = useContractRead(contract, "totalAssets", [])
+
+  return {
+    totalAssets: data,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get the number of bets with funds in the vault
+ */
+export function useVaultActiveBetsCount() {
+  const contract = useBetYieldVaultContract()
+
+  const { data, isLoading, error, refetch } = useContractRead(contract, "getActiveBetsCount", [])
+
+  return {
+    count: data ? Number(data) : 0,
+    isLoading,
+    error,
+    refetch,
+  }
+}
+
+/**
+ * Hook to get the vault's active yield strategy and, for fixed-rate strategies, its APY
+ */
+export function useYieldStrategy() {
+  const contract = useBetYieldVaultContract()
+
+  return useQuery({
+    queryKey: ["yieldStrategy", contract.address, contract.chain.id],
+    queryFn: async () => {
+      const address = await BetYieldVault.read(contract, "yieldStrategy", [])
+
+      if (/^0x0{40}$/i.test(address)) {
+        return { address: null, apyBps: null }
+      }
+
+      // MockYieldStrategy exposes its fixed rate; other strategies may not
+      const strategy = getContract({ client, chain: contract.chain, address })
+      const apyBps = await readContract({
+        contract: strategy,
+        method: "function ANNUAL_APY() view returns (uint256)",
+        params: [],
+      })
+        .then(Number)
+        .catch(() => null)
+
+      return { address, apyBps }
+    },
+  })
+}
+
+/**
+ * Hook to get every active vault deposit with its accrued yield and bet details
+ */
+export function useVaultActiveBets() {
+  const contract = useBetYieldVaultContract()
+  const { count } = useVaultActiveBetsCount()
+
+  return useQuery({
+    queryKey: ["vaultActiveBets", count, contract.chain.id],
+    queryFn: async () => {
+      const indexes = Array.from({ length: Math.min(count, MAX_VAULT_BETS) }, (_, i) => BigInt(i))
+      const betAddresses: string[] = await Promise.all(
+        indexes.map((i) => BetYieldVault.read(contract, "activeBets", [i]))
+      )
+
+      const [deposits, yields, bets] = await Promise.all([
+        Promise.all(
+          betAddresses.map((bet) => BetYieldVault.read(contract, "getBetDeposit", [bet]))
+        ),
+        Promise.all(
+          betAddresses.map((bet) => BetYieldVault.read(contract, "calculateYieldForBet", [bet]))
+        ),
+        readBetDetailsBatch(contract.chain, betAddresses),
+      ])
+
+      return betAddresses
+        .map((address, i) => ({
+          address,
+          deposit: parseBetDeposit(deposits[i]),
+          yield: yields[i],
+          bet: bets.find((bet) => bet.address.toLowerCase() === address.toLowerCase()) ?? null,
+        }))
+        .sort((a, b) => (b.yield.totalYield > a.yield.totalYield ? 1 : b.yield.totalYield < a.yield.totalYield ? -1 : 0))
+    },
+    enabled: count > 0,
+  })
+}
+
+/**
+ * Hook to get what a resolved bet actually paid out: principal plus yield net of the platform fee.
+ * Reads the BetResolved event, from the indexer when one is configured.
+ * @param betAddress Bet contract address
+ * @param createdAt Bet creation time (unix seconds) - without an indexer, logs are searched from that block on
+ * @param isResolved Only resolved bets have a payout
+ */
+export function useBetPayout(betAddress?: string, createdAt?: number, isResolved = true) {
+  const chain = useActiveChain()
+  const indexerUrl = getIndexerUrl(chain.id)
+
+  return useQuery({
+    queryKey: ["betPayout", betAddress, chain.id],
+    queryFn: async () => {
+      if (indexerUrl) {
+        const { bet } = await fetchIndexer<{ bet: IndexedBet }>(indexerUrl, `/bets/${betAddress}`)
+        if (bet.totalPayout === null) return null
+        return {
+          winner: bet.winner,
+          totalPayout: BigInt(bet.totalPayout),
+          yieldEarned: BigInt(bet.yieldEarned ?? 0),
+        }
+      }
+
+      const events = await getContractEvents({
+        contract: getContract({ client, chain, address: betAddress! }),
+        events: [BET_RESOLVED_EVENT],
+        fromBlock: await findBlockAtTimestamp(chain, createdAt!),
+      })
+      const resolved = events[events.length - 1]
+      if (!resolved) return null
+
+      return {
+        winner: resolved.args.winner as string,
+        totalPayout: resolved.args.totalPayout as bigint,
+        yieldEarned: resolved.args.yieldEarned as bigint,
+      }
+    },
+    enabled: !!betAddress && isResolved && (!!indexerUrl || createdAt !== undefined),
+    // A found payout never changes; a missing one may just not be indexed yet
+    staleTime: (query) => (query.state.data ? Infinity : 0),
+  })
+}
@@ -0,0 +1,81 @@
+import type { EvidenceRecord } from "../evidence/types"
+import type { BetListQuery, IndexedBet, IndexedLeaderboard, IndexedUser, LeaderboardQuery, UserSearchQuery } from "./types"
+
+export type * from "./types"
+
+const INDEXER_URL = process.env.NEXT_PUBLIC_INDEXER_URL
+const INDEXER_CHAIN_ID = Number(process.env.NEXT_PUBLIC_INDEXER_CHAIN_ID || 5003)
+
+/**
+ * Base URL of the indexer serving `chainId`, or null when pages should read the chain directly
+ */
+export function getIndexerUrl(chainId: number): string | null {
+  if (!INDEXER_URL || chainId !== INDEXER_CHAIN_ID) return null
+  return INDEXER_URL.replace(/\/$/, "")
+}
+
+/**
+ * GET a JSON resource from the indexer query API
+ */
+export async function fetchIndexer<T>(baseUrl: string, path: string, query?: object): Promise<T> {
+  const params = new URLSearchParams()
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") params.set(key, String(value))
+  })
+
+  const search = params.toString()
+  const response = await fetch(`${baseUrl}${path}${search ? `?${search}` : ""}`)
+  if (!response.ok) {
+    throw new Error(`Indexer request failed (${response.status}): ${path}`)
+  }
+  return (await response.json()) as T
+}
+
+/**
+ * List bets with server-side filtering, sorting and pagination
+ */
+export function fetchIndexedBets(baseUrl: string, query: BetListQuery) {
+  return fetchIndexer<{ bets: IndexedBet[]; total: number }>(baseUrl, "/bets", query)
+}
+
+/**
+ * Bettor and LP rankings for a time window / category
+ */
+export function fetchLeaderboard(baseUrl: string, query: LeaderboardQuery) {
+  return fetchIndexer<IndexedLeaderboard>(baseUrl, "/leaderboard", query)
+}
+
+/**
+ * Active registered users whose username or linked ENS name starts with the search text
+ */
+export function fetchUsers(baseUrl: string, query: UserSearchQuery) {
+  return fetchIndexer<{ users: IndexedUser[] }>(baseUrl, "/users", query)
+}
+
+/**
+ * Evidence records submitted for a bet, oldest first
+ */
+export function fetchEvidenceRecords(baseUrl: string, betAddress: string) {
+  return fetchIndexer<{ evidence: EvidenceRecord[] }>(baseUrl, "/evidence", { bet: betAddress })
+}
+
+/**
+ * Convert an indexed bet to the shape returned by the on-chain bet hooks
+ */
+export function toBetData(bet: IndexedBet) {
+  return {
+    address: bet.address,
+    creator: bet.creator,
+    opponent: bet.opponent,
+    stakeAmount: BigInt(bet.stakeAmount),
+    description: bet.description,
+    outcomeDescription: bet.outcomeDescription,
+    createdAt: BigInt(bet.createdAt),
+    expiresAt: BigInt(bet.expiresAt),
+    state: bet.state,
+    outcome: bet.outcome,
+    creatorFunded: bet.creatorFunded,
+    opponentFunded: bet.opponentFunded,
+    tags: bet.tags,
+  }
+}
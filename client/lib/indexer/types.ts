@@ -0,0 +1,133 @@
+/**
+ * Response shapes of the indexer query API (see /indexer).
+ * USDC amounts are raw 6-decimal values serialized as strings, timestamps are unix seconds.
+ */
+
+export interface IndexedBet {
+  address: string
+  creator: string
+  opponent: string
+  stakeAmount: string
+  description: string
+  outcomeDescription: string
+  tags: string[]
+  category: string
+  isHouseBet: boolean
+  state: number // Bet.BetState
+  outcome: number // Bet.Outcome
+  creatorFunded: boolean
+  opponentFunded: boolean
+  createdAt: number
+  expiresAt: number
+  winner: string | null
+  totalPayout: string | null
+  yieldEarned: string | null
+  resolvedAt: number | null
+}
+
+export interface IndexedEvent {
+  contract: string
+  name: string
+  args: Record<string, string | number | boolean>
+  blockNumber: number
+  logIndex: number
+  transactionHash: string
+  timestamp: number
+}
+
+export interface IndexedDisputeVote {
+  judge: string
+  outcome: number
+  votedAt: number
+}
+
+export interface IndexedDispute {
+  disputeId: number
+  betAddress: string
+  initiator: string
+  tier: number
+  judgeCount: number
+  deadline: number
+  status: "active" | "resolved" | "appealed"
+  finalOutcome: number | null
+  appealedTo: number | null
+  createdAt: number
+  resolvedAt: number | null
+  votes: IndexedDisputeVote[]
+}
+
+export interface IndexedUserStats {
+  totalBets: number
+  activeBets: number
+  pendingBets: number
+  completedBets: number
+  wonBets: number
+  lostBets: number
+  drawBets: number
+  totalVolume: string
+  totalWinnings: string
+}
+
+export interface IndexedUser {
+  address: string
+  username: string
+  ensName: string | null
+  registeredAt: number
+}
+
+export interface UserSearchQuery {
+  search?: string
+  limit?: number
+}
+
+export interface IndexerStatus {
+  chainId: number
+  lastBlock: number | null
+  bets: number
+}
+
+export type BetSort = "newest" | "highest-stake" | "ending-soon"
+
+export interface BetListQuery {
+  status?: number
+  category?: string
+  search?: string
+  sort?: BetSort
+  limit?: number
+  offset?: number
+}
+
+export type LeaderboardWindow = "7d" | "30d" | "all"
+
+export interface LeaderboardQuery {
+  window?: LeaderboardWindow
+  category?: string
+  limit?: number
+}
+
+export interface IndexedBettorRank {
+  address: string
+  totalBets: number
+  wonBets: number
+  decidedBets: number
+  winRate: number // percent, over decided (non-draw) bets
+  totalVolume: string
+  totalWinnings: string
+}
+
+export interface IndexedLiquidityProviderRank {
+  address: string
+  withdrawals: number
+  totalWithdrawn: string
+  realizedYield: string
+}
+
+export interface IndexedLeaderboard {
+  window: LeaderboardWindow
+  category: string | null
+  since: number | null
+  topWinners: IndexedBettorRank[]
+  topVolume: IndexedBettorRank[]
+  topWinRate: IndexedBettorRank[]
+  topLiquidityProviders: IndexedLiquidityProviderRank[]
+}
@@ -0,0 +1,126 @@
+import { isAddress, isHex, type Hex } from "viem"
+import { verifySignature } from "thirdweb/auth"
+import { client } from "@/lib/thirdweb"
+import { getChain, isSupportedChainId } from "@/lib/chains"
+import { getContractAddresses } from "@/lib/contracts/addresses"
+import { readBetDetailsBatch, type BetDetails } from "@/lib/contracts/bet-reader"
+import { UsernameRegistry } from "@/lib/contracts/generated"
+import { normalizeEnsName, resolveEnsAddress } from "@/lib/utils/ens"
+
+export const MAX_INVITE_MESSAGE_LENGTH = 280
+
+/**
+ * Everything an invite link carries. The message is optional; when present it is signed by the
+ * bet's creator so the invitee (and the preview card) can trust who wrote it.
+ */
+export interface BetInvite {
+  chainId: number
+  betAddress: string
+  message?: string
+  signature?: Hex
+}
+
+/**
+ * Human-readable message the creator signs to vouch for an invite note
+ */
+export function getInviteSigningMessage(invite: Pick<BetInvite, "chainId" | "betAddress" | "message">): string {
+  return [
+    "Just-a-Bet invitation",
+    `Bet: ${invite.betAddress.toLowerCase()}`,
+    `Chain: ${invite.chainId}`,
+    `Message: ${invite.message || ""}`,
+  ].join("\n")
+}
+
+/**
+ * Query string shared by the invite page and its preview card
+ */
+export function getInviteSearchParams(invite: BetInvite): URLSearchParams {
+  const params = new URLSearchParams({ chain: invite.chainId.toString() })
+  if (invite.message && invite.signature) {
+    params.set("msg", invite.message)
+    params.set("sig", invite.signature)
+  }
+  return params
+}
+
+export function buildInviteUrl(origin: string, invite: BetInvite): string {
+  return `${origin}/invite/${invite.betAddress}?${getInviteSearchParams(invite)}`
+}
+
+/**
+ * Read an invite back from the route param and query string.
+ * Returns null for an invalid address or unsupported chain; a malformed message/signature pair is dropped.
+ */
+export function parseInvite(
+  betAddress: string,
+  query: { chain?: string | null; msg?: string | null; sig?: string | null },
+  fallbackChainId: number
+): BetInvite | null {
+  const chainId = query.chain ? Number(query.chain) : fallbackChainId
+  if (!isAddress(betAddress) || !isSupportedChainId(chainId)) return null
+
+  const invite: BetInvite = { chainId, betAddress }
+  if (query.msg && query.sig && isHex(query.sig) && query.msg.length <= MAX_INVITE_MESSAGE_LENGTH) {
+    invite.message = query.msg
+    invite.signature = query.sig
+  }
+  return invite
+}
+
+/**
+ * Whether the invite's message was signed by the given creator.
+ * Covers both EOAs and smart wallets (ERC-1271 / ERC-6492).
+ */
+export async function isValidInviteSignature(invite: BetInvite, creator: string): Promise<boolean> {
+  if (!invite.message || !invite.signature) return false
+
+  try {
+    return await verifySignature({
+      message: getInviteSigningMessage(invite),
+      signature: invite.signature,
+      address: creator,
+      client,
+      chain: getChain(invite.chainId),
+    })
+  } catch (error) {
+    console.error("Invite signature check error:", error)
+    return false
+  }
+}
+
+export interface InvitePreview {
+  bet: BetDetails
+  creatorName: string
+  // The message, only when the creator's signature checks out
+  message: string | null
+}
+
+/**
+ * Everything the invite page metadata and preview card show, read from the bet's getBetDetails.
+ * Returns null when the address is not a readable bet on the invite's chain.
+ */
+export async function getInvitePreview(invite: BetInvite): Promise<InvitePreview | null> {
+  const chain = getChain(invite.chainId)
+  const [bet] = await readBetDetailsBatch(chain, [invite.betAddress])
+  if (!bet) return null
+
+  const registry = UsernameRegistry.at(chain, getContractAddresses(invite.chainId).usernameRegistry)
+  const [profile, isVerified] = await Promise.all([
+    UsernameRegistry.read(registry, "getProfile", [bet.creator]).catch(() => null),
+    isValidInviteSignature(invite, bet.creator),
+  ])
+
+  // A linked ENS name is only shown when its resolver points back at the creator
+  const ensName = profile?.isActive && profile.ensName ? normalizeEnsName(profile.ensName) : null
+  const ensAddress = ensName && !profile?.username ? await resolveEnsAddress(ensName) : null
+  const isEnsVerified = Boolean(ensAddress && ensAddress.toLowerCase() === bet.creator.toLowerCase())
+
+  const creatorName = profile?.isActive && profile.username
+    ? `@${profile.username}`
+    : isEnsVerified
+      ? ensName!
+      : `${bet.creator.slice(0, 6)}...${bet.creator.slice(-4)}`
+
+  return { bet, creatorName, message: isVerified ? invite.message! : null }
+}
@@ -0,0 +1,101 @@
+import { parsePriceTarget } from "./parse"
+import { createCoinGeckoPriceSource } from "./sources/coingecko"
+import { createFixturePriceSource } from "./sources/fixture"
+import type { PriceContext, PriceProximityRule, PriceSource } from "./types"
+
+export type { PriceContext, PriceProximityRule, PriceSource, PriceTarget } from "./types"
+export { parseAsset, parsePriceTarget, parseTargetPrice } from "./parse"
+export { createCoinGeckoPriceSource } from "./sources/coingecko"
+export { createFixturePriceSource, DEFAULT_FIXTURE_PRICES } from "./sources/fixture"
+
+// Tags that make BetRiskValidator treat a bet as price-based
+export const PRICE_BET_TAGS = ["Price", "Crypto", "Trading"]
+
+let cachedSource: PriceSource | null = null
+
+/**
+ * Build the price source selected by PRICE_SOURCE (coingecko | fixture)
+ * PRICE_FIXTURES may hold a JSON price table for the fixture source.
+ */
+export function getPriceSource(): PriceSource {
+  if (cachedSource) return cachedSource
+
+  const name = process.env.PRICE_SOURCE || "coingecko"
+
+  switch (name) {
+    case "coingecko":
+      cachedSource = createCoinGeckoPriceSource({
+        baseURL: process.env.COINGECKO_BASE_URL,
+        apiKey: process.env.COINGECKO_API_KEY,
+      })
+      break
+    case "fixture":
+      cachedSource = createFixturePriceSource(
+        process.env.PRICE_FIXTURES ? JSON.parse(process.env.PRICE_FIXTURES) : undefined
+      )
+      break
+    default:
+      throw new Error(`Unknown PRICE_SOURCE: ${name}`)
+  }
+
+  return cachedSource
+}
+
+/**
+ * Look up the reference price for the asset and target mentioned in a bet.
+ * Returns null for bets that are not about a supported asset price, or when no price is available.
+ */
+export async function getPriceContext(
+  text: string,
+  source: PriceSource = getPriceSource()
+): Promise<PriceContext | null> {
+  const target = parsePriceTarget(text)
+  if (!target) return null
+
+  try {
+    const currentPrice = await source.getPrice(target.asset)
+    if (currentPrice === null || currentPrice <= 0) return null
+
+    return {
+      ...target,
+      currentPrice,
+      gapPercentage: Math.round((Math.abs(target.targetPrice - currentPrice) / currentPrice) * 10000),
+      source: source.name,
+      fetchedAt: Math.floor(Date.now() / 1000),
+    }
+  } catch (error) {
+    console.error(`Error fetching ${target.asset} price from ${source.name}:`, error)
+    return null
+  }
+}
+
+/**
+ * Pre-check a bet against BetRiskValidator's price proximity rule.
+ *
+ * The contract rejects every price-tagged bet shorter than minDurationForGap;
+ * with a reference price we can also explain when the target is within minPriceGapPercentage.
+ */
+export function checkPriceProximity(
+  params: { tags: string[]; duration: number; priceContext?: PriceContext | null },
+  rule: PriceProximityRule
+): { passes: boolean; reason?: string } {
+  const isPriceBet = params.tags.some((tag) => PRICE_BET_TAGS.includes(tag))
+  if (!isPriceBet || params.duration >= rule.minDurationForGap) {
+    return { passes: true }
+  }
+
+  const minDays = Math.ceil(rule.minDurationForGap / 86400)
+  const context = params.priceContext
+
+  if (context && context.gapPercentage < rule.minPriceGapPercentage) {
+    return {
+      passes: false,
+      reason: `${context.asset} target $${context.targetPrice.toLocaleString()} is only ${(context.gapPercentage / 100).toFixed(2)}% from the current $${context.currentPrice.toLocaleString()}. Price bets this close need at least ${minDays} days.`,
+    }
+  }
+
+  return {
+    passes: false,
+    reason: `Price bets require a duration of at least ${minDays} days`,
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import { parseAsset, parsePriceTarget, parseTargetPrice } from "./parse"
+
+describe("parseAsset", () => {
+  it("maps tickers and names to the asset", () => {
+    expect(parseAsset("BTC closes above $100k")).toBe("BTC")
+    expect(parseAsset("Will Ethereum hit a new high?")).toBe("ETH")
+    expect(parseAsset("binance coin flips $700")).toBe("BNB")
+  })
+
+  it("picks the asset mentioned first", () => {
+    expect(parseAsset("Solana outperforms bitcoin this month")).toBe("SOL")
+  })
+
+  it("only matches whole words", () => {
+    expect(parseAsset("A solid season for the Lakers")).toBeNull()
+    expect(parseAsset("Bitcoiners rejoice")).toBeNull()
+  })
+})
+
+describe("parseTargetPrice", () => {
+  it("reads dollar amounts with separators and decimals", () => {
+    expect(parseTargetPrice("ETH above $2,980 by Friday")).toBe(2980)
+    expect(parseTargetPrice("DOGE at $ 0.25")).toBe(0.25)
+  })
+
+  it("applies k and M suffixes", () => {
+    expect(parseTargetPrice("BTC over $100k")).toBe(100_000)
+    expect(parseTargetPrice("Market cap of 1.5M dollars")).toBe(1_500_000)
+  })
+
+  it("reads amounts followed by a currency word", () => {
+    expect(parseTargetPrice("SOL at 150 USD")).toBe(150)
+    expect(parseTargetPrice("MNT reaches 2 usdc")).toBe(2)
+  })
+
+  it("ignores numbers that are not prices", () => {
+    expect(parseTargetPrice("Lakers win game 7 in 2026")).toBeNull()
+    expect(parseTargetPrice("BTC at $0")).toBeNull()
+  })
+})
+
+describe("parsePriceTarget", () => {
+  it("needs both an asset and a price", () => {
+    expect(parsePriceTarget("Bitcoin above $120,000 on Dec 31")).toEqual({ asset: "BTC", targetPrice: 120_000 })
+    expect(parsePriceTarget("Bitcoin ends the year green")).toBeNull()
+    expect(parsePriceTarget("Gold above $3,000")).toBeNull()
+  })
+})
@@ -0,0 +1,64 @@
+import type { PriceTarget } from "./types"
+
+// Ticker => words that identify it in a bet description
+const ASSET_ALIASES: Record<string, string[]> = {
+  BTC: ["btc", "bitcoin", "xbt"],
+  ETH: ["eth", "ether", "ethereum"],
+  SOL: ["sol", "solana"],
+  MNT: ["mnt", "mantle"],
+  BNB: ["bnb", "binance coin"],
+  XRP: ["xrp", "ripple"],
+  DOGE: ["doge", "dogecoin"],
+}
+
+const MULTIPLIERS: Record<string, number> = { k: 1_000, m: 1_000_000 }
+
+/**
+ * Find the first supported asset mentioned in the text
+ */
+export function parseAsset(text: string): string | null {
+  const lower = text.toLowerCase()
+  let best: { asset: string; index: number } | null = null
+
+  for (const [asset, aliases] of Object.entries(ASSET_ALIASES)) {
+    for (const alias of aliases) {
+      const match = new RegExp(`\\b${alias}\\b`).exec(lower)
+      if (match && (!best || match.index < best.index)) {
+        best = { asset, index: match.index }
+      }
+    }
+  }
+
+  return best?.asset ?? null
+}
+
+/**
+ * Find the first USD amount in the text ("$2,980", "$100k", "2980 USD", "1.5M dollars")
+ */
+export function parseTargetPrice(text: string): number | null {
+  const patterns = [
+    /\$\s?(\d[\d,]*(?:\.\d+)?)\s?([km])?\b/i,
+    /\b(\d[\d,]*(?:\.\d+)?)\s?([km])?\s?(?:usd|usdc|dollars)\b/i,
+  ]
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(text)
+    if (match) {
+      const value = parseFloat(match[1].replace(/,/g, ""))
+      const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : 1
+      if (Number.isFinite(value) && value > 0) return value * multiplier
+    }
+  }
+
+  return null
+}
+
+/**
+ * Extract asset and target price from a crypto bet description
+ */
+export function parsePriceTarget(text: string): PriceTarget | null {
+  const asset = parseAsset(text)
+  const targetPrice = parseTargetPrice(text)
+  if (!asset || targetPrice === null) return null
+  return { asset, targetPrice }
+}
@@ -0,0 +1,39 @@
+import type { PriceSource } from "../types"
+
+const COINGECKO_IDS: Record<string, string> = {
+  BTC: "bitcoin",
+  ETH: "ethereum",
+  SOL: "solana",
+  MNT: "mantle",
+  BNB: "binancecoin",
+  XRP: "ripple",
+  DOGE: "dogecoin",
+}
+
+/**
+ * CoinGecko simple price API source
+ */
+export function createCoinGeckoPriceSource(
+  options: { baseURL?: string; apiKey?: string } = {}
+): PriceSource {
+  const baseURL = (options.baseURL || "https://api.coingecko.com/api/v3").replace(/\/$/, "")
+
+  return {
+    name: "coingecko",
+    async getPrice(asset) {
+      const id = COINGECKO_IDS[asset.toUpperCase()]
+      if (!id) return null
+
+      const response = await fetch(`${baseURL}/simple/price?ids=${id}&vs_currencies=usd`, {
+        headers: options.apiKey ? { "x-cg-demo-api-key": options.apiKey } : undefined,
+      })
+      if (!response.ok) {
+        throw new Error(`CoinGecko request failed with status ${response.status}`)
+      }
+
+      const data = await response.json()
+      const price = data?.[id]?.usd
+      return typeof price === "number" ? price : null
+    },
+  }
+}
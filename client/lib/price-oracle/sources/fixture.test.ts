@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { getPriceContext } from ".."
+import { DEFAULT_FIXTURE_PRICES, createFixturePriceSource } from "./fixture"
+
+describe("createFixturePriceSource", () => {
+  it("serves the default price table", async () => {
+    const source = createFixturePriceSource()
+
+    expect(source.name).toBe("fixture")
+    expect(await source.getPrice("BTC")).toBe(DEFAULT_FIXTURE_PRICES.BTC)
+    expect(await source.getPrice("eth")).toBe(DEFAULT_FIXTURE_PRICES.ETH)
+  })
+
+  it("returns null for assets missing from the table", async () => {
+    expect(await createFixturePriceSource().getPrice("PEPE")).toBeNull()
+  })
+
+  it("uses a custom table in place of the defaults", async () => {
+    const source = createFixturePriceSource({ BTC: 50_000 })
+
+    expect(await source.getPrice("BTC")).toBe(50_000)
+    expect(await source.getPrice("ETH")).toBeNull()
+  })
+
+  it("feeds getPriceContext", async () => {
+    const context = await getPriceContext("BTC above $105,000 by Friday", createFixturePriceSource())
+
+    expect(context).toMatchObject({
+      asset: "BTC",
+      targetPrice: 105_000,
+      currentPrice: 100_000,
+      gapPercentage: 500,
+      source: "fixture",
+    })
+    expect(await getPriceContext("PEPE above $1", createFixturePriceSource())).toBeNull()
+  })
+})
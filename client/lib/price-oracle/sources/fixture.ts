@@ -0,0 +1,24 @@
+import type { PriceSource } from "../types"
+
+// Deterministic prices for local development and tests
+export const DEFAULT_FIXTURE_PRICES: Record<string, number> = {
+  BTC: 100_000,
+  ETH: 3_000,
+  SOL: 150,
+  MNT: 1,
+  BNB: 600,
+  XRP: 2,
+  DOGE: 0.2,
+}
+
+/**
+ * Price source backed by a fixed price table
+ */
+export function createFixturePriceSource(prices: Record<string, number> = DEFAULT_FIXTURE_PRICES): PriceSource {
+  return {
+    name: "fixture",
+    async getPrice(asset) {
+      return prices[asset.toUpperCase()] ?? null
+    },
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Asset and target price mentioned in a bet
+ */
+export interface PriceTarget {
+  asset: string // ticker, e.g. "BTC"
+  targetPrice: number // in USD
+}
+
+/**
+ * A source of USD reference prices
+ */
+export interface PriceSource {
+  name: string
+  getPrice(asset: string): Promise<number | null>
+}
+
+/**
+ * Reference price data attached to a crypto price bet
+ */
+export interface PriceContext extends PriceTarget {
+  currentPrice: number
+  gapPercentage: number // |target - current| / current, in basis points (matches PriceProximityRule)
+  source: string
+  fetchedAt: number // unix seconds
+}
+
+/**
+ * Mirrors BetRiskValidator.PriceProximityRule
+ */
+export interface PriceProximityRule {
+  minPriceGapPercentage: number // basis points
+  minDurationForGap: number // in seconds
+}
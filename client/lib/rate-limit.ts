@@ -0,0 +1,65 @@
+/**
+ * Simple in-memory sliding window rate limiter for API routes.
+ * State is per server instance, which is enough to stop a single wallet
+ * from hammering the LLM; use a shared store if the app is scaled out.
+ */
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  retryAfterSeconds: number
+}
+
+export function createRateLimiter(options: { limit: number; windowMs: number }) {
+  const hits = new Map<string, number[]>()
+  let lastSweep = Date.now()
+
+  return function check(key: string): RateLimitResult {
+    const now = Date.now()
+    const windowStart = now - options.windowMs
+
+    // Once per window, drop keys whose hits have all expired so one-off clients don't pile up
+    if (now - lastSweep >= options.windowMs) {
+      for (const [staleKey, timestamps] of hits) {
+        if (timestamps[timestamps.length - 1] <= windowStart) hits.delete(staleKey)
+      }
+      lastSweep = now
+    }
+
+    const recent = (hits.get(key) || []).filter((timestamp) => timestamp > windowStart)
+
+    if (recent.length >= options.limit) {
+      hits.set(key, recent)
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.ceil((recent[0] + options.windowMs - now) / 1000),
+      }
+    }
+
+    recent.push(now)
+    hits.set(key, recent)
+
+    return {
+      allowed: true,
+      remaining: options.limit - recent.length,
+      retryAfterSeconds: 0,
+    }
+  }
+}
+
+/**
+ * Client IP as reported by the proxy in front of the app, for keying anonymous limits.
+ * x-real-ip is set by the platform (Vercel, a standard nginx config); otherwise only the last
+ * x-forwarded-for hop is used, since that one is appended by our own proxy - earlier hops come
+ * from the client and can be anything. Requests without either share one "unknown" bucket.
+ */
+export function getClientIp(request: Request): string {
+  const realIp = request.headers.get("x-real-ip")?.trim()
+  if (realIp) return realIp
+
+  const hops = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  return hops[hops.length - 1] || "unknown"
+}
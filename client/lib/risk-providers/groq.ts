@@ -0,0 +1,35 @@
+import Groq from "groq-sdk"
+import { assessWithRepair, RISK_PROMPT_VERSION } from "./prompt"
+import type { RiskAssessmentProvider } from "./types"
+
+/**
+ * Groq hosted LLM provider. Server only - the API key must never reach the browser.
+ */
+export function createGroqProvider(options: {
+  apiKey?: string
+  baseURL?: string // point at a local stub LLM for development and tests
+  model?: string
+}): RiskAssessmentProvider {
+  const model = options.model || "llama-3.3-70b-versatile" // Free tier model
+  const groq = new Groq({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL || undefined,
+  })
+
+  return {
+    name: "groq",
+    model,
+    promptVersion: RISK_PROMPT_VERSION,
+    assess(input) {
+      return assessWithRepair(input, async (messages) => {
+        const completion = await groq.chat.completions.create({
+          messages,
+          model,
+          temperature: 0.3, // Lower temperature for more consistent risk assessment
+          max_tokens: 500,
+        })
+        return completion.choices[0]?.message?.content || ""
+      })
+    },
+  }
+}
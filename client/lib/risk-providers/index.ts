@@ -0,0 +1,85 @@
+import { AIValidationError, type AIValidationResult, type PoolOption } from "../ai-validation"
+import type { PriceContext } from "../price-oracle/types"
+import { createGroqProvider } from "./groq"
+import { createOpenAICompatibleProvider } from "./openai-compatible"
+import { createRuleBasedProvider } from "./rule-based"
+import type { RiskAssessmentProvider, RiskAssessmentProviderName } from "./types"
+
+export type { RiskAssessmentInput, RiskAssessmentProvider, RiskAssessmentProviderName } from "./types"
+export { createGroqProvider } from "./groq"
+export { createOpenAICompatibleProvider } from "./openai-compatible"
+export { createRuleBasedProvider } from "./rule-based"
+
+let cachedProvider: RiskAssessmentProvider | null = null
+
+/**
+ * Build the risk assessment provider selected by RISK_ASSESSMENT_PROVIDER.
+ * Server only - reads secret env vars.
+ *
+ * - groq (default): GROQ_API_KEY, optional GROQ_BASE_URL / GROQ_MODEL
+ * - openai-compatible: LLM_BASE_URL, LLM_MODEL, optional LLM_API_KEY
+ * - rule-based: no configuration, mirrors BetRiskValidator
+ */
+export function getRiskAssessmentProvider(): RiskAssessmentProvider {
+  if (cachedProvider) return cachedProvider
+
+  const name = (process.env.RISK_ASSESSMENT_PROVIDER || "groq") as RiskAssessmentProviderName
+
+  switch (name) {
+    case "groq":
+      cachedProvider = createGroqProvider({
+        apiKey: process.env.GROQ_API_KEY,
+        baseURL: process.env.GROQ_BASE_URL,
+        model: process.env.GROQ_MODEL,
+      })
+      break
+    case "openai-compatible":
+      if (!process.env.LLM_BASE_URL || !process.env.LLM_MODEL) {
+        throw new Error("LLM_BASE_URL and LLM_MODEL must be set for the openai-compatible provider")
+      }
+      cachedProvider = createOpenAICompatibleProvider({
+        baseURL: process.env.LLM_BASE_URL,
+        model: process.env.LLM_MODEL,
+        apiKey: process.env.LLM_API_KEY,
+      })
+      break
+    case "rule-based":
+      cachedProvider = createRuleBasedProvider()
+      break
+    default:
+      throw new Error(`Unknown RISK_ASSESSMENT_PROVIDER: ${name}`)
+  }
+
+  return cachedProvider
+}
+
+/**
+ * Assess a house bet with the configured provider
+ * @throws AIValidationError when the bet could not be assessed (a rejected bet is returned, not thrown)
+ */
+export async function validateBetWithAI(
+  description: string,
+  outcomeDescription: string,
+  duration: number, // in seconds
+  stakeAmount: number, // in USDC (human readable, e.g., 100.50)
+  tags: string[],
+  availablePools: PoolOption[], // List of available liquidity pools
+  options: { provider?: RiskAssessmentProvider; priceContext?: PriceContext | null } = {}
+): Promise<AIValidationResult> {
+  try {
+    return await (options.provider || getRiskAssessmentProvider()).assess({
+      description,
+      outcomeDescription,
+      duration,
+      stakeAmount,
+      tags,
+      availablePools,
+      priceContext: options.priceContext,
+    })
+  } catch (error) {
+    console.error("AI validation error:", error)
+
+    if (error instanceof AIValidationError) throw error
+    throw new AIValidationError("AI service temporarily unavailable", "AI_UNAVAILABLE")
+  }
+}
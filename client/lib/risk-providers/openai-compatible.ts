@@ -0,0 +1,44 @@
+import { assessWithRepair, RISK_PROMPT_VERSION } from "./prompt"
+import type { RiskAssessmentProvider } from "./types"
+
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with a local llama.cpp server (http://localhost:8080/v1) or Ollama (http://localhost:11434/v1)
+ */
+export function createOpenAICompatibleProvider(options: {
+  baseURL: string // including the /v1 prefix
+  model: string
+  apiKey?: string
+}): RiskAssessmentProvider {
+  const endpoint = `${options.baseURL.replace(/\/$/, "")}/chat/completions`
+
+  return {
+    name: "openai-compatible",
+    model: options.model,
+    promptVersion: RISK_PROMPT_VERSION,
+    assess(input) {
+      return assessWithRepair(input, async (messages) => {
+        const response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: options.model,
+            messages,
+            temperature: 0.3,
+            max_tokens: 500,
+          }),
+        })
+
+        if (!response.ok) {
+          throw new Error(`LLM request failed with status ${response.status}`)
+        }
+
+        const completion = await response.json()
+        return completion.choices?.[0]?.message?.content || ""
+      })
+    },
+  }
+}
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { AIValidationError, type PoolOption } from "../ai-validation"
+import { assessWithRepair, parseRiskResponse } from "./prompt"
+import type { RiskAssessmentInput, RiskChatMessage } from "./types"
+
+const POOLS: PoolOption[] = [
+  {
+    id: "Sports-NBA",
+    name: "Sports Pool - NBA",
+    category: "Sports",
+    description: "NBA games",
+    minStake: 10,
+    maxStake: 1000,
+    targetAPY: 12,
+  },
+]
+
+const INPUT: RiskAssessmentInput = {
+  description: "Lakers beat the Celtics",
+  outcomeDescription: "Final score on nba.com",
+  duration: 30 * 86400,
+  stakeAmount: 100,
+  tags: ["nba"],
+  availablePools: POOLS,
+}
+
+const VALID_RESPONSE = JSON.stringify({
+  isValid: true,
+  riskScore: 80,
+  recommendedPool: "Sports Pool - NBA",
+  confidence: 90,
+  reasoning: "Objective outcome with fair odds for the house.",
+  warnings: [],
+})
+
+/**
+ * Chat model stub that answers with the given completions in order
+ */
+function stubModel(...responses: string[]) {
+  const calls: RiskChatMessage[][] = []
+  const complete = vi.fn(async (messages: RiskChatMessage[]) => {
+    calls.push([...messages])
+    return responses[calls.length - 1] ?? ""
+  })
+  return { complete, calls }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+describe("parseRiskResponse", () => {
+  it("reads JSON from a fenced block surrounded by prose", () => {
+    const result = parseRiskResponse(`Here is my assessment:\n\`\`\`json\n${VALID_RESPONSE}\n\`\`\`\nThanks!`, ["Sports Pool - NBA"])
+
+    expect(result.riskScore).toBe(80)
+    expect(result.recommendedPool).toBe("Sports Pool - NBA")
+  })
+
+  it("clamps scores to 0-100", () => {
+    const result = parseRiskResponse(
+      JSON.stringify({ ...JSON.parse(VALID_RESPONSE), riskScore: 140, confidence: -5 }),
+      ["Sports Pool - NBA"]
+    )
+
+    expect(result.riskScore).toBe(100)
+    expect(result.confidence).toBe(0)
+  })
+
+  it("forces isValid to false below the acceptance threshold", () => {
+    const result = parseRiskResponse(JSON.stringify({ ...JSON.parse(VALID_RESPONSE), riskScore: 59 }), [
+      "Sports Pool - NBA",
+    ])
+
+    expect(result.isValid).toBe(false)
+  })
+
+  it("rejects pools that were not offered", () => {
+    expect(() =>
+      parseRiskResponse(JSON.stringify({ ...JSON.parse(VALID_RESPONSE), recommendedPool: "Moon Pool" }), [
+        "Sports Pool - NBA",
+      ])
+    ).toThrow(/recommendedPool must be one of: Sports Pool - NBA/)
+  })
+})
+
+describe("assessWithRepair", () => {
+  it("returns the first valid response without re-prompting", async () => {
+    const model = stubModel(VALID_RESPONSE)
+
+    const result = await assessWithRepair(INPUT, model.complete)
+
+    expect(result.isValid).toBe(true)
+    expect(model.complete).toHaveBeenCalledTimes(1)
+  })
+
+  it("feeds validation problems back to the model until it answers correctly", async () => {
+    const invalid = JSON.stringify({ ...JSON.parse(VALID_RESPONSE), recommendedPool: "Moon Pool" })
+    const model = stubModel(invalid, VALID_RESPONSE)
+
+    const result = await assessWithRepair(INPUT, model.complete)
+
+    expect(result.recommendedPool).toBe("Sports Pool - NBA")
+    expect(model.complete).toHaveBeenCalledTimes(2)
+
+    const [, assistant, repair] = model.calls[1]
+    expect(assistant).toEqual({ role: "assistant", content: invalid })
+    expect(repair.role).toBe("user")
+    expect(repair.content).toContain("recommendedPool must be one of")
+  })
+
+  it("gives up with AI_INVALID_RESPONSE once the attempts are used", async () => {
+    const model = stubModel("not json", "still not json", "{ nope")
+
+    const error = await assessWithRepair(INPUT, model.complete).catch((e) => e)
+
+    expect(error).toBeInstanceOf(AIValidationError)
+    expect(error.code).toBe("AI_INVALID_RESPONSE")
+    expect(model.complete).toHaveBeenCalledTimes(3)
+  })
+
+  it("reports transport failures as AI_UNAVAILABLE without retrying", async () => {
+    const complete = vi.fn(async () => {
+      throw new Error("ECONNREFUSED")
+    })
+
+    const error = await assessWithRepair(INPUT, complete).catch((e) => e)
+
+    expect(error).toBeInstanceOf(AIValidationError)
+    expect(error.code).toBe("AI_UNAVAILABLE")
+    expect(complete).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,251 @@
+import { AIValidationError, createAIValidationResultSchema, type AIValidationResult } from "../ai-validation"
+import type { RiskAssessmentInput, RiskChatMessage } from "./types"
+
+// Recorded with every verdict in the audit log - bump whenever buildRiskPrompt changes
+export const RISK_PROMPT_VERSION = "house-risk-v2"
+
+/**
+ * Build the house risk assessment prompt shared by all LLM providers
+ */
+export function buildRiskPrompt(input: RiskAssessmentInput): string {
+  const durationInDays = Math.floor(input.duration / 86400)
+
+  const poolsDescription = input.availablePools
+    .map(
+      (p) =>
+        `- ${p.name} (${p.category}): ${p.description} | Min: $${p.minStake}, Max: $${p.maxStake}, APY: ${p.targetAPY}%`
+    )
+    .join("\n")
+
+  const context = input.priceContext
+  const marketContext = context
+    ? `
+Market Context (reference price from ${context.source} at ${new Date(context.fetchedAt * 1000).toISOString()}):
+- Asset: ${context.asset}
+- Current Price: $${context.currentPrice.toLocaleString("en-US")}
+- Target Price in Bet: $${context.targetPrice.toLocaleString("en-US")}
+- Distance to Target: ${(context.gapPercentage / 100).toFixed(2)}%
+`
+    : ""
+
+  return `You are a risk assessment AI working FOR THE HOUSE (liquidity pool) on a betting platform. Your job is to protect the house from risky bets that could drain liquidity.
+
+IMPORTANT:
+- You evaluate risk FROM THE HOUSE'S PERSPECTIVE
+- High risk score = SAFE FOR HOUSE (house should accept)
+- Low risk score = RISKY FOR HOUSE (house should reject)
+
+Bet Details:
+- Description: ${input.description}
+- Outcome Criteria: ${input.outcomeDescription}
+- Duration: ${durationInDays} days
+- Stake Amount: $${input.stakeAmount} USDC
+- Tags: ${input.tags.join(", ")}
+${marketContext}
+Available Pools:
+${poolsDescription}
+
+Evaluation Criteria:
+
+1. **Pool Assignment**: Which pool (if any) should accept this bet?
+   - Match bet category to pool category
+   - Check if stake amount fits pool's min/max limits
+   - Consider if pool specializes in this type of bet
+   - Return null if NO pool is suitable
+
+2. **House Risk Assessment**: How risky is this bet FOR THE HOUSE?
+
+   REJECT (0-39) if:
+   - Easy win for bettor (e.g., "ETH will hit $2,980" when current price is $2,979)
+   - Insider information advantage possible
+   - Outcome cannot be objectively verified
+   - Duration is too short for the bet type (manipulation risk)
+   - Market manipulation potential
+   - Bettor has unfair advantage
+
+   CAUTION (40-59) if:
+   - Some subjectivity in outcome determination
+   - Moderate manipulation potential
+   - Verification requires manual judgment
+   - Duration is borderline for bet type
+
+   ACCEPT (60-79) if:
+   - Mostly objective outcome
+   - Low manipulation risk
+   - Fair duration for bet type
+   - Verifiable through reliable sources
+   - Both sides have reasonable chance
+
+   STRONGLY ACCEPT (80-100) if:
+   - Completely objective outcome (official scores, timestamps, etc.)
+   - Zero manipulation potential
+   - Perfect duration for bet type
+   - Easy verification
+   - House has EQUAL or BETTER odds than bettor
+
+Risk Score Scale (FROM HOUSE'S PERSPECTIVE):
+- 80-100: Very Safe for House - Accept immediately
+- 60-79: Moderate Risk for House - Acceptable
+- 40-59: High Risk for House - Reject
+- 0-39: Very High Risk for House - Reject immediately
+
+Response Format (JSON only):
+{
+  "isValid": boolean, // true if riskScore >= 60 AND recommendedPool is not null
+  "riskScore": number, // 0-100 (higher = safer FOR HOUSE)
+  "recommendedPool": string | null, // Pool name from available pools, or null if no pool fits
+  "confidence": number, // 0-100
+  "reasoning": string, // 2-3 sentences explaining WHY this is safe/risky FOR THE HOUSE
+  "warnings": string[] // Optional array of specific concerns for the house
+}
+
+Examples:
+
+BAD BET - High Risk for House (REJECT):
+Input: "ETH will hit $2,980 in next 24 hours" (current price: $2,979)
+{
+  "isValid": false,
+  "riskScore": 15,
+  "recommendedPool": null,
+  "confidence": 95,
+  "reasoning": "EXTREMELY RISKY FOR HOUSE. Price target is only $1 away from current price with 24h duration. This is almost guaranteed to hit, making it an easy win for bettor and guaranteed loss for house. Clear manipulation/unfair advantage.",
+  "warnings": ["Price proximity manipulation risk", "Almost certain loss for house", "Duration too short for price movement"]
+}
+
+BAD BET - No Suitable Pool (REJECT):
+Input: "I will finish my homework by tomorrow" ($50 stake)
+{
+  "isValid": false,
+  "riskScore": 20,
+  "recommendedPool": null,
+  "confidence": 90,
+  "reasoning": "VERY RISKY FOR HOUSE. Personal bet with unverifiable outcome - only bettor knows if homework is done. House cannot verify result objectively. No pool specializes in personal unverifiable bets.",
+  "warnings": ["Cannot verify outcome objectively", "Bettor has complete control over outcome", "No suitable pool"]
+}
+
+GOOD BET - Safe for House (ACCEPT):
+Input: "Lakers will beat Celtics in tonight's NBA game" (7 day window, official game scheduled)
+{
+  "isValid": true,
+  "riskScore": 85,
+  "recommendedPool": "Sports Pool - NBA",
+  "confidence": 90,
+  "reasoning": "SAFE FOR HOUSE. Objective outcome verifiable via official NBA sources. Both teams have reasonable chance of winning based on historical data. Fair 50/50 probability for house. Duration matches game schedule.",
+  "warnings": []
+}
+
+GOOD BET - Safe for House (ACCEPT):
+Input: "Bitcoin will be above $100k by end of 2026" (bet created Jan 2026, 365 day duration)
+{
+  "isValid": true,
+  "riskScore": 75,
+  "recommendedPool": "Crypto Pool - BTC",
+  "confidence": 85,
+  "reasoning": "ACCEPTABLE RISK FOR HOUSE. Long duration (365 days) reduces manipulation risk. Price target ($100k) is significantly different from current price, making outcome uncertain. Verifiable via major exchanges. Fair odds for both sides.",
+  "warnings": ["Crypto volatility inherent", "Long-term price prediction"]
+}
+
+Now evaluate the bet above and respond with JSON only:`
+}
+
+/**
+ * Extract the JSON object from a completion (handles markdown code fences and surrounding prose)
+ */
+function extractJson(responseText: string): unknown {
+  const fenced = responseText.match(/```(?:json)?\s*([\s\S]*?)```/)
+  const candidate = (fenced ? fenced[1] : responseText).trim()
+
+  const start = candidate.indexOf("{")
+  if (start === -1) {
+    throw new Error("Response does not contain a JSON object")
+  }
+
+  // Walk to the matching closing brace instead of greedily matching the last "}"
+  let depth = 0
+  let inString = false
+  for (let i = start; i < candidate.length; i++) {
+    const char = candidate[i]
+    if (inString) {
+      if (char === "\\") i++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === "{") {
+      depth++
+    } else if (char === "}") {
+      depth--
+      if (depth === 0) return JSON.parse(candidate.slice(start, i + 1))
+    }
+  }
+
+  throw new Error("Response contains an unterminated JSON object")
+}
+
+/**
+ * Parse an LLM completion into an AIValidationResult
+ * @throws Error describing what is wrong, suitable for feeding back to the model
+ */
+export function parseRiskResponse(responseText: string, poolNames: string[]): AIValidationResult {
+  const parsed = createAIValidationResultSchema(poolNames).safeParse(extractJson(responseText))
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`)
+    throw new Error(issues.join("; "))
+  }
+
+  return parsed.data
+}
+
+/**
+ * Ask the model to fix a response that failed validation
+ */
+function buildRepairPrompt(problem: string, poolNames: string[]): string {
+  return `Your previous response could not be used: ${problem}
+
+Respond again with ONLY a JSON object matching the response format:
+- "isValid": boolean
+- "riskScore": number from 0 to 100
+- "recommendedPool": one of ${poolNames.map((name) => `"${name}"`).join(", ")} or null
+- "confidence": number from 0 to 100
+- "reasoning": non-empty string
+- "warnings": array of strings`
+}
+
+/**
+ * Run a chat model and re-prompt it with the validation problems until it returns a valid result.
+ * Transport failures are reported as AI_UNAVAILABLE, exhausted repairs as AI_INVALID_RESPONSE.
+ */
+export async function assessWithRepair(
+  input: RiskAssessmentInput,
+  complete: (messages: RiskChatMessage[]) => Promise<string>,
+  maxAttempts = 3
+): Promise<AIValidationResult> {
+  const poolNames = input.availablePools.map((pool) => pool.name)
+  const messages: RiskChatMessage[] = [{ role: "user", content: buildRiskPrompt(input) }]
+  let lastProblem = ""
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let responseText: string
+    try {
+      responseText = await complete(messages)
+    } catch (error) {
+      throw new AIValidationError(
+        `AI provider unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        "AI_UNAVAILABLE"
+      )
+    }
+
+    try {
+      return parseRiskResponse(responseText, poolNames)
+    } catch (error) {
+      lastProblem = error instanceof Error ? error.message : String(error)
+      console.warn(`AI response failed validation (attempt ${attempt}/${maxAttempts}):`, lastProblem)
+      messages.push(
+        { role: "assistant", content: responseText },
+        { role: "user", content: buildRepairPrompt(lastProblem, poolNames) }
+      )
+    }
+  }
+
+  throw new AIValidationError(`AI returned an invalid assessment: ${lastProblem}`, "AI_INVALID_RESPONSE")
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest"
+import type { PoolOption } from "../ai-validation"
+import type { PriceContext } from "../price-oracle"
+import { DEFAULT_CATEGORY_RISK, calculateRiskScore, createRuleBasedProvider } from "./rule-based"
+import type { RiskAssessmentInput } from "./types"
+
+const DAY = 86400
+
+const POOLS: PoolOption[] = [
+  {
+    id: "Sports-NBA",
+    name: "Sports Pool - NBA",
+    category: "Sports",
+    description: "NBA games",
+    minStake: 10,
+    maxStake: 1000,
+    targetAPY: 12,
+  },
+  {
+    id: "Crypto-Major",
+    name: "Crypto Pool",
+    category: "Crypto",
+    description: "Major crypto assets",
+    minStake: 10,
+    maxStake: 1000,
+    targetAPY: 18,
+  },
+]
+
+function input(overrides: Partial<RiskAssessmentInput> = {}): RiskAssessmentInput {
+  return {
+    description: "Lakers beat the Celtics",
+    outcomeDescription: "Final score on nba.com",
+    duration: 30 * DAY,
+    stakeAmount: 100,
+    tags: ["nba"],
+    availablePools: POOLS,
+    ...overrides,
+  }
+}
+
+describe("calculateRiskScore", () => {
+  it("adds up the BetRiskValidator components", () => {
+    // duration 30 + stake 15 + Sports (30 - 3 * 2) + reputation 7 + short description 2
+    expect(calculateRiskScore(30 * DAY, "Lakers beat the Celtics", DEFAULT_CATEGORY_RISK.Sports)).toBe(78)
+  })
+
+  it("scores duration in steps", () => {
+    const sports = DEFAULT_CATEGORY_RISK.Sports
+    expect(calculateRiskScore(2 * DAY, "x", sports)).toBe(53)
+    expect(calculateRiskScore(3 * DAY, "x", sports)).toBe(58)
+    expect(calculateRiskScore(7 * DAY, "x", sports)).toBe(68)
+  })
+
+  it("gives no category points for unknown or disabled categories", () => {
+    expect(calculateRiskScore(30 * DAY, "x", undefined)).toBe(54)
+    expect(calculateRiskScore(30 * DAY, "x", DEFAULT_CATEGORY_RISK.Weather)).toBe(54)
+  })
+
+  it("measures description length in bytes like the contract", () => {
+    const sports = DEFAULT_CATEGORY_RISK.Sports
+    expect(calculateRiskScore(30 * DAY, "a".repeat(60), sports)).toBe(81)
+    // 60 characters, 120 bytes
+    expect(calculateRiskScore(30 * DAY, "é".repeat(60), sports)).toBe(83)
+    expect(calculateRiskScore(30 * DAY, "a".repeat(201), sports)).toBe(86)
+  })
+})
+
+describe("createRuleBasedProvider", () => {
+  const provider = createRuleBasedProvider()
+
+  it("accepts a bet that passes every rule and recommends its pool", async () => {
+    const result = await provider.assess(input())
+
+    expect(result.isValid).toBe(true)
+    expect(result.recommendedPool).toBe("Sports Pool - NBA")
+    expect(result.riskScore).toBe(78)
+    expect(result.confidence).toBe(100)
+  })
+
+  it("rejects durations outside the validation rules", async () => {
+    const result = await provider.assess(input({ duration: 12 * 3600 }))
+
+    expect(result.isValid).toBe(false)
+    expect(result.recommendedPool).toBeNull()
+    expect(result.warnings).toContain("Duration too short")
+  })
+
+  it("rejects stakes outside the pool's bounds", async () => {
+    const result = await provider.assess(input({ stakeAmount: 5000 }))
+
+    expect(result.isValid).toBe(false)
+    expect(result.warnings).toContain("Stake must be between $10 and $1000 for Sports Pool - NBA")
+  })
+
+  it("rejects bets no pool covers", async () => {
+    const result = await provider.assess(input({ tags: ["weather"] }))
+
+    expect(result.isValid).toBe(false)
+    expect(result.warnings).toContain("No suitable pool")
+  })
+
+  it("rejects scores below the configured minimum", async () => {
+    const strict = createRuleBasedProvider({
+      rules: { minDuration: DAY, maxDuration: 365 * DAY, minStakeAmount: 10, minRiskScore: 90 },
+    })
+    const result = await strict.assess(input())
+
+    expect(result.isValid).toBe(false)
+    expect(result.warnings).toContain("Risk score too low")
+  })
+
+  it("applies the price proximity rule to short crypto price bets", async () => {
+    const priceContext: PriceContext = {
+      asset: "BTC",
+      targetPrice: 100_500,
+      currentPrice: 100_000,
+      gapPercentage: 50,
+      source: "fixture",
+      fetchedAt: 0,
+    }
+    const result = await provider.assess(
+      input({ description: "BTC above $100,500", tags: ["btc"], duration: 3 * DAY, priceContext })
+    )
+
+    expect(result.isValid).toBe(false)
+    expect(result.warnings).toContainEqual(expect.stringMatching(/^BTC target \$100,500 is only 0\.50%/))
+  })
+})
@@ -0,0 +1,176 @@
+import type { AIValidationResult, PoolOption } from "../ai-validation"
+import { deriveCategoryFromTags } from "../utils/bet-helpers"
+import { checkPriceProximity, type PriceProximityRule } from "../price-oracle"
+import type { RiskAssessmentInput, RiskAssessmentProvider } from "./types"
+
+/**
+ * Mirrors BetRiskValidator.ValidationRules (durations in seconds, stake in USDC)
+ */
+export interface ValidationRules {
+  minDuration: number
+  maxDuration: number
+  minStakeAmount: number
+  minRiskScore: number
+}
+
+/**
+ * Mirrors BetRiskValidator.CategoryRisk
+ */
+export interface CategoryRisk {
+  enabled: boolean
+  riskLevel: number // 1-10 (1 = safest, 10 = riskiest)
+  minDuration: number // in seconds
+}
+
+// Defaults set in the BetRiskValidator constructor
+export const DEFAULT_VALIDATION_RULES: ValidationRules = {
+  minDuration: 24 * 3600,
+  maxDuration: 365 * 86400,
+  minStakeAmount: 10,
+  minRiskScore: 60,
+}
+
+export const DEFAULT_CATEGORY_RISK: Record<string, CategoryRisk> = {
+  Sports: { enabled: true, riskLevel: 3, minDuration: 3600 },
+  Crypto: { enabled: true, riskLevel: 5, minDuration: 7 * 86400 },
+  Price: { enabled: true, riskLevel: 8, minDuration: 7 * 86400 },
+  Politics: { enabled: true, riskLevel: 3, minDuration: 86400 },
+  Entertainment: { enabled: true, riskLevel: 3, minDuration: 3600 },
+  Weather: { enabled: false, riskLevel: 9, minDuration: 7 * 86400 },
+  Personal: { enabled: false, riskLevel: 10, minDuration: 30 * 86400 },
+}
+
+export const DEFAULT_PRICE_PROXIMITY_RULE: PriceProximityRule = {
+  minPriceGapPercentage: 200,
+  minDurationForGap: 7 * 86400,
+}
+
+const DEFAULT_REPUTATION = 50 // BetRiskValidator.DEFAULT_REPUTATION
+
+/**
+ * Pick the pool the create flow would route this bet to
+ * (the pool category is prepended as the first on-chain tag)
+ */
+function selectPool(tags: string[], pools: PoolOption[]): PoolOption | null {
+  const category =
+    tags.map((tag) => deriveCategoryFromTags([tag])).find((c) => c !== "General") || "General"
+  return pools.find((pool) => pool.category === category) || null
+}
+
+/**
+ * Same scoring as BetRiskValidator._calculateRiskScore with a new creator's default reputation
+ */
+export function calculateRiskScore(
+  duration: number,
+  description: string,
+  category: CategoryRisk | undefined
+): number {
+  let score = 0
+
+  // Component 1: Duration score (0-30 points)
+  if (duration >= 30 * 86400) {
+    score += 30
+  } else if (duration >= 7 * 86400) {
+    score += 20
+  } else if (duration >= 3 * 86400) {
+    score += 10
+  } else {
+    score += 5
+  }
+
+  // Component 2: Stake size score (fixed moderate score on-chain)
+  score += 15
+
+  // Component 3: Category risk level
+  if (category?.enabled) {
+    score += 30 - category.riskLevel * 2
+  }
+
+  // Component 4: Creator reputation (0-15 points)
+  score += Math.floor((DEFAULT_REPUTATION * 15) / 100)
+
+  // Component 5: Description quality (0-10 points), measured in bytes like the contract
+  const descriptionLength = new TextEncoder().encode(description).length
+  if (descriptionLength > 200) {
+    score += 10
+  } else if (descriptionLength > 100) {
+    score += 7
+  } else if (descriptionLength > 50) {
+    score += 5
+  } else {
+    score += 2
+  }
+
+  return Math.min(score, 100)
+}
+
+/**
+ * Deterministic provider that applies the on-chain BetRiskValidator checks offline.
+ * Pool liquidity and utilization are not known here, so those checks are left to the contract.
+ */
+export function createRuleBasedProvider(
+  options: {
+    rules?: ValidationRules
+    categoryRisk?: Record<string, CategoryRisk>
+    priceProximityRule?: PriceProximityRule
+  } = {}
+): RiskAssessmentProvider {
+  const rules = options.rules || DEFAULT_VALIDATION_RULES
+  const categoryRisk = options.categoryRisk || DEFAULT_CATEGORY_RISK
+  const priceRule = options.priceProximityRule || DEFAULT_PRICE_PROXIMITY_RULE
+
+  return {
+    name: "rule-based",
+    model: "bet-risk-validator",
+    promptVersion: "rules-v1",
+    async assess(input: RiskAssessmentInput): Promise<AIValidationResult> {
+      const pool = selectPool(input.tags, input.availablePools)
+      const primaryCategory = pool?.category
+      const onChainTags = primaryCategory ? [primaryCategory, ...input.tags] : input.tags
+      const category = primaryCategory ? categoryRisk[primaryCategory] : undefined
+      const riskScore = calculateRiskScore(input.duration, input.description, category)
+
+      const failures: string[] = []
+
+      // Layer 2: Basic rules
+      if (input.duration < rules.minDuration) failures.push("Duration too short")
+      if (input.duration > rules.maxDuration) failures.push("Duration too long")
+      if (input.stakeAmount < rules.minStakeAmount) failures.push("Stake amount too low")
+      if (pool && (input.stakeAmount < pool.minStake || input.stakeAmount > pool.maxStake)) {
+        failures.push(`Stake must be between $${pool.minStake} and $${pool.maxStake} for ${pool.name}`)
+      }
+
+      // Layer 3: Category
+      if (!pool) {
+        failures.push("No suitable pool")
+      } else if (!category?.enabled) {
+        failures.push("Category not enabled for pool matching")
+      } else if (category.minDuration > 0 && input.duration < category.minDuration) {
+        failures.push("Duration too short for this category")
+      }
+
+      // Layer 4: Risk score
+      if (riskScore < rules.minRiskScore) failures.push("Risk score too low")
+
+      // Layer 5: Price proximity
+      const proximity = checkPriceProximity(
+        { tags: onChainTags, duration: input.duration, priceContext: input.priceContext },
+        priceRule
+      )
+      if (!proximity.passes && proximity.reason) failures.push(proximity.reason)
+
+      const isValid = failures.length === 0 && pool !== null
+
+      return {
+        isValid,
+        riskScore,
+        recommendedPool: isValid && pool ? pool.name : null,
+        confidence: 100,
+        reasoning: isValid
+          ? `Passes all BetRiskValidator rules for the ${primaryCategory} category with a score of ${riskScore}/100.`
+          : `Fails BetRiskValidator rules: ${failures.join("; ")}.`,
+        warnings: isValid ? ["Pool liquidity and utilization are checked on-chain at creation"] : failures,
+      }
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import type { AIValidationResult, PoolOption } from "../ai-validation"
+import type { PriceContext } from "../price-oracle/types"
+
+/**
+ * Bet parameters a provider assesses
+ */
+export interface RiskAssessmentInput {
+  description: string
+  outcomeDescription: string
+  duration: number // in seconds
+  stakeAmount: number // in USDC (human readable, e.g., 100.50)
+  tags: string[]
+  availablePools: PoolOption[] // List of available liquidity pools
+  priceContext?: PriceContext | null // reference price for crypto price bets
+}
+
+export interface RiskChatMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+/**
+ * A source of house risk assessments (LLM or deterministic rules)
+ */
+export interface RiskAssessmentProvider {
+  name: string // provider id, e.g. "groq"
+  model: string // model identifier reported in results and logs
+  promptVersion: string // bump when the prompt or rules change so cached verdicts are not reused
+  assess(input: RiskAssessmentInput): Promise<AIValidationResult>
+}
+
+export type RiskAssessmentProviderName = "groq" | "openai-compatible" | "rule-based"
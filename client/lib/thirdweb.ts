@@ -1,4 +1,4 @@
-import { createThirdwebClient, defineChain } from "thirdweb"
+import { createThirdwebClient } from "thirdweb"
 import { createWallet } from "thirdweb/wallets"
 
 // Get client ID from Thirdweb dashboard
@@ -13,25 +13,6 @@ export const client = createThirdwebClient({
   clientId,
 })
 
-// Define Mantle Sepolia chain
-export const mantleSepolia = defineChain({
-  id: 5003,
-  name: "Mantle Sepolia",
-  nativeCurrency: {
-    name: "MNT",
-    symbol: "MNT",
-    decimals: 18,
-  },
-  rpc: "https://rpc.sepolia.mantle.xyz",
-  blockExplorers: [
-    {
-      name: "Mantle Sepolia Explorer",
-      url: "https://explorer.sepolia.mantle.xyz",
-    },
-  ],
-  testnet: true,
-})
-
 // Supported wallets
 export const wallets = [
   createWallet("io.metamask"),
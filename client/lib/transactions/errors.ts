@@ -0,0 +1,134 @@
+import { decodeAbiParameters, toFunctionSelector, type Abi, type AbiParameterToPrimitiveType, type Hex } from "viem"
+import {
+  betAbi,
+  betFactoryAbi,
+  betRiskValidatorAbi,
+  betYieldVaultAbi,
+  cdoPoolAbi,
+  disputeManagerAbi,
+  judgeRegistryAbi,
+  usernameRegistryAbi,
+} from "../contracts/generated"
+import { en } from "./locales/en"
+import { es } from "./locales/es"
+
+type AbiError = Extract<Abi[number], { type: "error" }>
+
+const PROTOCOL_ABIS = [
+  betAbi,
+  betFactoryAbi,
+  cdoPoolAbi,
+  betRiskValidatorAbi,
+  judgeRegistryAbi,
+  disputeManagerAbi,
+  betYieldVaultAbi,
+  usernameRegistryAbi,
+] as const
+
+type ProtocolAbiError = Extract<(typeof PROTOCOL_ABIS)[number][number], { type: "error" }>
+
+/** Every custom error a protocol contract can revert with */
+export type ProtocolErrorName = ProtocolAbiError["name"]
+
+/** Decoded arguments of a protocol error, keyed by the Solidity parameter names */
+export type ProtocolErrorArgs<TName extends ProtocolErrorName> = TName extends ProtocolErrorName
+  ? {
+      [TParam in Extract<ProtocolAbiError, { name: TName }>["inputs"][number] as TParam["name"]]: AbiParameterToPrimitiveType<TParam>
+    }
+  : never
+
+export interface ProtocolError<TName extends ProtocolErrorName = ProtocolErrorName> {
+  name: TName
+  selector: Hex
+  args: ProtocolErrorArgs<TName>
+}
+
+type ErrorMessage<TName extends ProtocolErrorName> = string | ((args: ProtocolErrorArgs<TName>) => string)
+
+export interface TransactionMessages {
+  errors: { [TName in ProtocolErrorName]: ErrorMessage<TName> }
+  rejected: string
+  noReason: string
+  failed: string
+  unknownError: (selector: string) => string
+}
+
+export type Locale = "en" | "es"
+
+const MESSAGES: Record<Locale, TransactionMessages> = { en, es }
+
+function errorSignature(item: AbiError) {
+  return `${item.name}(${item.inputs.map((input) => input.type).join(",")})`
+}
+
+// Selector -> error. Errors shared between contracts (Ownable, ReentrancyGuard, ...) land on one entry.
+const ERROR_SELECTORS = new Map<string, AbiError>(
+  PROTOCOL_ABIS.flatMap((abi) => (abi as Abi).filter((item): item is AbiError => item.type === "error")).map((item) => [
+    toFunctionSelector(errorSignature(item)),
+    item,
+  ])
+)
+
+/**
+ * Locale of the browser when a translation exists for it, English otherwise
+ */
+export function getLocale(): Locale {
+  if (typeof navigator === "undefined") return "en"
+  const language = navigator.language.slice(0, 2).toLowerCase()
+  return language in MESSAGES ? (language as Locale) : "en"
+}
+
+export function getTransactionMessages(locale: Locale = getLocale()): TransactionMessages {
+  return MESSAGES[locale]
+}
+
+/**
+ * Look up revert data in the protocol's error table and decode its arguments.
+ * Returns null for selectors no protocol contract declares.
+ */
+export function decodeProtocolError(data: Hex): ProtocolError | null {
+  const selector = data.slice(0, 10).toLowerCase() as Hex
+  const item = ERROR_SELECTORS.get(selector)
+  if (!item) return null
+
+  try {
+    const values = decodeAbiParameters(item.inputs, `0x${data.slice(10)}`)
+    // The selector table is built from PROTOCOL_ABIS, so the name and argument shape come from the same ABI item
+    return {
+      name: item.name,
+      selector,
+      args: Object.fromEntries(item.inputs.map((input, i) => [input.name || `${i}`, values[i]])),
+    } as ProtocolError
+  } catch {
+    return null
+  }
+}
+
+/**
+ * User-facing message for a decoded protocol error
+ */
+export function formatProtocolError<TName extends ProtocolErrorName>(error: ProtocolError<TName>, locale?: Locale): string {
+  const message = getTransactionMessages(locale).errors[error.name]
+  return typeof message === "function" ? message(error.args) : message
+}
+
+/**
+ * A failed send or reverted transaction. `message` is ready to show; `protocolError` is set when the
+ * revert was one of the protocol's custom errors, for callers that handle specific errors.
+ */
+export class TransactionError extends Error {
+  readonly protocolError: ProtocolError | null
+
+  constructor(message: string, protocolError: ProtocolError | null = null, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "TransactionError"
+    this.protocolError = protocolError
+  }
+}
+
+/**
+ * Whether an error is the given protocol custom error
+ */
+export function isProtocolError(error: unknown, name: ProtocolErrorName): error is TransactionError {
+  return error instanceof TransactionError && error.protocolError?.name === name
+}
@@ -0,0 +1,102 @@
+import type { TransactionMessages } from "../errors"
+
+export const en: TransactionMessages = {
+  errors: {
+    // Bet
+    AlreadyFunded: "You have already funded your stake",
+    BetAlreadyAccepted: "This bet has already been accepted",
+    BetExpired: "This bet has expired",
+    BetNotActive: "This bet is not active",
+    BetNotExpired: "This bet has not expired yet",
+    CannotDeclareAsWinner: "You can't declare yourself the winner of this bet",
+    DisputeWindowActive: "The dispute window is still open",
+    DisputeWindowExpired: "The dispute window has closed",
+    InvalidDuration: "The bet duration is outside the allowed range",
+    InvalidOpponent: "Choose an opponent other than yourself",
+    InvalidStakeAmount: "The stake amount is not allowed",
+    InvalidState: "The bet is not in the right state for this action",
+    NotBothFunded: "Both stakes are already funded, so the bet can no longer be cancelled",
+    NotParticipant: "Only the creator or the opponent can do this",
+    SafeERC20FailedOperation: "The USDC transfer failed. Check your balance and approval",
+    Unauthorized: "You are not allowed to do this",
+
+    // BetFactory
+    CDOPoolNotSet: "House bets are unavailable: no liquidity pool is configured",
+    HouseBetRejectedByRiskValidator: ({ reason }) => `The house declined this bet: ${reason}`,
+    InsufficientPoolLiquidity: "The pool does not have enough liquidity to match this bet",
+    NoPoolForCategory: "No liquidity pool covers this category",
+    PoolFactoryNotSet: "House bets are unavailable: no pool factory is configured",
+    ProtocolIsPaused: "The protocol is paused. Please try again later",
+    RiskValidatorNotSet: "House bets are unavailable: no risk validator is configured",
+    YieldVaultNotSet: "Bets are unavailable: no yield vault is configured",
+
+    // CDOPool
+    BelowMinDeposit: "The amount is below the pool's minimum deposit",
+    BetRiskValidationFailed: "The pool's risk checks rejected this bet",
+    DepositsDisabled: "Deposits to this pool are currently disabled",
+    InvalidAmount: "Enter a valid amount",
+    InvalidLockPeriod: "Invalid lock period",
+    InvalidTier: "Invalid lock tier",
+    PoolCapReached: "This pool has reached its deposit cap",
+    PositionLocked: "This position is still locked",
+    PositionNotFound: "Position not found",
+    WithdrawalsDisabled: "Withdrawals from this pool are currently disabled",
+
+    // BetRiskValidator
+    BetDurationTooLong: "The bet runs longer than the house allows",
+    BetDurationTooShort: "The bet is shorter than the house allows",
+    BetIsBlacklisted: "This bet has been blocked by the house",
+    CategoryNotEnabled: "The house does not take bets in this category",
+    PoolUtilizationTooHigh: "The pool is too heavily used to take this bet right now",
+    PriceProximityTooClose: "The target price is too close to the current price for this duration",
+    RiskScoreTooLow: "The bet's risk score is below the house minimum",
+    StakeAmountTooHigh: "The stake is above the house maximum",
+    StakeAmountTooLow: "The stake is below the house minimum",
+
+    // JudgeRegistry
+    InsufficientReputation: "Your judge reputation is too low",
+    InsufficientStake: "The stake is below the judge minimum",
+    JudgeAlreadyRegistered: "You are already registered as a judge",
+    JudgeNotActive: "This judge is not active",
+    JudgeNotRegistered: "You are not registered as a judge",
+    NoStakeToWithdraw: "There is no stake to withdraw",
+    WithdrawalLockActive: "Your stake is still in the withdrawal lock period",
+    WithdrawalNotRequested: "Request a withdrawal first",
+
+    // DisputeManager
+    AlreadyVoted: "You have already voted on this dispute",
+    CannotAppeal: "This dispute cannot be appealed any further",
+    DisputeAlreadyResolved: "This dispute has already been resolved",
+    DisputeNotActive: "This dispute is no longer open",
+    DisputeNotFound: "Dispute not found",
+    InsufficientVotes: "Not enough votes have been cast to resolve this dispute",
+    NotAssignedJudge: "You are not a judge on this dispute",
+    VotingPeriodExpired: "The voting period has ended",
+    VotingPeriodNotExpired: "The voting period has not ended yet",
+
+    // BetYieldVault
+    BetAlreadyWithdrawn: "This bet's funds have already been withdrawn from the vault",
+    BetNotFound: "Bet not found",
+    InsufficientYield: "Not enough yield has accrued",
+    InvalidFeePercentage: "Invalid fee percentage",
+    InvalidFeeReceiver: "Invalid fee receiver",
+    InvalidStrategy: "Invalid yield strategy",
+
+    // UsernameRegistry
+    InvalidENSNode: "Invalid ENS name",
+    InvalidUsername: "Usernames are 3-32 letters, numbers or underscores",
+    NoUsernameRegistered: "Register a username first",
+    UserAlreadyRegistered: "You already have a username",
+    UsernameNotFound: "Username not found",
+    UsernameTaken: "That username is taken",
+
+    // OpenZeppelin
+    OwnableInvalidOwner: ({ owner }) => `${owner} cannot be the owner`,
+    OwnableUnauthorizedAccount: "Only the contract owner can do this",
+    ReentrancyGuardReentrantCall: "The call re-entered the contract and was blocked",
+  },
+  rejected: "Transaction rejected in wallet",
+  noReason: "Transaction reverted without a reason",
+  failed: "Transaction failed",
+  unknownError: (selector) => `Reverted with custom error ${selector}`,
+}
@@ -0,0 +1,102 @@
+import type { TransactionMessages } from "../errors"
+
+export const es: TransactionMessages = {
+  errors: {
+    // Bet
+    AlreadyFunded: "Ya has depositado tu apuesta",
+    BetAlreadyAccepted: "Esta apuesta ya fue aceptada",
+    BetExpired: "Esta apuesta ha vencido",
+    BetNotActive: "Esta apuesta no está activa",
+    BetNotExpired: "Esta apuesta todavía no ha vencido",
+    CannotDeclareAsWinner: "No puedes declararte ganador de esta apuesta",
+    DisputeWindowActive: "El plazo de disputa sigue abierto",
+    DisputeWindowExpired: "El plazo de disputa ha terminado",
+    InvalidDuration: "La duración de la apuesta está fuera del rango permitido",
+    InvalidOpponent: "Elige un oponente distinto de ti",
+    InvalidStakeAmount: "El monto apostado no está permitido",
+    InvalidState: "La apuesta no está en el estado adecuado para esta acción",
+    NotBothFunded: "Ambas partes ya depositaron, la apuesta ya no se puede cancelar",
+    NotParticipant: "Solo el creador o el oponente pueden hacer esto",
+    SafeERC20FailedOperation: "La transferencia de USDC falló. Revisa tu saldo y la aprobación",
+    Unauthorized: "No tienes permiso para hacer esto",
+
+    // BetFactory
+    CDOPoolNotSet: "Las apuestas contra la casa no están disponibles: no hay pool de liquidez configurado",
+    HouseBetRejectedByRiskValidator: ({ reason }) => `La casa rechazó esta apuesta: ${reason}`,
+    InsufficientPoolLiquidity: "El pool no tiene liquidez suficiente para cubrir esta apuesta",
+    NoPoolForCategory: "Ningún pool de liquidez cubre esta categoría",
+    PoolFactoryNotSet: "Las apuestas contra la casa no están disponibles: no hay fábrica de pools configurada",
+    ProtocolIsPaused: "El protocolo está en pausa. Inténtalo más tarde",
+    RiskValidatorNotSet: "Las apuestas contra la casa no están disponibles: no hay validador de riesgo configurado",
+    YieldVaultNotSet: "Las apuestas no están disponibles: no hay bóveda de rendimiento configurada",
+
+    // CDOPool
+    BelowMinDeposit: "El monto es inferior al depósito mínimo del pool",
+    BetRiskValidationFailed: "Los controles de riesgo del pool rechazaron esta apuesta",
+    DepositsDisabled: "Los depósitos en este pool están desactivados",
+    InvalidAmount: "Introduce un monto válido",
+    InvalidLockPeriod: "Periodo de bloqueo no válido",
+    InvalidTier: "Nivel de bloqueo no válido",
+    PoolCapReached: "Este pool alcanzó su límite de depósitos",
+    PositionLocked: "Esta posición sigue bloqueada",
+    PositionNotFound: "Posición no encontrada",
+    WithdrawalsDisabled: "Los retiros de este pool están desactivados",
+
+    // BetRiskValidator
+    BetDurationTooLong: "La apuesta dura más de lo que la casa permite",
+    BetDurationTooShort: "La apuesta dura menos de lo que la casa permite",
+    BetIsBlacklisted: "La casa bloqueó esta apuesta",
+    CategoryNotEnabled: "La casa no acepta apuestas en esta categoría",
+    PoolUtilizationTooHigh: "El pool está demasiado utilizado para aceptar esta apuesta ahora",
+    PriceProximityTooClose: "El precio objetivo está demasiado cerca del precio actual para esta duración",
+    RiskScoreTooLow: "La puntuación de riesgo de la apuesta está por debajo del mínimo de la casa",
+    StakeAmountTooHigh: "El monto supera el máximo de la casa",
+    StakeAmountTooLow: "El monto está por debajo del mínimo de la casa",
+
+    // JudgeRegistry
+    InsufficientReputation: "Tu reputación como juez es demasiado baja",
+    InsufficientStake: "El depósito está por debajo del mínimo para jueces",
+    JudgeAlreadyRegistered: "Ya estás registrado como juez",
+    JudgeNotActive: "Este juez no está activo",
+    JudgeNotRegistered: "No estás registrado como juez",
+    NoStakeToWithdraw: "No hay depósito que retirar",
+    WithdrawalLockActive: "Tu depósito sigue en el periodo de bloqueo de retiro",
+    WithdrawalNotRequested: "Primero solicita el retiro",
+
+    // DisputeManager
+    AlreadyVoted: "Ya votaste en esta disputa",
+    CannotAppeal: "Esta disputa ya no se puede apelar",
+    DisputeAlreadyResolved: "Esta disputa ya fue resuelta",
+    DisputeNotActive: "Esta disputa ya no está abierta",
+    DisputeNotFound: "Disputa no encontrada",
+    InsufficientVotes: "No hay votos suficientes para resolver esta disputa",
+    NotAssignedJudge: "No eres juez de esta disputa",
+    VotingPeriodExpired: "El periodo de votación terminó",
+    VotingPeriodNotExpired: "El periodo de votación todavía no termina",
+
+    // BetYieldVault
+    BetAlreadyWithdrawn: "Los fondos de esta apuesta ya se retiraron de la bóveda",
+    BetNotFound: "Apuesta no encontrada",
+    InsufficientYield: "No se ha generado rendimiento suficiente",
+    InvalidFeePercentage: "Porcentaje de comisión no válido",
+    InvalidFeeReceiver: "Receptor de comisiones no válido",
+    InvalidStrategy: "Estrategia de rendimiento no válida",
+
+    // UsernameRegistry
+    InvalidENSNode: "Nombre ENS no válido",
+    InvalidUsername: "Los nombres de usuario tienen de 3 a 32 letras, números o guiones bajos",
+    NoUsernameRegistered: "Primero registra un nombre de usuario",
+    UserAlreadyRegistered: "Ya tienes un nombre de usuario",
+    UsernameNotFound: "Nombre de usuario no encontrado",
+    UsernameTaken: "Ese nombre de usuario ya está en uso",
+
+    // OpenZeppelin
+    OwnableInvalidOwner: ({ owner }) => `${owner} no puede ser el propietario`,
+    OwnableUnauthorizedAccount: "Solo el propietario del contrato puede hacer esto",
+    ReentrancyGuardReentrantCall: "La llamada volvió a entrar al contrato y fue bloqueada",
+  },
+  rejected: "Transacción rechazada en la billetera",
+  noReason: "La transacción revirtió sin motivo",
+  failed: "La transacción falló",
+  unknownError: (selector) => `Revirtió con el error personalizado ${selector}`,
+}
@@ -0,0 +1,115 @@
+import { decodeErrorResult, numberToHex, parseAbi, type Hex } from "viem"
+import type { Chain } from "thirdweb"
+import { eth_call, eth_getTransactionByHash, getRpcClient } from "thirdweb/rpc"
+import { client } from "@/lib/thirdweb"
+import { decodeProtocolError, formatProtocolError, getTransactionMessages, TransactionError } from "./errors"
+
+const STANDARD_ERRORS = parseAbi(["error Error(string reason)", "error Panic(uint256 code)"])
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "Assertion failed",
+  0x11: "Arithmetic overflow or underflow",
+  0x12: "Division by zero",
+  0x21: "Invalid enum value",
+  0x31: "Pop on an empty array",
+  0x32: "Array index out of bounds",
+  0x41: "Out of memory",
+  0x51: "Call to an uninitialized function",
+}
+
+/**
+ * Turn revert data into a readable error: require messages and panics are decoded, protocol
+ * custom errors get their localized message, anything else is reported by selector
+ */
+export function decodeRevertData(data: Hex, cause?: unknown): TransactionError {
+  const messages = getTransactionMessages()
+  if (data === "0x") return new TransactionError(messages.noReason, null, { cause })
+
+  const protocolError = decodeProtocolError(data)
+  if (protocolError) return new TransactionError(formatProtocolError(protocolError), protocolError, { cause })
+
+  try {
+    const decoded = decodeErrorResult({ abi: STANDARD_ERRORS, data })
+    if (decoded.errorName === "Error") return new TransactionError(decoded.args[0], null, { cause })
+    const code = Number(decoded.args[0])
+    return new TransactionError(`Panic: ${PANIC_REASONS[code] || `code 0x${code.toString(16)}`}`, null, { cause })
+  } catch {
+    return new TransactionError(messages.unknownError(data.slice(0, 10)), null, { cause })
+  }
+}
+
+/**
+ * A string property of a caught value, if it has one
+ */
+function stringField(value: unknown, key: "message" | "shortMessage"): string | undefined {
+  if (typeof value !== "object" || value === null || !(key in value)) return undefined
+  const field: unknown = Reflect.get(value, key)
+  return typeof field === "string" ? field : undefined
+}
+
+/**
+ * Find revert data in a wallet/RPC error. Checks the error chain for a `data` field first, then
+ * falls back to hex in the message whose length fits a selector plus ABI words (so addresses and
+ * hashes are skipped).
+ */
+export function extractRevertData(error: unknown): Hex | null {
+  let current = error
+  for (let depth = 0; typeof current === "object" && current !== null && depth < 8; depth++) {
+    const data = "data" in current ? current.data : undefined
+    const nested = typeof data === "object" && data !== null && "data" in data ? data.data : data
+    if (typeof nested === "string" && /^0x([0-9a-fA-F]{8})?([0-9a-fA-F]{64})*$/.test(nested)) return nested as Hex
+    current = "cause" in current ? current.cause : undefined
+  }
+
+  const message = stringField(error, "message") || ""
+  const match = message.match(/0x[0-9a-fA-F]+/g)?.find((hex) => hex.length >= 10 && (hex.length - 10) % 64 === 0)
+  return (match as Hex) || null
+}
+
+/**
+ * Wrap a failed send in a TransactionError carrying the best human-readable reason
+ */
+export function toTransactionError(error: unknown): TransactionError {
+  if (error instanceof TransactionError) return error
+
+  const messages = getTransactionMessages()
+  const message = stringField(error, "shortMessage") || stringField(error, "message") || String(error || "")
+
+  if (/user rejected|user denied|rejected the request/i.test(message)) {
+    return new TransactionError(messages.rejected, null, { cause: error })
+  }
+
+  const data = extractRevertData(error)
+  if (data) return decodeRevertData(data, error)
+
+  const reason = message.replace(/^TransactionError:\s*/, "").split("\n")[0] || messages.failed
+  return new TransactionError(reason, null, { cause: error })
+}
+
+/**
+ * Why a mined transaction reverted, found by replaying it against the state before its block.
+ * Returns null when the replay doesn't reproduce the revert.
+ */
+export async function fetchReceiptRevertError(
+  chain: Chain,
+  hash: Hex,
+  blockNumber: bigint
+): Promise<TransactionError | null> {
+  const rpcRequest = getRpcClient({ client, chain })
+
+  try {
+    const transaction = await eth_getTransactionByHash(rpcRequest, { hash })
+    await eth_call(rpcRequest, {
+      from: transaction.from,
+      to: transaction.to || undefined,
+      data: transaction.input,
+      value: numberToHex(transaction.value),
+      gas: numberToHex(transaction.gas),
+      blockNumber: blockNumber - BigInt(1),
+    })
+    return null
+  } catch (error) {
+    const data = extractRevertData(error)
+    return data ? decodeRevertData(data, error) : null
+  }
+}
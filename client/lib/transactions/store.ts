@@ -0,0 +1,77 @@
+import type { Hex } from "viem"
+
+/**
+ * Transactions sent from this browser, persisted so pending ones survive a reload
+ * and can be picked up again once their receipt lands.
+ */
+
+export type TrackedTransactionStatus = "pending" | "confirmed" | "failed"
+
+export interface TrackedTransaction {
+  hash: Hex
+  chainId: number
+  account: string
+  label: string // e.g. "Accept bet"
+  status: TrackedTransactionStatus
+  error?: string // decoded revert reason for failed transactions
+  invalidate: (string | number)[][] // react-query key prefixes to refresh once mined
+  submittedAt: number
+  settledAt?: number
+}
+
+const STORAGE_KEY = "just-a-bet:transactions"
+const MAX_TRANSACTIONS = 50
+const EMPTY: TrackedTransaction[] = []
+
+let transactions: TrackedTransaction[] | null = null
+const listeners = new Set<() => void>()
+
+function load(): TrackedTransaction[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "[]")
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+function commit(next: TrackedTransaction[]) {
+  transactions = next.slice(0, MAX_TRANSACTIONS)
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions))
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * All tracked transactions, newest first
+ */
+export function getTransactions(): TrackedTransaction[] {
+  if (transactions === null) transactions = load()
+  return transactions
+}
+
+export function getServerTransactions(): TrackedTransaction[] {
+  return EMPTY
+}
+
+export function subscribeTransactions(listener: () => void) {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function addTransaction(transaction: TrackedTransaction) {
+  commit([transaction, ...getTransactions().filter((t) => t.hash !== transaction.hash)])
+}
+
+export function updateTransaction(hash: Hex, update: Partial<Pick<TrackedTransaction, "status" | "error" | "settledAt">>) {
+  commit(getTransactions().map((t) => (t.hash === hash ? { ...t, ...update } : t)))
+}
+
+/**
+ * Drop confirmed and failed transactions of an account, keeping the pending ones
+ */
+export function clearSettledTransactions(account: string) {
+  const owner = account.toLowerCase()
+  commit(getTransactions().filter((t) => t.account.toLowerCase() !== owner || t.status === "pending"))
+}
@@ -0,0 +1,14 @@
+import { toast } from "sonner"
+import { toTransactionError } from "./revert"
+
+/**
+ * Report a failed transaction: the action as the title, the decoded reason underneath.
+ * Pass the loading toast's id to replace it.
+ */
+export function toastTransactionError(
+  title: string,
+  error: unknown,
+  options?: { id?: string | number; duration?: number }
+) {
+  toast.error(title, { ...options, description: toTransactionError(error).message })
+}
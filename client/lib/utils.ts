@@ -59,3 +59,10 @@ export function formatDuration(seconds: number): string {
 export function formatAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`
 }
+
+/**
+ * Whether a caught value is a Node.js system error with the given code (e.g. "ENOENT")
+ */
+export function isErrorCode(error: unknown, code: string): boolean {
+  return error instanceof Error && "code" in error && error.code === code
+}
@@ -5,6 +5,19 @@ function formatUSDC(amount: bigint): number {
   return Number(amount) / 1_000_000
 }
 
+// Bet.HOUSE_ADDRESS - opponent of house bets matched by a CDO pool ("House" in hex)
+export const HOUSE_ADDRESS = "0x000000000000000000000000000000486F757365"
+
+/**
+ * Check if an opponent address represents the house
+ * (legacy bets used the zero address)
+ */
+export function isHouseAddress(address?: string): boolean {
+  if (!address) return false
+  const normalized = address.toLowerCase()
+  return normalized === HOUSE_ADDRESS.toLowerCase() || normalized === "0x0000000000000000000000000000000000000000"
+}
+
 export type BetStatus = "pending" | "active" | "awaiting_resolution" | "in_dispute" | "completed" | "cancelled"
 export type BetOutcome = "pending" | "creator_wins" | "opponent_wins" | "draw"
 
@@ -133,7 +146,7 @@ export function transformBetData(contractData: {
   tags: string[]
 }): UIBet {
   const duration = Number(contractData.expiresAt - contractData.createdAt)
-  const isHouseBet = contractData.opponent === "0x0000000000000000000000000000000000000000"
+  const isHouseBet = isHouseAddress(contractData.opponent)
 
   return {
     id: contractData.address,
@@ -241,43 +254,3 @@ export function getTimeRemaining(expiresAt: number): {
     formatted,
   }
 }
-
-/**
- * Parse contract error to user-friendly message
- */
-export function parseContractError(error: Error): string {
-  const message = error.message || ""
-
-  if (message.includes("InsufficientAllowance")) {
-    return "Please approve USDC spending first"
-  }
-  if (message.includes("InsufficientBalance")) {
-    return "Insufficient USDC balance"
-  }
-  if (message.includes("BetNotFound")) {
-    return "Bet not found"
-  }
-  if (message.includes("NotCreator")) {
-    return "Only the creator can perform this action"
-  }
-  if (message.includes("NotOpponent")) {
-    return "Only the opponent can perform this action"
-  }
-  if (message.includes("BetExpired")) {
-    return "This bet has expired"
-  }
-  if (message.includes("BetNotActive")) {
-    return "This bet is not active"
-  }
-  if (message.includes("AlreadyFunded")) {
-    return "You have already funded your stake"
-  }
-  if (message.includes("InvalidState")) {
-    return "Invalid bet state for this action"
-  }
-  if (message.includes("user rejected")) {
-    return "Transaction was rejected"
-  }
-
-  return "Transaction failed. Please try again."
-}
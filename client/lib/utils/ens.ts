@@ -0,0 +1,45 @@
+import { isAddress, type Hex } from "viem"
+import { namehash, normalize } from "viem/ens"
+import { resolveAddress } from "thirdweb/extensions/ens"
+import { client } from "@/lib/thirdweb"
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+/**
+ * Whether an identifier looks like an ENS name rather than a username or address
+ */
+export function isEnsName(identifier: string): boolean {
+  return identifier.includes(".") && !isAddress(identifier)
+}
+
+/**
+ * Normalize an ENS name (UTS-46), or null when it isn't a valid name
+ */
+export function normalizeEnsName(name: string): string | null {
+  if (!isEnsName(name)) return null
+  try {
+    return normalize(name)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * ENS node hash (EIP-137 namehash) of a name, or null when the name is invalid
+ */
+export function getEnsNode(name: string): Hex | null {
+  const normalized = normalizeEnsName(name)
+  return normalized ? namehash(normalized) : null
+}
+
+/**
+ * Address the name's ENS resolver points to on Ethereum mainnet, or null when it has none
+ */
+export async function resolveEnsAddress(name: string): Promise<string | null> {
+  try {
+    const address = await resolveAddress({ client, name })
+    return address && address !== ZERO_ADDRESS ? address : null
+  } catch {
+    return null
+  }
+}
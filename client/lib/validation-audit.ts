@@ -0,0 +1,77 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises"
+import path from "node:path"
+import type { ValidationAuditRecord } from "./ai-validation"
+import { isErrorCode } from "./utils"
+
+/**
+ * Append-only audit log of AI verdicts (one JSON record per line).
+ * Server only. Doubles as the validation cache: an identical bet assessed with the
+ * same prompt version and model reuses its previous verdict instead of re-calling the LLM.
+ */
+const AUDIT_LOG_PATH = process.env.AI_AUDIT_LOG_PATH || path.join(process.cwd(), ".data", "ai-validation-audit.jsonl")
+
+let records: ValidationAuditRecord[] | null = null
+
+async function loadRecords(): Promise<ValidationAuditRecord[]> {
+  if (records) return records
+
+  try {
+    const contents = await readFile(AUDIT_LOG_PATH, "utf8")
+    records = contents
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as ValidationAuditRecord)
+  } catch (error: unknown) {
+    if (!isErrorCode(error, "ENOENT")) throw error
+    records = []
+  }
+
+  return records
+}
+
+/**
+ * Find a previous verdict for identical content, prompt version and model
+ * @param maxAgeSeconds Ignore older verdicts (used for price bets, whose market context goes stale)
+ */
+export async function getCachedValidation(
+  contentHash: string,
+  promptVersion: string,
+  model: string,
+  maxAgeSeconds?: number
+): Promise<ValidationAuditRecord | null> {
+  const all = await loadRecords()
+  const minCreatedAt = maxAgeSeconds !== undefined ? Math.floor(Date.now() / 1000) - maxAgeSeconds : 0
+
+  for (let i = all.length - 1; i >= 0; i--) {
+    const record = all[i]
+    if (
+      record.contentHash === contentHash &&
+      record.promptVersion === promptVersion &&
+      record.model === model &&
+      record.createdAt >= minCreatedAt
+    ) {
+      return record
+    }
+  }
+
+  return null
+}
+
+/**
+ * Persist a new verdict
+ */
+export async function recordValidation(record: ValidationAuditRecord): Promise<void> {
+  const all = await loadRecords()
+
+  await mkdir(path.dirname(AUDIT_LOG_PATH), { recursive: true })
+  await appendFile(AUDIT_LOG_PATH, JSON.stringify(record) + "\n", "utf8")
+  all.push(record)
+}
+
+/**
+ * All verdicts recorded for a bet, newest first
+ */
+export async function getValidationAudit(betKey: string): Promise<ValidationAuditRecord[]> {
+  const all = await loadRecords()
+  return all.filter((record) => record.betKey === betKey).reverse()
+}
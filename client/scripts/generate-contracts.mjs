@@ -0,0 +1,68 @@
+/**
+ * Generate the typed contract layer from the Foundry build artifacts.
+ *
+ * Usage:
+ *   (cd ../contracts && forge build)
+ *   npm run contracts:generate
+ *
+ * Reads contracts/out/<Name>.sol/<Name>.json for every contract below and writes
+ * lib/contracts/generated/<Name>.ts (the ABI `as const`) plus an index with the typed
+ * read/write wrappers (see lib/contracts/typed.ts). Point CONTRACTS_OUT at another
+ * artifacts directory to generate from elsewhere.
+ */
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs"
+import { dirname, join, resolve } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const CONTRACTS = [
+  "Bet",
+  "BetFactory",
+  "CDOPool",
+  "JudgeRegistry",
+  "DisputeManager",
+  "BetYieldVault",
+  "BetRiskValidator",
+  "UsernameRegistry",
+  "ERC20", // OpenZeppelin, for USDC and the CDO share tokens
+]
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..")
+const artifactsDir = resolve(root, process.env.CONTRACTS_OUT || "../contracts/out")
+const outputDir = join(root, "lib/contracts/generated")
+
+const HEADER = "// Generated by scripts/generate-contracts.mjs from the Foundry artifacts - do not edit\n"
+
+function camelName(name) {
+  return name.replace(/^[A-Z]+(?=[A-Z][a-z]|\d|$)|^[A-Z]/, (prefix) => prefix.toLowerCase())
+}
+
+function readAbi(name) {
+  const path = join(artifactsDir, `${name}.sol`, `${name}.json`)
+  if (!existsSync(path)) {
+    throw new Error(`Missing artifact ${path} - run \`forge build\` in contracts/ first`)
+  }
+  const artifact = JSON.parse(readFileSync(path, "utf8"))
+  return Array.isArray(artifact) ? artifact : artifact.abi
+}
+
+mkdirSync(outputDir, { recursive: true })
+
+for (const name of CONTRACTS) {
+  const abi = readAbi(name)
+  const source = `${HEADER}\nexport const ${camelName(name)}Abi = ${JSON.stringify(abi, null, 2)} as const\n`
+  writeFileSync(join(outputDir, `${name}.ts`), source)
+  console.log(`${name}: ${abi.filter((item) => item.type === "function").length} functions`)
+}
+
+const index = [
+  HEADER,
+  `import { defineContract } from "../typed"`,
+  ...CONTRACTS.map((name) => `import { ${camelName(name)}Abi } from "./${name}"`),
+  "",
+  `export { ${CONTRACTS.map((name) => `${camelName(name)}Abi`).join(", ")} }`,
+  "",
+  ...CONTRACTS.map((name) => `export const ${name} = defineContract(${camelName(name)}Abi)`),
+  "",
+].join("\n")
+writeFileSync(join(outputDir, "index.ts"), index)
+console.log(`Wrote ${CONTRACTS.length} contracts to ${outputDir}`)
@@ -0,0 +1,62 @@
+/**
+ * Local stub LLM for exercising /api/validate-bet without a Groq key.
+ *
+ * Usage:
+ *   npm run stub-llm
+ *   GROQ_BASE_URL=http://localhost:8787 GROQ_API_KEY=stub npm run dev
+ *   # or via the OpenAI-compatible provider
+ *   RISK_ASSESSMENT_PROVIDER=openai-compatible LLM_BASE_URL=http://localhost:8787/v1 LLM_MODEL=stub npm run dev
+ *
+ * Responds to OpenAI-compatible chat completion requests with a canned
+ * risk assessment. Override the verdict with STUB_LLM_RESPONSE (JSON string).
+ */
+import { createServer } from "node:http"
+
+const PORT = Number(process.env.STUB_LLM_PORT || 8787)
+
+const defaultResult = {
+  isValid: true,
+  riskScore: 80,
+  recommendedPool: "Sports Pool - NBA",
+  confidence: 90,
+  reasoning: "Stub LLM response. Objective outcome with fair odds for the house.",
+  warnings: [],
+}
+
+const result = process.env.STUB_LLM_RESPONSE ? JSON.parse(process.env.STUB_LLM_RESPONSE) : defaultResult
+
+const server = createServer((req, res) => {
+  if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+    res.writeHead(404, { "Content-Type": "application/json" })
+    res.end(JSON.stringify({ error: "Not found" }))
+    return
+  }
+
+  let body = ""
+  req.on("data", (chunk) => (body += chunk))
+  req.on("end", () => {
+    const request = body ? JSON.parse(body) : {}
+
+    res.writeHead(200, { "Content-Type": "application/json" })
+    res.end(
+      JSON.stringify({
+        id: `stub-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model: request.model || "stub",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: JSON.stringify(result) },
+            finish_reason: "stop",
+          },
+        ],
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+      })
+    )
+  })
+})
+
+server.listen(PORT, () => {
+  console.log(`Stub LLM listening on http://localhost:${PORT}`)
+})